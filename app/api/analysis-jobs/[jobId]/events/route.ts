@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisJob, subscribeAnalysisJob } from '@/utils/analysisJobStore';
+import { readJobOwner } from '@/utils/analysisJobOwner';
+import { AnalysisJob, AnalysisStreamEvent, ANALYSIS_STREAM_CONTENT_TYPE, formatStreamEvent } from '@/utils/analysisStream';
+
+export const maxDuration = 600; // 10 minutes timeout（切れてもクライアントが再接続する）
+
+// 待機中など、しばらくイベントが無い間も接続を保つためのコメント行の間隔
+const KEEPALIVE_MS = 15000;
+
+/** 終わったジョブの最後のイベント（まだ終わっていなければ null） */
+function finalEvent(job: AnalysisJob): AnalysisStreamEvent | null {
+    if (job.status === 'completed' && job.result) return { type: 'result', ...job.result };
+    if (job.status === 'failed') return { type: 'error', ...(job.error ?? { message: '動画の解析に失敗しました。', status: 500 }) };
+    if (job.status === 'cancelled') return { type: 'cancelled' };
+    return null;
+}
+
+/**
+ * ジョブの進捗を Server-Sent Events で流す。
+ * 接続時に直近の進捗（終わっていれば結果）を送るので、再読み込みや再接続の後も続きから表示できる。
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { jobId: string } }
+) {
+    const ownerId = readJobOwner(request);
+    const job = await getAnalysisJob(params.jobId, ownerId);
+    if (!job) {
+        return NextResponse.json({ error: '解析ジョブが見つかりません。期限切れで削除された可能性があります。' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => { };
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            let unsubscribe: (() => void) | null = null;
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(keepalive);
+                unsubscribe?.();
+                try { controller.close(); } catch { }
+            };
+            const write = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    close();
+                }
+            };
+            const send = (event: AnalysisStreamEvent) => {
+                write(formatStreamEvent(event));
+                if (event.type === 'result' || event.type === 'error' || event.type === 'cancelled') close();
+            };
+            const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_MS);
+            cleanup = close;
+            request.signal.addEventListener('abort', close, { once: true });
+
+            const done = finalEvent(job);
+            if (done) {
+                send(done);
+                return;
+            }
+            unsubscribe = await subscribeAnalysisJob(job.id, ownerId, send);
+            if (!unsubscribe) {
+                send({ type: 'cancelled' }); // 購読までの間に削除された
+                return;
+            }
+            // 購読までの間に終わっていた場合に備えて、もう一度状態を見る
+            const current = finalEvent(job);
+            if (current) send(current);
+            else if (job.progress) send(job.progress);
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': ANALYSIS_STREAM_CONTENT_TYPE,
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
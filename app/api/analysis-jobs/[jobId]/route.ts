@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAnalysisJob, getAnalysisJob } from '@/utils/analysisJobStore';
+import { readJobOwner } from '@/utils/analysisJobOwner';
+
+// ほかのブラウザのジョブは、存在を明かさないよう見つからない扱いにする
+
+/** ジョブの状態（完了していれば結果の手順・注意事項を含む） */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { jobId: string } }
+) {
+    const job = await getAnalysisJob(params.jobId, readJobOwner(request));
+    if (!job) {
+        return NextResponse.json({ error: '解析ジョブが見つかりません。期限切れで削除された可能性があります。' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+}
+
+/** ジョブを削除する（待機中・実行中なら解析をキャンセルしてから削除） */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { jobId: string } }
+) {
+    const deleted = await deleteAnalysisJob(params.jobId, readJobOwner(request));
+    if (!deleted) {
+        return NextResponse.json({ error: '解析ジョブが見つかりません。' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIProvider } from '@/utils/ai/provider';
+import { createAnalysisJob, listAnalysisJobs } from '@/utils/analysisJobStore';
+import { ensureJobOwner, readJobOwner, setJobOwnerCookie } from '@/utils/analysisJobOwner';
+import { normalizeOutputLanguage } from '@/utils/outputLanguage';
+import { normalizePromptProfileSettings } from '@/utils/promptProfiles';
+
+// 一覧は毎回ストアから読む（ビルド時に固定しない）
+export const dynamic = 'force-dynamic';
+
+/** 元動画の保存先ID（ブラウザ側で採番した文字列をそのまま持つだけ） */
+const sourceVideoId = (value: FormDataEntryValue | null): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : undefined;
+
+/** 一覧に表示する生成スタイルの名前（設定と一緒に送られてくる） */
+const profileName = (profile: unknown): string | undefined => {
+    const name = profile && typeof profile === 'object' ? (profile as { name?: unknown }).name : undefined;
+    return typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : undefined;
+};
+
+/** このブラウザが登録した実行中・終了済みのジョブ一覧（結果の手順は含めない） */
+export async function GET(request: NextRequest) {
+    return NextResponse.json({ jobs: await listAnalysisJobs(readJobOwner(request)) });
+}
+
+/**
+ * 動画を受け取って解析ジョブを登録し、すぐにジョブを返す。
+ * 長い動画は区間ごとのプロキシを video として複数送り、segmentStart / segmentEnd（秒）を同じ順に添える。
+ * profile は生成スタイル（utils/promptProfiles.ts）の JSON、sourceVideoId はブラウザに保存した元動画のID（一覧からの取り込み用）。
+ * 進捗は /api/analysis-jobs/[jobId]/events、結果は /api/analysis-jobs/[jobId] から取得する（どちらも登録したブラウザからのみ）。
+ */
+export async function POST(request: NextRequest) {
+    // プロバイダーの設定不足はジョブにせず、その場で返す
+    try {
+        getAIProvider();
+    } catch (e) {
+        return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+    }
+
+    let files: File[];
+    let starts: number[];
+    let ends: number[];
+    let fileName: string | null;
+    let language: string | null;
+    let profile: unknown;
+    let videoId: string | undefined;
+    try {
+        const formData = await request.formData();
+        files = formData.getAll('video').filter((value): value is File => value instanceof File);
+        starts = formData.getAll('segmentStart').map(Number);
+        ends = formData.getAll('segmentEnd').map(Number);
+        fileName = formData.get('fileName') as string | null;
+        language = formData.get('language') as string | null;
+        const rawProfile = formData.get('profile');
+        profile = typeof rawProfile === 'string' ? JSON.parse(rawProfile) : undefined;
+        videoId = sourceVideoId(formData.get('sourceVideoId'));
+    } catch {
+        return NextResponse.json({ error: '動画を受け取れませんでした。もう一度お試しください。' }, { status: 400 });
+    }
+
+    if (files.length === 0) {
+        return NextResponse.json({ error: '動画ファイルが見つかりません。' }, { status: 400 });
+    }
+    // 区間に分けて送る場合は、動画ごとに元動画での開始・終了時刻が必要
+    const segmented = files.length > 1;
+    if (segmented && (starts.length !== files.length || ends.length !== files.length
+        || starts.some((start, i) => !Number.isFinite(start) || !Number.isFinite(ends[i]) || ends[i] <= start))) {
+        return NextResponse.json({ error: '動画の区間の指定が正しくありません。' }, { status: 400 });
+    }
+
+    const { ownerId, isNew } = ensureJobOwner(request);
+    const job = await createAnalysisJob({
+        segments: await Promise.all(files.map(async (file, i) => ({
+            buffer: Buffer.from(await file.arrayBuffer()),
+            mimeType: file.type,
+            startSeconds: segmented ? starts[i] : 0,
+            endSeconds: segmented ? ends[i] : (Number.isFinite(ends[0]) ? ends[0] : 0),
+        }))),
+        fileName: fileName || files[0].name,
+        language: normalizeOutputLanguage(language),
+        profile: normalizePromptProfileSettings(profile),
+    }, ownerId, { profileName: profileName(profile), sourceVideoId: videoId });
+    const response = NextResponse.json({ job }, { status: 202 });
+    return isNew ? setJobOwnerCookie(response, ownerId) : response;
+}
@@ -1,20 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
-
-// Initialize Gemini client
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-const STAGE2_PROMPT = `
-この画像内で、ユーザーが操作した箇所（クリックした場所、入力フィールドなど）を検出してください。
-
-**The box_2d should be [ymin, xmin, ymax, xmax] normalized to 0-1000.**
-
-出力形式（JSON）:
-{
-  "box_2d": [ymin, xmin, ymax, xmax],
-  "label": "UI要素名（例: ボタン、リンク、入力フィールド）"
-}
-`;
+import { AIProvider, getAIProvider, isRateLimitError, parseAIJson } from '@/utils/ai/provider';
+import { buildCoordinatePrompt } from '@/utils/ai/prompts';
 
 // Hoisted RegExp patterns (js-hoist-regexp: compiled once at module level)
 const RE_CLICK = /をクリック(する|します)?/g;
@@ -29,17 +15,19 @@ const RE_BUTTON = /ボタン$/g;
 const RE_QUOTED = /[「『"'](.*?)[」』"']/;
 
 export async function POST(request: NextRequest) {
+    let provider: AIProvider;
     try {
-        // Check API key
-        if (!process.env.GEMINI_API_KEY) {
-            return NextResponse.json(
-                { error: 'GEMINI_API_KEY が設定されていません。' },
-                { status: 500 }
-            );
-        }
+        provider = getAIProvider();
+    } catch (e) {
+        return NextResponse.json(
+            { error: e instanceof Error ? e.message : String(e) },
+            { status: 500 }
+        );
+    }
 
+    try {
         const body = await request.json();
-        const { imageData, action } = body;
+        const { imageData, action, language } = body;
 
         if (!imageData) {
             return NextResponse.json(
@@ -79,28 +67,7 @@ export async function POST(request: NextRequest) {
         console.log('🔑 Extracted keyword:', keyword);
 
         // Create text-based prompt (find element containing specific text)
-        const prompt = action
-            ? `Find the UI element in this image that contains or displays: "${keyword}"
-
-This element is the target for the action: "${action}"
-
-Return the bounding box in box_2d format: [ymin, xmin, ymax, xmax]
-Coordinates MUST be normalized to 0-1000 scale.
-
-CRITICAL INSTRUCTIONS:
-1. Find the clickable element that contains "${keyword}" text
-2. Include a small padding around the element (about 5-10 units on each side)
-3. The box should be slightly LARGER than the text itself to include the full clickable area
-4. If it's a button or link, include the entire button/link area, not just the text
-5. ymin = top edge, ymax = bottom edge, xmin = left edge, xmax = right edge
-
-Output as JSON:
-{
-  "box_2d": [ymin, xmin, ymax, xmax],
-  "label": "detected element text"
-}
-`
-            : STAGE2_PROMPT;
+        const prompt = buildCoordinatePrompt(language, action, keyword);
 
         // Retry logic for rate limiting
         const maxRetries = 3;
@@ -115,26 +82,14 @@ Output as JSON:
                     await new Promise(resolve => setTimeout(resolve, delay));
                 }
 
-                // Send image to Gemini for coordinate detection
-                const apiResponse = await genAI.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: [{
-                        role: 'user',
-                        parts: [
-                            { inlineData: { mimeType: 'image/png', data: imageData } },
-                            { text: prompt }
-                        ]
-                    }],
-                    config: { responseMimeType: 'application/json' }
-                });
-
-                const responseText = apiResponse.text || '';
-                console.log('📦 Raw Gemini response:', responseText.substring(0, 500));
-
-                // Parse JSON response - Gemini returns an array of detected elements
+                // Send image to the AI provider for coordinate detection
+                const responseText = await provider.analyzeImage(imageData, 'image/png', prompt, { json: true });
+                console.log('📦 Raw AI response:', responseText.substring(0, 500));
+
+                // Parse JSON response - the model may return an array of detected elements
                 let coordData;
                 // Parse the response
-                const parsed = JSON.parse(responseText);
+                const parsed = parseAIJson(responseText);
                 console.log('📦 Parsed response type:', Array.isArray(parsed) ? 'array' : typeof parsed);
                 console.log('📦 Parsed response:', JSON.stringify(parsed, null, 2).substring(0, 500));
 
@@ -177,9 +132,8 @@ Output as JSON:
 
                 // Check if it's a rate limit error (429)
                 const errorMessage = error instanceof Error ? error.message : String(error);
-                const is429 = errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED');
 
-                if (is429 && attempt < maxRetries - 1) {
+                if (isRateLimitError(error) && attempt < maxRetries - 1) {
                     console.log(`⚠️ Rate limit hit, will retry...`);
                     continue; // Retry
                 }
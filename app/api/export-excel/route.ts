@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
 import ExcelJS from 'exceljs';
 import { ManualData } from '@/app/page';
+import { groupStepsBySection, normalizeSections } from '@/utils/sections';
+import { stepNumberLabel } from '@/utils/stepKind';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { manualStrings } from '@/utils/outputLanguage';
 
 export async function POST(req: Request) {
     try {
@@ -11,8 +16,9 @@ export async function POST(req: Request) {
             return NextResponse.json({ error: 'Manual data is required' }, { status: 400 });
         }
 
+        const strings = manualStrings(manual.language);
         const workbook = new ExcelJS.Workbook();
-        const worksheet = workbook.addWorksheet('チェックリスト');
+        const worksheet = workbook.addWorksheet(strings.checklist.sheet);
 
         // フォント設定 (Meiryo UI, 9pt)
         const baseStyle: Partial<ExcelJS.Font> = { name: 'Meiryo UI', size: 9 };
@@ -20,9 +26,9 @@ export async function POST(req: Request) {
         // 列の定義
         worksheet.columns = [
             { header: 'No.', key: 'no', width: 6 },
-            { header: '完了', key: 'check', width: 8 },
-            { header: '操作内容 (キャプション)', key: 'action', width: 35 },
-            { header: '詳細説明 / 作業メモ', key: 'detail', width: 45 },
+            { header: strings.checklist.done, key: 'check', width: 8 },
+            { header: strings.checklist.action, key: 'action', width: 35 },
+            { header: strings.checklist.detail, key: 'detail', width: 45 },
         ];
 
         // A4印刷設定
@@ -48,30 +54,84 @@ export async function POST(req: Request) {
             };
         });
 
-        // データの流し込み
-        manual.steps.forEach((step) => {
-            const row = worksheet.addRow({
-                no: step.stepNumber,
-                check: '', // チェック欄
-                action: step.action,
-                detail: step.detail || ''
-            });
+        // データの流し込み（セクションごとに見出し行を挟む）
+        const sectionRowNumbers: number[] = [];
+        const normalized = normalizeSections({ ...manual, sections: manual.sections ?? [] });
+        const sectionGroups = groupStepsBySection(normalized);
+        const resolveBranches = createBranchResolver(normalized);
+        sectionGroups.forEach(({ section, steps }) => {
+            const headingText = section.description ? `${section.title}　―　${section.description}` : section.title;
+            const sectionRow = worksheet.addRow([headingText]);
+            sectionRow.height = 24;
+            sectionRow.getCell(1).font = { ...baseStyle, size: 10, bold: true, color: { argb: 'FF1E1B4B' } };
+            sectionRow.getCell(1).alignment = { vertical: 'middle', horizontal: 'left', wrapText: true };
+            sectionRow.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E7FF' } }; // Indigo-100
+            sectionRowNumbers.push(sectionRow.number);
+
+            steps.forEach((step) => {
+                const row = worksheet.addRow({
+                    no: stepNumberLabel(step),
+                    check: '', // チェック欄
+                    action: step.action,
+                    // 条件分岐は詳細欄の末尾に「◆ 条件 → ステップ N へ」で追記する
+                    detail: [step.detail || '', ...resolveBranches(step).map(b => `◆ ${formatBranch(b, manual.language)}`)].filter(Boolean).join('\n')
+                });
 
-            // 各行のスタイル設定
-            row.height = 35;
-            row.eachCell((cell, colNumber) => {
-                cell.font = baseStyle;
-                cell.alignment = { vertical: 'middle', wrapText: true };
-                if (colNumber <= 2) {
-                    cell.alignment = { vertical: 'middle', horizontal: 'center' };
-                }
-                cell.border = {
-                    top: { style: 'thin' }, left: { style: 'thin' },
-                    bottom: { style: 'thin' }, right: { style: 'thin' }
-                };
+                // 各行のスタイル設定
+                row.height = 35;
+                row.eachCell((cell, colNumber) => {
+                    cell.font = baseStyle;
+                    cell.alignment = { vertical: 'middle', wrapText: true };
+                    if (colNumber <= 2) {
+                        cell.alignment = { vertical: 'middle', horizontal: 'center' };
+                    }
+                    cell.border = {
+                        top: { style: 'thin' }, left: { style: 'thin' },
+                        bottom: { style: 'thin' }, right: { style: 'thin' }
+                    };
+                });
+
+                // サブステップは「3-1」の番号で親の直下に1行ずつ
+                visibleSubSteps(step).forEach((sub, subIndex) => {
+                    const subRow = worksheet.addRow({
+                        no: subStepLabel(step, subIndex),
+                        check: '',
+                        action: `　${sub.action}`,
+                        detail: sub.detail || ''
+                    });
+                    subRow.height = 28;
+                    subRow.eachCell((cell, colNumber) => {
+                        cell.font = { ...baseStyle, color: { argb: 'FF334155' } };
+                        cell.alignment = colNumber <= 2 ? { vertical: 'middle', horizontal: 'center' } : { vertical: 'middle', wrapText: true };
+                        cell.border = {
+                            top: { style: 'hair' }, left: { style: 'thin' },
+                            bottom: { style: 'thin' }, right: { style: 'thin' }
+                        };
+                    });
+                });
             });
         });
 
+        // 注意事項（チェックリストの末尾に1件1行で追加）
+        const noteRowNumbers: number[] = [];
+        const notes = (manual.notes || []).filter(n => n.trim() !== '');
+        if (notes.length > 0) {
+            worksheet.addRow([]);
+            const notesHeadingRow = worksheet.addRow([strings.notes]);
+            notesHeadingRow.height = 24;
+            notesHeadingRow.getCell(1).font = { ...baseStyle, size: 10, bold: true, color: { argb: 'FF92400E' } };
+            notesHeadingRow.getCell(1).alignment = { vertical: 'middle', horizontal: 'left' };
+            notesHeadingRow.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFEF3C7' } }; // Amber-100
+            noteRowNumbers.push(notesHeadingRow.number);
+
+            notes.forEach(note => {
+                const noteRow = worksheet.addRow([`・${note}`]);
+                noteRow.getCell(1).font = baseStyle;
+                noteRow.getCell(1).alignment = { vertical: 'middle', wrapText: true };
+                noteRowNumbers.push(noteRow.number);
+            });
+        }
+
         // タイトル行の挿入（一番上）
         worksheet.insertRow(1, [manual.title]);
         worksheet.mergeCells('A1:D1');
@@ -80,6 +140,10 @@ export async function POST(req: Request) {
         titleCell.alignment = { vertical: 'middle', horizontal: 'left' };
         worksheet.getRow(1).height = 30;
 
+        // セクション見出し行は4列を結合（タイトル行の挿入で1行ずれる）
+        sectionRowNumbers.forEach(n => worksheet.mergeCells(`A${n + 1}:D${n + 1}`));
+        noteRowNumbers.forEach(n => worksheet.mergeCells(`A${n + 1}:D${n + 1}`));
+
         // バッファ生成
         const buffer = await workbook.xlsx.writeBuffer();
 
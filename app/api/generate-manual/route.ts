@@ -1,32 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
-
-// Initialize Gemini client
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-// Stage 1: Analyze video for timestamps and actions (no coordinates)
-const STAGE1_PROMPT = `
-あなたは動画分析の専門家です。この動画（PC操作、料理、機器の組み立て、作業手順など）を分析し、各主要なステップのタイムスタンプと内容を抽出してください。
-
-**重要**:
-1. 座標は不要です。
-2. **出力する全てのテキスト（タイトル、概要、アクション、詳細）は必ず「日本語」で記述してください。**
-
-出力形式（JSON）:
-{
-  "title": "マニュアルのタイトル（日本語）",
-  "overview": "作業の概要（日本語。詳細な内容のみとし、「AIが自動生成した」等の定型文は含めないでください）",
-  "steps": [
-    {
-      "stepNumber": 1,
-      "action": "アクションの要約（日本語。例: 「野菜を切る」「ボタンをクリック」）",
-      "detail": "詳細な説明（日本語）",
-      "timestamp": "0:15"
-    }
-  ],
-  "notes": ["安全上の注意やコツ（日本語）"]
-}
-`;
+import { AIProvider, getAIProvider, isRateLimitError, UploadedVideo } from '@/utils/ai/provider';
+import { buildManualOutlinePrompt } from '@/utils/ai/prompts';
 
 // Stage 2: Analyze static image for precise coordinates
 const STAGE2_PROMPT = `
@@ -78,18 +52,22 @@ async function extractFrameAtTimestamp(videoFile: File, timestamp: string): Prom
 }
 
 export async function POST(request: NextRequest) {
+    let provider: AIProvider;
     try {
-        // Check API key
-        if (!process.env.GEMINI_API_KEY) {
-            return NextResponse.json(
-                { error: 'GEMINI_API_KEY が設定されていません。.env.local ファイルを確認してください。' },
-                { status: 500 }
-            );
-        }
+        provider = getAIProvider();
+    } catch (e) {
+        return NextResponse.json(
+            { error: e instanceof Error ? e.message : String(e) },
+            { status: 500 }
+        );
+    }
 
+    let uploaded: UploadedVideo | null = null;
+    try {
         // Get form data
         const formData = await request.formData();
         const videoFile = formData.get('video') as File | null;
+        const stage1Prompt = buildManualOutlinePrompt(formData.get('language'));
 
         if (!videoFile) {
             return NextResponse.json(
@@ -107,20 +85,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Convert file to base64
-        const arrayBuffer = await videoFile.arrayBuffer();
-        const base64Data = Buffer.from(arrayBuffer).toString('base64');
+        const buffer = Buffer.from(await videoFile.arrayBuffer());
+        uploaded = await provider.uploadVideo(buffer, videoFile.type, videoFile.name);
 
-        // Determine MIME type
-        let mimeType = videoFile.type;
-        if (mimeType === 'video/quicktime') {
-            mimeType = 'video/mp4'; // Gemini expects mp4 for MOV files
-        }
-
-        console.log('=== STAGE 1: Analyzing video for timestamps ===');
+        console.log(`=== STAGE 1: Analyzing video for timestamps (${provider.name}: ${provider.model}) ===`);
 
         // STAGE 1: Get timestamps and actions from video
-        let stage1Response;
+        let stage1Text: string | undefined;
         const maxRetries = 3;
 
         for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -132,36 +103,12 @@ export async function POST(request: NextRequest) {
                     await new Promise(resolve => setTimeout(resolve, delay));
                 }
 
-                stage1Response = await genAI.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: [
-                        {
-                            role: 'user',
-                            parts: [
-                                {
-                                    inlineData: {
-                                        mimeType: mimeType,
-                                        data: base64Data,
-                                    },
-                                },
-                                {
-                                    text: STAGE1_PROMPT,
-                                },
-                            ],
-                        },
-                    ],
-                    config: {
-                        responseMimeType: 'application/json',
-                    },
-                });
+                stage1Text = await provider.analyzeVideo(uploaded, stage1Prompt, { json: true });
 
                 // If successful, break the loop
                 break;
             } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                const is429 = errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED');
-
-                if (is429 && attempt < maxRetries - 1) {
+                if (isRateLimitError(error) && attempt < maxRetries - 1) {
                     console.log(`⚠️ Stage 1 Rate limit hit, will retry...`);
                     continue;
                 }
@@ -171,11 +118,10 @@ export async function POST(request: NextRequest) {
             }
         }
 
-        if (!stage1Response) {
-            throw new Error('Failed to get response from Gemini after retries');
+        if (stage1Text === undefined) {
+            throw new Error('Failed to get response from AI provider after retries');
         }
 
-        const stage1Text = stage1Response.text || '';
         let manualData;
 
         try {
@@ -212,7 +158,7 @@ export async function POST(request: NextRequest) {
 
         // Handle specific errors
         if (error instanceof Error) {
-            if (error.message.includes('RESOURCE_EXHAUSTED')) {
+            if (isRateLimitError(error)) {
                 return NextResponse.json(
                     { error: 'APIの利用制限に達しました。しばらく待ってからお試しください。' },
                     { status: 429 }
@@ -230,6 +176,8 @@ export async function POST(request: NextRequest) {
             { error: 'マニュアル生成中にエラーが発生しました。もう一度お試しください。' },
             { status: 500 }
         );
+    } finally {
+        if (uploaded) await provider.deleteVideo(uploaded);
     }
 }
 
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider, getAIProvider, isRateLimitError, parseAIJson } from '@/utils/ai/provider';
+import { buildStepRewritePrompt, StepRewriteContext } from '@/utils/ai/prompts';
+
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const neighborStep = (value: unknown): StepRewriteContext['previous'] => {
+    if (!value || typeof value !== 'object') return undefined;
+    const { action, detail } = value as Record<string, unknown>;
+    return text(action) ? { action: text(action), detail: text(detail) } : undefined;
+};
+
+export async function POST(request: NextRequest) {
+    let provider: AIProvider;
+    try {
+        provider = getAIProvider();
+    } catch (e) {
+        return NextResponse.json(
+            { error: e instanceof Error ? e.message : String(e) },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const body = await request.json();
+        const { imageData, mimeType, language, step } = body;
+
+        if (!imageData || typeof imageData !== 'string') {
+            return NextResponse.json(
+                { error: '画像データが見つかりません' },
+                { status: 400 }
+            );
+        }
+        if (!step || typeof step !== 'object') {
+            return NextResponse.json(
+                { error: '書き直すステップが見つかりません' },
+                { status: 400 }
+            );
+        }
+
+        const prompt = buildStepRewritePrompt(language, {
+            title: text(body.title) || '無題のマニュアル',
+            action: text(step.action),
+            detail: text(step.detail),
+            label: text(step.label) || undefined,
+            previous: neighborStep(body.previous),
+            next: neighborStep(body.next),
+        });
+
+        console.log(`=== Rewriting step "${text(step.action)}" (${provider.name}: ${provider.model}) ===`);
+
+        // Retry logic for rate limiting
+        const maxRetries = 3;
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+                if (attempt > 0) {
+                    // Exponential backoff: 2s, 4s
+                    const delay = Math.pow(2, attempt) * 1000;
+                    console.log(`⏳ Rewrite rate limited, retrying in ${delay / 1000}s (attempt ${attempt + 1}/${maxRetries})...`);
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+
+                const responseText = await provider.analyzeImage(
+                    imageData,
+                    typeof mimeType === 'string' && mimeType.startsWith('image/') ? mimeType : 'image/png',
+                    prompt,
+                    { json: true, temperature: 0.3 }
+                );
+                const parsed = parseAIJson(responseText);
+                const suggestion = Array.isArray(parsed) ? parsed[0] : parsed;
+                if (typeof suggestion !== 'object' || suggestion === null || !text(suggestion.action)) {
+                    throw new Error('Invalid rewrite response format');
+                }
+
+                return NextResponse.json({
+                    action: text(suggestion.action),
+                    detail: text(suggestion.detail),
+                    label: text(suggestion.label) || undefined,
+                });
+            } catch (error) {
+                if (isRateLimitError(error) && attempt < maxRetries - 1) {
+                    console.log(`⚠️ Rewrite rate limit hit, will retry...`);
+                    continue;
+                }
+                console.error('❌ Step rewrite error:', error);
+                return NextResponse.json(
+                    { error: 'ステップの書き直し中にエラーが発生しました: ' + (error instanceof Error ? error.message : String(error)) },
+                    { status: 500 }
+                );
+            }
+        }
+
+        return NextResponse.json(
+            { error: 'ステップの書き直しに失敗しました' },
+            { status: 500 }
+        );
+    } catch (error) {
+        console.error('❌ Request handling error:', error);
+        return NextResponse.json(
+            { error: 'リクエスト処理中にエラーが発生しました' },
+            { status: 500 }
+        );
+    }
+}
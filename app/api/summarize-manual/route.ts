@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider, getAIProvider, isRateLimitError, parseAIJson } from '@/utils/ai/provider';
+import { buildManualSummaryPrompt, ManualSummarySection } from '@/utils/ai/prompts';
+
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/** リクエストのセクション一覧から、手順の本文だけを取り出す（手順の無いセクションは除く） */
+function readSections(raw: unknown): ManualSummarySection[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(section => section && typeof section === 'object' && typeof section.id === 'string')
+        .map(section => ({
+            id: section.id,
+            name: text(section.name),
+            steps: (Array.isArray(section.steps) ? section.steps : [])
+                .map((step: unknown) => {
+                    const { action, detail } = (step && typeof step === 'object' ? step : {}) as Record<string, unknown>;
+                    return { action: text(action), detail: text(detail) };
+                })
+                .filter((step: { action: string }) => step.action !== ''),
+        }))
+        .filter(section => section.steps.length > 0);
+}
+
+export async function POST(request: NextRequest) {
+    let provider: AIProvider;
+    try {
+        provider = getAIProvider();
+    } catch (e) {
+        return NextResponse.json(
+            { error: e instanceof Error ? e.message : String(e) },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const body = await request.json();
+        const sections = readSections(body.sections);
+        const notes = Array.isArray(body.notes) ? body.notes.map(text).filter(Boolean) : [];
+
+        if (sections.length === 0) {
+            return NextResponse.json(
+                { error: '要約する手順が見つかりません' },
+                { status: 400 }
+            );
+        }
+
+        const prompt = buildManualSummaryPrompt(body.language, sections, notes);
+        console.log(`=== Summarizing manual: ${sections.length} section(s) (${provider.name}: ${provider.model}) ===`);
+
+        // Retry logic for rate limiting
+        const maxRetries = 3;
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+                if (attempt > 0) {
+                    // Exponential backoff: 2s, 4s
+                    const delay = Math.pow(2, attempt) * 1000;
+                    console.log(`⏳ Summary rate limited, retrying in ${delay / 1000}s (attempt ${attempt + 1}/${maxRetries})...`);
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+
+                const responseText = await provider.completeText(prompt, { json: true, temperature: 0.3 });
+                const parsed = parseAIJson(responseText);
+                if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                    throw new Error('Invalid summary response format');
+                }
+
+                // 入力にあったセクションの見出しだけを採用する（欠けたセクションは呼び出し側でファイル名のまま）
+                const sectionTitles: Record<string, string> = {};
+                if (sections.length > 1 && parsed.sections && typeof parsed.sections === 'object') {
+                    sections.forEach(section => {
+                        const title = text(parsed.sections[section.id]);
+                        if (title) sectionTitles[section.id] = title;
+                    });
+                }
+
+                return NextResponse.json({
+                    title: text(parsed.title),
+                    overview: text(parsed.overview),
+                    notes: Array.isArray(parsed.notes) ? parsed.notes.map(text).filter(Boolean) : [],
+                    sectionTitles,
+                });
+            } catch (error) {
+                if (isRateLimitError(error) && attempt < maxRetries - 1) {
+                    console.log(`⚠️ Summary rate limit hit, will retry...`);
+                    continue;
+                }
+                console.error('❌ Manual summary error:', error);
+                return NextResponse.json(
+                    { error: 'タイトル・概要の作成中にエラーが発生しました: ' + (error instanceof Error ? error.message : String(error)) },
+                    { status: 500 }
+                );
+            }
+        }
+
+        return NextResponse.json(
+            { error: 'タイトル・概要の作成に失敗しました' },
+            { status: 500 }
+        );
+    } catch (error) {
+        console.error('❌ Request handling error:', error);
+        return NextResponse.json(
+            { error: 'リクエスト処理中にエラーが発生しました' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider, getAIProvider, isRateLimitError, parseAIJson } from '@/utils/ai/provider';
+import { buildTranslationPrompt } from '@/utils/ai/prompts';
+import { isOutputLanguage } from '@/utils/outputLanguage';
+
+// 1リクエストで翻訳させる項目数（長いマニュアルは分割して順に送る）
+const BATCH_SIZE = 40;
+
+async function translateBatch(provider: AIProvider, language: string, texts: Record<string, string>): Promise<Record<string, string>> {
+    const prompt = buildTranslationPrompt(language, texts);
+    const maxRetries = 3;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+        try {
+            if (attempt > 0) {
+                // Exponential backoff: 2s, 4s
+                const delay = Math.pow(2, attempt) * 1000;
+                console.log(`⏳ Translation rate limited, retrying in ${delay / 1000}s (attempt ${attempt + 1}/${maxRetries})...`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+
+            const responseText = await provider.completeText(prompt, { json: true, temperature: 0.2 });
+            const parsed = parseAIJson(responseText);
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                throw new Error('Invalid translation response format');
+            }
+
+            // 入力にあったキーの文字列だけを採用する（欠けた項目は呼び出し側で未翻訳として扱う）
+            const result: Record<string, string> = {};
+            Object.keys(texts).forEach(key => {
+                if (typeof parsed[key] === 'string' && parsed[key].trim()) result[key] = parsed[key];
+            });
+            return result;
+        } catch (error) {
+            if (isRateLimitError(error) && attempt < maxRetries - 1) {
+                console.log(`⚠️ Translation rate limit hit, will retry...`);
+                continue;
+            }
+            throw error;
+        }
+    }
+    throw new Error('Failed to get response from AI provider after retries');
+}
+
+export async function POST(request: NextRequest) {
+    let provider: AIProvider;
+    try {
+        provider = getAIProvider();
+    } catch (e) {
+        return NextResponse.json(
+            { error: e instanceof Error ? e.message : String(e) },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const { language, texts } = await request.json();
+
+        if (!isOutputLanguage(language)) {
+            return NextResponse.json(
+                { error: '翻訳先の言語が正しくありません' },
+                { status: 400 }
+            );
+        }
+        if (typeof texts !== 'object' || texts === null || Array.isArray(texts)) {
+            return NextResponse.json(
+                { error: '翻訳する本文が見つかりません' },
+                { status: 400 }
+            );
+        }
+
+        const entries = Object.entries(texts as Record<string, unknown>)
+            .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '');
+
+        console.log(`=== Translating ${entries.length} text(s) to ${language} (${provider.name}: ${provider.model}) ===`);
+
+        const translated: Record<string, string> = {};
+        for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+            const batch = Object.fromEntries(entries.slice(i, i + BATCH_SIZE));
+            Object.assign(translated, await translateBatch(provider, language, batch));
+        }
+
+        return NextResponse.json({ texts: translated });
+
+    } catch (error) {
+        console.error('Translation error:', error);
+
+        if (isRateLimitError(error)) {
+            return NextResponse.json(
+                { error: 'APIの利用制限に達しました。しばらく待ってからお試しください。' },
+                { status: 429 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: '翻訳中にエラーが発生しました: ' + (error instanceof Error ? error.message : String(error)) },
+            { status: 500 }
+        );
+    }
+}
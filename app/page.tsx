@@ -3,36 +3,149 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import VideoUploader from '@/components/VideoUploader';
 import ManualViewer from '@/components/ManualViewer';
-import { db } from '@/utils/db';
-import { extractFrameAtTimestamp, smartCropFrame } from '@/utils/videoProcessor';
-import { createProxyVideo } from '@/utils/videoDownsampler';
+import ManualLibrary from '@/components/ManualLibrary';
+import AnalysisJobsPanel from '@/components/AnalysisJobsPanel';
+import { createManual, loadManual, saveManual } from '@/utils/manualLibrary';
+import { createRevision } from '@/utils/revisions';
+import { putImage, pruneUnreferencedImages } from '@/utils/imageStore';
+import { pruneOrphanCanvasStates } from '@/utils/canvasStateStore';
+import { CURRENT_SCHEMA_VERSION } from '@/utils/manualSchema';
+import { createSection, renumberSteps } from '@/utils/sections';
+import { deleteAnalysisJob, extractStepsFromVideo, fetchAnalysisJob, submitAnalysisJob, waitForAnalysisJob } from '@/utils/videoAnalysis';
+import { summarizeManual } from '@/utils/manualSummary';
+import { getSourceVideoFile, putSourceVideo, pruneUnreferencedVideos } from '@/utils/videoStore';
+import { AnalysisJobSummary } from '@/utils/analysisStream';
+import { PendingGeneration, clearPendingGeneration, loadPendingGeneration, savePendingGeneration } from '@/utils/pendingGeneration';
+import { DEFAULT_OUTPUT_LANGUAGE, manualStrings, normalizeOutputLanguage } from '@/utils/outputLanguage';
+import { syncLanguageVariants } from '@/utils/languageVariants';
+import { BUILT_IN_PROMPT_PROFILES, DEFAULT_PROMPT_PROFILE_ID, PromptProfile, loadSelectedPromptProfile, saveSelectedPromptProfileId } from '@/utils/promptProfiles';
 
 // Hoisted RegExp (js-hoist-regexp: compiled once at module level)
 const RE_FILE_EXT = /\.[^/.]+$/;
 
+// 最後に開いていたマニュアルのID（リロード後に同じマニュアルを開き直す）
+const CURRENT_MANUAL_KEY = 'am_current_manual_id';
+// 前回選んだ出力言語（次の生成でも同じ言語を初期値にする）
+const OUTPUT_LANGUAGE_KEY = 'am_output_language';
+
+// 操作ステップ（読者が行うこと）と結果確認ステップ（操作後に表示されるもの）
+export type StepKind = 'operation' | 'confirmation';
+
+// 生成・出力するマニュアル本文の言語（アプリの画面表示は日本語のまま）
+export type OutputLanguage = 'ja' | 'en' | 'vi';
+
+// ステップ単位の注意書き（注意・警告・ヒント）
+export type CalloutType = 'caution' | 'warning' | 'tip';
+
+export interface StepCallout {
+    type: CalloutType;
+    text: string;
+}
+
+// 条件分岐（「確認ダイアログが出た場合」→ 別ステップへ）。番号ではなく uid で参照するので並べ替え・振り直しに影響されない
+export interface StepBranch {
+    label: string;
+    targetUid: string;
+}
+
+// ステップ内の小さな操作（3-1, 3-2…）。番号は親ステップの番号と並び順から導出する
+export interface ManualSubStep {
+    uid: string;
+    action: string;
+    detail?: string;
+    screenshotId?: string; // Optional image — images table key
+    screenshot?: string; // Transient data URL (filled by hydrateManualImages)
+}
+
 export interface ManualStep {
-    stepNumber: number;
+    stepNumber: number; // 操作ステップの通し番号（結果確認ステップは直前の操作ステップの番号を持つ）
+    kind?: StepKind; // 未設定は 'operation' として扱う
     action: string;
     detail: string;
     timestamp?: string;
     box_2d?: number[]; // [y_min, x_min, y_max, x_max] in 0-1000 scale (Gemini native)
     label?: string; // UI element label
-    screenshot?: string; // base64 image data
-    originalUrl?: string; // Original screenshot without annotations (for clean editing)
+    screenshotId?: string; // Annotated image — key into the Dexie images table (Blob)
+    originalId?: string; // Original image without annotations (for clean editing) — images table key
+    screenshot?: string; // Transient data URL: filled by hydrateManualImages() for exporters / legacy data only
+    originalUrl?: string; // Transient data URL counterpart of originalId (exporters / legacy data only)
+    callouts?: StepCallout[]; // Inline caution / warning / tip boxes shown under the step detail
+    branches?: StepBranch[]; // Conditional jumps to another step (by uid)
+    subSteps?: ManualSubStep[]; // Nested actions rendered as 3-1, 3-2… under this step
     canvasData?: any; // Fabric.js JSON data - For re-editability
     uid?: string; // Stable unique ID - survives deletion/renumbering
-    videoIndex?: number; // Tracks which video this step belongs to
-    layout?: 'single' | 'two-column' | 'two-row-vertical'; // Video-specific layout preference
+    sectionId?: string; // ManualSection.id — steps of a section are kept contiguous, in section order
+    videoIndex?: number; // Source video the frame was captured from (index into the uploaded videos)
+}
+
+export type SectionLayout = 'single' | 'two-column' | 'two-row-vertical';
+
+export interface ManualSection {
+    id: string;
+    title: string;
+    description?: string;
+    layout: SectionLayout; // Applied to every step in the section (viewer & exporters)
+    sourceVideo?: { index: number; name?: string; videoId?: string }; // Video the section was generated from (videoId: utils/videoStore.ts)
+}
+
+// 品質管理向けの文書管理情報（表紙と改訂表に出力する。各項目は任意）
+export interface DocumentMetadata {
+    documentId?: string;
+    revision?: string;
+    author?: string;
+    approver?: string;
+    effectiveDate?: string; // YYYY-MM-DD
+    department?: string;
+}
+
+// 翻訳版（言語バリアント）の翻訳元とのリンク。画像・構成は翻訳元から反映し、本文だけを持つ（utils/languageVariants.ts）
+export interface LanguageVariantLink {
+    sourceId: string; // 翻訳元マニュアルのライブラリID
+    texts?: Record<string, string>; // 翻訳版の本文（項目キー → 訳文。手直しを含む）
+    sourceTexts: Record<string, string>; // 翻訳した時点の原文（項目キー → 本文）。原文が変わった項目は要再翻訳
+    annotationTexts: Record<string, string>; // 画像の注釈テキスト（原文 → 訳文）
+    renderedFrom?: Record<string, string>; // ステップ uid → 訳文入りで描き直した画像の元（画像ID + 注釈）
 }
 
 export interface ManualData {
+    schemaVersion?: number; // utils/manualSchema.ts の CURRENT_SCHEMA_VERSION（未設定は最古の形式）
     title: string;
     overview: string;
+    language?: OutputLanguage; // 本文の言語（未設定は日本語）。エクスポートの見出し等もこれに合わせる
+    metadata?: DocumentMetadata;
+    variantOf?: LanguageVariantLink; // 翻訳版の場合のみ
+    sections: ManualSection[]; // Display / export order of the steps (see utils/sections.ts)
     steps: ManualStep[];
     notes?: string[];
 }
 
 
+/**
+ * 取り込みに失敗したバッチのうち、続きから取り込めるものを localStorage に残す（再開できなければ null）。
+ * 失敗・キャンセル済み・期限切れのジョブはバッチから外し、サーバーからも片付ける。
+ * 状態を確認できなかったジョブ（通信が切れている等）は完了している可能性があるので残す。
+ */
+async function retainResumableBatch(batch: PendingGeneration): Promise<PendingGeneration | null> {
+    const jobs = await Promise.all(batch.videos.map(video => fetchAnalysisJob(video.jobId).catch(() => undefined)));
+    const videos = batch.videos.filter((video, i) => {
+        const job = jobs[i];
+        if (job === null) return false;
+        if (job?.status === 'failed' || job?.status === 'cancelled') {
+            deleteAnalysisJob(video.jobId).catch(e => console.warn('Failed to delete analysis job:', e));
+            return false;
+        }
+        return true;
+    });
+    // 元動画を保存できなかった動画があると画像を切り出せないので、バッチとしては再開しない（ジョブは一覧から元動画を選んで取り込める）
+    if (videos.length === 0 || videos.some(video => !video.videoId)) {
+        clearPendingGeneration();
+        return null;
+    }
+    const retained = { ...batch, videos };
+    savePendingGeneration(retained);
+    return retained;
+}
+
 // ============================================================
 export default function Home() {
     const [videoFiles, setVideoFiles] = useState<File[]>([]);
@@ -40,211 +153,314 @@ export default function Home() {
     const [isLoading, setIsLoading] = useState(false);
     const [loadingStage, setLoadingStage] = useState<string>('動画を分析中...');
     const [progress, setProgress] = useState(0);
-    const progressTimerRef = useRef<NodeJS.Timeout | null>(null);
-
-    // Simulated progress helper: logarithmic curve — fast at start, slows as it approaches target
-    const startSimulatedProgress = useCallback((from: number, to: number, durationMs: number) => {
-        if (progressTimerRef.current) clearInterval(progressTimerRef.current);
-        const startTime = Date.now();
-        progressTimerRef.current = setInterval(() => {
-            const elapsed = Date.now() - startTime;
-            const ratio = Math.min(elapsed / durationMs, 1);
-            // 進行を一定ペース（リニア）に変更し、前半早すぎ・後半遅すぎを解消
-            const current = from + (to - from) * ratio * 0.95; // never fully reach target
-            setProgress(Math.round(Math.min(current, to - 1)));
-        }, 300);
+    const [manual, setManual] = useState<ManualData | null>(null);
+    const [currentManualId, setCurrentManualId] = useState<string | null>(null);
+    const [focusStepUid, setFocusStepUid] = useState<string | null>(null); // 検索結果から開いたときのジャンプ先
+    const [error, setError] = useState<string | null>(null);
+    const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+    const [promptProfile, setPromptProfile] = useState<PromptProfile>(
+        () => BUILT_IN_PROMPT_PROFILES.find(p => p.id === DEFAULT_PROMPT_PROFILE_ID)!
+    );
+    const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+    const [resumableBatch, setResumableBatch] = useState<PendingGeneration | null>(null); // 取り込みに失敗したが続きから再開できるバッチ
+    const resumeStartedRef = useRef(false); // 開発時の effect の二重実行で同じバッチを2回取り込まない
+
+    useEffect(() => {
+        setOutputLanguage(normalizeOutputLanguage(localStorage.getItem(OUTPUT_LANGUAGE_KEY)));
+        setPromptProfile(loadSelectedPromptProfile());
     }, []);
 
-    const stopSimulatedProgress = useCallback(() => {
-        if (progressTimerRef.current) {
-            clearInterval(progressTimerRef.current);
-            progressTimerRef.current = null;
-        }
+    const handleOutputLanguageChange = useCallback((language: OutputLanguage) => {
+        setOutputLanguage(language);
+        localStorage.setItem(OUTPUT_LANGUAGE_KEY, language);
     }, []);
-    const [manual, setManual] = useState<ManualData | null>(null);
-    const [error, setError] = useState<string | null>(null);
 
-    // 永続化: 初回のみDexieから復元
+    const handlePromptProfileChange = useCallback((profile: PromptProfile) => {
+        setPromptProfile(profile);
+        saveSelectedPromptProfileId(profile.id);
+    }, []);
+
+    // 永続化: 初回のみ、最後に開いていたマニュアルをDexieから復元
     useEffect(() => {
         const loadData = async () => {
+            const lastId = localStorage.getItem(CURRENT_MANUAL_KEY);
+            if (!lastId) return;
             try {
-                const saved = await db.manuals.get('current');
-                if (saved && saved.data) {
-                    setManual(saved.data);
+                const saved = await loadManual(lastId);
+                if (saved) {
+                    setManual(saved);
+                    setCurrentManualId(lastId);
+                } else {
+                    localStorage.removeItem(CURRENT_MANUAL_KEY);
                 }
             } catch (e) {
                 console.error('Failed to load manual from Dexie', e);
             }
         };
         loadData();
+        // 前回のセッションで注釈編集により置き換えられた画像を片付ける
+        pruneUnreferencedImages().catch(e => console.warn('Failed to prune images:', e));
+        // 削除済みのステップ・マニュアルに残った注釈キャンバスの編集状態を片付ける
+        pruneOrphanCanvasStates().catch(e => console.warn('Failed to prune canvas states:', e));
+        // 生成途中で失敗した等で、どのマニュアルからも参照されていない元動画を片付ける
+        pruneUnreferencedVideos().catch(e => console.warn('Failed to prune source videos:', e));
     }, []);
 
-    // 永続化: manualが更新されるたびにDexieに保存
+    // 永続化: manualが更新されるたびにライブラリの該当マニュアルへ保存
     useEffect(() => {
-        if (manual) {
-            db.manuals.put({ id: 'current', data: manual }).catch(e => {
+        if (manual && currentManualId) {
+            saveManual(currentManualId, manual).catch(e => {
                 console.warn('Failed to save manual to Dexie:', e);
             });
         }
-    }, [manual]);
+    }, [manual, currentManualId]);
+
+    // 翻訳版へ画像・構成の変更を反映（編集中の連続した更新は1回にまとめる）
+    useEffect(() => {
+        if (!manual || !currentManualId || manual.variantOf) return;
+        const timer = setTimeout(() => {
+            syncLanguageVariants(currentManualId, manual).catch(e => {
+                console.warn('Failed to sync language variants:', e);
+            });
+        }, 2000);
+        return () => clearTimeout(timer);
+    }, [manual, currentManualId]);
+
+    const openManual = useCallback((id: string | null, data: ManualData | null) => {
+        setCurrentManualId(id);
+        setManual(data);
+        setFocusStepUid(null);
+        if (id) localStorage.setItem(CURRENT_MANUAL_KEY, id);
+        else localStorage.removeItem(CURRENT_MANUAL_KEY);
+    }, []);
 
     const handleVideosSelect = useCallback((files: File[]) => {
         // Add new files to existing ones
         setVideoFiles(prev => [...prev, ...files]);
-        setManual(null);
+        // 開いていたマニュアルはライブラリに保存済みなので、閉じるだけでよい
+        openManual(null, null);
         setError(null);
-    }, []);
+    }, [openManual]);
 
     const handleRemoveVideo = useCallback((index: number) => {
         setVideoFiles(prev => prev.filter((_, i) => i !== index));
-        setManual(null);
-    }, []);
+        openManual(null, null);
+    }, [openManual]);
 
-    // リセット（データクリア）
-    const handleResetData = useCallback(async () => {
-        if (confirm("入力データを完全に消去してリセットしますか？")) {
+    const handleOpenFromLibrary = useCallback(async (id: string, stepUid?: string) => {
+        try {
+            const saved = await loadManual(id);
+            if (!saved) return;
             setVideoFiles([]);
-            setManual(null);
-            await db.manuals.delete('current');
-            window.location.reload();
+            setError(null);
+            openManual(id, saved);
+            if (stepUid) setFocusStepUid(stepUid);
+            else window.scrollTo({ top: 0, behavior: 'smooth' });
+        } catch (e) {
+            console.error('Failed to open manual from library', e);
+            alert(e instanceof Error ? e.message : 'マニュアルを開けませんでした。');
         }
-    }, []);
-
-    const handleGenerate = async () => {
-        if (videoFiles.length === 0) return;
+    }, [openManual]);
 
+    // ライブラリへ戻る（開いているマニュアルを閉じて動画選択からやり直す）
+    const handleBackToLibrary = useCallback(() => {
+        setVideoFiles([]);
+        setError(null);
+        openManual(null, null);
+    }, [openManual]);
+
+    /**
+     * 解析ジョブの完了を待ち、元動画からフレームを切り出してマニュアルにする。
+     * files は batch.videos と同じ順（再読み込み後の再開では保存済みの元動画から読み直す）。
+     * resumable が false のバッチ（ジョブ一覧からの取り込み）は localStorage の生成途中のバッチに触れない。
+     */
+    const completeGeneration = useCallback(async (batch: PendingGeneration, files: (File | null)[], resumable = true) => {
         setIsLoading(true);
         setError(null);
-        setProgress(0);
 
         const finalSteps: ManualStep[] = [];
-        let totalProgress = 0;
+        const sections: ManualSection[] = [];
+        const notes: string[] = [];
+        const totalVideos = batch.videos.length;
 
         try {
-            // Process each video sequentially
-            for (let videoIndex = 0; videoIndex < videoFiles.length; videoIndex++) {
-                const videoFile = videoFiles[videoIndex];
+            // Process each video sequentially（サーバー側の解析は並行して進んでいる）
+            for (let videoIndex = 0; videoIndex < totalVideos; videoIndex++) {
+                const pending = batch.videos[videoIndex];
+                const videoFile = files[videoIndex];
                 const videoNum = videoIndex + 1;
-                const totalVideos = videoFiles.length;
-
-                // STAGE 1: Dual-Video Strategy (Proxy Generation)
-                setLoadingStage(`[${videoNum}/${totalVideos}] 動画「${videoFile.name}」の軽量AI送信用データを作成中... (画質維持の高速化)`);
-                const proxyFile = await createProxyVideo(videoFile, (p) => {
-                    // Proxy generation consumes the first 10% of the progress bar
-                    const baseProgress = Math.round((videoIndex / totalVideos) * 90);
-                    setProgress(baseProgress + Math.round(p * 10));
+                if (!videoFile) {
+                    throw new Error(`動画「${pending.name}」の元動画が保存されていないため、画像を切り出せません。動画を選び直して生成してください。`);
+                }
+                // 動画1本につき1セクション（仮のタイトルはファイル名。複数動画なら生成の最後に AI が見出しを付ける。あとから名前変更・結合・分割できる）
+                const section = createSection(pending.name.replace(RE_FILE_EXT, ''), {
+                    sourceVideo: { index: videoIndex, name: pending.name },
                 });
-
-                setLoadingStage(`[${videoNum}/${totalVideos}] 動画「${videoFile.name}」をAI解析中... (API通信)`);
-
-                // Simulated progress: AI analysis covers the remaining 10% to 90% range
-                const videoProgressStart = Math.round((videoIndex / totalVideos) * 90) + 10;
-                const videoProgressEnd = Math.round(((videoIndex + 1) / totalVideos) * 90);
-                startSimulatedProgress(videoProgressStart, videoProgressEnd, 45000); // simulate over ~45sec
-
-                const formData = new FormData();
-                formData.append('video', proxyFile); // Send lightweight proxy!
-
-                const response = await fetch('/api/analyze-video', {
-                    method: 'POST',
-                    body: formData,
+                if (pending.videoId) section.sourceVideo = { ...section.sourceVideo!, videoId: pending.videoId };
+                sections.push(section);
+
+                // Proxy generation consumed the first 10%; each video gets an equal share of the rest
+                const videoProgressStart = 10 + Math.round((videoIndex / totalVideos) * 89);
+                const videoProgressEnd = 10 + Math.round(((videoIndex + 1) / totalVideos) * 89);
+                const framesProgressStart = videoProgressStart + Math.round((videoProgressEnd - videoProgressStart) * 0.8);
+
+                setLoadingStage(`[${videoNum}/${totalVideos}] 動画「${pending.name}」をAI解析中... (API通信)`);
+                setProgress(videoProgressStart);
+                const analysis = await waitForAnalysisJob(pending.jobId, pending.name, (ratio, message) => {
+                    // AI analysis is driven by the server's progress events
+                    setProgress(videoProgressStart + Math.round(ratio * (framesProgressStart - videoProgressStart)));
+                    setLoadingStage(`[${videoNum}/${totalVideos}] ${message}`);
                 });
 
-                if (!response.ok) {
-                    const errorData = await response.json();
-                    throw new Error(errorData.error || `動画「${videoFile.name}」の解析に失敗しました。`);
-                }
-
-                const data = await response.json();
-                const aiSteps = data.steps;
-
-                console.log(`✅ [Video ${videoNum}] Analysis complete:`, aiSteps.length, 'steps');
-
-                // Stop simulated progress, jump to the video's analysis end point
-                stopSimulatedProgress();
-                setProgress(videoProgressEnd);
-
-                // STAGE 2: Parallel Extract Frames using high-res Original videoFile
                 setLoadingStage(`[${videoNum}/${totalVideos}] オリジナル高画質動画から画像を切り出し中... (並列処理)`);
-
-                const validSteps = aiSteps.filter((s: any) => s.timestamp);
-                const concurrentLimit = 4; // Process in batches of 4
-                let completedScreenshots = 0;
-
-                for (let i = 0; i < validSteps.length; i += concurrentLimit) {
-                    const batch = validSteps.slice(i, i + concurrentLimit);
-
-                    await Promise.all(batch.map(async (step: any, batchIndex: number) => {
-                        try {
-                            // Extract high-res frame from original file! (Zero quality loss)
-                            const frameData = await extractFrameAtTimestamp(videoFile, step.timestamp);
-
-                            // Smart Automatic Zoom is disabled to ensure consistency with Edit Mode
-                            // The user requested that the full uncropped image (seen in Edit) is used everywhere
-                            let displayFrame = frameData;
-
-                            // Calculate step number based on the current video's original sorted array index
-                            const originalIndex = i + batchIndex;
-                            const videoStepNumber = originalIndex + 1;
-
-                            step.processedData = {
-                                stepNumber: videoStepNumber,
-                                action: step.action,
-                                detail: step.reason || step.action,
-                                timestamp: step.timestamp,
-                                box_2d: step.box_2d,
-                                label: step.label,
-                                screenshot: displayFrame,
-                                originalUrl: frameData,
-                                uid: Math.random().toString(36).substring(2, 11),
-                                videoIndex: videoIndex,
-                                layout: 'single'
-                            };
-
-                        } catch (err) {
-                            console.error(`Frame extraction failed for timestamp ${step.timestamp}:`, err);
-                        } finally {
-                            completedScreenshots++;
-                            const extractionProgress = 90 + Math.round((completedScreenshots / validSteps.length) * 10);
-                            setProgress(Math.min(extractionProgress, 99));
-                            setLoadingStage(`[${videoNum}/${totalVideos}] 高画質画像切り出し中... (${completedScreenshots}/${validSteps.length})`);
-                        }
-                    }));
-                }
-
-                // Push all successfully processed steps in correct sequence
-                for (const step of validSteps) {
-                    if (step.processedData) {
-                        finalSteps.push(step.processedData);
-                    }
+                setProgress(framesProgressStart);
+                const result = await extractStepsFromVideo(videoFile, analysis, {
+                    sectionId: section.id,
+                    videoIndex,
+                    onProgress: (ratio, message) => {
+                        setProgress(framesProgressStart + Math.round(ratio * (videoProgressEnd - framesProgressStart)));
+                        setLoadingStage(`[${videoNum}/${totalVideos}] ${message}`);
+                    },
+                });
+                // 複数動画で同じ注意事項が返ることがあるため重複を除いて集約
+                for (const note of result.notes) {
+                    if (!notes.includes(note)) notes.push(note);
                 }
+                finalSteps.push(...result.steps);
             }
 
             console.log('✅ All videos processed. Total steps:', finalSteps.length);
 
+            // 手順が1つも取れなかった動画のセクションは残さない
+            const usedSections = sections.filter(sec => finalSteps.some(s => s.sectionId === sec.id));
+
+            // 全手順からタイトル・概要・注意事項（複数動画ならセクション見出しも）を付ける。失敗時はファイル名から作る
+            setLoadingStage('手順全体からタイトルと概要を作成中...');
+            const summary = usedSections.length > 0
+                ? await summarizeManual(batch.language, usedSections, finalSteps, notes)
+                : null;
+
             // Initialize Manual Data
-            const title = videoFiles.length === 1
-                ? videoFiles[0].name.replace(RE_FILE_EXT, "") + " マニュアル"
-                : "統合マニュアル (" + videoFiles.length + "本)";
+            const strings = manualStrings(batch.language);
+            const fallbackTitle = totalVideos === 1
+                ? strings.defaultTitle(batch.videos[0].name.replace(RE_FILE_EXT, ""))
+                : strings.combinedTitle(totalVideos);
 
             const newManual: ManualData = {
-                title: title,
-                overview: '自動生成されたマニュアルです。編集ボタンから内容を修正できます。',
-                steps: finalSteps,
-                notes: []
+                schemaVersion: CURRENT_SCHEMA_VERSION,
+                title: summary?.title || fallbackTitle,
+                overview: summary?.overview || strings.defaultOverview,
+                language: batch.language,
+                sections: usedSections.map(sec => summary?.sectionTitles[sec.id] ? { ...sec, title: summary.sectionTitles[sec.id] } : sec),
+                steps: renumberSteps(finalSteps),
+                notes: summary && summary.notes.length > 0 ? summary.notes : notes
             };
 
             setProgress(100);
-            setManual(newManual);
-
+            const newId = await createManual(newManual);
+            await createRevision(newId, newManual, 'AI生成');
+            openManual(newId, newManual);
+
+            // 取り込みが終わったバッチは再開しない。結果を受け取ったジョブもサーバーから片付ける
+            if (resumable) {
+                clearPendingGeneration();
+                setResumableBatch(null);
+            }
+            batch.videos.forEach(video => {
+                deleteAnalysisJob(video.jobId).catch(e => console.warn('Failed to delete analysis job:', e));
+            });
         } catch (err) {
             console.error(err);
             setError(err instanceof Error ? err.message : '予期せぬエラーが発生しました');
+            // 通信が切れただけなら解析結果はサーバーに残っているので、バッチを残して続きから取り込めるようにする
+            if (resumable) setResumableBatch(await retainResumableBatch(batch));
         } finally {
-            stopSimulatedProgress();
             setIsLoading(false);
             setProgress(0);
+            setJobsRefreshKey(k => k + 1);
         }
+    }, [openManual]);
+
+    // 保存済みの元動画を読み直して、サーバー側のジョブの続きから取り込む
+    const resumeGeneration = useCallback(async (batch: PendingGeneration) => {
+        setOutputLanguage(batch.language);
+        const files = await Promise.all(batch.videos.map(video =>
+            video.videoId ? getSourceVideoFile(video.videoId).catch(() => null) : Promise.resolve(null)
+        ));
+        await completeGeneration(batch, files);
+    }, [completeGeneration]);
+
+    // ジョブ一覧から、完了済みの解析結果を1本分のマニュアルとして取り込む（別のタブで始めた解析や、取り込みに失敗した解析）
+    const handleImportJob = useCallback(async (job: AnalysisJobSummary, videoFile: File, sourceVideoId?: string) => {
+        setVideoFiles([]);
+        openManual(null, null);
+        const batch: PendingGeneration = {
+            language: job.language,
+            createdAt: Date.now(),
+            videos: [{ name: job.fileName, jobId: job.id, videoId: sourceVideoId }],
+        };
+        await completeGeneration(batch, [videoFile], false);
+    }, [completeGeneration, openManual]);
+
+    // 解析中に再読み込み・タブを閉じた場合は、サーバー側のジョブの続きから取り込む
+    useEffect(() => {
+        if (resumeStartedRef.current) return;
+        resumeStartedRef.current = true;
+        const batch = loadPendingGeneration();
+        if (batch) resumeGeneration(batch);
+    }, [resumeGeneration]);
+
+    const handleGenerate = async () => {
+        if (videoFiles.length === 0) return;
+
+        setIsLoading(true);
+        setError(null);
+        setResumableBatch(null); // 前のバッチのジョブはサーバーに残る（一覧から確認できる）
+        setProgress(0);
+
+        const totalVideos = videoFiles.length;
+        const batch: PendingGeneration = { language: outputLanguage, createdAt: Date.now(), videos: [] };
+
+        try {
+            // 先に全動画を送ってジョブを登録する（解析はサーバー側で進むので、ここから先は再読み込みしても再開できる）
+            for (let videoIndex = 0; videoIndex < totalVideos; videoIndex++) {
+                const videoFile = videoFiles[videoIndex];
+                const videoNum = videoIndex + 1;
+                setLoadingStage(`[${videoNum}/${totalVideos}] 動画「${videoFile.name}」の軽量AI送信用データを作成中... (画質維持の高速化)`);
+
+                // 元動画を保存してセクションから参照する（容量不足でも生成自体は続ける。ただし再読み込み後の再開はできない）
+                let videoId: string | undefined;
+                try {
+                    videoId = await putSourceVideo(videoFile);
+                } catch (e) {
+                    console.warn(`Failed to store source video "${videoFile.name}":`, e);
+                }
+
+                const jobId = await submitAnalysisJob(videoFile, {
+                    language: outputLanguage,
+                    profile: promptProfile,
+                    sourceVideoId: videoId,
+                    // Proxy generation consumes the first 10% of the progress bar
+                    onProgress: (_phase, ratio) => setProgress(Math.round(((videoIndex + ratio) / totalVideos) * 10)),
+                });
+                batch.videos.push({ name: videoFile.name, jobId, videoId });
+                savePendingGeneration(batch);
+            }
+            setJobsRefreshKey(k => k + 1);
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : '予期せぬエラーが発生しました');
+            // 途中まで登録したジョブは使わないので取り消す
+            clearPendingGeneration();
+            batch.videos.forEach(video => {
+                deleteAnalysisJob(video.jobId).catch(e => console.warn('Failed to delete analysis job:', e));
+            });
+            setIsLoading(false);
+            setProgress(0);
+            return;
+        }
+
+        await completeGeneration(batch, videoFiles);
     };
 
     return (
@@ -268,17 +484,10 @@ export default function Home() {
                     <div className="flex items-center gap-4">
                         {manual && (
                             <button
-                                onClick={() => {
-                                    // ユーザーが明示的にボタンを押した時のみ localStorage を削除
-                                    if (confirm("入力したマニュアルデータを完全に消去しますか？")) {
-                                        localStorage.removeItem('am_current_manual');
-                                        handleResetData();
-                                        window.location.reload(); // 確実に初期状態に戻す
-                                    }
-                                }}
-                                className="text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors"
+                                onClick={handleBackToLibrary}
+                                className="text-xs font-bold text-slate-400 hover:text-purple-600 transition-colors"
                             >
-                                データをクリア
+                                ライブラリへ戻る
                             </button>
                         )}
                         <span className="header__version bg-purple-100 text-purple-700 px-2 py-0.5 rounded font-bold text-[10px]">v4.4 MULTI</span>
@@ -312,6 +521,10 @@ export default function Home() {
                         onVideosSelect={handleVideosSelect}
                         videoFiles={videoFiles}
                         onRemoveVideo={handleRemoveVideo}
+                        language={outputLanguage}
+                        onLanguageChange={handleOutputLanguageChange}
+                        promptProfile={promptProfile}
+                        onPromptProfileChange={handlePromptProfileChange}
                     />
                 )}
 
@@ -348,18 +561,43 @@ export default function Home() {
                     </div>
                 )}
 
+                {/* Server-side analysis jobs (hidden while there are none) */}
+                {!manual && <AnalysisJobsPanel refreshKey={jobsRefreshKey} importDisabled={isLoading} onImport={handleImportJob} />}
+
+                {/* Library (shown while no manual is open) */}
+                {!manual && !isLoading && (
+                    <ManualLibrary
+                        onOpen={handleOpenFromLibrary}
+                        onCreateNew={() => {
+                            handleBackToLibrary();
+                            window.scrollTo({ top: 0, behavior: 'smooth' });
+                        }}
+                    />
+                )}
+
                 {/* Error State */}
                 {error && (
                     <div className="toast toast--error">
                         <span>{error}</span>
+                        {resumableBatch && !isLoading && (
+                            <button
+                                onClick={() => resumeGeneration(resumableBatch)}
+                                className="h-8 px-3 rounded-lg bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 transition-all whitespace-nowrap"
+                            >
+                                続きから再開
+                            </button>
+                        )}
                     </div>
                 )}
 
                 {/* Manual Result */}
                 {manual && (
                     <ManualViewer
+                        key={currentManualId ?? 'unsaved'}
                         manual={manual}
-                        videoFile={videoFiles[0] || undefined}
+                        manualId={currentManualId ?? undefined}
+                        focusStepUid={focusStepUid ?? undefined}
+                        onOpenManual={handleOpenFromLibrary}
                         onUpdateManual={(updater) => {
                             // Bridge functional-setState pattern from ManualViewer to setManual
                             setManual(prev =>
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AnalysisJobStatus, AnalysisJobSummary, isFinishedJobStatus } from '@/utils/analysisStream';
+import { deleteAnalysisJob, describeStreamProgress } from '@/utils/videoAnalysis';
+import { formatBytes, getSourceVideoFile, putSourceVideo } from '@/utils/videoStore';
+
+interface AnalysisJobsPanelProps {
+    refreshKey?: number; // 変わったら一覧を読み直す（ジョブを登録した直後など）
+    importDisabled?: boolean; // 生成・取り込みの最中
+    // 完了したジョブの結果をマニュアルにする（videoFile は画像の切り出し元、sourceVideoId はその保存先）
+    onImport?: (job: AnalysisJobSummary, videoFile: File, sourceVideoId?: string) => Promise<void>;
+}
+
+// 実行中のジョブがある間の一覧の再取得間隔
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<AnalysisJobStatus, { label: string; className: string }> = {
+    queued: { label: '順番待ち', className: 'bg-slate-100 text-slate-600' },
+    running: { label: '解析中', className: 'bg-purple-100 text-purple-700' },
+    completed: { label: '完了', className: 'bg-emerald-100 text-emerald-700' },
+    failed: { label: '失敗', className: 'bg-rose-100 text-rose-600' },
+    cancelled: { label: 'キャンセル', className: 'bg-slate-100 text-slate-400' },
+};
+
+const formatTime = (ms: number): string =>
+    new Date(ms).toLocaleString('ja-JP', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * サーバー側の動画解析ジョブの一覧。
+ * 別のタブ・再読み込み前に始めた解析も含めて状況を確認でき、不要なジョブはここから取り消せる。
+ * 完了したジョブは結果を取り込める。保存した元動画が残っていなければ、元動画のファイルを選び直してもらう。
+ */
+export default function AnalysisJobsPanel({ refreshKey, importDisabled, onImport }: AnalysisJobsPanelProps) {
+    const [jobs, setJobs] = useState<AnalysisJobSummary[]>([]);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const importTargetRef = useRef<AnalysisJobSummary | null>(null); // 元動画を選んでもらっている間の取り込み対象
+
+    const refresh = useCallback(async () => {
+        try {
+            const response = await fetch('/api/analysis-jobs', { cache: 'no-store' });
+            if (!response.ok) return;
+            const data = await response.json();
+            setJobs(Array.isArray(data.jobs) ? data.jobs : []);
+        } catch (e) {
+            console.warn('[AnalysisJobsPanel] Failed to load analysis jobs:', e);
+        }
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh, refreshKey]);
+
+    const hasActiveJobs = jobs.some(job => !isFinishedJobStatus(job.status));
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+        const timer = setInterval(refresh, POLL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [hasActiveJobs, refresh]);
+
+    const handleDelete = async (job: AnalysisJobSummary) => {
+        const active = !isFinishedJobStatus(job.status);
+        if (active && !confirm(`「${job.fileName}」の解析をキャンセルしますか？`)) return;
+        setDeletingId(job.id);
+        try {
+            await deleteAnalysisJob(job.id);
+            await refresh();
+        } catch (e) {
+            console.error('Failed to delete analysis job', e);
+            alert(e instanceof Error ? e.message : '解析ジョブを削除できませんでした。');
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    const importJob = async (job: AnalysisJobSummary, videoFile: File, sourceVideoId?: string) => {
+        if (!onImport) return;
+        await onImport(job, videoFile, sourceVideoId);
+        await refresh();
+    };
+
+    const handleImport = async (job: AnalysisJobSummary) => {
+        const stored = job.sourceVideoId ? await getSourceVideoFile(job.sourceVideoId).catch(() => null) : null;
+        if (stored) {
+            await importJob(job, stored, job.sourceVideoId);
+            return;
+        }
+        alert(`「${job.fileName}」の元動画がこのブラウザに保存されていません。画像を切り出すため、元動画のファイルを選択してください。`);
+        importTargetRef.current = job;
+        fileInputRef.current?.click();
+    };
+
+    const handleSourceFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        const job = importTargetRef.current;
+        e.target.value = '';
+        importTargetRef.current = null;
+        if (!file || !job) return;
+        // セクションから元動画を参照できるよう保存しておく（容量不足でも取り込みは続ける）
+        let sourceVideoId: string | undefined;
+        try {
+            sourceVideoId = await putSourceVideo(file);
+        } catch (err) {
+            console.warn(`[AnalysisJobsPanel] Failed to store source video "${file.name}":`, err);
+        }
+        await importJob(job, file, sourceVideoId);
+    };
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <section className="w-full max-w-5xl mx-auto mt-16">
+            <input ref={fileInputRef} type="file" accept="video/*" className="hidden" onChange={handleSourceFileSelected} />
+            <h3 className="text-lg font-black text-slate-900 tracking-tight mb-4">
+                解析ジョブ <span className="text-sm font-bold text-slate-400">({jobs.length})</span>
+            </h3>
+            <ul className="flex flex-col divide-y divide-slate-100 border border-slate-200 rounded-2xl bg-white overflow-hidden">
+                {jobs.map(job => {
+                    const status = STATUS_LABELS[job.status];
+                    const detail = job.status === 'failed'
+                        ? job.error?.message
+                        : job.status === 'completed'
+                            ? `${job.stepCount ?? 0} 件の手順`
+                            : job.progress && describeStreamProgress(job.progress, job.fileName).message;
+                    return (
+                        <li key={job.id} className="flex items-center gap-3 px-5 py-3">
+                            <span className={`text-[11px] font-bold px-2 py-0.5 rounded whitespace-nowrap ${status.className}`}>{status.label}</span>
+                            <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+                                <span className="text-sm font-bold text-slate-800 truncate">{job.fileName}</span>
+                                {detail && <span className="text-[11px] text-slate-500 truncate">{detail}</span>}
+                            </div>
+                            <span className="text-[11px] text-slate-400 tabular-nums whitespace-nowrap">
+                                {job.profileName && `${job.profileName}・`}{job.segmentCount && `${job.segmentCount}区間・`}{formatBytes(job.fileSize)}・{formatTime(job.createdAt)}
+                            </span>
+                            {onImport && job.status === 'completed' && (
+                                <button
+                                    onClick={() => handleImport(job)}
+                                    disabled={importDisabled || deletingId !== null}
+                                    className="h-7 px-3 rounded-md bg-purple-600 text-white text-[11px] font-bold hover:bg-purple-700 transition-all disabled:opacity-50 whitespace-nowrap"
+                                >
+                                    結果を取り込む
+                                </button>
+                            )}
+                            <button
+                                onClick={() => handleDelete(job)}
+                                disabled={deletingId !== null}
+                                className="h-7 px-2 rounded-md text-rose-500 text-[11px] font-bold hover:bg-rose-50 transition-all disabled:opacity-50"
+                            >
+                                {isFinishedJobStatus(job.status) ? '削除' : 'キャンセル'}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+}
@@ -1,7 +1,15 @@
 'use client';
 
 import { useState } from 'react';
-import { ManualData } from '@/app/page';
+import { ManualData, ManualStep } from '@/app/page';
+import { hydrateManualImages } from '@/utils/imageStore';
+import { groupStepsBySection } from '@/utils/sections';
+import { stepHeadingPrefix } from '@/utils/stepKind';
+import { CALLOUT_STYLES, visibleCallouts } from '@/utils/callouts';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { markdownFrontMatter, metadataEntries } from '@/utils/documentMetadata';
+import { ManualStrings, manualStrings } from '@/utils/outputLanguage';
 
 interface CopyButtonProps {
     manual: ManualData;
@@ -9,18 +17,40 @@ interface CopyButtonProps {
 }
 
 function generateMarkdown(manual: ManualData): string {
-    let md = `# ${manual.title}\n\n`;
+    const resolveBranches = createBranchResolver(manual);
+    const strings = manualStrings(manual.language);
+    let md = markdownFrontMatter(manual);
+    md += `# ${manual.title}\n\n`;
     md += `${manual.overview}\n\n`;
-    md += `## 手順\n\n`;
-
-    manual.steps.forEach((step) => {
-        md += `### ${step.stepNumber}. ${step.action}\n\n`;
-        md += `${step.detail}\n\n`;
+    md += `## ${strings.steps}\n\n`;
+
+    groupStepsBySection(manual).forEach(({ section, steps }) => {
+        if (steps.length === 0) return;
+        md += `### ${section.title}\n\n`;
+        if (section.description) md += `${section.description}\n\n`;
+        steps.forEach((step) => {
+            md += `#### ${stepHeadingPrefix(step, manual.language)} ${step.action}\n\n`;
+            md += `${step.detail}\n\n`;
+            visibleCallouts(step).forEach((c) => {
+                md += `> **${strings.callouts[c.type]}:** ${c.text}\n\n`;
+            });
+            const subSteps = visibleSubSteps(step);
+            subSteps.forEach((sub, i) => {
+                md += `- **${subStepLabel(step, i)}** ${sub.action}${sub.detail ? ` — ${sub.detail}` : ''}\n`;
+            });
+            if (subSteps.length > 0) md += `\n`;
+            const branches = resolveBranches(step);
+            branches.forEach((b) => {
+                md += `- ◆ ${formatBranch(b, manual.language)}\n`;
+            });
+            if (branches.length > 0) md += `\n`;
+        });
     });
 
-    if (manual.notes && manual.notes.length > 0) {
-        md += `## 注意事項\n\n`;
-        manual.notes.forEach((note) => {
+    const notes = (manual.notes || []).filter(n => n.trim() !== '');
+    if (notes.length > 0) {
+        md += `## ${strings.notes}\n\n`;
+        notes.forEach((note) => {
             md += `- ${note}\n`;
         });
     }
@@ -28,65 +58,108 @@ function generateMarkdown(manual: ManualData): string {
     return md;
 }
 
+function calloutsHtml(step: ManualStep, strings: ManualStrings): string {
+    return visibleCallouts(step).map((c) => {
+        const style = CALLOUT_STYLES[c.type];
+        return `<p style="border-left: 4px solid ${style.color}; background: ${style.background}; padding: 6px 10px;"><strong style="color: ${style.color};">${strings.callouts[c.type]}:</strong> ${c.text}</p>`;
+    }).join('');
+}
+
 function generateHTML(manual: ManualData, isTwoColumn: boolean = false): string {
+    const resolveBranches = createBranchResolver(manual);
+    const strings = manualStrings(manual.language);
+    const subStepsHtml = (step: ManualStep) => {
+        const subSteps = visibleSubSteps(step);
+        if (subSteps.length === 0) return '';
+        return `<ol style="list-style: none; padding-left: 12px; border-left: 2px solid #ddd;">` + subSteps.map((sub, i) =>
+            `<li><strong>${subStepLabel(step, i)}</strong> ${sub.action}` +
+            (sub.detail ? `<br/><span style="color: #555;">${sub.detail}</span>` : '') +
+            (sub.screenshot ? `<br/><img src="${sub.screenshot}" style="max-width: 320px; border: 1px solid #ddd; margin: 6px 0;" />` : '') +
+            `</li>`
+        ).join('') + `</ol>`;
+    };
+    const branchesHtml = (step: ManualStep) =>
+        resolveBranches(step).map((b) => `<p style="color: #4f46e5; font-weight: bold;">◆ ${formatBranch(b, manual.language)}</p>`).join('');
     let html = `<html><body>`;
     html += `<h1>${manual.title}</h1>`;
+    const metadata = metadataEntries(manual);
+    if (metadata.length > 0) {
+        html += `<table style="border-collapse: collapse; margin-bottom: 12px;">` +
+            metadata.map(e => `<tr><th style="text-align: left; padding: 2px 12px 2px 0; color: #1e1b4b;">${e.label}</th><td style="padding: 2px 0;">${e.value}</td></tr>`).join('') +
+            `</table>`;
+    }
     html += `<p>${manual.overview}</p>`;
-    html += `<h2>手順</h2>`;
-
-    if (isTwoColumn) {
-        // 2-column Layout (Using Table for maximum compatibility)
-        html += `<table style="width: 100%; border-collapse: collapse; table-layout: fixed;">`;
-        for (let i = 0; i < manual.steps.length; i += 2) {
-            html += `<tr>`;
-            // Left Column
-            const step1 = manual.steps[i];
-            html += `<td style="width: 50%; vertical-align: top; padding: 10px; border: 1px solid #eee;">`;
-            html += `<h3>${step1.stepNumber}. ${step1.action}</h3>`;
-            html += `<p>${step1.detail}</p>`;
-            if (step1.screenshot) {
-                html += `<div style="height: 300px; display: flex; align-items: center; justify-content: center; background: #f8f9fa; border: 1px solid #ddd; margin-top: 10px;">`;
-                html += `<img src="${step1.screenshot}" style="max-width: 100%; max-height: 100%; object-fit: contain;" />`;
-                html += `</div>`;
-            }
-            html += `</td>`;
-
-            // Right Column
-            const step2 = manual.steps[i + 1];
-            if (step2) {
+    html += `<h2>${strings.steps}</h2>`;
+
+    groupStepsBySection(manual).forEach(({ section, steps }) => {
+        if (steps.length === 0) return;
+        html += `<h3>${section.title}</h3>`;
+        if (section.description) html += `<p>${section.description}</p>`;
+
+        if (isTwoColumn) {
+            // 2-column Layout (Using Table for maximum compatibility)
+            html += `<table style="width: 100%; border-collapse: collapse; table-layout: fixed;">`;
+            for (let i = 0; i < steps.length; i += 2) {
+                html += `<tr>`;
+                // Left Column
+                const step1 = steps[i];
                 html += `<td style="width: 50%; vertical-align: top; padding: 10px; border: 1px solid #eee;">`;
-                html += `<h3>${step2.stepNumber}. ${step2.action}</h3>`;
-                html += `<p>${step2.detail}</p>`;
-                if (step2.screenshot) {
+                html += `<h4>${stepHeadingPrefix(step1, manual.language)} ${step1.action}</h4>`;
+                html += `<p>${step1.detail}</p>`;
+                html += calloutsHtml(step1, strings);
+                html += subStepsHtml(step1);
+                html += branchesHtml(step1);
+                if (step1.screenshot) {
                     html += `<div style="height: 300px; display: flex; align-items: center; justify-content: center; background: #f8f9fa; border: 1px solid #ddd; margin-top: 10px;">`;
-                    html += `<img src="${step2.screenshot}" style="max-width: 100%; max-height: 100%; object-fit: contain;" />`;
+                    html += `<img src="${step1.screenshot}" style="max-width: 100%; max-height: 100%; object-fit: contain;" />`;
                     html += `</div>`;
                 }
                 html += `</td>`;
-            } else {
-                html += `<td style="width: 50%;"></td>`; // Empty cell
-            }
-            html += `</tr>`;
-        }
-        html += `</table>`;
-    } else {
-        // Standard 1-column Layout
-        manual.steps.forEach((step) => {
-            html += `<div style="margin-bottom: 24px;">`;
-            html += `<h3>${step.stepNumber}. ${step.action}</h3>`;
-            html += `<p>${step.detail}</p>`;
-
-            if (step.screenshot) {
-                html += `<img src="${step.screenshot}" style="max-width: 100%; border-radius: 8px; border: 1px solid #ddd; margin: 10px 0;" />`;
+
+                // Right Column
+                const step2 = steps[i + 1];
+                if (step2) {
+                    html += `<td style="width: 50%; vertical-align: top; padding: 10px; border: 1px solid #eee;">`;
+                    html += `<h4>${stepHeadingPrefix(step2, manual.language)} ${step2.action}</h4>`;
+                    html += `<p>${step2.detail}</p>`;
+                    html += calloutsHtml(step2, strings);
+                    html += subStepsHtml(step2);
+                    html += branchesHtml(step2);
+                    if (step2.screenshot) {
+                        html += `<div style="height: 300px; display: flex; align-items: center; justify-content: center; background: #f8f9fa; border: 1px solid #ddd; margin-top: 10px;">`;
+                        html += `<img src="${step2.screenshot}" style="max-width: 100%; max-height: 100%; object-fit: contain;" />`;
+                        html += `</div>`;
+                    }
+                    html += `</td>`;
+                } else {
+                    html += `<td style="width: 50%;"></td>`; // Empty cell
+                }
+                html += `</tr>`;
             }
+            html += `</table>`;
+        } else {
+            // Standard 1-column Layout
+            steps.forEach((step) => {
+                html += `<div style="margin-bottom: 24px;">`;
+                html += `<h4>${stepHeadingPrefix(step, manual.language)} ${step.action}</h4>`;
+                html += `<p>${step.detail}</p>`;
+                html += calloutsHtml(step, strings);
+                html += subStepsHtml(step);
+                html += branchesHtml(step);
+
+                if (step.screenshot) {
+                    html += `<img src="${step.screenshot}" style="max-width: 100%; border-radius: 8px; border: 1px solid #ddd; margin: 10px 0;" />`;
+                }
 
-            html += `</div>`;
-        });
-    }
+                html += `</div>`;
+            });
+        }
+    });
 
-    if (manual.notes && manual.notes.length > 0) {
-        html += `<h2>注意事項</h2><ul>`;
-        manual.notes.forEach((note) => {
+    const notes = (manual.notes || []).filter(n => n.trim() !== '');
+    if (notes.length > 0) {
+        html += `<h2>${strings.notes}</h2><ul>`;
+        notes.forEach((note) => {
             html += `<li>${note}</li>`;
         });
         html += `</ul>`;
@@ -100,8 +173,9 @@ export default function CopyButton({ manual, isTwoColumn }: CopyButtonProps) {
     const [copied, setCopied] = useState(false);
 
     const handleCopy = async () => {
-        const markdown = generateMarkdown(manual);
-        const html = generateHTML(manual, isTwoColumn);
+        const exportable = await hydrateManualImages(manual);
+        const markdown = generateMarkdown(exportable);
+        const html = generateHTML(exportable, isTwoColumn);
 
         try {
             const blobHtml = new Blob([html], { type: 'text/html' });
@@ -0,0 +1,62 @@
+'use client';
+
+import { memo, useState, useEffect } from 'react';
+import { DocumentMetadata } from '@/app/page';
+import { compactMetadata, DOCUMENT_METADATA_FIELDS, DocumentMetadataKey } from '@/utils/documentMetadata';
+
+interface DocumentMetadataEditorProps {
+    metadata: DocumentMetadata;
+    onChange: (metadata: DocumentMetadata | undefined) => void;
+}
+
+const PLACEHOLDERS: Record<DocumentMetadataKey, string> = {
+    documentId: '例: QA-SOP-012',
+    revision: '例: 3',
+    author: '例: 山田 太郎',
+    approver: '例: 品質保証部長',
+    effectiveDate: '',
+    department: '例: 品質保証部',
+};
+
+/**
+ * 編集モードの文書管理情報フォーム。
+ * 各項目は NotesEditor と同じくローカル draft で持ち、blur 時にだけ親へ反映する。
+ * 空欄は保存時に取り除き、すべて空なら metadata 自体を消す。
+ */
+function DocumentMetadataEditor({ metadata, onChange }: DocumentMetadataEditorProps) {
+    const [draft, setDraft] = useState<DocumentMetadata>(metadata);
+    useEffect(() => { setDraft(metadata); }, [metadata]);
+
+    const commit = (key: DocumentMetadataKey) => {
+        if ((draft[key] || '') === (metadata[key] || '')) return;
+        onChange(compactMetadata({ ...metadata, [key]: draft[key] }));
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 pt-8">
+            <div className="bg-white border border-slate-200 p-6 rounded-[24px] shadow-sm">
+                <div className="flex items-center gap-3 mb-4">
+                    <span className="bg-slate-100 text-slate-600 text-[10px] font-black px-2 py-1 rounded tracking-widest">DOCUMENT CONTROL</span>
+                    <span className="text-[11px] font-bold text-slate-400">表紙と改訂表に出力されます</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    {DOCUMENT_METADATA_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="flex flex-col gap-1">
+                            <span className="text-[11px] font-bold text-slate-500">{label}</span>
+                            <input
+                                type={key === 'effectiveDate' ? 'date' : 'text'}
+                                value={draft[key] || ''}
+                                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                                onBlur={() => commit(key)}
+                                className="h-10 px-3 rounded-lg border border-slate-200 text-sm font-bold text-slate-800 focus:border-purple-500 focus:outline-none transition-colors placeholder-slate-300"
+                                placeholder={PLACEHOLDERS[key]}
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default memo(DocumentMetadataEditor);
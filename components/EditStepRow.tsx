@@ -12,12 +12,23 @@
  *   This reduces parent re-renders from O(keystrokes) → O(blur events).
  */
 import { memo, useState, useEffect, useCallback, useRef } from 'react';
-import type { ManualStep } from '@/app/page';
+import type { ManualStep, ManualSubStep, StepBranch, StepCallout, StepKind } from '@/app/page';
 import InlineCanvas from './InlineCanvas';
+import StepCalloutEditor from './StepCalloutEditor';
+import StepBranchEditor from './StepBranchEditor';
+import SubStepEditor from './SubStepEditor';
+import { useImageUrl } from '@/hooks/useImageUrl';
+import { isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
+import type { BranchTargetOption } from '@/utils/branches';
+import type { StepText } from '@/utils/stepRewrite';
 import { ToolType, StrokeStyle } from './EditorTypes';
 
+const sameText = (a: StepText, b: StepText) =>
+    a.action === b.action && a.detail === b.detail && (a.label ?? '') === (b.label ?? '');
+
 interface EditStepRowProps {
     step: ManualStep;
+    manualId?: string; // 注釈キャンバスの編集状態の保存先
     index: number;
     isPortrait: boolean;
     activeTool: ToolType;
@@ -36,10 +47,21 @@ interface EditStepRowProps {
     onDeleteStep: (index: number) => void;
     // Flush text edits to parent (called on blur — not on every keystroke)
     onTextBlur: (index: number, action: string, detail: string) => void;
+    // AI による書き直し（提案を返すだけ。採用したら onRewriteAccept で履歴を残して反映する）
+    onRewrite?: (index: number) => Promise<StepText>;
+    onRewriteAccept: (index: number, text: StepText) => void;
+    onTextReplace: (index: number, text: StepText) => void;
+    onKindChange: (index: number, kind: StepKind) => void;
+    onCalloutsChange: (index: number, callouts: StepCallout[]) => void;
+    branchTargets: BranchTargetOption[];
+    onBranchesChange: (index: number, branches: StepBranch[]) => void;
+    onSubStepsChange: (index: number, subSteps: ManualSubStep[]) => void;
+    onPickFrame?: (index: number) => void; // 元動画が保存されているセクションのみ
 }
 
 const EditStepRow = memo(function EditStepRow({
     step,
+    manualId,
     index,
     isPortrait,
     activeTool,
@@ -57,6 +79,15 @@ const EditStepRow = memo(function EditStepRow({
     onCanvasUpdate,
     onDeleteStep,
     onTextBlur,
+    onRewrite,
+    onRewriteAccept,
+    onTextReplace,
+    onKindChange,
+    onCalloutsChange,
+    branchTargets,
+    onBranchesChange,
+    onSubStepsChange,
+    onPickFrame,
 }: EditStepRowProps) {
     // Local draft — decoupled from parent state so typing doesn't trigger re-renders
     const [draftAction, setDraftAction] = useState(step.action);
@@ -77,19 +108,113 @@ const EditStepRow = memo(function EditStepRow({
         onTextBlur(index, draftAction, draftDetail);
     }, [index, draftAction, draftDetail, onTextBlur]);
 
+    // AI の書き直し案と、採用前後の本文（「元に戻す」用。行を離れても採用前の版はリビジョン履歴に残る）
+    const [isRewriting, setIsRewriting] = useState(false);
+    const [suggestion, setSuggestion] = useState<StepText | null>(null);
+    const [rewriteUndo, setRewriteUndo] = useState<{ before: StepText; accepted: StepText } | null>(null);
+    // 採用後に手で書き換えていたら、その編集を消さないよう元に戻せなくする
+    const canUndoRewrite = !!rewriteUndo && sameText(rewriteUndo.accepted, { action: draftAction, detail: draftDetail, label: step.label });
+
+    const handleRewrite = useCallback(async () => {
+        if (!onRewrite) return;
+        setIsRewriting(true);
+        try {
+            setSuggestion(await onRewrite(index));
+        } catch (e) {
+            console.warn('[EditStepRow] Step rewrite failed:', e);
+            alert(e instanceof Error ? e.message : 'AIによる書き直しに失敗しました');
+        } finally {
+            setIsRewriting(false);
+        }
+    }, [index, onRewrite]);
+
+    const handleAcceptRewrite = useCallback(() => {
+        if (!suggestion) return;
+        setRewriteUndo({ before: { action: step.action, detail: step.detail ?? '', label: step.label }, accepted: suggestion });
+        onRewriteAccept(index, suggestion);
+        setSuggestion(null);
+    }, [index, suggestion, step.action, step.detail, step.label, onRewriteAccept]);
+
+    const handleUndoRewrite = useCallback(() => {
+        if (!rewriteUndo || !canUndoRewrite) return;
+        onTextReplace(index, rewriteUndo.before);
+        setRewriteUndo(null);
+    }, [index, rewriteUndo, canUndoRewrite, onTextReplace]);
+
     const handleCanvasUpdate = useCallback(
         (newUrl: string, newData?: any) => onCanvasUpdate(index, newUrl, newData),
         [index, onCanvasUpdate]
     );
 
     const handleDelete = useCallback(() => onDeleteStep(index), [index, onDeleteStep]);
+    const handleCalloutsChange = useCallback(
+        (callouts: StepCallout[]) => onCalloutsChange(index, callouts),
+        [index, onCalloutsChange]
+    );
+    const handleBranchesChange = useCallback(
+        (branches: StepBranch[]) => onBranchesChange(index, branches),
+        [index, onBranchesChange]
+    );
+    const handleSubStepsChange = useCallback(
+        (subSteps: ManualSubStep[]) => onSubStepsChange(index, subSteps),
+        [index, onSubStepsChange]
+    );
+    const isConfirmation = isConfirmationStep(step);
+
+    // Always edit on top of the clean original so annotations are never burnt in twice
+    const imageUrl = useImageUrl(
+        step.originalId || step.screenshotId,
+        (step.originalUrl && !step.originalUrl.startsWith('blob:')) ? step.originalUrl : step.screenshot
+    );
 
     return (
         <section className="relative mx-auto max-w-5xl px-4 py-10 border-b border-slate-100 last:border-none">
             <div className="flex items-center gap-3 mb-4">
-                <div className="w-10 h-10 rounded-xl bg-slate-950 flex items-center justify-center text-white font-black text-sm shadow-lg flex-shrink-0">
-                    {step.stepNumber}
+                <div className={`w-10 h-10 rounded-xl ${isConfirmation ? 'bg-emerald-600' : 'bg-slate-950'} flex items-center justify-center text-white font-black text-sm shadow-lg flex-shrink-0`}>
+                    {stepNumberLabel(step)}
+                </div>
+                <div className="flex items-center bg-slate-100 p-0.5 rounded-lg" title="ステップの種類">
+                    <button
+                        onClick={() => isConfirmation && onKindChange(index, 'operation')}
+                        className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${!isConfirmation ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                    >
+                        操作
+                    </button>
+                    <button
+                        onClick={() => !isConfirmation && onKindChange(index, 'confirmation')}
+                        className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${isConfirmation ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                    >
+                        確認
+                    </button>
                 </div>
+                {onPickFrame && (
+                    <button
+                        onClick={() => onPickFrame(index)}
+                        className="px-3 py-1 bg-white text-purple-600 rounded-md text-xs font-bold border border-purple-200 hover:bg-purple-50 transition-all active:scale-95 whitespace-nowrap"
+                        title={step.timestamp ? `元動画の ${step.timestamp} 付近からフレームを選び直す` : '元動画からフレームを選び直す'}
+                    >
+                        動画から選び直す
+                    </button>
+                )}
+                {onRewrite && (
+                    <button
+                        onClick={handleRewrite}
+                        disabled={isRewriting}
+                        className="px-3 py-1 bg-white text-purple-600 rounded-md text-xs font-bold border border-purple-200 hover:bg-purple-50 transition-all active:scale-95 whitespace-nowrap disabled:opacity-50 disabled:cursor-wait"
+                        title="画面の画像と前後のステップから、このステップの文章を書き直す"
+                    >
+                        {isRewriting ? '書き直し中...' : 'AIで書き直す'}
+                    </button>
+                )}
+                {rewriteUndo && canUndoRewrite && !suggestion && (
+                    <button
+                        onClick={handleUndoRewrite}
+                        className="px-3 py-1 text-slate-500 rounded-md text-xs font-bold hover:bg-slate-100 transition-all whitespace-nowrap"
+                        title={`書き直す前の文章「${rewriteUndo.before.action}」に戻す`}
+                    >
+                        元に戻す
+                    </button>
+                )}
                 <button
                     onClick={handleDelete}
                     className="px-3 py-1 bg-rose-50 text-rose-600 rounded-md text-xs font-bold border border-rose-200 hover:bg-rose-600 hover:text-white hover:border-transparent transition-all active:scale-95 flex items-center justify-center whitespace-nowrap"
@@ -99,6 +224,28 @@ const EditStepRow = memo(function EditStepRow({
                 </button>
             </div>
             <div className="flex flex-col gap-3 py-1 w-full">
+                {suggestion && (
+                    <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 flex flex-col gap-2">
+                        <span className="text-[11px] font-bold text-purple-500">AIの書き直し案</span>
+                        <p className="font-black text-slate-900 text-lg leading-snug">{suggestion.action}</p>
+                        {suggestion.detail && <p className="text-sm font-bold text-slate-700 leading-relaxed">{suggestion.detail}</p>}
+                        {suggestion.label && <p className="text-[11px] text-slate-500">操作対象: {suggestion.label}</p>}
+                        <div className="flex items-center justify-end gap-2 pt-1">
+                            <button
+                                onClick={() => setSuggestion(null)}
+                                className="h-7 px-3 rounded-md text-slate-500 text-xs font-bold hover:bg-white transition-all"
+                            >
+                                破棄
+                            </button>
+                            <button
+                                onClick={handleAcceptRewrite}
+                                className="h-7 px-3 rounded-md bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 transition-all active:scale-95"
+                            >
+                                採用
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <input
                     type="text"
                     value={draftAction}
@@ -116,28 +263,37 @@ const EditStepRow = memo(function EditStepRow({
                     className="manual__step-desc text-slate-800 font-bold leading-relaxed w-full bg-transparent border border-purple-200 rounded-lg p-3 focus:border-purple-600 focus:outline-none transition-colors resize-y placeholder-slate-300 text-lg min-h-[100px]"
                     placeholder="手順の詳細説明"
                 />
+                <StepCalloutEditor callouts={step.callouts} onChange={handleCalloutsChange} />
+                <StepBranchEditor branches={step.branches} selfUid={step.uid} targets={branchTargets} onChange={handleBranchesChange} />
+                <SubStepEditor subSteps={step.subSteps} parentNumber={step.stepNumber} onChange={handleSubStepsChange} />
             </div>
 
             <div className={`manual__image-container rounded-[16px] overflow-hidden transition-all duration-500 border-2 bg-white shadow-floating border-purple-600/10 mx-auto ${isPortrait ? 'max-w-[576px]' : 'max-w-[768px]'}`}>
-                <InlineCanvas
-                    canvasId={`step-${step.uid || index}`}
-                    imageUrl={(step.originalUrl && !step.originalUrl.startsWith('blob:')) ? step.originalUrl : (step.screenshot || '')}
-                    activeTool={activeTool}
-                    currentColor={currentColor}
-                    onColorChange={onColorChange}
-                    strokeWidth={strokeWidth}
-                    onStrokeWidthChange={onStrokeWidthChange}
-                    strokeStyle={strokeStyle}
-                    onStrokeStyleChange={onStrokeStyleChange}
-                    fontSize={fontSize}
-                    onFontSizeChange={onFontSizeChange}
-                    stampCount={stampCount}
-                    onUpdate={handleCanvasUpdate}
-                    onStampUsed={onStampUsed}
-                    onToolReset={onToolReset}
-                    initialData={step.canvasData}
-                    isPortrait={isPortrait}
-                />
+                {imageUrl ? (
+                    <InlineCanvas
+                        canvasId={`step-${step.uid || index}`}
+                        manualId={manualId}
+                        stepUid={step.uid}
+                        imageUrl={imageUrl}
+                        activeTool={activeTool}
+                        currentColor={currentColor}
+                        onColorChange={onColorChange}
+                        strokeWidth={strokeWidth}
+                        onStrokeWidthChange={onStrokeWidthChange}
+                        strokeStyle={strokeStyle}
+                        onStrokeStyleChange={onStrokeStyleChange}
+                        fontSize={fontSize}
+                        onFontSizeChange={onFontSizeChange}
+                        stampCount={stampCount}
+                        onUpdate={handleCanvasUpdate}
+                        onStampUsed={onStampUsed}
+                        onToolReset={onToolReset}
+                        initialData={step.canvasData}
+                        isPortrait={isPortrait}
+                    />
+                ) : (
+                    <div className="w-full animate-pulse rounded-xl bg-slate-100" style={{ minHeight: '300px' }} />
+                )}
             </div>
         </section>
     );
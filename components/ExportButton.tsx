@@ -2,6 +2,14 @@
 
 import { useState } from 'react';
 import { ManualData } from '@/app/page';
+import { hydrateManualImages } from '@/utils/imageStore';
+import { groupStepsBySection } from '@/utils/sections';
+import { isConfirmationStep } from '@/utils/stepKind';
+import { visibleCallouts } from '@/utils/callouts';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { markdownFrontMatter } from '@/utils/documentMetadata';
+import { manualStrings } from '@/utils/outputLanguage';
 
 // Hoisted RegExp (js-hoist-regexp: compiled once at module level)
 const RE_SAFE_TITLE = /[^a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g;
@@ -12,23 +20,41 @@ interface ExportButtonProps {
 
 // --- Markdown出力 ---
 function generateMarkdown(manual: ManualData): string {
-    let md = `# ${manual.title}\n\n`;
+    const resolveBranches = createBranchResolver(manual);
+    const strings = manualStrings(manual.language);
+    let md = markdownFrontMatter(manual);
+    md += `# ${manual.title}\n\n`;
     md += `${manual.overview}\n\n---\n\n`;
-    manual.steps.forEach(step => {
-        md += `## 手順${step.stepNumber}: ${step.action}\n\n`;
-        if (step.detail && step.detail !== step.action) md += `${step.detail}\n\n`;
-        if (step.screenshot) {
-            // base64 データURL はそのまま埋め込まない（ファイルが巨大になるため）
-            if (step.screenshot.startsWith('data:')) {
-                md += `*(画像あり: 手順 ${step.stepNumber})*\n\n`;
-            } else {
-                md += `![Step ${step.stepNumber}](${step.screenshot})\n\n`;
+    groupStepsBySection(manual).forEach(({ section, steps }) => {
+        if (steps.length === 0) return;
+        md += `## ${section.title}\n\n`;
+        if (section.description) md += `${section.description}\n\n`;
+        steps.forEach(step => {
+            md += isConfirmationStep(step)
+                ? `### ${strings.confirmationBadge}: ${step.action}\n\n`
+                : `### ${strings.stepHeading(step.stepNumber)}: ${step.action}\n\n`;
+            if (step.detail && step.detail !== step.action) md += `${step.detail}\n\n`;
+            visibleCallouts(step).forEach(c => md += `> **${strings.callouts[c.type]}:** ${c.text}\n\n`);
+            const subSteps = visibleSubSteps(step);
+            subSteps.forEach((sub, i) => md += `- **${subStepLabel(step, i)}** ${sub.action}${sub.detail ? ` — ${sub.detail}` : ''}\n`);
+            if (subSteps.length > 0) md += `\n`;
+            const branches = resolveBranches(step);
+            branches.forEach(b => md += `- ◆ ${formatBranch(b, manual.language)}\n`);
+            if (branches.length > 0) md += `\n`;
+            if (step.screenshot) {
+                // base64 データURL はそのまま埋め込まない（ファイルが巨大になるため）
+                if (step.screenshot.startsWith('data:')) {
+                    md += `*(${strings.imageAvailable(step.stepNumber)})*\n\n`;
+                } else {
+                    md += `![Step ${step.stepNumber}](${step.screenshot})\n\n`;
+                }
             }
-        }
+        });
     });
-    if (manual.notes && manual.notes.length > 0) {
-        md += `---\n\n## 注意事項\n\n`;
-        manual.notes.forEach(note => md += `- ${note}\n`);
+    const notes = (manual.notes || []).filter(n => n.trim() !== '');
+    if (notes.length > 0) {
+        md += `---\n\n## ${strings.notes}\n\n`;
+        notes.forEach(note => md += `- ${note}\n`);
     }
     return md;
 }
@@ -49,24 +75,27 @@ export default function ExportButton({ manual }: ExportButtonProps) {
 
     const handleExport = async (format: string) => {
         const safeTitle = manual.title.replace(RE_SAFE_TITLE, '_');
+        // 画像はIDで保持しているため、画像を埋め込む形式の時だけ data URL に展開する
+        // （Excelは画像を使わず、プロジェクトファイルは画像を Blob のまま格納する）
+        const exportable = format === 'excel' || format === 'project' ? manual : await hydrateManualImages(manual);
 
         switch (format) {
             case 'docx': {
                 const { generateAndDownloadDocx } = await import('@/utils/exporters/docxExporter');
-                await generateAndDownloadDocx(manual);
+                await generateAndDownloadDocx(exportable);
                 break;
             }
             case 'pptx': {
                 try {
                     const { generateAndDownloadPptx } = await import('@/utils/exporters/pptxExporter');
-                    await generateAndDownloadPptx(manual, safeTitle);
+                    await generateAndDownloadPptx(exportable, safeTitle);
                 } catch (e) { console.error(e); }
                 break;
             }
             case 'pdf': {
                 try {
                     const { generateAndDownloadPdf } = await import('@/utils/exporters/pdfExporter');
-                    await generateAndDownloadPdf(manual, safeTitle);
+                    await generateAndDownloadPdf(exportable, safeTitle);
                 } catch (e) { console.error(e); }
                 break;
             }
@@ -80,11 +109,18 @@ export default function ExportButton({ manual }: ExportButtonProps) {
                 break;
             }
             case 'markdown':
-                downloadFile(generateMarkdown(manual), `${safeTitle}.md`, 'text/markdown;charset=utf-8');
+                downloadFile(generateMarkdown(exportable), `${safeTitle}.md`, 'text/markdown;charset=utf-8');
                 break;
             case 'html': {
                 const { generateHTML } = await import('@/utils/exporters/pdfExporter');
-                downloadFile(await generateHTML(manual), `${safeTitle}.html`, 'text/html;charset=utf-8');
+                downloadFile(await generateHTML(exportable), `${safeTitle}.html`, 'text/html;charset=utf-8');
+                break;
+            }
+            case 'project': {
+                try {
+                    const { generateAndDownloadProject } = await import('@/utils/projectArchive');
+                    await generateAndDownloadProject(exportable, safeTitle);
+                } catch (e) { console.error(e); }
                 break;
             }
         }
@@ -113,6 +149,11 @@ export default function ExportButton({ manual }: ExportButtonProps) {
                                 <button className="export-modal__option flex-1 py-3" onClick={() => handleExport('html')}><span className="export-modal__label">HTML</span></button>
                                 <button className="export-modal__option flex-1 py-2 bg-slate-50" onClick={() => handleExport('markdown')}><span className="export-modal__label text-xs">Markdown</span></button>
                             </div>
+                            <div className="flex gap-2 w-full">
+                                <button className="export-modal__option flex-1 py-3" onClick={() => handleExport('project')} title="別の環境で編集を続けられるプロジェクトファイル">
+                                    <span className="export-modal__label">プロジェクト（.automanual）</span>
+                                </button>
+                            </div>
                         </div>
                         <button className="btn btn--secondary mt-4 w-full" onClick={() => setShowModal(false)}>キャンセル</button>
                     </div>
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getSourceVideoFile } from '@/utils/videoStore';
+import { captureVideoFrame, formatTimestamp, parseTimestamp } from '@/utils/videoProcessor';
+
+export type FramePickMode = 'replace' | 'insert';
+
+interface FramePickerModalProps {
+    videoId: string;
+    stepLabel: string;
+    initialTimestamp?: string;
+    onPick: (mode: FramePickMode, dataUrl: string, timestamp: string) => void;
+    onClose: () => void;
+}
+
+const SEEK_STEPS = [-1, -0.1, 0.1, 1];
+
+/**
+ * 保存済みの元動画から任意のフレームを選び直すモーダル。
+ * ステップの画像を差し替えるか、そのフレームで直後に新しいステップを挿入する。
+ */
+export default function FramePickerModal({ videoId, stepLabel, initialTimestamp, onPick, onClose }: FramePickerModalProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [isMissing, setIsMissing] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+
+    useEffect(() => {
+        let url: string | null = null;
+        let cancelled = false;
+        getSourceVideoFile(videoId)
+            .then(file => {
+                if (cancelled) return;
+                if (!file) { setIsMissing(true); return; }
+                url = URL.createObjectURL(file);
+                setVideoUrl(url);
+            })
+            .catch(e => {
+                console.error('Failed to load source video', e);
+                if (!cancelled) setIsMissing(true);
+            });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [videoId]);
+
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video || !initialTimestamp) return;
+        video.currentTime = Math.min(parseTimestamp(initialTimestamp), Math.max(0, video.duration - 0.1));
+    };
+
+    const seekBy = (offset: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.pause();
+        video.currentTime = Math.min(Math.max(0, video.currentTime + offset), video.duration || 0);
+    };
+
+    const handlePick = (mode: FramePickMode) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.pause();
+        try {
+            onPick(mode, captureVideoFrame(video), formatTimestamp(video.currentTime));
+        } catch (e) {
+            console.error('Frame capture failed', e);
+            alert('フレームの切り出しに失敗しました。');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+                    <h3 className="text-base font-black text-slate-900">動画からフレームを選ぶ <span className="text-xs font-bold text-slate-400 ml-2">{stepLabel}</span></h3>
+                    <button onClick={onClose} className="text-xs font-bold text-slate-400 hover:text-slate-700">閉じる</button>
+                </div>
+
+                <div className="p-6 flex flex-col gap-4">
+                    {isMissing ? (
+                        <p className="text-sm text-slate-500 text-center py-16">元動画が見つかりません。ライブラリのストレージ管理から削除された可能性があります。</p>
+                    ) : !videoUrl ? (
+                        <div className="w-full aspect-video animate-pulse rounded-xl bg-slate-100" />
+                    ) : (
+                        <>
+                            <video
+                                ref={videoRef}
+                                src={videoUrl}
+                                controls
+                                muted
+                                playsInline
+                                onLoadedMetadata={handleLoadedMetadata}
+                                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                className="w-full max-h-[60vh] rounded-xl bg-black"
+                            />
+                            <div className="flex items-center justify-between gap-3">
+                                <div className="flex items-center gap-1">
+                                    {SEEK_STEPS.map(offset => (
+                                        <button
+                                            key={offset}
+                                            onClick={() => seekBy(offset)}
+                                            className="h-8 px-3 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all"
+                                        >
+                                            {offset > 0 ? `+${offset}` : offset}秒
+                                        </button>
+                                    ))}
+                                    <span className="ml-2 text-xs font-bold text-slate-500 tabular-nums">{formatTimestamp(currentTime)}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => handlePick('insert')}
+                                        className="h-9 px-4 rounded-lg border border-purple-200 text-purple-700 text-xs font-bold hover:bg-purple-50 transition-all active:scale-95"
+                                    >
+                                        この後ろにステップを挿入
+                                    </button>
+                                    <button
+                                        onClick={() => handlePick('replace')}
+                                        className="h-9 px-4 rounded-lg bg-purple-600 text-white text-xs font-bold shadow-lg shadow-purple-200 hover:bg-purple-700 transition-all active:scale-95"
+                                    >
+                                        このフレームに差し替え
+                                    </button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
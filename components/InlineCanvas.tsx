@@ -3,9 +3,19 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { Canvas, Rect, Ellipse, Path, Textbox, Circle, Group, FabricImage, FabricText, Point } from 'fabric';
 import { ToolType, StrokeStyle } from '@/components/EditorTypes';
+import { loadCanvasState, saveCanvasState, MAX_CANVAS_HISTORY } from '@/utils/canvasStateStore';
+
+// 注釈オブジェクトだけを JSON 化する（背景画像は容量を取るため含めない。履歴・保存で共通の形式）
+function serializeObjects(c: Canvas): string {
+    const objects = c.getObjects().map((obj: any) => obj.toObject(['selectable', 'evented', 'id', 'lockScalingY', 'hasControls', 'strokeDashArray', 'stroke', 'strokeWidth', 'strokeUniform']));
+    return JSON.stringify({ objects });
+}
 
 interface InlineCanvasProps {
     canvasId: string;
+    // 編集状態・Undo 履歴の保存先（未保存のマニュアルでは省略され、メモリ上だけで持つ）
+    manualId?: string;
+    stepUid?: string;
     imageUrl: string;
     activeTool: ToolType;
     currentColor: string;
@@ -27,6 +37,8 @@ interface InlineCanvasProps {
 
 export default function InlineCanvas({
     canvasId,
+    manualId,
+    stepUid,
     imageUrl,
     activeTool,
     currentColor,
@@ -82,6 +94,8 @@ export default function InlineCanvas({
     const isUpdatingFromCanvas = useRef(false);
 
     const history = useRef<string[]>([]);
+    const persistKeyRef = useRef({ manualId, stepUid });
+    persistKeyRef.current = { manualId, stepUid };
     const redoStack = useRef<string[]>([]);
     const isRedoing = useRef(false);
     const prevToolRef = useRef(activeTool);
@@ -341,35 +355,20 @@ export default function InlineCanvas({
         };
 
         // 状態保存 — objects only (background image is excluded to save space)
-        const MAX_HISTORY = 30;
         const saveState = (c: Canvas) => {
             // Save only annotation objects, not the background image
-            const objects = c.getObjects().map((obj: any) => obj.toObject(['selectable', 'evented', 'id', 'lockScalingY', 'hasControls', 'strokeDashArray', 'stroke', 'strokeWidth', 'strokeUniform']));
-            const json = JSON.stringify({ objects });
+            const json = serializeObjects(c);
             history.current.push(json);
             // Cap history size
-            if (history.current.length > MAX_HISTORY) {
-                history.current = history.current.slice(-MAX_HISTORY);
+            if (history.current.length > MAX_CANVAS_HISTORY) {
+                history.current = history.current.slice(-MAX_CANVAS_HISTORY);
             }
             redoStack.current = [];
-            try {
-                localStorage.setItem(`am_canvas_state_${canvasId}`, json);
-            } catch (e) {
-                // Quota exceeded — clear old am_ entries and retry once
-                try {
-                    const keysToRemove: string[] = [];
-                    for (let i = 0; i < localStorage.length; i++) {
-                        const key = localStorage.key(i);
-                        if (key && key.startsWith('am_canvas_state_') && key !== `am_canvas_state_${canvasId}`) {
-                            keysToRemove.push(key);
-                        }
-                    }
-                    keysToRemove.forEach(k => localStorage.removeItem(k));
-                    localStorage.setItem(`am_canvas_state_${canvasId}`, json);
-                } catch {
-                    // Still failed — just skip localStorage
-                    console.warn('[InlineCanvas] localStorage full, skipping state persistence');
-                }
+            const { manualId: mId, stepUid: sUid } = persistKeyRef.current;
+            if (mId && sUid) {
+                saveCanvasState(mId, sUid, json, history.current).catch(e => {
+                    console.warn('[InlineCanvas] Failed to persist canvas state:', e);
+                });
             }
         };
         saveStateRef.current = () => saveState(canvas);
@@ -686,7 +685,13 @@ export default function InlineCanvas({
             // Fabric 6.x: FabricImage.fromURL
             canvas.clear();
             // Fabric 6.x: FabricImage.fromURL
-            const img = await FabricImage.fromURL(imageUrl, { crossOrigin: 'anonymous' });
+            const { manualId: mId, stepUid: sUid } = persistKeyRef.current;
+            const [img, stored] = await Promise.all([
+                FabricImage.fromURL(imageUrl, { crossOrigin: 'anonymous' }),
+                mId && sUid
+                    ? loadCanvasState(mId, sUid).catch(e => { console.warn('[InlineCanvas] Failed to load canvas state:', e); return null; })
+                    : Promise.resolve(null),
+            ]);
             if (!isMounted.current) return;
 
             const originalWidth = img.width ?? 800;
@@ -740,16 +745,13 @@ export default function InlineCanvas({
                     obj.set({ selectable: true, evented: true, objectCaching: false });
                     obj.setCoords();
                 });
-            } else {
-                const saved = localStorage.getItem(`am_canvas_state_${canvasId}`);
-                if (saved && saved !== 'undefined') {
-                    try {
-                        const savedData = JSON.parse(saved);
-                        // Convert to full JSON so fabric 6.x parses objects correctly
-                        await canvas.loadFromJSON({ version: '6.0.0', objects: savedData.objects || [] });
-                        canvas.getObjects().forEach(obj => { obj.setCoords(); });
-                    } catch { }
-                }
+            } else if (stored) {
+                try {
+                    const savedData = JSON.parse(stored.state);
+                    // Convert to full JSON so fabric 6.x parses objects correctly
+                    await canvas.loadFromJSON({ version: '6.0.0', objects: savedData.objects || [] });
+                    canvas.getObjects().forEach(obj => { obj.setCoords(); });
+                } catch { }
             }
 
             // CRITICAL FIX: Re-apply background image AFTER loading JSON
@@ -759,9 +761,11 @@ export default function InlineCanvas({
 
             canvas.renderAll();
             // Store initial state (objects only, to prevent background image storage)
-            const objects = canvas.getObjects().map((obj: any) => obj.toObject(['selectable', 'evented', 'id', 'strokeDashArray']));
-            const initialState = JSON.stringify({ objects });
-            history.current = [initialState];
+            // 保存済みの履歴が今の内容で終わっていれば引き継ぎ、再読み込み後も Undo できるようにする
+            const initialState = serializeObjects(canvas);
+            history.current = stored && stored.history[stored.history.length - 1] === initialState
+                ? [...stored.history]
+                : [initialState];
             lastSavedUrl.current = imageUrl;
         };
 
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManualData } from '@/app/page';
+import { loadManual } from '@/utils/manualLibrary';
+import { countPending, pendingTranslation, retranslateLanguageVariant } from '@/utils/languageVariants';
+import { OUTPUT_LANGUAGES } from '@/utils/outputLanguage';
+
+interface LanguageVariantBannerProps {
+    manual: ManualData; // variantOf を持つ翻訳版
+    onUpdateManual?: (updater: ManualData | ((prev: ManualData) => ManualData)) => void;
+    onOpenManual?: (id: string) => void;
+}
+
+/**
+ * 翻訳版を開いているときに出す帯。
+ * 翻訳元へのリンクと、未翻訳・原文が変わった項目の件数、それらを訳し直すボタンを表示する。
+ */
+export default function LanguageVariantBanner({ manual, onUpdateManual, onOpenManual }: LanguageVariantBannerProps) {
+    const link = manual.variantOf;
+    const [source, setSource] = useState<ManualData | null | undefined>(undefined); // undefined: 読み込み中, null: 翻訳元なし
+    const [isTranslating, setIsTranslating] = useState(false);
+
+    const sourceId = link?.sourceId;
+    useEffect(() => {
+        if (!sourceId) return;
+        let cancelled = false;
+        loadManual(sourceId)
+            .then(data => { if (!cancelled) setSource(data); })
+            .catch(e => {
+                console.warn('[LanguageVariantBanner] Failed to load source manual:', e);
+                if (!cancelled) setSource(null);
+            });
+        return () => { cancelled = true; };
+    }, [sourceId]);
+
+    if (!link) return null;
+
+    const languageLabel = OUTPUT_LANGUAGES.find(l => l.value === manual.language)?.label ?? manual.language;
+    const pendingCount = source ? countPending(pendingTranslation(source, manual)) : 0;
+
+    const handleRetranslate = async () => {
+        if (!onUpdateManual) return;
+        setIsTranslating(true);
+        try {
+            const next = await retranslateLanguageVariant(manual);
+            onUpdateManual(next);
+        } catch (e) {
+            console.error('Translation failed', e);
+            alert(`翻訳に失敗しました: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+            <div className="flex items-center justify-between gap-4 rounded-2xl border border-sky-100 bg-sky-50/60 px-5 py-3">
+                <div className="min-w-0 text-xs leading-relaxed">
+                    <p className="font-black text-sky-800">翻訳版（{languageLabel}）</p>
+                    <p className="text-sky-700/80">
+                        {source === null
+                            ? '翻訳元のマニュアルが見つかりません。画像と構成は最後に反映された状態のままです。'
+                            : `画像と手順の構成は翻訳元${source ? `「${source.title}」` : ''}から反映されます。翻訳版では訳文だけを編集でき、画像や構成の編集は翻訳元で行います。`}
+                    </p>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                    {source && onOpenManual && (
+                        <button
+                            onClick={() => onOpenManual(link.sourceId)}
+                            className="h-8 px-3 rounded-md text-sky-700 text-xs font-bold hover:bg-sky-100 transition-all"
+                        >
+                            翻訳元を開く
+                        </button>
+                    )}
+                    {source && onUpdateManual && pendingCount > 0 && (
+                        <button
+                            onClick={handleRetranslate}
+                            disabled={isTranslating}
+                            className="h-8 px-3 rounded-md bg-sky-600 text-white text-xs font-bold hover:bg-sky-700 transition-all disabled:opacity-40"
+                        >
+                            {isTranslating ? '翻訳中…' : `未翻訳の項目を翻訳（${pendingCount} 件）`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    ManualSummary,
+    listManuals,
+    loadManual,
+    renameManual,
+    duplicateManual,
+    deleteManual,
+} from '@/utils/manualLibrary';
+import { PROJECT_FILE_EXTENSION, importProjectArchive, generateAndDownloadProject } from '@/utils/projectArchive';
+import { sanitizeFileName } from '@/utils/imageUtils';
+import { ensureSearchIndex, searchManuals, SearchHit } from '@/utils/searchIndex';
+import { OUTPUT_LANGUAGES } from '@/utils/outputLanguage';
+import StorageUsagePanel from './StorageUsagePanel';
+
+interface ManualLibraryProps {
+    onOpen: (id: string, stepUid?: string) => void;
+    onCreateNew: () => void;
+}
+
+const formatDateTime = (ms: number): string =>
+    new Date(ms).toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * 保存済みマニュアルの一覧（ライブラリ）。
+ * 開く・名前変更・複製・削除をここから行い、生成のたびに前のマニュアルが消えることを防ぐ。
+ */
+export default function ManualLibrary({ onOpen, onCreateNew }: ManualLibraryProps) {
+    const [manuals, setManuals] = useState<ManualSummary[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [query, setQuery] = useState('');
+    const [hits, setHits] = useState<SearchHit[] | null>(null); // null: 検索していない
+    const [showStorage, setShowStorage] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            setManuals(await listManuals());
+        } catch (e) {
+            console.error('Failed to load manual library', e);
+        } finally {
+            setIsLoaded(true);
+        }
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    // 旧バージョンで保存されたマニュアルもここで索引付けしておく
+    useEffect(() => {
+        ensureSearchIndex().catch(e => console.warn('[ManualLibrary] Failed to build search index:', e));
+    }, []);
+
+    // 入力が止まってから検索する（古い結果で上書きしないよう、後発の入力が来たら結果を捨てる）
+    useEffect(() => {
+        if (!query.trim()) { setHits(null); return; }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const result = await searchManuals(query);
+                if (!cancelled) setHits(result);
+            } catch (e) {
+                console.error('Failed to search manual library', e);
+            }
+        }, 200);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [query]);
+
+    const handleStartRename = (m: ManualSummary) => {
+        setRenamingId(m.id);
+        setDraftTitle(m.title);
+    };
+
+    const handleCommitRename = async () => {
+        if (!renamingId) return;
+        const title = draftTitle.trim();
+        if (title) await renameManual(renamingId, title);
+        setRenamingId(null);
+        refresh();
+    };
+
+    const handleDuplicate = async (id: string) => {
+        await duplicateManual(id);
+        refresh();
+    };
+
+    const handleDelete = async (m: ManualSummary) => {
+        if (!confirm(`「${m.title}」を削除しますか？\nこの操作は取り消せません。`)) return;
+        await deleteManual(m.id);
+        refresh();
+    };
+
+    const handleExportProject = async (m: ManualSummary) => {
+        const data = await loadManual(m.id);
+        if (!data) return;
+        await generateAndDownloadProject(data, sanitizeFileName(m.title));
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // 同じファイルを続けて選べるようにリセット
+        if (!file) return;
+        setIsImporting(true);
+        try {
+            const { id, repairedCount, issueCount, missingImageCount } = await importProjectArchive(file);
+            const warnings = [
+                repairedCount > 0 && `${repairedCount} 件の不整合を自動で修復しました。`,
+                issueCount > 0 && `${issueCount} 件の不整合が残っているため、内容を確認してください。`,
+                missingImageCount > 0 && `ファイルに含まれていない画像が ${missingImageCount} 枚あったため、該当するステップは画像なしで読み込みました。画像を差し替えてください。`,
+            ].filter(Boolean);
+            if (warnings.length > 0) alert(`プロジェクトファイルを読み込みました。\n${warnings.join('\n')}`);
+            onOpen(id);
+        } catch (err: any) {
+            console.error('Failed to import project file', err);
+            alert(err?.message || 'プロジェクトファイルの読み込みに失敗しました。');
+            refresh();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    if (!isLoaded) return null;
+
+    return (
+        <section className="w-full max-w-5xl mx-auto mt-16">
+            <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-black text-slate-900 tracking-tight">
+                    マニュアルライブラリ <span className="text-sm font-bold text-slate-400">({manuals.length})</span>
+                </h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setShowStorage(v => !v)}
+                        className={`h-9 px-4 rounded-lg border text-xs font-bold transition-all active:scale-95 ${showStorage ? 'border-purple-300 bg-purple-50 text-purple-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                        title="ストレージ使用量と元動画の管理"
+                    >
+                        ストレージ
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept={PROJECT_FILE_EXTENSION}
+                        className="hidden"
+                        onChange={handleImport}
+                    />
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                        className="h-9 px-4 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition-all active:scale-95 disabled:opacity-50"
+                        title={`プロジェクトファイル（${PROJECT_FILE_EXTENSION}）を読み込む`}
+                    >
+                        {isImporting ? '読み込み中...' : 'インポート'}
+                    </button>
+                    <button
+                        onClick={onCreateNew}
+                        className="h-9 px-4 rounded-lg bg-purple-600 text-white text-xs font-bold shadow-lg shadow-purple-200 hover:bg-purple-700 transition-all active:scale-95"
+                    >
+                        新規作成
+                    </button>
+                </div>
+            </div>
+
+            {showStorage && <StorageUsagePanel />}
+
+            {manuals.length > 0 && (
+                <div className="relative mb-6">
+                    <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-4.35-4.35M17 11A6 6 0 115 11a6 6 0 0112 0z" /></svg>
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+                        className="w-full h-11 pl-9 pr-4 rounded-xl border border-slate-200 text-sm font-bold text-slate-800 focus:border-purple-500 focus:outline-none placeholder-slate-300"
+                        placeholder="タイトル・概要・手順・注意事項を検索（例: 請求書発行）"
+                    />
+                </div>
+            )}
+
+            {hits !== null ? (
+                hits.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-12 border border-dashed border-slate-200 rounded-2xl">
+                        「{query.trim()}」に一致する項目はありません。
+                    </p>
+                ) : (
+                    <ul className="flex flex-col divide-y divide-slate-100 border border-slate-200 rounded-2xl bg-white overflow-hidden">
+                        {hits.map(hit => (
+                            <li key={`${hit.manualId}:${hit.key}`}>
+                                <button
+                                    onClick={() => onOpen(hit.manualId, hit.stepUid)}
+                                    className="w-full text-left px-5 py-3 hover:bg-purple-50/60 transition-colors flex flex-col gap-1"
+                                >
+                                    <span className="flex items-center gap-2 text-[11px] font-bold">
+                                        <span className="text-slate-900">{hit.manualTitle}</span>
+                                        <span className="bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded">{hit.field}</span>
+                                    </span>
+                                    <span className="text-sm text-slate-600 leading-relaxed">
+                                        {hit.snippet.before}
+                                        {hit.snippet.match && <mark className="bg-amber-200 text-slate-900 rounded px-0.5">{hit.snippet.match}</mark>}
+                                        {hit.snippet.after}
+                                    </span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            ) : manuals.length === 0 ? (
+                <p className="text-sm text-slate-400 text-center py-12 border border-dashed border-slate-200 rounded-2xl">
+                    保存されたマニュアルはまだありません。動画から生成するとここに追加されます。
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
+                    {manuals.map(m => (
+                        <div key={m.id} className="group rounded-2xl border border-slate-200 bg-white overflow-hidden shadow-sm hover:shadow-lg hover:border-purple-300 transition-all">
+                            <button
+                                onClick={() => onOpen(m.id)}
+                                className="block w-full aspect-video bg-slate-100 overflow-hidden"
+                                title="開く"
+                            >
+                                {m.thumbnail ? (
+                                    <img src={m.thumbnail} alt={m.title} className="w-full h-full object-cover group-hover:scale-[1.02] transition-transform" />
+                                ) : (
+                                    <div className="w-full h-full flex items-center justify-center text-slate-300">
+                                        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                                    </div>
+                                )}
+                            </button>
+                            <div className="p-4 flex flex-col gap-2">
+                                {renamingId === m.id ? (
+                                    <input
+                                        autoFocus
+                                        value={draftTitle}
+                                        onChange={(e) => setDraftTitle(e.target.value)}
+                                        onBlur={handleCommitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleCommitRename();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="text-sm font-bold text-slate-900 border-b-2 border-purple-300 focus:border-purple-600 focus:outline-none bg-transparent"
+                                    />
+                                ) : (
+                                    <p className="text-sm font-bold text-slate-900 line-clamp-2 leading-snug">{m.title}</p>
+                                )}
+                                {m.variantLanguage && (
+                                    <span className="self-start px-2 py-0.5 rounded-full bg-sky-50 text-sky-700 text-[10px] font-bold">
+                                        翻訳版 · {OUTPUT_LANGUAGES.find(l => l.value === m.variantLanguage)?.label}
+                                    </span>
+                                )}
+                                <div className="text-[11px] text-slate-400 leading-relaxed">
+                                    <p>{m.stepCount} ステップ</p>
+                                    <p>作成: {formatDateTime(m.createdAt)}</p>
+                                    <p>更新: {formatDateTime(m.updatedAt)}</p>
+                                </div>
+                                <div className="flex items-center gap-1.5 pt-2 border-t border-slate-100">
+                                    <button onClick={() => onOpen(m.id)} className="h-7 px-3 rounded-md bg-slate-950 text-white text-[11px] font-bold hover:bg-slate-800 transition-all">開く</button>
+                                    <button onClick={() => handleStartRename(m)} className="h-7 px-2 rounded-md text-slate-500 text-[11px] font-bold hover:bg-slate-100 transition-all">名前変更</button>
+                                    <button onClick={() => handleDuplicate(m.id)} className="h-7 px-2 rounded-md text-slate-500 text-[11px] font-bold hover:bg-slate-100 transition-all">複製</button>
+                                    <button onClick={() => handleExportProject(m)} className="h-7 px-2 rounded-md text-slate-500 text-[11px] font-bold hover:bg-slate-100 transition-all" title={`プロジェクトファイル（${PROJECT_FILE_EXTENSION}）として書き出す`}>書き出し</button>
+                                    <button onClick={() => handleDelete(m)} className="h-7 px-2 rounded-md text-rose-500 text-[11px] font-bold hover:bg-rose-50 transition-all ml-auto">削除</button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
@@ -2,12 +2,20 @@
 
 import { memo } from 'react';
 import { ManualStep } from '@/app/page';
-import { useBlobUrl } from '@/hooks/useBlobUrl';
+import { useImageUrl } from '@/hooks/useImageUrl';
+import { CONFIRMATION_BADGE, isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
+import { visibleCallouts } from '@/utils/callouts';
+import StepCallouts from './StepCallouts';
+import StepImage from './StepImage';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import type { ResolvedBranch } from '@/utils/branches';
+import { focusStep } from '@/utils/stepFocus';
 
 interface ManualStepItemProps {
     step: ManualStep;
     isPortrait: boolean;
     isTwoColumn: boolean;
+    branches: ResolvedBranch[];
 }
 
 /**
@@ -17,15 +25,18 @@ interface ManualStepItemProps {
  * 変わらない限り再レンダリングされません。
  * タイトルや詳細の編集中も、他のステップの画像は再描画されません。
  *
- * screenshot 表示には useBlobUrl フックを使用し、Base64 文字列を
- * Blob URL に変換してメモリ使用量を削減します。
+ * screenshot 表示には useImageUrl フックを使用し、images テーブルの Blob を
+ * キャッシュ済みの Object URL として参照します（base64 のデコードは行いません）。
  */
 const ManualStepItem = memo(function ManualStepItem({
     step,
     isPortrait,
     isTwoColumn,
+    branches,
 }: ManualStepItemProps) {
-    const displayUrl = useBlobUrl(step.screenshot);
+    const displayUrl = useImageUrl(step.screenshotId, step.screenshot);
+    const isConfirmation = isConfirmationStep(step);
+    const subSteps = visibleSubSteps(step);
 
     return (
         <section
@@ -37,19 +48,68 @@ const ManualStepItem = memo(function ManualStepItem({
             <div className={`flex items-start gap-6 group ${isTwoColumn ? 'flex-grow mb-4' : 'mb-6'}`}>
                 <div className="flex flex-col items-center gap-3">
                     <div
-                        className={`manual__step-number flex-shrink-0 w-10 h-10 bg-slate-950 text-white rounded-xl flex items-center justify-center text-lg font-black shadow-2xl shadow-slate-900/30 group-hover:scale-110 transition-transform ${!isTwoColumn ? 'mt-[12px]' : ''
+                        className={`manual__step-number flex-shrink-0 w-10 h-10 ${isConfirmation ? 'bg-emerald-600' : 'bg-slate-950'} text-white rounded-xl flex items-center justify-center text-lg font-black shadow-2xl shadow-slate-900/30 group-hover:scale-110 transition-transform ${!isTwoColumn ? 'mt-[12px]' : ''
                             }`}
                     >
-                        {step.stepNumber}
+                        {stepNumberLabel(step)}
                     </div>
                 </div>
                 <div className={`flex flex-col gap-3 py-1 w-full ${isTwoColumn ? 'min-h-[140px]' : ''}`}>
+                    {isConfirmation && (
+                        <span className="self-start bg-emerald-50 border border-emerald-200 text-emerald-700 text-[11px] font-black px-2 py-0.5 rounded tracking-widest">
+                            {CONFIRMATION_BADGE}
+                        </span>
+                    )}
                     <h3 className="manual__step-title text-2xl font-black text-slate-950 leading-tight tracking-tight drop-shadow-sm">
                         {step.action}
                     </h3>
                     <p className="manual__step-desc text-slate-800 font-bold text-base leading-relaxed">
                         {step.detail}
                     </p>
+                    <StepCallouts callouts={visibleCallouts(step)} />
+                    {subSteps.length > 0 && (
+                        <ol className="flex flex-col gap-3 border-l-2 border-slate-200 pl-4">
+                            {subSteps.map((sub, index) => (
+                                <li key={sub.uid} className="flex flex-col gap-1.5">
+                                    <div className="flex items-start gap-2">
+                                        <span className="shrink-0 bg-slate-700 text-white text-xs font-black px-2 py-0.5 rounded">
+                                            {subStepLabel(step, index)}
+                                        </span>
+                                        <span className="text-base font-black text-slate-900 leading-snug">{sub.action}</span>
+                                    </div>
+                                    {sub.detail && <p className="text-sm font-bold text-slate-600 leading-relaxed">{sub.detail}</p>}
+                                    {(sub.screenshotId || sub.screenshot) && (
+                                        <StepImage
+                                            imageId={sub.screenshotId}
+                                            fallback={sub.screenshot}
+                                            alt={`${subStepLabel(step, index)}: ${sub.action}`}
+                                            className="max-w-sm w-full h-auto rounded-lg border border-slate-200"
+                                        />
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    {branches.length > 0 && (
+                        <ul className="flex flex-col gap-1.5">
+                            {branches.map((branch, index) => (
+                                <li key={index} className="flex items-center gap-2 text-sm font-bold text-slate-700">
+                                    <span className="shrink-0 text-[11px] font-black text-indigo-500 tracking-widest">分岐</span>
+                                    {branch.label && <span>{branch.label}</span>}
+                                    {branch.target ? (
+                                        <button
+                                            onClick={() => focusStep(branch.targetUid)}
+                                            className="text-indigo-600 underline underline-offset-2 hover:text-indigo-800 transition-colors"
+                                        >
+                                            → {branch.target} へ
+                                        </button>
+                                    ) : (
+                                        <span className="text-slate-400">→（分岐先のステップがありません）</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             </div>
 
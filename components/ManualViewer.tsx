@@ -1,43 +1,68 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { ManualData, ManualStep } from '@/app/page';
+import { DocumentMetadata, ManualData, ManualStep, ManualSection, ManualSubStep, SectionLayout, StepBranch, StepCallout, StepKind } from '@/app/page';
 import CopyButton from './CopyButton';
 import ExportButton from './ExportButton';
 import EditorToolbar from './EditorToolbar';
 import ManualStepItem from './ManualStepItem';
 import EditStepRow from './EditStepRow';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import TranslationPanel from './TranslationPanel';
+import LanguageVariantBanner from './LanguageVariantBanner';
+import VariantTextEditor from './VariantTextEditor';
+import SectionHeaderEditor from './SectionHeaderEditor';
+import NotesEditor from './NotesEditor';
+import DocumentMetadataEditor from './DocumentMetadataEditor';
+import StepImage from './StepImage';
+import FramePickerModal, { FramePickMode } from './FramePickerModal';
+import { isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
+import { createBranchResolver, listBranchTargets, pruneDanglingBranches, ResolvedBranch } from '@/utils/branches';
+import { extractSubStep, nestStepInto, subStepLabel } from '@/utils/subSteps';
+import { putImage, getImageBlob, getImageObjectUrl } from '@/utils/imageStore';
+import { createRevision } from '@/utils/revisions';
+import { metadataEntries } from '@/utils/documentMetadata';
+import { focusStep } from '@/utils/stepFocus';
+import { deleteCanvasStates } from '@/utils/canvasStateStore';
+import { findStoredVideoIds, getSourceVideoFile } from '@/utils/videoStore';
+import { analyzeVideoToSteps } from '@/utils/videoAnalysis';
+import { loadSelectedPromptProfile } from '@/utils/promptProfiles';
+import { requestStepRewrite, StepText } from '@/utils/stepRewrite';
+import {
+    groupStepsBySection,
+    normalizeSections,
+    renumberSteps,
+    updateSection,
+    moveSection,
+    mergeSectionWithNext,
+    splitSectionAt,
+} from '@/utils/sections';
 import { ToolType, EditorState, StrokeStyle } from './EditorTypes';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 
-// 再ナンバリング用ヘルパー関数を追加
-const renumberStepsByVideo = (steps: ManualStep[]) => {
-    let currentVid = -1;
-    let currentNum = 0;
-    return steps.map(s => {
-        if (s.videoIndex !== currentVid) {
-            currentVid = s.videoIndex || 0; // Use 0 if undefined for older data compatibility
-            currentNum = 1;
-        } else {
-            currentNum++;
-        }
-        return { ...s, stepNumber: currentNum };
-    });
-};
+// notes 未設定時も NotesEditor の draft が毎レンダーでリセットされないよう参照を固定する
+const EMPTY_NOTES: string[] = [];
+const EMPTY_METADATA: DocumentMetadata = {};
+const EMPTY_BRANCHES: ResolvedBranch[] = [];
 
 interface ManualViewerProps {
     manual: ManualData;
-    videoFile?: File;
+    manualId?: string; // ライブラリ上のID（リビジョン履歴の保存先）
     // Accept both direct value and functional updater (rerender-functional-setstate)
     onUpdateManual?: (updater: ManualData | ((prev: ManualData) => ManualData)) => void;
+    focusStepUid?: string; // ライブラリ検索から開いたとき、表示後にジャンプしてハイライトするステップ
+    onOpenManual?: (id: string) => void; // 翻訳版・翻訳元など、ライブラリの別のマニュアルへ切り替える
 }
 
-export default function ManualViewer({ manual, videoFile, onUpdateManual }: ManualViewerProps) {
+export default function ManualViewer({ manual, manualId, onUpdateManual, focusStepUid, onOpenManual }: ManualViewerProps) {
     // Editor State (Lazy initialized from localStorage — rerender-lazy-init)
     const [isEditMode, setIsEditMode] = useState(false);
     const [isReorderMode, setIsReorderMode] = useState(false);
     const [selectedSwapIndex, setSelectedSwapIndex] = useState<number | null>(null);
     const [checkedForDelete, setCheckedForDelete] = useState<Set<string>>(new Set()); // uid set
+    // 並び替えモードのドラッグ: ステップをカードに落とすとサブステップ化、サブステップをカードに落とすとその後ろに取り出す
+    const [dragItem, setDragItem] = useState<{ stepUid: string; subUid?: string } | null>(null);
+    const [dropTargetUid, setDropTargetUid] = useState<string | null>(null);
     const [activeTool, setActiveTool] = useState<ToolType>('select');
     const [currentColor, setCurrentColor] = useState(() => {
         if (typeof window === 'undefined') return '#ef4444';
@@ -67,30 +92,93 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
     useEffect(() => { setDraftTitle(manual.title); }, [manual.title]);
     useEffect(() => { setDraftOverview(manual.overview); }, [manual.overview]);
 
-    // 動画ごとにステップをグループ化
-    const videoGroups = useMemo(() => {
-        const groups: Record<number, ManualStep[]> = {};
+    // セクションごとにステップをグループ化
+    const sectionGroups = useMemo(() => groupStepsBySection(manual), [manual]);
+    const branchTargets = useMemo(() => listBranchTargets(manual), [manual]);
+    // ビューモード用: uid → 解決済みの分岐（分岐の無いステップは共有の空配列にして memo を効かせる）
+    const resolvedBranches = useMemo(() => {
+        const resolve = createBranchResolver(manual);
+        const map = new Map<string, ResolvedBranch[]>();
         manual.steps.forEach(step => {
-            const idx = step.videoIndex ?? 0;
-            if (!groups[idx]) groups[idx] = [];
-            groups[idx].push(step);
+            if (step.uid && step.branches?.length) map.set(step.uid, resolve(step));
         });
-        return groups;
-    }, [manual.steps]);
+        return map;
+    }, [manual]);
+    const visibleNotes = useMemo(() => (manual.notes || []).filter(n => n.trim() !== ''), [manual.notes]);
+    const visibleMetadata = useMemo(() => metadataEntries({ metadata: manual.metadata }), [manual.metadata]);
 
-    // 動画単位でレイアウトを更新する関数
-    const updateLayoutForVideo = useCallback((vIdx: number, layout: 'single' | 'two-column' | 'two-row-vertical') => {
+    const handleUpdateSection = useCallback((id: string, patch: Partial<Omit<ManualSection, 'id'>>) => {
         if (!onUpdateManual) return;
-        onUpdateManual(prev => ({
-            ...prev,
-            steps: prev.steps.map(s => ((s.videoIndex ?? 0) === vIdx ? { ...s, layout } : s))
-        }));
+        onUpdateManual(prev => updateSection(prev, id, patch));
+    }, [onUpdateManual]);
+
+    const handleUpdateNotes = useCallback((notes: string[]) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => ({ ...prev, notes }));
+    }, [onUpdateManual]);
+
+    // 検索結果から開いた場合: 描画が落ち着いてから該当ステップへスクロールし、長めにハイライトする
+    useEffect(() => {
+        if (!focusStepUid) return;
+        const timer = setTimeout(() => {
+            if (!focusStep(focusStepUid, 3000)) console.warn(`[ManualViewer] Step ${focusStepUid} not found`);
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [focusStepUid]);
+
+    const handleUpdateMetadata = useCallback((metadata: DocumentMetadata | undefined) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => ({ ...prev, metadata }));
+    }, [onUpdateManual]);
+
+    // セクション単位でレイアウトを更新する関数
+    const updateSectionLayout = useCallback((id: string, layout: SectionLayout) => {
+        handleUpdateSection(id, { layout });
+    }, [handleUpdateSection]);
+
+    const handleMoveSection = useCallback((id: string, offset: number) => {
+        if (!onUpdateManual) return;
+        window.dispatchEvent(new CustomEvent('am:force-save'));
+        onUpdateManual(prev => moveSection(prev, id, offset));
+    }, [onUpdateManual]);
+
+    const handleMergeSection = useCallback((id: string) => {
+        if (!onUpdateManual) return;
+        window.dispatchEvent(new CustomEvent('am:force-save'));
+        onUpdateManual(prev => mergeSectionWithNext(prev, id));
+    }, [onUpdateManual]);
+
+    const handleSplitSection = useCallback((stepUid: string) => {
+        if (!onUpdateManual) return;
+        window.dispatchEvent(new CustomEvent('am:force-save'));
+        onUpdateManual(prev => splitSectionAt(prev, stepUid));
     }, [onUpdateManual]);
 
     // Backup for cancellation & Original reference for InlineCanvas
     const [backupManual, setBackupManual] = useState<ManualData | null>(null);
     const originalScreenshots = useRef<{ [key: string]: string }>({});
 
+    // Revision history — manualRef always points at the latest props so delayed snapshots
+    // include canvas exports that land after am:force-save
+    const manualRef = useRef(manual);
+    manualRef.current = manual;
+    const [revisionNote, setRevisionNote] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
+    const [showTranslation, setShowTranslation] = useState(false);
+    const [showVariantTextEditor, setShowVariantTextEditor] = useState(false);
+
+    const snapshotRevision = useCallback((defaultNote: string) => {
+        if (!manualId) return;
+        const note = revisionNote.trim() || defaultNote;
+        setRevisionNote('');
+        // InlineCanvas の export は 300ms debounce されるため、それより後に最新状態を保存する
+        setTimeout(() => {
+            createRevision(manualId, manualRef.current, note).catch(e => {
+                console.warn('Failed to save revision:', e);
+            });
+        }, 400);
+    }, [manualId, revisionNote]);
+
     // Persist to localStorage
     useEffect(() => {
         if (isEditMode) {
@@ -104,8 +192,11 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
     // Determine orientation for all steps
     const [orientations, setOrientations] = useState<Record<string, boolean>>({});
     useEffect(() => {
-        manual.steps.forEach((step, index) => {
-            const src = (step.originalUrl && !step.originalUrl.startsWith('blob:')) ? step.originalUrl : (step.screenshot || '');
+        manual.steps.forEach(async (step, index) => {
+            const imageId = step.originalId || step.screenshotId;
+            const src = imageId
+                ? await getImageObjectUrl(imageId)
+                : (step.originalUrl && !step.originalUrl.startsWith('blob:')) ? step.originalUrl : step.screenshot;
             if (!src) return;
             const img = new Image();
             img.onload = () => {
@@ -125,36 +216,9 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
     }, [manual.steps]);
 
     const enterEditMode = () => {
-        // Generate stable UIDs for any step that doesn't have one
-        const stepsWithUids = manual.steps.map(step => ({
-            ...step,
-            uid: step.uid || Math.random().toString(36).substr(2, 9)
-        }));
-        const needsUpdate = stepsWithUids.some((s, i) => s.uid !== manual.steps[i].uid);
-        if (needsUpdate && onUpdateManual) {
-            onUpdateManual({ ...manual, steps: stepsWithUids });
-        }
-
+        // uid や編集用の元画像の補完は読み込み時のスキーマ移行（utils/manualSchema.ts）で済んでいる
         setBackupManual(JSON.parse(JSON.stringify(manual))); // Deep clone
 
-        // MIGRATION: Ensure all steps have an originalUrl for clean editing
-        // This prevents the "Ghosting" issue where text gets burnt into the image
-        let migrationNeeded = false;
-        const migratedSteps = manual.steps.map(step => {
-            if (!step.originalUrl && step.screenshot) {
-                migrationNeeded = true;
-                return { ...step, originalUrl: step.screenshot };
-            }
-            return step;
-        });
-
-        if (migrationNeeded && onUpdateManual) {
-            console.log('[ManualViewer] Migrating steps to include originalUrl');
-            onUpdateManual({ ...manual, steps: migratedSteps });
-            // Update local backup too to match
-            setBackupManual(JSON.parse(JSON.stringify({ ...manual, steps: migratedSteps })));
-        }
-
         setIsEditMode(true);
         setStampCount(1); // Reset stamp count on entry
     };
@@ -192,6 +256,7 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
 
         // キャンバスの保存を強制
         window.dispatchEvent(new CustomEvent('am:force-save'));
+        snapshotRevision('保存して終了');
 
         setTimeout(() => {
             setIsEditMode(false);
@@ -214,6 +279,8 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
     const handleSaveProgress = () => {
         // Since handleCanvasUpdate already triggers onUpdateManual, 
         // this is mostly for peace of mind and showing feedback.
+        window.dispatchEvent(new CustomEvent('am:force-save'));
+        snapshotRevision('変更を保存');
         const target = document.getElementById('save-progress-btn');
         if (target) {
             const original = target.innerHTML;
@@ -228,20 +295,179 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
         }
     };
 
+    // 元動画: 保存済みの動画があるセクションだけ、フレームの選び直し・挿入・再解析を有効にする
+    const [storedVideoIds, setStoredVideoIds] = useState<Set<string>>(() => new Set());
+    const sectionVideoKey = manual.sections.map(s => s.sourceVideo?.videoId ?? '').join(',');
+    useEffect(() => {
+        const ids = sectionVideoKey.split(',').filter(Boolean);
+        let cancelled = false;
+        findStoredVideoIds(ids)
+            .then(found => { if (!cancelled) setStoredVideoIds(found); })
+            .catch(e => console.warn('[ManualViewer] Failed to look up source videos:', e));
+        return () => { cancelled = true; };
+    }, [sectionVideoKey]);
+    const videoIdBySection = useMemo(() => {
+        const map = new Map<string, string>();
+        manual.sections.forEach(section => {
+            const videoId = section.sourceVideo?.videoId;
+            if (videoId && storedVideoIds.has(videoId)) map.set(section.id, videoId);
+        });
+        return map;
+    }, [manual.sections, storedVideoIds]);
+
+    const [framePickerUid, setFramePickerUid] = useState<string | null>(null);
+    const framePickerStep = framePickerUid ? manual.steps.find(s => s.uid === framePickerUid) : undefined;
+    const framePickerVideoId = framePickerStep?.sectionId ? videoIdBySection.get(framePickerStep.sectionId) : undefined;
+
+    const handlePickFrame = useCallback((index: number) => {
+        const uid = manualRef.current.steps[index]?.uid;
+        if (uid) setFramePickerUid(uid);
+    }, []);
+
+    // 選んだフレームでステップの画像を差し替える（注釈は元画像に合わなくなるので破棄）か、直後に新しいステップを挿入する
+    const handleFramePicked = useCallback(async (mode: FramePickMode, dataUrl: string, timestamp: string) => {
+        if (!onUpdateManual || !framePickerUid) return;
+        const targetUid = framePickerUid;
+        setFramePickerUid(null);
+        let imageId: string;
+        try {
+            imageId = await putImage(dataUrl);
+        } catch (e) {
+            console.error('Failed to store picked frame', e);
+            alert('画像の保存に失敗しました。');
+            return;
+        }
+        if (mode === 'replace' && manualId) {
+            deleteCanvasStates(manualId, [targetUid]).catch(e => console.warn('[ManualViewer] Failed to delete canvas state:', e));
+        }
+        onUpdateManual(prev => {
+            const index = prev.steps.findIndex(s => s.uid === targetUid);
+            if (index < 0) return prev;
+            const target = prev.steps[index];
+            if (mode === 'replace') {
+                const steps = [...prev.steps];
+                steps[index] = {
+                    ...target,
+                    timestamp,
+                    screenshotId: imageId,
+                    originalId: imageId,
+                    screenshot: undefined,
+                    originalUrl: undefined,
+                    canvasData: undefined,
+                };
+                return { ...prev, steps };
+            }
+            const inserted: ManualStep = {
+                stepNumber: target.stepNumber,
+                kind: 'operation',
+                action: '新しい手順',
+                detail: '',
+                timestamp,
+                screenshotId: imageId,
+                originalId: imageId,
+                uid: Math.random().toString(36).substring(2, 11),
+                sectionId: target.sectionId,
+                videoIndex: target.videoIndex,
+            };
+            const steps = [...prev.steps.slice(0, index + 1), inserted, ...prev.steps.slice(index + 1)];
+            return { ...prev, steps: renumberSteps(steps) };
+        });
+    }, [onUpdateManual, framePickerUid, manualId]);
+
+    // セクションを保存済みの元動画から解析し直し、手順を置き換える（置き換え前の状態は変更履歴に残す）
+    const [reanalysis, setReanalysis] = useState<{ message: string; progress: number } | null>(null);
+    const handleReanalyzeSection = useCallback(async (sectionId: string) => {
+        if (!onUpdateManual || reanalysis) return;
+        const section = manualRef.current.sections.find(s => s.id === sectionId);
+        const videoId = section?.sourceVideo?.videoId;
+        if (!section || !videoId) return;
+        if (!confirm(`セクション「${section.title}」を元動画から解析し直しますか？\n現在の手順（編集内容を含む）は置き換えられます。置き換え前の状態は変更履歴から復元できます。`)) return;
+
+        try {
+            const file = await getSourceVideoFile(videoId);
+            if (!file) {
+                alert('元動画が見つかりません。ライブラリのストレージ管理から削除された可能性があります。');
+                return;
+            }
+            setReanalysis({ message: '再解析を開始しています...', progress: 0 });
+            const result = await analyzeVideoToSteps(file, {
+                sectionId,
+                videoIndex: section.sourceVideo?.index ?? 0,
+                language: manualRef.current.language,
+                profile: loadSelectedPromptProfile(), // 新規生成で最後に選んだ生成スタイル
+                onPhase: (phase, message) => setReanalysis({ message, progress: phase === 'proxy' ? 0 : phase === 'analyzing' ? 10 : 90 }),
+                onProgress: (phase, ratio, message) => setReanalysis(prev => ({
+                    message: message || prev?.message || '',
+                    progress: phase === 'proxy' ? Math.round(ratio * 10) : phase === 'frames' ? 90 + Math.round(ratio * 10) : 10 + Math.round(ratio * 80),
+                })),
+            });
+            if (result.steps.length === 0) {
+                alert('手順を検出できませんでした。現在の手順はそのままです。');
+                return;
+            }
+
+            const before = manualRef.current;
+            if (manualId) {
+                await createRevision(manualId, before, `再解析前の自動保存（${section.title}）`).catch(e => {
+                    console.warn('Failed to save revision:', e);
+                });
+                const replacedUids = before.steps.filter(s => s.sectionId === sectionId && s.uid).map(s => s.uid!);
+                deleteCanvasStates(manualId, replacedUids).catch(e => console.warn('[ManualViewer] Failed to delete canvas states:', e));
+            }
+            onUpdateManual(prev => {
+                // セクション内のステップは連続しているので、先頭位置に新しい手順を差し込む
+                const firstIndex = prev.steps.findIndex(s => s.sectionId === sectionId);
+                const remaining = prev.steps.filter(s => s.sectionId !== sectionId);
+                const insertAt = firstIndex < 0 ? remaining.length : firstIndex;
+                const notes = [...(prev.notes || [])];
+                result.notes.forEach(note => { if (!notes.includes(note)) notes.push(note); });
+                return pruneDanglingBranches(normalizeSections({
+                    ...prev,
+                    notes,
+                    steps: [...remaining.slice(0, insertAt), ...result.steps, ...remaining.slice(insertAt)],
+                }));
+            });
+        } catch (e: any) {
+            console.error('Section re-analysis failed', e);
+            alert(e?.message || '再解析に失敗しました。');
+        } finally {
+            setReanalysis(null);
+        }
+    }, [onUpdateManual, reanalysis, manualId]);
+
+    const handleRestoreRevision = (data: ManualData) => {
+        if (!onUpdateManual || !manualId) return;
+        // 復元前の状態も履歴に残しておき、復元自体を取り消せるようにする
+        createRevision(manualId, manual, '復元前の自動保存').catch(e => {
+            console.warn('Failed to save revision:', e);
+        });
+        onUpdateManual(JSON.parse(JSON.stringify(data)));
+        setShowHistory(false);
+    };
+
     // rerender-functional-setstate: functional updater removes 'manual' from dep array
-    const handleCanvasUpdate = useCallback((index: number, newImageUrl: string, newData?: any) => {
+    const handleCanvasUpdate = useCallback(async (index: number, newImageUrl: string, newData?: any) => {
         if (!onUpdateManual) return;
+        // Rendered PNG goes to the images table; the step only keeps its ID
+        let imageId: string;
+        try {
+            imageId = await putImage(newImageUrl);
+        } catch (e) {
+            console.error('[ManualViewer] Failed to store canvas image:', e);
+            return;
+        }
         onUpdateManual(prev => ({
             ...prev,
             steps: prev.steps.map((step, i) => {
                 if (i !== index) return step;
 
-                const update: any = { ...step, screenshot: newImageUrl, canvasData: newData || step.canvasData };
+                const update: ManualStep = { ...step, screenshotId: imageId, screenshot: undefined, canvasData: newData || step.canvasData };
 
-                // Only overwrite originalUrl if the canvas explicitly indicates a cropped/baked image (Adjust mode)
+                // Only overwrite originalId if the canvas explicitly indicates a cropped/baked image (Adjust mode)
                 // Otherwise, preserve the clean original background to prevent "ghosting" of annotations.
                 if (newData?.isAdjustCrop) {
-                    update.originalUrl = newImageUrl;
+                    update.originalId = imageId;
+                    update.originalUrl = undefined;
                 }
 
                 return update;
@@ -264,14 +490,15 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
         if (targetSteps.length === 1) {
             // 単一画像の場合は直接ダウンロード
             const step = targetSteps[0];
-            let imageData = step.screenshot || step.originalUrl;
-            if (!imageData) return;
+            const imageId = step.screenshotId || step.originalId;
+            const imageUrl = imageId ? await getImageObjectUrl(imageId) : (step.screenshot || step.originalUrl);
+            if (!imageUrl) return;
             
             const cleanAction = sanitizeFileName(step.action || 'step');
             const fileName = `${step.stepNumber.toString().padStart(2, '0')}_${cleanAction}.png`;
             
             const link = document.createElement('a');
-            link.href = imageData;
+            link.href = imageUrl;
             link.download = fileName;
             link.click();
             return;
@@ -283,15 +510,20 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
         const folder = zip.folder("manual_images");
 
         const downloadPromises = targetSteps.map(async (step) => {
-            let imageData = step.screenshot || step.originalUrl;
-            if (!imageData) return;
-
+            const imageId = step.screenshotId || step.originalId;
             const cleanAction = sanitizeFileName(step.action || 'step');
             const fileName = `${step.stepNumber.toString().padStart(2, '0')}_${cleanAction}.png`;
 
-            // Base64からデータ部分のみを抽出してZIPに追加
-            const base64Data = imageData.split(',')[1];
-            folder?.file(fileName, base64Data, { base64: true });
+            if (imageId) {
+                const blob = await getImageBlob(imageId);
+                if (blob) folder?.file(fileName, blob);
+                return;
+            }
+
+            // 旧データ: Base64からデータ部分のみを抽出してZIPに追加
+            const imageData = step.screenshot || step.originalUrl;
+            if (!imageData) return;
+            folder?.file(fileName, imageData.split(',')[1], { base64: true });
         });
 
         await Promise.all(downloadPromises);
@@ -319,19 +551,18 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                 return prev;
             }
 
-            // Clean up localStorage canvas state for this step
-            const deletedStep = prev.steps[index];
-            if (deletedStep.uid) {
-                localStorage.removeItem(`am_canvas_state_step-${deletedStep.uid}`);
+            // このステップの注釈キャンバスの編集状態を片付ける
+            const deletedUid = prev.steps[index].uid;
+            if (manualId && deletedUid) {
+                deleteCanvasStates(manualId, [deletedUid]).catch(e => console.warn('[ManualViewer] Failed to delete canvas state:', e));
             }
-            localStorage.removeItem(`am_canvas_state_step-${deletedStep.stepNumber}-${index}`);
 
             const newSteps = prev.steps.filter((_, i) => i !== index);
 
             setStampCount(1);
-            return { ...prev, steps: renumberStepsByVideo(newSteps) };
+            return pruneDanglingBranches(normalizeSections({ ...prev, steps: newSteps }));
         });
-    }, [onUpdateManual]);
+    }, [onUpdateManual, manualId]);
 
     // rerender-functional-setstate: removed 'manual' from deps for stable callback
     const handleDragEnd = useCallback((result: DropResult) => {
@@ -344,8 +575,11 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
         onUpdateManual(prev => {
             const reordered = Array.from(prev.steps);
             const [removed] = reordered.splice(result.source.index, 1);
-            reordered.splice(result.destination!.index, 0, removed);
-            return { ...prev, steps: renumberStepsByVideo(reordered) };
+            const destIndex = result.destination!.index;
+            // 移動先の直前（先頭なら直後）のステップと同じセクションに入れる
+            const neighbor = reordered[destIndex - 1] ?? reordered[destIndex];
+            reordered.splice(destIndex, 0, { ...removed, sectionId: neighbor?.sectionId ?? removed.sectionId });
+            return normalizeSections({ ...prev, steps: reordered });
         });
     }, [onUpdateManual]);
 
@@ -363,16 +597,37 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                 // Second click on different card: swap
                 onUpdateManual(cur => {
                     const newSteps = [...cur.steps];
-                    const temp = newSteps[prev];
-                    newSteps[prev] = newSteps[clickedIndex];
-                    newSteps[clickedIndex] = temp;
-                    return { ...cur, steps: renumberStepsByVideo(newSteps) };
+                    const a = newSteps[prev];
+                    const b = newSteps[clickedIndex];
+                    // 位置だけでなく所属セクションも入れ替え、セクションの並びを崩さない
+                    newSteps[prev] = { ...b, sectionId: a.sectionId };
+                    newSteps[clickedIndex] = { ...a, sectionId: b.sectionId };
+                    return { ...cur, steps: renumberSteps(newSteps) };
                 });
                 return null;
             }
         });
     }, [onUpdateManual]);
 
+    const handleReorderDrop = useCallback((targetUid: string) => {
+        const item = dragItem;
+        setDragItem(null);
+        setDropTargetUid(null);
+        if (!item || !onUpdateManual) return;
+        if (item.subUid) {
+            onUpdateManual(prev => extractSubStep(prev, item.stepUid, item.subUid!, targetUid));
+        } else if (item.stepUid !== targetUid) {
+            onUpdateManual(prev => nestStepInto(prev, item.stepUid, targetUid));
+            setCheckedForDelete(prev => {
+                if (!prev.has(item.stepUid)) return prev;
+                const next = new Set(prev);
+                next.delete(item.stepUid);
+                return next;
+            });
+        }
+        setSelectedSwapIndex(null);
+    }, [dragItem, onUpdateManual]);
+
     // Flush step text edits to parent — called on blur from EditStepRow (not on every keystroke)
     const handleTextBlur = useCallback((index: number, action: string, detail: string) => {
         if (!onUpdateManual) return;
@@ -385,6 +640,68 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
         });
     }, [onUpdateManual]);
 
+    // AI の書き直し案を元に戻すとき（と、採用したとき）に本文をまとめて差し替える
+    const handleTextReplace = useCallback((index: number, text: StepText) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => {
+            const newSteps = [...prev.steps];
+            newSteps[index] = { ...newSteps[index], action: text.action, detail: text.detail, label: text.label };
+            return { ...prev, steps: newSteps };
+        });
+    }, [onUpdateManual]);
+
+    // 採用前の版をリビジョン履歴に残してから差し替える（行の「元に戻す」は編集モードを出ると消えるため）
+    const handleRewriteAccept = useCallback((index: number, text: StepText) => {
+        if (manualId) {
+            createRevision(manualId, manualRef.current, 'AI書き直し前').catch(e => {
+                console.warn('Failed to save revision:', e);
+            });
+        }
+        handleTextReplace(index, text);
+    }, [manualId, handleTextReplace]);
+
+    const handleRewriteStep = useCallback(
+        (index: number) => requestStepRewrite(manualRef.current, index),
+        []
+    );
+
+    const handleCalloutsChange = useCallback((index: number, callouts: StepCallout[]) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => {
+            const newSteps = [...prev.steps];
+            newSteps[index] = { ...newSteps[index], callouts };
+            return { ...prev, steps: newSteps };
+        });
+    }, [onUpdateManual]);
+
+    const handleBranchesChange = useCallback((index: number, branches: StepBranch[]) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => {
+            const newSteps = [...prev.steps];
+            newSteps[index] = { ...newSteps[index], branches };
+            return { ...prev, steps: newSteps };
+        });
+    }, [onUpdateManual]);
+
+    const handleSubStepsChange = useCallback((index: number, subSteps: ManualSubStep[]) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => {
+            const newSteps = [...prev.steps];
+            newSteps[index] = { ...newSteps[index], subSteps };
+            return { ...prev, steps: newSteps };
+        });
+    }, [onUpdateManual]);
+
+    const handleKindChange = useCallback((index: number, kind: StepKind) => {
+        if (!onUpdateManual) return;
+        onUpdateManual(prev => {
+            const newSteps = [...prev.steps];
+            newSteps[index] = { ...newSteps[index], kind };
+            // 確認ステップは番号を消費しないため、種類が変わったら振り直す
+            return { ...prev, steps: renumberSteps(newSteps) };
+        });
+    }, [onUpdateManual]);
+
     return (
         <div className={`manual min-h-screen transition-all duration-700 ease-in-out ${isEditMode ? 'bg-[#f8fafc] pl-[80px] max-w-none' : 'bg-white'}`}>
 
@@ -415,6 +732,16 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                             <>
                                 <h2 className="manual__title text-5xl font-black text-slate-950 tracking-tighter leading-tight drop-shadow-sm">{manual.title}</h2>
                                 <p className="manual__overview text-slate-800 font-bold text-lg max-w-3xl leading-relaxed">{manual.overview}</p>
+                                {visibleMetadata.length > 0 && (
+                                    <dl className="manual__metadata flex flex-wrap gap-x-5 gap-y-1 text-xs font-bold text-slate-500">
+                                        {visibleMetadata.map(entry => (
+                                            <div key={entry.key} className="flex gap-1.5">
+                                                <dt className="text-slate-400">{entry.label}</dt>
+                                                <dd className="text-slate-700">{entry.value}</dd>
+                                            </div>
+                                        ))}
+                                    </dl>
+                                )}
                             </>
                         ) : (
                             <>
@@ -431,6 +758,14 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                             <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><circle cx="5" cy="3" r="1.5" /><circle cx="11" cy="3" r="1.5" /><circle cx="5" cy="8" r="1.5" /><circle cx="11" cy="8" r="1.5" /><circle cx="5" cy="13" r="1.5" /><circle cx="11" cy="13" r="1.5" /></svg>
                                             {isReorderMode ? '編集に戻る' : '並び替え・削除'}
                                         </button>
+                                        <input
+                                            type="text"
+                                            value={revisionNote}
+                                            onChange={(e) => setRevisionNote(e.target.value)}
+                                            className="h-10 w-44 px-3 rounded-lg border border-slate-200 text-xs font-bold text-slate-700 focus:border-purple-500 focus:outline-none placeholder-slate-300"
+                                            placeholder="変更メモ（任意）"
+                                            title="保存時に変更履歴へ記録されるメモ"
+                                        />
                                         <button
                                             onClick={handleCancelEdit}
                                             className="h-10 px-4 rounded-lg text-slate-500 font-bold text-xs uppercase tracking-widest hover:bg-slate-100 hover:text-slate-900 transition-all active:scale-95 whitespace-nowrap"
@@ -476,7 +811,16 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                         <div className="manual__actions flex items-center gap-3 shrink-0 ml-4">
 
 
-                            {onUpdateManual && (
+                            {onUpdateManual && manual.variantOf && (
+                                <button
+                                    onClick={() => setShowVariantTextEditor(true)}
+                                    className="h-12 px-8 bg-slate-950 text-white rounded-lg font-black text-sm shadow-2xl hover:bg-slate-800 transition-all transform hover:-translate-y-0.5 active:scale-95 flex items-center gap-2 border border-white/10"
+                                >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                                    <span>訳文を編集</span>
+                                </button>
+                            )}
+                            {onUpdateManual && !manual.variantOf && (
                                 <button
                                     onClick={enterEditMode}
                                     className="h-12 px-8 bg-slate-950 text-white rounded-lg font-black text-sm shadow-2xl hover:bg-slate-800 transition-all transform hover:-translate-y-0.5 active:scale-95 flex items-center gap-2 border border-white/10"
@@ -485,6 +829,22 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                     <span>編集</span>
                                 </button>
                             )}
+                            {manualId && onUpdateManual && (
+                                <button
+                                    onClick={() => setShowHistory(true)}
+                                    className="btn btn--secondary btn--small"
+                                >
+                                    履歴
+                                </button>
+                            )}
+                            {manualId && !manual.variantOf && (
+                                <button
+                                    onClick={() => setShowTranslation(true)}
+                                    className="btn btn--secondary btn--small"
+                                >
+                                    翻訳
+                                </button>
+                            )}
                             <div className="h-8 w-px bg-slate-200 mx-2" />
                             <CopyButton manual={manual} isTwoColumn={false} />
                             <ExportButton manual={manual} />
@@ -494,6 +854,14 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                 </div>
             </div>
 
+            {!isEditMode && manual.variantOf && (
+                <LanguageVariantBanner manual={manual} onUpdateManual={onUpdateManual} onOpenManual={onOpenManual} />
+            )}
+
+            {isEditMode && !isReorderMode && (
+                <DocumentMetadataEditor metadata={manual.metadata ?? EMPTY_METADATA} onChange={handleUpdateMetadata} />
+            )}
+
             {/* Steps Section */}
             {isEditMode && isReorderMode ? (
                 /* Reorder Mode: Click-to-swap thumbnail cards + multi-select delete */
@@ -503,7 +871,7 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                         <p className={`text-sm font-bold transition-colors ${selectedSwapIndex !== null ? 'text-purple-600' : 'text-slate-400'}`}>
                             {selectedSwapIndex !== null
                                 ? `ステップ ${manual.steps[selectedSwapIndex]?.stepNumber} を選択中 — 入れ替え先をクリック（もう一度クリックで解除）`
-                                : '入れ替えたいステップをクリック / チェックを入れて一括削除'
+                                : '入れ替えたいステップをクリック / チェックを入れて一括削除 / 他のカードへドラッグでサブステップ化'
                             }
                         </p>
                         {/* Bulk action bar */}
@@ -532,21 +900,15 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                                 return;
                                             }
                                             if (!confirm(`${count}件のステップを削除しますか？\nこの操作は取り消せません。`)) return;
-                                            // Clean up localStorage for deleted steps
-                                            manual.steps.forEach((step, i) => {
-                                                const uid = step.uid || '';
-                                                if (checkedForDelete.has(uid)) {
-                                                    if (step.uid) localStorage.removeItem(`am_canvas_state_step-${step.uid}`);
-                                                    localStorage.removeItem(`am_canvas_state_step-${step.stepNumber}-${i}`);
-                                                }
-                                            });
-                                            onUpdateManual(prev => {
-                                                const filtered = prev.steps.filter(s => !checkedForDelete.has(s.uid || ''));
-                                                return {
-                                                    ...prev,
-                                                    steps: renumberStepsByVideo(filtered)
-                                                }
-                                            });
+                                            // 削除するステップの注釈キャンバスの編集状態を片付ける
+                                            if (manualId) {
+                                                deleteCanvasStates(manualId, Array.from(checkedForDelete).filter(Boolean))
+                                                    .catch(e => console.warn('[ManualViewer] Failed to delete canvas states:', e));
+                                            }
+                                            onUpdateManual(prev => pruneDanglingBranches(normalizeSections({
+                                                ...prev,
+                                                steps: prev.steps.filter(s => !checkedForDelete.has(s.uid || ''))
+                                            })));
                                             setCheckedForDelete(new Set());
                                             setSelectedSwapIndex(null);
                                         }}
@@ -572,11 +934,28 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                             const isSelected = selectedSwapIndex === index;
                             const isTarget = selectedSwapIndex !== null && selectedSwapIndex !== index;
                             const isChecked = checkedForDelete.has(step.uid || '');
+                            const isDropTarget = !!dragItem && dropTargetUid === step.uid;
                             return (
                                 <div
                                     key={step.uid || `step-${index}`}
                                     onClick={() => handleSwapClick(index)}
-                                    className={`group cursor-pointer rounded-xl border-2 bg-white overflow-hidden transition-all select-none ${isSelected
+                                    draggable={!!step.uid}
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.setData('text/plain', step.uid!);
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        setDragItem({ stepUid: step.uid! });
+                                    }}
+                                    onDragEnd={() => { setDragItem(null); setDropTargetUid(null); }}
+                                    onDragOver={(e) => {
+                                        if (!dragItem || !step.uid || (!dragItem.subUid && dragItem.stepUid === step.uid)) return;
+                                        e.preventDefault();
+                                        if (dropTargetUid !== step.uid) setDropTargetUid(step.uid);
+                                    }}
+                                    onDragLeave={() => dropTargetUid === step.uid && setDropTargetUid(null)}
+                                    onDrop={(e) => { e.preventDefault(); if (step.uid) handleReorderDrop(step.uid); }}
+                                    className={`group cursor-pointer rounded-xl border-2 bg-white overflow-hidden transition-all select-none ${isDropTarget
+                                        ? 'border-indigo-500 ring-4 ring-indigo-200'
+                                        : isSelected
                                         ? 'border-purple-500 ring-4 ring-purple-200 shadow-xl shadow-purple-500/20 scale-[1.03]'
                                         : isTarget
                                             ? 'border-amber-300 hover:border-amber-400 hover:shadow-lg hover:scale-[1.02]'
@@ -585,12 +964,12 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                 >
                                     {/* Thumbnail */}
                                     <div className="aspect-video bg-slate-100 overflow-hidden relative">
-                                        {step.screenshot ? (
-                                            <img
-                                                src={step.screenshot}
+                                        {(step.screenshotId || step.screenshot) ? (
+                                            <StepImage
+                                                imageId={step.screenshotId}
+                                                fallback={step.screenshot}
                                                 alt={step.action}
                                                 className="w-full h-full object-contain"
-                                                draggable={false}
                                             />
                                         ) : (
                                             <div className="w-full h-full flex items-center justify-center text-slate-300">
@@ -598,9 +977,9 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                             </div>
                                         )}
                                         {/* Step number badge */}
-                                        <div className={`absolute top-2 left-2 w-7 h-7 rounded-lg flex items-center justify-center text-xs font-black shadow-lg transition-colors ${isSelected ? 'bg-purple-600 text-white' : 'bg-slate-950 text-white'
+                                        <div className={`absolute top-2 left-2 w-7 h-7 rounded-lg flex items-center justify-center text-xs font-black shadow-lg transition-colors ${isSelected ? 'bg-purple-600 text-white' : isConfirmationStep(step) ? 'bg-emerald-600 text-white' : 'bg-slate-950 text-white'
                                             }`}>
-                                            {step.stepNumber}
+                                            {stepNumberLabel(step)}
                                         </div>
                                         {/* Selected overlay */}
                                         {isSelected && (
@@ -610,8 +989,16 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                                 </div>
                                             </div>
                                         )}
+                                        {/* Drop hint overlay */}
+                                        {isDropTarget && (
+                                            <div className="absolute inset-0 bg-indigo-600/10 flex items-center justify-center">
+                                                <div className="bg-white/95 rounded-full px-3 py-1.5 shadow-lg text-indigo-700 text-xs font-black">
+                                                    {dragItem?.subUid ? 'この後ろに取り出す' : 'サブステップにする'}
+                                                </div>
+                                            </div>
+                                        )}
                                         {/* Target hint overlay */}
-                                        {isTarget && (
+                                        {isTarget && !isDropTarget && (
                                             <div className="absolute inset-0 bg-amber-500/0 group-hover:bg-amber-500/10 transition-colors flex items-center justify-center">
                                                 <div className="opacity-0 group-hover:opacity-100 transition-opacity bg-white/95 rounded-full px-3 py-1.5 shadow-lg text-amber-600 text-xs font-black">
                                                     ここに入替
@@ -643,53 +1030,114 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                             />
                                         </label>
                                     </div>
+                                    {/* Sub-steps: ドラッグして他のカードに落とすと通常のステップとして取り出す */}
+                                    {step.subSteps && step.subSteps.length > 0 && (
+                                        <ul className="px-3 pb-3 flex flex-col gap-1">
+                                            {step.subSteps.map((sub, subIndex) => (
+                                                <li
+                                                    key={sub.uid}
+                                                    draggable
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    onDragStart={(e) => {
+                                                        e.stopPropagation();
+                                                        e.dataTransfer.setData('text/plain', sub.uid);
+                                                        e.dataTransfer.effectAllowed = 'move';
+                                                        setDragItem({ stepUid: step.uid!, subUid: sub.uid });
+                                                    }}
+                                                    onDragEnd={() => { setDragItem(null); setDropTargetUid(null); }}
+                                                    className="flex items-center gap-1.5 rounded-md bg-slate-50 border border-slate-200 px-2 py-1 text-[11px] font-bold text-slate-600 cursor-grab hover:border-indigo-300"
+                                                    title="ドラッグして他のステップの後ろに取り出す"
+                                                >
+                                                    <span className="shrink-0 text-slate-400">{subStepLabel(step, subIndex)}</span>
+                                                    <span className="truncate">{sub.action || '（未入力）'}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </div>
                             );
                         })}
                     </div>
                 </div>
             ) : isEditMode ? (
-                /* Normal Edit Mode: Uses EditStepRow (local draft state, blur-flush) */
-                <div className="mx-auto px-4 pb-32 max-w-5xl divide-y divide-slate-100">
-                    {manual.steps.map((step, index) => (
-                        <div key={step.uid || `step-${index}`} data-step-id={step.uid}>
-                            <EditStepRow
-                                step={step}
-                                index={index}
-                                isPortrait={orientations[step.uid || index] ?? false}
-                                activeTool={activeTool}
-                                currentColor={currentColor}
-                                strokeWidth={strokeWidth}
-                                strokeStyle={strokeStyle}
-                                fontSize={fontSize}
-                                stampCount={stampCount}
-                                onColorChange={setCurrentColor}
-                                onStrokeWidthChange={setStrokeWidth}
-                                onStrokeStyleChange={setStrokeStyle}
-                                onFontSizeChange={setFontSize}
-                                onStampUsed={() => setStampCount(prev => prev + 1)}
-                                onToolReset={() => setActiveTool('select')}
-                                onCanvasUpdate={handleCanvasUpdate}
-                                onDeleteStep={handleDeleteStep}
-                                onTextBlur={handleTextBlur}
+                /* Normal Edit Mode: Uses EditStepRow (local draft state, blur-flush), grouped by section */
+                <div className="mx-auto px-4 pb-32 max-w-5xl">
+                    {sectionGroups.map(({ section, steps, startIndex }, sectionIndex) => (
+                        <section key={section.id} className="edit-section">
+                            <SectionHeaderEditor
+                                section={section}
+                                index={sectionIndex}
+                                total={sectionGroups.length}
+                                stepCount={steps.length}
+                                onUpdate={handleUpdateSection}
+                                onMove={handleMoveSection}
+                                onMergeNext={handleMergeSection}
+                                onReanalyze={videoIdBySection.has(section.id) && !reanalysis ? handleReanalyzeSection : undefined}
                             />
-                        </div>
+                            <div className="divide-y divide-slate-100">
+                                {steps.map((step, i) => {
+                                    const index = startIndex + i;
+                                    return (
+                                        <div key={step.uid || `step-${index}`} data-step-id={step.uid}>
+                                            {i > 0 && step.uid && (
+                                                <div className="flex justify-center -mb-3 pt-2 relative z-10">
+                                                    <button
+                                                        onClick={() => handleSplitSection(step.uid!)}
+                                                        className="h-6 px-3 rounded-full bg-white border border-dashed border-indigo-200 text-[10px] font-bold text-indigo-400 hover:text-indigo-700 hover:border-indigo-400 transition-all"
+                                                        title="このステップから新しいセクションにする"
+                                                    >
+                                                        ここでセクションを分割
+                                                    </button>
+                                                </div>
+                                            )}
+                                            <EditStepRow
+                                                step={step}
+                                                manualId={manualId}
+                                                index={index}
+                                                isPortrait={orientations[step.uid || index] ?? false}
+                                                activeTool={activeTool}
+                                                currentColor={currentColor}
+                                                strokeWidth={strokeWidth}
+                                                strokeStyle={strokeStyle}
+                                                fontSize={fontSize}
+                                                stampCount={stampCount}
+                                                onColorChange={setCurrentColor}
+                                                onStrokeWidthChange={setStrokeWidth}
+                                                onStrokeStyleChange={setStrokeStyle}
+                                                onFontSizeChange={setFontSize}
+                                                onStampUsed={() => setStampCount(prev => prev + 1)}
+                                                onToolReset={() => setActiveTool('select')}
+                                                onCanvasUpdate={handleCanvasUpdate}
+                                                onDeleteStep={handleDeleteStep}
+                                                onTextBlur={handleTextBlur}
+                                                onRewrite={handleRewriteStep}
+                                                onRewriteAccept={handleRewriteAccept}
+                                                onTextReplace={handleTextReplace}
+                                                onKindChange={handleKindChange}
+                                                onCalloutsChange={handleCalloutsChange}
+                                                branchTargets={branchTargets}
+                                                onBranchesChange={handleBranchesChange}
+                                                onSubStepsChange={handleSubStepsChange}
+                                                onPickFrame={step.sectionId && videoIdBySection.has(step.sectionId) ? handlePickFrame : undefined}
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
                     ))}
                 </div>
             ) : (
-                /* View Mode: No drag & drop - Grouped by Video with individual Layout Toggles */
+                /* View Mode: No drag & drop - Grouped by Section with individual Layout Toggles */
                 <div className="mx-auto px-4 py-8 pb-32 max-w-[1400px]">
-                    {Object.keys(videoGroups).map(vIdxKey => {
-                        const vIdx = parseInt(vIdxKey);
-                        const steps = videoGroups[vIdx];
-                        const firstStep = steps[0];
-                        const currentLayout = firstStep?.layout || 'single';
+                    {sectionGroups.map(({ section, steps }, sectionIndex) => {
+                        const currentLayout = section.layout;
                         const isTwoCol = currentLayout === 'two-column';
                         const isTwoRowV = currentLayout === 'two-row-vertical';
 
                         return (
-                            <section key={vIdx} className={`video-section pt-10 pb-16 ${vIdx > 0 ? 'border-t border-slate-200 mt-4' : ''}`}>
-                                {/* Per-Video Header Options */}
+                            <section key={section.id} className={`video-section pt-10 pb-16 ${sectionIndex > 0 ? 'border-t border-slate-200 mt-4' : ''}`}>
+                                {/* Per-Section Header Options */}
                                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-10 px-2">
                                     <div className="flex items-center gap-3">
                                         <div className="flex bg-indigo-50 border border-indigo-100 items-center justify-center w-8 h-8 rounded-lg shadow-sm">
@@ -697,25 +1145,30 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
                                             </svg>
                                         </div>
-                                        <h3 className="text-sm font-black text-slate-500 tracking-wider">
-                                            動画セクション {vIdx + 1}
-                                        </h3>
+                                        <div className="min-w-0">
+                                            <h3 className="text-lg font-black text-slate-900 tracking-tight">
+                                                {section.title || `セクション ${sectionIndex + 1}`}
+                                            </h3>
+                                            {section.description && (
+                                                <p className="text-sm text-slate-500 mt-0.5 whitespace-pre-wrap">{section.description}</p>
+                                            )}
+                                        </div>
                                     </div>
                                     <div className="flex bg-slate-100/80 backdrop-blur-sm p-1 rounded-xl border border-slate-200 shadow-inner max-w-fit">
                                         <button
-                                            onClick={() => updateLayoutForVideo(vIdx, 'single')}
+                                            onClick={() => updateSectionLayout(section.id, 'single')}
                                             className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${currentLayout === 'single' ? 'bg-white text-indigo-900 shadow-md ring-1 ring-slate-900/5' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200'}`}
                                         >
                                             1列（縦並び）
                                         </button>
                                         <button
-                                            onClick={() => updateLayoutForVideo(vIdx, 'two-column')}
+                                            onClick={() => updateSectionLayout(section.id, 'two-column')}
                                             className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${currentLayout === 'two-column' ? 'bg-white text-indigo-900 shadow-md ring-1 ring-slate-900/5' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200'}`}
                                         >
                                             2列（左右並び）
                                         </button>
                                         <button
-                                            onClick={() => updateLayoutForVideo(vIdx, 'two-row-vertical')}
+                                            onClick={() => updateSectionLayout(section.id, 'two-row-vertical')}
                                             className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${currentLayout === 'two-row-vertical' ? 'bg-white text-indigo-900 shadow-md ring-1 ring-slate-900/5' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200'}`}
                                         >
                                             縦2行（A4縦）
@@ -730,6 +1183,7 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                                                 step={step}
                                                 isPortrait={orientations[step.uid || index] ?? false}
                                                 isTwoColumn={isTwoCol}
+                                                branches={(step.uid && resolvedBranches.get(step.uid)) || EMPTY_BRANCHES}
                                             />
                                         </div>
                                     ))}
@@ -740,8 +1194,60 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                 </div>
             )}
 
+            {framePickerStep && framePickerVideoId && (
+                <FramePickerModal
+                    videoId={framePickerVideoId}
+                    stepLabel={`ステップ ${framePickerStep.stepNumber}: ${framePickerStep.action}`}
+                    initialTimestamp={framePickerStep.timestamp}
+                    onPick={handleFramePicked}
+                    onClose={() => setFramePickerUid(null)}
+                />
+            )}
+
+            {reanalysis && (
+                <div className="fixed bottom-6 right-6 z-[210] w-80 bg-white border border-purple-100 rounded-2xl shadow-xl p-4 flex flex-col gap-2">
+                    <div className="flex items-center justify-between text-xs font-bold text-slate-700">
+                        <span>セクションを再解析中</span>
+                        <span className="text-purple-600">{reanalysis.progress}%</span>
+                    </div>
+                    <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                        <div className="bg-purple-600 h-full rounded-full transition-all duration-300" style={{ width: `${reanalysis.progress}%` }} />
+                    </div>
+                    <p className="text-[11px] text-slate-500 leading-relaxed">{reanalysis.message}</p>
+                </div>
+            )}
+
+            {showHistory && manualId && (
+                <RevisionHistoryPanel
+                    manualId={manualId}
+                    onRestore={(revision) => handleRestoreRevision(revision.data)}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
+            {showVariantTextEditor && onUpdateManual && (
+                <VariantTextEditor
+                    manual={manual}
+                    onUpdateManual={onUpdateManual}
+                    onOpenManual={onOpenManual}
+                    onClose={() => setShowVariantTextEditor(false)}
+                />
+            )}
+
+            {showTranslation && manualId && (
+                <TranslationPanel
+                    manualId={manualId}
+                    manual={manual}
+                    onOpenManual={onOpenManual}
+                    onClose={() => setShowTranslation(false)}
+                />
+            )}
+
             {/* Notes Section */}
-            {!isEditMode && manual.notes && manual.notes.length > 0 && (
+            {isEditMode && (
+                <NotesEditor notes={manual.notes ?? EMPTY_NOTES} onChange={handleUpdateNotes} />
+            )}
+            {!isEditMode && visibleNotes.length > 0 && (
                 <div className="max-w-4xl mx-auto px-4 pb-24">
                     <div className="bg-amber-50/50 border border-amber-100 p-8 rounded-[32px]">
                         <div className="flex items-center gap-3 mb-6">
@@ -751,7 +1257,7 @@ export default function ManualViewer({ manual, videoFile, onUpdateManual }: Manu
                             <h4 className="text-lg font-black text-amber-900 uppercase tracking-wider">Attention & Notes</h4>
                         </div>
                         <ul className="grid gap-3">
-                            {manual.notes.map((note, index) => (
+                            {visibleNotes.map((note, index) => (
                                 <li key={index} className="flex items-start gap-3 text-amber-800/80 font-medium">
                                     <div className="w-1.5 h-1.5 rounded-full bg-amber-400 mt-2 shrink-0" />
                                     <span>{note}</span>
@@ -0,0 +1,95 @@
+'use client';
+
+import { memo, useState, useEffect } from 'react';
+
+interface NotesEditorProps {
+    notes: string[];
+    onChange: (notes: string[]) => void;
+}
+
+/**
+ * 編集モードの注意事項エディタ。
+ * 各行は SectionHeaderEditor と同じくローカル draft で持ち、blur 時にだけ親へ反映する。
+ * 空行はそのまま保持し、表示・エクスポート側で除外する。
+ */
+function NotesEditor({ notes, onChange }: NotesEditorProps) {
+    const [drafts, setDrafts] = useState<string[]>(notes);
+    useEffect(() => { setDrafts(notes); }, [notes]);
+
+    const commit = (index: number) => {
+        if (drafts[index] === notes[index]) return;
+        onChange(notes.map((note, i) => (i === index ? drafts[index] : note)));
+    };
+
+    const move = (index: number, offset: number) => {
+        const to = index + offset;
+        if (to < 0 || to >= notes.length) return;
+        const next = [...notes];
+        const [moved] = next.splice(index, 1);
+        next.splice(to, 0, moved);
+        onChange(next);
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 pb-24">
+            <div className="bg-amber-50/50 border border-amber-100 p-8 rounded-[32px]">
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-8 h-8 rounded-xl bg-amber-100 flex items-center justify-center text-amber-600">
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                    </div>
+                    <h4 className="text-lg font-black text-amber-900 uppercase tracking-wider">Attention & Notes</h4>
+                    <span className="text-[11px] font-bold text-amber-700/60">{notes.length} 件</span>
+                </div>
+
+                <ul className="grid gap-3">
+                    {drafts.map((draft, index) => (
+                        <li key={index} className="flex items-start gap-3">
+                            <div className="w-1.5 h-1.5 rounded-full bg-amber-400 mt-4 shrink-0" />
+                            <textarea
+                                value={draft}
+                                onChange={(e) => setDrafts(prev => prev.map((d, i) => (i === index ? e.target.value : d)))}
+                                onBlur={() => commit(index)}
+                                className="flex-1 min-w-0 text-sm text-amber-900 font-medium bg-white/70 border border-amber-200 rounded-lg p-2 focus:border-amber-500 focus:outline-none transition-colors min-h-[44px] resize-y placeholder-amber-300"
+                                placeholder="注意事項を入力"
+                            />
+                            <div className="shrink-0 flex items-center gap-1">
+                                <button
+                                    onClick={() => move(index, -1)}
+                                    disabled={index === 0}
+                                    className="h-8 w-8 rounded-lg text-amber-700 hover:bg-amber-100 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                                    title="上へ移動"
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    onClick={() => move(index, 1)}
+                                    disabled={index === drafts.length - 1}
+                                    className="h-8 w-8 rounded-lg text-amber-700 hover:bg-amber-100 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                                    title="下へ移動"
+                                >
+                                    ↓
+                                </button>
+                                <button
+                                    onClick={() => onChange(notes.filter((_, i) => i !== index))}
+                                    className="h-8 px-3 rounded-lg text-xs font-bold text-red-500 hover:bg-red-50 transition-all"
+                                    title="この注意事項を削除"
+                                >
+                                    削除
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <button
+                    onClick={() => onChange([...notes, ''])}
+                    className="mt-4 h-9 px-4 rounded-xl text-xs font-bold text-amber-700 border border-dashed border-amber-300 hover:bg-amber-100 transition-all"
+                >
+                    + 注意事項を追加
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default memo(NotesEditor);
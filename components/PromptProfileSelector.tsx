@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+    PromptProfile,
+    PromptProfileSettings,
+    BUILT_IN_PROMPT_PROFILES,
+    DEFAULT_PROMPT_PROFILE_ID,
+    DETAIL_LEVELS,
+    STEP_DENSITIES,
+    WORDING_STYLES,
+    createPromptProfileId,
+    loadCustomPromptProfiles,
+    saveCustomPromptProfiles,
+} from '@/utils/promptProfiles';
+
+interface PromptProfileSelectorProps {
+    value: PromptProfile;
+    onChange: (profile: PromptProfile) => void;
+}
+
+interface OptionGroupProps<T extends string> {
+    label: string;
+    options: ReadonlyArray<{ value: T; label: string }>;
+    value: T;
+    disabled: boolean;
+    onChange: (value: T) => void;
+}
+
+function OptionGroup<T extends string>({ label, options, value, disabled, onChange }: OptionGroupProps<T>) {
+    return (
+        <div className="flex items-center justify-between gap-3">
+            <span className="text-[11px] font-bold text-slate-500">{label}</span>
+            <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+                {options.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => onChange(option.value)}
+                        disabled={disabled}
+                        className={`h-6 px-3 rounded-md text-[11px] font-bold transition-all disabled:cursor-not-allowed ${value === option.value ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700 disabled:hover:text-slate-500'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * 生成スタイル（プロンプトプロファイル）の選択と、独自プロファイルの作成・編集・削除。
+ * 組み込みのプロファイルは変更できないので、複製してから編集する。
+ */
+export default function PromptProfileSelector({ value, onChange }: PromptProfileSelectorProps) {
+    const [customProfiles, setCustomProfiles] = useState<PromptProfile[]>([]);
+    const [isEditing, setIsEditing] = useState(false);
+
+    useEffect(() => {
+        setCustomProfiles(loadCustomPromptProfiles());
+    }, []);
+
+    const profiles = [...BUILT_IN_PROMPT_PROFILES, ...customProfiles];
+
+    const updateCustomProfiles = (next: PromptProfile[]) => {
+        setCustomProfiles(next);
+        saveCustomPromptProfiles(next);
+    };
+
+    const handleDuplicate = () => {
+        const copy: PromptProfile = {
+            id: createPromptProfileId(),
+            name: `${value.name}のコピー`,
+            density: value.density,
+            wording: value.wording,
+            includeConfirmations: value.includeConfirmations,
+            detail: value.detail,
+        };
+        updateCustomProfiles([...customProfiles, copy]);
+        onChange(copy);
+        setIsEditing(true);
+    };
+
+    const handleUpdate = (patch: Partial<PromptProfileSettings> & { name?: string }) => {
+        if (value.builtIn) return;
+        const updated = { ...value, ...patch };
+        updateCustomProfiles(customProfiles.map(p => p.id === value.id ? updated : p));
+        onChange(updated);
+    };
+
+    const handleDelete = () => {
+        if (value.builtIn || !confirm(`生成スタイル「${value.name}」を削除しますか？`)) return;
+        updateCustomProfiles(customProfiles.filter(p => p.id !== value.id));
+        onChange(BUILT_IN_PROMPT_PROFILES.find(p => p.id === DEFAULT_PROMPT_PROFILE_ID)!);
+        setIsEditing(false);
+    };
+
+    return (
+        <div className="mt-2 px-4 py-3 bg-white rounded-lg border border-slate-200 shadow-sm flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-bold text-slate-500">生成スタイル</span>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={value.id}
+                        onChange={e => {
+                            const next = profiles.find(p => p.id === e.target.value);
+                            if (next) onChange(next);
+                        }}
+                        className="h-8 px-2 rounded-lg border border-slate-200 text-xs font-bold text-slate-700 focus:border-purple-500 focus:outline-none"
+                    >
+                        {profiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setIsEditing(prev => !prev)}
+                        className={`h-8 px-3 rounded-lg border text-xs font-bold transition-all ${isEditing ? 'border-purple-300 bg-purple-50 text-purple-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                    >
+                        詳細
+                    </button>
+                </div>
+            </div>
+            {value.description && !isEditing && (
+                <p className="text-[11px] text-slate-400">{value.description}</p>
+            )}
+
+            {isEditing && (
+                <div className="flex flex-col gap-2 border-t border-slate-100 pt-3">
+                    {!value.builtIn && (
+                        <label className="flex items-center justify-between gap-3">
+                            <span className="text-[11px] font-bold text-slate-500">名前</span>
+                            <input
+                                value={value.name}
+                                onChange={e => handleUpdate({ name: e.target.value })}
+                                onBlur={e => { if (!e.target.value.trim()) handleUpdate({ name: '名称未設定' }); }}
+                                className="h-7 w-48 px-2 rounded-md border border-slate-200 text-xs font-bold text-slate-800 focus:border-purple-500 focus:outline-none"
+                            />
+                        </label>
+                    )}
+                    <OptionGroup label="手順の細かさ" options={STEP_DENSITIES} value={value.density} disabled={!!value.builtIn} onChange={density => handleUpdate({ density })} />
+                    <OptionGroup label="文体" options={WORDING_STYLES} value={value.wording} disabled={!!value.builtIn} onChange={wording => handleUpdate({ wording })} />
+                    <OptionGroup label="説明の詳しさ" options={DETAIL_LEVELS} value={value.detail} disabled={!!value.builtIn} onChange={detail => handleUpdate({ detail })} />
+                    <label className="flex items-center justify-between gap-3">
+                        <span className="text-[11px] font-bold text-slate-500">結果確認ステップを含める</span>
+                        <input
+                            type="checkbox"
+                            checked={value.includeConfirmations}
+                            disabled={!!value.builtIn}
+                            onChange={e => handleUpdate({ includeConfirmations: e.target.checked })}
+                            className="w-4 h-4 accent-purple-600"
+                        />
+                    </label>
+                    <div className="flex items-center justify-end gap-2 pt-1">
+                        {value.builtIn && <span className="mr-auto text-[11px] text-slate-400">組み込みのスタイルは複製してから変更できます</span>}
+                        <button
+                            onClick={handleDuplicate}
+                            className="h-7 px-3 rounded-md border border-slate-200 text-slate-600 text-[11px] font-bold hover:bg-slate-50 transition-all"
+                        >
+                            複製して編集
+                        </button>
+                        {!value.builtIn && (
+                            <button
+                                onClick={handleDelete}
+                                className="h-7 px-2 rounded-md text-rose-500 text-[11px] font-bold hover:bg-rose-50 transition-all"
+                            >
+                                削除
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RevisionRecord } from '@/utils/db';
+import { listRevisions } from '@/utils/revisions';
+import StepImage from './StepImage';
+import { stepHeadingPrefix } from '@/utils/stepKind';
+
+interface RevisionHistoryPanelProps {
+    manualId: string;
+    onRestore: (revision: RevisionRecord) => void;
+    onClose: () => void;
+}
+
+const formatDateTime = (ms: number): string =>
+    new Date(ms).toLocaleString('ja-JP', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * リビジョン履歴パネル。
+ * 左に保存時刻とメモの一覧、右に選択した版のプレビューを表示し、任意の版を現在の状態として復元する。
+ */
+export default function RevisionHistoryPanel({ manualId, onRestore, onClose }: RevisionHistoryPanelProps) {
+    const [revisions, setRevisions] = useState<RevisionRecord[]>([]);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        listRevisions(manualId)
+            .then(list => {
+                setRevisions(list);
+                setSelectedId(list[0]?.id ?? null);
+            })
+            .catch(e => console.error('Failed to load revisions', e))
+            .finally(() => setIsLoaded(true));
+    }, [manualId]);
+
+    const selected = revisions.find(r => r.id === selectedId) || null;
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl h-[80vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+                    <h3 className="text-base font-black text-slate-900">変更履歴</h3>
+                    <button onClick={onClose} className="text-xs font-bold text-slate-400 hover:text-slate-700">閉じる</button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Revision list */}
+                    <ul className="w-72 shrink-0 border-r border-slate-100 overflow-y-auto">
+                        {isLoaded && revisions.length === 0 && (
+                            <li className="p-6 text-xs text-slate-400">保存された版はまだありません。</li>
+                        )}
+                        {revisions.map(r => (
+                            <li key={r.id}>
+                                <button
+                                    onClick={() => setSelectedId(r.id ?? null)}
+                                    className={`w-full text-left px-5 py-3 border-b border-slate-50 transition-colors ${r.id === selectedId ? 'bg-purple-50' : 'hover:bg-slate-50'}`}
+                                >
+                                    <p className={`text-xs font-black tabular-nums ${r.id === selectedId ? 'text-purple-700' : 'text-slate-700'}`}>{formatDateTime(r.createdAt)}</p>
+                                    <p className="text-xs text-slate-500 mt-0.5 line-clamp-2">{r.note}</p>
+                                    <p className="text-[10px] text-slate-400 mt-0.5">{r.data.steps.length} ステップ</p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {/* Preview */}
+                    <div className="flex-1 overflow-y-auto p-6">
+                        {selected ? (
+                            <>
+                                <div className="flex items-start justify-between gap-4 mb-6">
+                                    <div className="min-w-0">
+                                        <h4 className="text-2xl font-black text-slate-950 leading-tight">{selected.data.title}</h4>
+                                        <p className="text-sm text-slate-600 mt-2 whitespace-pre-wrap">{selected.data.overview}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => {
+                                            if (confirm(`${formatDateTime(selected.createdAt)} の版を復元しますか？\n現在の内容は履歴に保存されます。`)) {
+                                                onRestore(selected);
+                                            }
+                                        }}
+                                        className="shrink-0 h-9 px-4 rounded-lg bg-purple-600 text-white text-xs font-bold shadow-lg shadow-purple-200 hover:bg-purple-700 transition-all active:scale-95"
+                                    >
+                                        この版を復元
+                                    </button>
+                                </div>
+                                <ol className="grid gap-3">
+                                    {selected.data.steps.map((step, index) => (
+                                        <li key={step.uid || index} className="flex items-center gap-4 p-3 rounded-xl border border-slate-100">
+                                            <div className="w-24 aspect-video bg-slate-100 rounded-md overflow-hidden shrink-0">
+                                                <StepImage imageId={step.screenshotId} fallback={step.screenshot} alt={step.action} className="w-full h-full object-contain" />
+                                            </div>
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-bold text-slate-900"><span className="text-slate-400 mr-2">{stepHeadingPrefix(step)}</span>{step.action}</p>
+                                                {step.detail && <p className="text-xs text-slate-500 mt-1 line-clamp-2">{step.detail}</p>}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </>
+                        ) : (
+                            <p className="text-sm text-slate-400">左の一覧から版を選択してください。</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
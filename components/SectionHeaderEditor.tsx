@@ -0,0 +1,91 @@
+'use client';
+
+import { memo, useState, useEffect } from 'react';
+import { ManualSection } from '@/app/page';
+
+interface SectionHeaderEditorProps {
+    section: ManualSection;
+    index: number;
+    total: number;
+    stepCount: number;
+    onUpdate: (id: string, patch: Partial<Omit<ManualSection, 'id'>>) => void;
+    onMove: (id: string, offset: number) => void;
+    onMergeNext: (id: string) => void;
+    onReanalyze?: (id: string) => void; // 元動画が保存されているセクションのみ
+}
+
+/**
+ * 編集モードのセクション見出し。
+ * タイトル・説明は EditStepRow と同じくローカル draft で持ち、blur 時にだけ親へ反映する。
+ */
+function SectionHeaderEditor({ section, index, total, stepCount, onUpdate, onMove, onMergeNext, onReanalyze }: SectionHeaderEditorProps) {
+    const [draftTitle, setDraftTitle] = useState(section.title);
+    const [draftDescription, setDraftDescription] = useState(section.description || '');
+    useEffect(() => { setDraftTitle(section.title); }, [section.title]);
+    useEffect(() => { setDraftDescription(section.description || ''); }, [section.description]);
+
+    const isLast = index === total - 1;
+
+    return (
+        <div className="pt-12 pb-6 flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+                <span className="shrink-0 bg-indigo-50 border border-indigo-100 text-indigo-600 text-[10px] font-black px-2 py-1 rounded tracking-widest">
+                    SECTION {index + 1}
+                </span>
+                <input
+                    type="text"
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => draftTitle !== section.title && onUpdate(section.id, { title: draftTitle })}
+                    className="flex-1 min-w-0 text-xl font-black text-slate-900 bg-transparent border-b-2 border-indigo-100 focus:border-indigo-500 focus:outline-none transition-colors placeholder-slate-300"
+                    placeholder="セクション名"
+                />
+                <span className="shrink-0 text-[11px] font-bold text-slate-400">{stepCount} ステップ</span>
+                <div className="shrink-0 flex items-center gap-1">
+                    <button
+                        onClick={() => onMove(section.id, -1)}
+                        disabled={index === 0}
+                        className="h-8 w-8 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                        title="セクションを上へ移動"
+                    >
+                        ↑
+                    </button>
+                    <button
+                        onClick={() => onMove(section.id, 1)}
+                        disabled={isLast}
+                        className="h-8 w-8 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                        title="セクションを下へ移動"
+                    >
+                        ↓
+                    </button>
+                    <button
+                        onClick={() => onMergeNext(section.id)}
+                        disabled={isLast}
+                        className="h-8 px-3 rounded-lg text-xs font-bold text-slate-500 border border-slate-200 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                        title="次のセクションのステップをこのセクションに取り込む"
+                    >
+                        次と結合
+                    </button>
+                    {onReanalyze && (
+                        <button
+                            onClick={() => onReanalyze(section.id)}
+                            className="h-8 px-3 rounded-lg text-xs font-bold text-purple-600 border border-purple-200 hover:bg-purple-50 transition-all"
+                            title={`保存済みの元動画${section.sourceVideo?.name ? `「${section.sourceVideo.name}」` : ''}を解析し直し、このセクションの手順を置き換える`}
+                        >
+                            動画から再解析
+                        </button>
+                    )}
+                </div>
+            </div>
+            <textarea
+                value={draftDescription}
+                onChange={(e) => setDraftDescription(e.target.value)}
+                onBlur={() => draftDescription !== (section.description || '') && onUpdate(section.id, { description: draftDescription || undefined })}
+                className="w-full text-sm text-slate-600 bg-transparent border border-slate-200 rounded-lg p-2 focus:border-indigo-500 focus:outline-none transition-colors min-h-[44px] resize-y placeholder-slate-300"
+                placeholder="セクションの説明（任意）"
+            />
+        </div>
+    );
+}
+
+export default memo(SectionHeaderEditor);
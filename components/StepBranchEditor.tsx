@@ -0,0 +1,90 @@
+'use client';
+
+import { memo, useState, useEffect, useMemo } from 'react';
+import { StepBranch } from '@/app/page';
+import { BranchTargetOption } from '@/utils/branches';
+
+const EMPTY_BRANCHES: StepBranch[] = [];
+
+interface StepBranchEditorProps {
+    branches?: StepBranch[];
+    selfUid?: string;
+    targets: BranchTargetOption[];
+    onChange: (branches: StepBranch[]) => void;
+}
+
+/**
+ * EditStepRow 内の条件分岐編集欄。
+ * 条件ラベルはローカル draft で持ち blur 時に反映、分岐先の選択・追加・削除は即時反映する。
+ */
+function StepBranchEditor({ branches = EMPTY_BRANCHES, selfUid, targets, onChange }: StepBranchEditorProps) {
+    const [drafts, setDrafts] = useState<string[]>(() => branches.map(b => b.label));
+    useEffect(() => { setDrafts(branches.map(b => b.label)); }, [branches]);
+
+    // 自分自身は分岐先にできない。select の optgroup 用にセクションごとにまとめる
+    const groups = useMemo(() => {
+        const map = new Map<string, BranchTargetOption[]>();
+        targets.forEach(t => {
+            if (t.uid === selfUid) return;
+            const list = map.get(t.sectionTitle);
+            if (list) list.push(t);
+            else map.set(t.sectionTitle, [t]);
+        });
+        return Array.from(map.entries());
+    }, [targets, selfUid]);
+
+    const update = (index: number, patch: Partial<StepBranch>) => {
+        onChange(branches.map((b, i) => (i === index ? { ...b, label: drafts[index] ?? b.label, ...patch } : b)));
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            {branches.map((branch, index) => (
+                <div key={index} className="flex items-center gap-2 bg-indigo-50/60 border border-indigo-100 rounded-lg p-2">
+                    <span className="shrink-0 text-[11px] font-black text-indigo-500 tracking-widest">分岐</span>
+                    <input
+                        type="text"
+                        value={drafts[index] ?? ''}
+                        onChange={(e) => setDrafts(prev => prev.map((d, i) => (i === index ? e.target.value : d)))}
+                        onBlur={() => drafts[index] !== branch.label && update(index, {})}
+                        className="flex-1 min-w-0 text-sm font-bold bg-white border border-indigo-100 rounded px-2 py-1 focus:border-indigo-500 focus:outline-none placeholder-slate-300"
+                        placeholder="条件（例: 確認ダイアログが表示された場合）"
+                    />
+                    <span className="shrink-0 text-xs font-bold text-indigo-400">→</span>
+                    <select
+                        value={branch.targetUid}
+                        onChange={(e) => update(index, { targetUid: e.target.value })}
+                        className="w-56 shrink-0 text-xs font-bold bg-white border border-indigo-100 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none"
+                        title="分岐先のステップ"
+                    >
+                        <option value="">分岐先を選択…</option>
+                        {groups.map(([sectionTitle, options]) => (
+                            <optgroup key={sectionTitle} label={sectionTitle}>
+                                {options.map(option => (
+                                    <option key={option.uid} value={option.uid}>{option.label}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => onChange(branches.filter((_, i) => i !== index))}
+                        className="shrink-0 h-7 px-2 rounded text-xs font-bold text-slate-500 hover:text-red-600 hover:bg-white transition-all"
+                        title="この分岐を削除"
+                    >
+                        削除
+                    </button>
+                </div>
+            ))}
+            <div>
+                <button
+                    onClick={() => onChange([...branches, { label: '', targetUid: '' }])}
+                    className="h-7 px-3 rounded-full text-[11px] font-bold text-slate-500 border border-dashed border-slate-300 hover:text-slate-900 hover:border-slate-500 transition-all"
+                >
+                    + 条件分岐
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default memo(StepBranchEditor);
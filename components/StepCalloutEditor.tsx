@@ -0,0 +1,77 @@
+'use client';
+
+import { memo, useState, useEffect } from 'react';
+import { CalloutType, StepCallout } from '@/app/page';
+import { CALLOUT_STYLES, CALLOUT_TYPES } from '@/utils/callouts';
+import { CALLOUT_CLASSES } from './StepCallouts';
+
+const EMPTY_CALLOUTS: StepCallout[] = [];
+
+interface StepCalloutEditorProps {
+    callouts?: StepCallout[];
+    onChange: (callouts: StepCallout[]) => void;
+}
+
+/**
+ * EditStepRow 内のコールアウト編集欄。
+ * 本文はローカル draft で持ち、blur 時にだけ親へ反映する（種類の変更・追加・削除は即時反映）。
+ */
+function StepCalloutEditor({ callouts = EMPTY_CALLOUTS, onChange }: StepCalloutEditorProps) {
+    const [drafts, setDrafts] = useState<string[]>(() => callouts.map(c => c.text));
+    useEffect(() => { setDrafts(callouts.map(c => c.text)); }, [callouts]);
+
+    const commitText = (index: number) => {
+        if (drafts[index] === callouts[index]?.text) return;
+        onChange(callouts.map((c, i) => (i === index ? { ...c, text: drafts[index] } : c)));
+    };
+
+    const changeType = (index: number, type: CalloutType) => {
+        onChange(callouts.map((c, i) => (i === index ? { ...c, type, text: drafts[index] ?? c.text } : c)));
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            {callouts.map((callout, index) => (
+                <div key={index} className={`flex items-start gap-2 border-l-4 rounded-lg p-2 ${CALLOUT_CLASSES[callout.type].box}`}>
+                    <select
+                        value={callout.type}
+                        onChange={(e) => changeType(index, e.target.value as CalloutType)}
+                        className={`shrink-0 text-xs font-black px-2 py-1 rounded cursor-pointer focus:outline-none ${CALLOUT_CLASSES[callout.type].badge}`}
+                        title="コールアウトの種類"
+                    >
+                        {CALLOUT_TYPES.map(type => (
+                            <option key={type} value={type}>{CALLOUT_STYLES[type].label}</option>
+                        ))}
+                    </select>
+                    <textarea
+                        value={drafts[index] ?? ''}
+                        onChange={(e) => setDrafts(prev => prev.map((d, i) => (i === index ? e.target.value : d)))}
+                        onBlur={() => commitText(index)}
+                        className="flex-1 min-w-0 text-sm font-bold bg-white/70 border border-transparent rounded p-1.5 focus:border-current focus:outline-none resize-y min-h-[36px] placeholder-slate-300"
+                        placeholder={`${CALLOUT_STYLES[callout.type].label}の内容`}
+                    />
+                    <button
+                        onClick={() => onChange(callouts.filter((_, i) => i !== index))}
+                        className="shrink-0 h-8 px-2 rounded text-xs font-bold text-slate-500 hover:text-red-600 hover:bg-white/70 transition-all"
+                        title="このコールアウトを削除"
+                    >
+                        削除
+                    </button>
+                </div>
+            ))}
+            <div className="flex items-center gap-2">
+                {CALLOUT_TYPES.map(type => (
+                    <button
+                        key={type}
+                        onClick={() => onChange([...callouts, { type, text: '' }])}
+                        className="h-7 px-3 rounded-full text-[11px] font-bold text-slate-500 border border-dashed border-slate-300 hover:text-slate-900 hover:border-slate-500 transition-all"
+                    >
+                        + {CALLOUT_STYLES[type].label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default memo(StepCalloutEditor);
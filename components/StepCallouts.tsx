@@ -0,0 +1,38 @@
+'use client';
+
+import { memo } from 'react';
+import { CalloutType, StepCallout } from '@/app/page';
+import { CALLOUT_STYLES } from '@/utils/callouts';
+
+// Tailwind はクラス名を静的に拾うため、配色は種類ごとに書き下す（色味は CALLOUT_STYLES と揃える）
+export const CALLOUT_CLASSES: Record<CalloutType, { box: string; badge: string }> = {
+    caution: { box: 'bg-amber-50 border-amber-300 text-amber-900', badge: 'bg-amber-500 text-white' },
+    warning: { box: 'bg-red-50 border-red-300 text-red-900', badge: 'bg-red-600 text-white' },
+    tip: { box: 'bg-sky-50 border-sky-300 text-sky-900', badge: 'bg-sky-600 text-white' },
+};
+
+interface StepCalloutsProps {
+    callouts: StepCallout[];
+}
+
+/** ビューモードのコールアウト表示（ステップ詳細の下に並べる） */
+function StepCallouts({ callouts }: StepCalloutsProps) {
+    if (callouts.length === 0) return null;
+    return (
+        <div className="flex flex-col gap-2">
+            {callouts.map((callout, index) => (
+                <div
+                    key={index}
+                    className={`flex items-start gap-3 border-l-4 rounded-lg px-3 py-2 text-sm font-bold leading-relaxed ${CALLOUT_CLASSES[callout.type].box}`}
+                >
+                    <span className={`shrink-0 text-[11px] font-black px-2 py-0.5 rounded tracking-widest ${CALLOUT_CLASSES[callout.type].badge}`}>
+                        {CALLOUT_STYLES[callout.type].label}
+                    </span>
+                    <span className="whitespace-pre-wrap">{callout.text}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default memo(StepCallouts);
@@ -0,0 +1,22 @@
+'use client';
+
+import { memo } from 'react';
+import { useImageUrl } from '@/hooks/useImageUrl';
+
+interface StepImageProps {
+    imageId?: string;
+    fallback?: string; // 旧データの data URL
+    alt: string;
+    className?: string;
+}
+
+/**
+ * 画像IDから解決した Object URL を表示する小さな img ラッパー（サムネイル・プレビュー用）。
+ */
+const StepImage = memo(function StepImage({ imageId, fallback, alt, className }: StepImageProps) {
+    const url = useImageUrl(imageId, fallback);
+    if (!url) return null;
+    return <img src={url} alt={alt} className={className} draggable={false} />;
+});
+
+export default StepImage;
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { StorageUsage, getStorageUsage, dropSourceVideos, formatBytes } from '@/utils/videoStore';
+
+/**
+ * ブラウザ内ストレージの使用量と、マニュアルごとの元動画の容量。
+ * 元動画は容量が大きいので、不要になったマニュアルから個別に削除できるようにする。
+ */
+export default function StorageUsagePanel() {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [droppingId, setDroppingId] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setUsage(await getStorageUsage());
+        } catch (e) {
+            console.error('Failed to load storage usage', e);
+        }
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleDrop = async (id: string, title: string) => {
+        if (!confirm(`「${title}」の元動画を削除しますか？\nマニュアルの手順や画像は残りますが、フレームの選び直し・ステップの挿入・再解析はできなくなります。`)) return;
+        setDroppingId(id);
+        try {
+            await dropSourceVideos(id);
+            await refresh();
+        } catch (e) {
+            console.error('Failed to drop source videos', e);
+            alert('元動画の削除に失敗しました。');
+        } finally {
+            setDroppingId(null);
+        }
+    };
+
+    if (!usage) {
+        return <div className="h-32 mb-6 animate-pulse rounded-2xl bg-slate-100" />;
+    }
+
+    const ratio = usage.usage !== undefined && usage.quota ? Math.min(1, usage.usage / usage.quota) : undefined;
+
+    return (
+        <div className="mb-6 rounded-2xl border border-slate-200 bg-white p-5 flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-xs font-bold text-slate-700">
+                    <span>ストレージ使用量</span>
+                    <span className="text-slate-500 tabular-nums">
+                        {usage.usage !== undefined ? formatBytes(usage.usage) : '不明'}
+                        {usage.quota !== undefined && ` / ${formatBytes(usage.quota)}`}
+                    </span>
+                </div>
+                {ratio !== undefined && (
+                    <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                        <div
+                            className={`h-full rounded-full ${ratio > 0.8 ? 'bg-rose-500' : 'bg-purple-600'}`}
+                            style={{ width: `${Math.max(1, Math.round(ratio * 100))}%` }}
+                        />
+                    </div>
+                )}
+                <p className="text-[11px] text-slate-400">
+                    元動画: {formatBytes(usage.videoBytes)}　画像: {formatBytes(usage.imageBytes)}
+                </p>
+            </div>
+
+            {usage.manuals.length === 0 ? (
+                <p className="text-xs text-slate-400">元動画を保存しているマニュアルはありません。</p>
+            ) : (
+                <ul className="flex flex-col divide-y divide-slate-100 border-t border-slate-100">
+                    {usage.manuals.map(m => (
+                        <li key={m.id} className="flex items-center gap-3 py-2">
+                            <span className="flex-1 min-w-0 text-xs font-bold text-slate-800 truncate">{m.title}</span>
+                            <span className="text-[11px] text-slate-400 tabular-nums whitespace-nowrap">
+                                {m.videoCount} 本 / {formatBytes(m.videoBytes)}
+                            </span>
+                            <button
+                                onClick={() => handleDrop(m.id, m.title)}
+                                disabled={droppingId !== null}
+                                className="h-7 px-2 rounded-md text-rose-500 text-[11px] font-bold hover:bg-rose-50 transition-all disabled:opacity-50"
+                            >
+                                {droppingId === m.id ? '削除中...' : '元動画を削除'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { memo, useState, useEffect, useRef } from 'react';
+import { ManualSubStep } from '@/app/page';
+import { putImage } from '@/utils/imageStore';
+import { createSubStepUid } from '@/utils/subSteps';
+import StepImage from './StepImage';
+
+const EMPTY_SUB_STEPS: ManualSubStep[] = [];
+
+interface SubStepEditorProps {
+    subSteps?: ManualSubStep[];
+    parentNumber: number;
+    onChange: (subSteps: ManualSubStep[]) => void;
+}
+
+interface SubStepDraft {
+    action: string;
+    detail: string;
+}
+
+/**
+ * EditStepRow 内のサブステップ（3-1, 3-2…）編集欄。
+ * 本文はローカル draft で持ち blur 時に反映、画像・並べ替え・追加・削除は即時反映する。
+ */
+function SubStepEditor({ subSteps = EMPTY_SUB_STEPS, parentNumber, onChange }: SubStepEditorProps) {
+    const toDrafts = (list: ManualSubStep[]): SubStepDraft[] => list.map(s => ({ action: s.action, detail: s.detail || '' }));
+    const [drafts, setDrafts] = useState<SubStepDraft[]>(() => toDrafts(subSteps));
+    useEffect(() => { setDrafts(toDrafts(subSteps)); }, [subSteps]);
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const imageTargetRef = useRef<string | null>(null);
+
+    const commit = (index: number) => {
+        const draft = drafts[index];
+        const current = subSteps[index];
+        if (!draft || !current) return;
+        if (draft.action === current.action && draft.detail === (current.detail || '')) return;
+        onChange(subSteps.map((s, i) => (i === index ? { ...s, action: draft.action, detail: draft.detail || undefined } : s)));
+    };
+
+    const move = (index: number, offset: number) => {
+        const to = index + offset;
+        if (to < 0 || to >= subSteps.length) return;
+        const next = [...subSteps];
+        const [moved] = next.splice(index, 1);
+        next.splice(to, 0, moved);
+        onChange(next);
+    };
+
+    const handlePickImage = (uid: string) => {
+        imageTargetRef.current = uid;
+        fileInputRef.current?.click();
+    };
+
+    const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        const uid = imageTargetRef.current;
+        if (!file || !uid) return;
+        try {
+            const screenshotId = await putImage(file);
+            onChange(subSteps.map(s => (s.uid === uid ? { ...s, screenshotId } : s)));
+        } catch (err) {
+            console.error('[SubStepEditor] Failed to store image:', err);
+            alert('画像の読み込みに失敗しました。');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageSelected} />
+            {subSteps.map((sub, index) => (
+                <div key={sub.uid} className="flex items-start gap-3 bg-slate-50 border border-slate-200 rounded-lg p-2">
+                    <span className="shrink-0 mt-1 min-w-[2.5rem] text-center bg-slate-700 text-white text-xs font-black px-2 py-1 rounded">
+                        {parentNumber}-{index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+                        <input
+                            type="text"
+                            value={drafts[index]?.action ?? ''}
+                            onChange={(e) => setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, action: e.target.value } : d)))}
+                            onBlur={() => commit(index)}
+                            className="text-sm font-bold bg-white border border-slate-200 rounded px-2 py-1 focus:border-purple-500 focus:outline-none placeholder-slate-300"
+                            placeholder="サブステップの操作"
+                        />
+                        <textarea
+                            value={drafts[index]?.detail ?? ''}
+                            onChange={(e) => setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, detail: e.target.value } : d)))}
+                            onBlur={() => commit(index)}
+                            className="text-xs text-slate-700 bg-white border border-slate-200 rounded px-2 py-1 focus:border-purple-500 focus:outline-none resize-y min-h-[32px] placeholder-slate-300"
+                            placeholder="補足（任意）"
+                        />
+                        {sub.screenshotId && (
+                            <StepImage imageId={sub.screenshotId} alt={sub.action} className="max-h-32 w-auto self-start rounded border border-slate-200" />
+                        )}
+                    </div>
+                    <div className="shrink-0 flex flex-col items-end gap-1">
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => move(index, -1)}
+                                disabled={index === 0}
+                                className="h-7 w-7 rounded text-slate-500 hover:bg-slate-200 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                                title="上へ移動"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                onClick={() => move(index, 1)}
+                                disabled={index === subSteps.length - 1}
+                                className="h-7 w-7 rounded text-slate-500 hover:bg-slate-200 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                                title="下へ移動"
+                            >
+                                ↓
+                            </button>
+                            <button
+                                onClick={() => onChange(subSteps.filter((_, i) => i !== index))}
+                                className="h-7 px-2 rounded text-xs font-bold text-slate-500 hover:text-red-600 hover:bg-white transition-all"
+                                title="このサブステップを削除"
+                            >
+                                削除
+                            </button>
+                        </div>
+                        {sub.screenshotId ? (
+                            <button
+                                onClick={() => onChange(subSteps.map((s, i) => (i === index ? { ...s, screenshotId: undefined } : s)))}
+                                className="h-6 px-2 rounded text-[11px] font-bold text-slate-500 hover:text-slate-900 transition-all"
+                            >
+                                画像を外す
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => handlePickImage(sub.uid)}
+                                className="h-6 px-2 rounded text-[11px] font-bold text-slate-500 hover:text-slate-900 transition-all"
+                            >
+                                画像を追加
+                            </button>
+                        )}
+                    </div>
+                </div>
+            ))}
+            <div>
+                <button
+                    onClick={() => onChange([...subSteps, { uid: createSubStepUid(), action: '' }])}
+                    className="h-7 px-3 rounded-full text-[11px] font-bold text-slate-500 border border-dashed border-slate-300 hover:text-slate-900 hover:border-slate-500 transition-all"
+                >
+                    + サブステップ
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default memo(SubStepEditor);
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ManualData, OutputLanguage } from '@/app/page';
+import { LanguageVariantSummary, listLanguageVariants, translateToLanguageVariant } from '@/utils/languageVariants';
+import { OUTPUT_LANGUAGES, normalizeOutputLanguage } from '@/utils/outputLanguage';
+
+interface TranslationPanelProps {
+    manualId: string;
+    manual: ManualData;
+    onOpenManual?: (id: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * 翻訳パネル。
+ * マニュアルの本文と画像の注釈を AI で翻訳し、画像を共有する翻訳版としてライブラリに保存する。
+ * 作成済みの言語は、翻訳版を開くか、未翻訳・原文が変わった項目だけを訳し直せる。
+ */
+export default function TranslationPanel({ manualId, manual, onOpenManual, onClose }: TranslationPanelProps) {
+    const [variants, setVariants] = useState<LanguageVariantSummary[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [busyLanguage, setBusyLanguage] = useState<OutputLanguage | null>(null);
+
+    const sourceLanguage = normalizeOutputLanguage(manual.language);
+
+    const refresh = useCallback(() => {
+        return listLanguageVariants(manualId, manual)
+            .then(setVariants)
+            .catch(e => console.error('Failed to load language variants', e))
+            .finally(() => setIsLoaded(true));
+    }, [manualId, manual]);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleTranslate = async (language: OutputLanguage) => {
+        setBusyLanguage(language);
+        try {
+            await translateToLanguageVariant(manualId, manual, language);
+            await refresh();
+        } catch (e) {
+            console.error('Translation failed', e);
+            alert(`翻訳に失敗しました: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            setBusyLanguage(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50 p-4" onClick={busyLanguage ? undefined : onClose}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+                    <h3 className="text-base font-black text-slate-900">翻訳版</h3>
+                    <button onClick={onClose} disabled={!!busyLanguage} className="text-xs font-bold text-slate-400 hover:text-slate-700 disabled:opacity-40">閉じる</button>
+                </div>
+
+                <p className="px-6 pt-4 text-xs text-slate-500 leading-relaxed">
+                    本文と画像の注釈を翻訳し、スクリーンショットを共有する翻訳版を作成します。
+                    このマニュアルで画像や手順の構成を変更すると、翻訳版にも自動で反映されます。
+                </p>
+
+                <ul className="p-6 flex flex-col gap-3">
+                    {OUTPUT_LANGUAGES.filter(l => l.value !== sourceLanguage).map(({ value, label }) => {
+                        const variant = variants.find(v => v.language === value);
+                        const isBusy = busyLanguage === value;
+                        return (
+                            <li key={value} className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 px-4 py-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-black text-slate-900">{label}</p>
+                                    <p className="text-[11px] text-slate-400 truncate">
+                                        {!isLoaded
+                                            ? '読み込み中…'
+                                            : variant
+                                                ? variant.pendingCount > 0
+                                                    ? `${variant.title}（未翻訳 ${variant.pendingCount} 件）`
+                                                    : variant.title
+                                                : '未作成'}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1.5 shrink-0">
+                                    {variant && onOpenManual && (
+                                        <button
+                                            onClick={() => onOpenManual(variant.id)}
+                                            disabled={!!busyLanguage}
+                                            className="h-8 px-3 rounded-md text-slate-600 text-xs font-bold hover:bg-slate-100 transition-all disabled:opacity-40"
+                                        >
+                                            開く
+                                        </button>
+                                    )}
+                                    {(!variant || variant.pendingCount > 0) && (
+                                        <button
+                                            onClick={() => handleTranslate(value)}
+                                            disabled={!isLoaded || !!busyLanguage}
+                                            className="h-8 px-3 rounded-md bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 transition-all disabled:opacity-40"
+                                        >
+                                            {isBusy ? '翻訳中…' : variant ? '未翻訳の項目を翻訳' : '翻訳する'}
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+}
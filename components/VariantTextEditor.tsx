@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ManualData } from '@/app/page';
+import { loadManual } from '@/utils/manualLibrary';
+import { editLanguageVariantTexts, listTranslatableItems, TranslatableItem } from '@/utils/languageVariants';
+import { OUTPUT_LANGUAGES } from '@/utils/outputLanguage';
+
+interface VariantTextEditorProps {
+    manual: ManualData; // variantOf を持つ翻訳版
+    onUpdateManual: (updater: ManualData | ((prev: ManualData) => ManualData)) => void;
+    onOpenManual?: (id: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * 翻訳版の訳文の手直し。
+ * 翻訳版の画像・手順の構成は翻訳元から組み立て直されるため、通常の編集モードの代わりに
+ * 原文と訳文を並べて訳文だけを編集させる（画像や構成の変更は翻訳元で行う）。
+ */
+export default function VariantTextEditor({ manual, onUpdateManual, onOpenManual, onClose }: VariantTextEditorProps) {
+    const link = manual.variantOf;
+    const [items, setItems] = useState<TranslatableItem[] | null>(null); // null: 読み込み中
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    const sourceId = link?.sourceId;
+    useEffect(() => {
+        if (!sourceId) return;
+        let cancelled = false;
+        loadManual(sourceId)
+            .then(source => { if (!cancelled) setItems(source ? listTranslatableItems(source) : []); })
+            .catch(e => {
+                console.warn('[VariantTextEditor] Failed to load source manual:', e);
+                if (!cancelled) setItems([]);
+            });
+        return () => { cancelled = true; };
+    }, [sourceId]);
+
+    if (!link) return null;
+
+    const languageLabel = OUTPUT_LANGUAGES.find(l => l.value === manual.language)?.label ?? manual.language;
+    const translatedText = (key: string) => link.texts?.[key] ?? '';
+    // 空欄にした項目は変更しない（原文のまま表示されるのは未翻訳の項目だけ）
+    const edits = Object.fromEntries(
+        Object.entries(drafts).filter(([key, text]) => text.trim() && text !== translatedText(key))
+    );
+    const editCount = Object.keys(edits).length;
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            onUpdateManual(await editLanguageVariantTexts(manual, edits));
+            onClose();
+        } catch (e) {
+            console.error('Failed to save variant texts', e);
+            alert(`訳文を保存できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50 p-4" onClick={isSaving ? undefined : onClose}>
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+                    <h3 className="text-base font-black text-slate-900">訳文を編集（{languageLabel}）</h3>
+                    <button onClick={onClose} disabled={isSaving} className="text-xs font-bold text-slate-400 hover:text-slate-700 disabled:opacity-40">閉じる</button>
+                </div>
+
+                <p className="px-6 pt-4 text-xs text-slate-500 leading-relaxed">
+                    翻訳版で編集できるのは訳文だけです。画像・注釈・手順の構成は翻訳元から反映されるため、翻訳元で編集してください。
+                    {onOpenManual && (
+                        <button onClick={() => onOpenManual(link.sourceId)} className="ml-2 font-bold text-sky-700 hover:underline">
+                            翻訳元を開く
+                        </button>
+                    )}
+                </p>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-4">
+                    {items === null && <p className="text-xs text-slate-400">読み込み中…</p>}
+                    {items !== null && items.length === 0 && (
+                        <p className="text-xs text-slate-400">翻訳元のマニュアルが見つからないため、訳文を編集できません。</p>
+                    )}
+                    {items?.map(item => (
+                        <label key={item.key} className="flex flex-col gap-1">
+                            <span className="text-[11px] font-bold text-slate-500">{item.label}</span>
+                            <span className="text-xs text-slate-400 leading-relaxed whitespace-pre-wrap">{item.text}</span>
+                            <textarea
+                                value={drafts[item.key] ?? translatedText(item.key)}
+                                onChange={e => setDrafts(prev => ({ ...prev, [item.key]: e.target.value }))}
+                                rows={item.text.length > 60 ? 3 : 1}
+                                placeholder="未翻訳"
+                                className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-bold text-slate-800 focus:border-sky-500 focus:outline-none resize-y"
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-slate-100">
+                    <button onClick={onClose} disabled={isSaving} className="h-8 px-3 rounded-md text-slate-500 text-xs font-bold hover:bg-slate-100 disabled:opacity-40">
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || editCount === 0}
+                        className="h-8 px-4 rounded-md bg-sky-600 text-white text-xs font-bold hover:bg-sky-700 transition-all disabled:opacity-40"
+                    >
+                        {isSaving ? '保存中…' : `保存（${editCount} 件）`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,11 +2,19 @@
 
 import { useRef, useState, useEffect, DragEvent } from 'react';
 import QRCode from 'qrcode';
+import { OutputLanguage } from '@/app/page';
+import { OUTPUT_LANGUAGES } from '@/utils/outputLanguage';
+import { PromptProfile } from '@/utils/promptProfiles';
+import PromptProfileSelector from './PromptProfileSelector';
 
 interface VideoUploaderProps {
     onVideosSelect: (files: File[]) => void;
     videoFiles: File[];
     onRemoveVideo: (index: number) => void;
+    language: OutputLanguage;
+    onLanguageChange: (language: OutputLanguage) => void;
+    promptProfile: PromptProfile;
+    onPromptProfileChange: (profile: PromptProfile) => void;
 }
 
 const ACCEPTED_VIDEO_TYPES = [
@@ -36,6 +44,10 @@ export default function VideoUploader({
     onVideosSelect,
     videoFiles,
     onRemoveVideo,
+    language,
+    onLanguageChange,
+    promptProfile,
+    onPromptProfileChange,
 }: VideoUploaderProps) {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isDragActive, setIsDragActive] = useState(false);
@@ -312,6 +324,29 @@ export default function VideoUploader({
                     </ul>
                 </div>
             )}
+
+            {/* 出力言語（AIが書く本文と、エクスポートの見出し等に使う） */}
+            {videoFiles.length > 0 && (
+                <div className="mt-4 flex items-center justify-between gap-3 px-4 py-3 bg-white rounded-lg border border-slate-200 shadow-sm">
+                    <span className="text-xs font-bold text-slate-500">マニュアルの言語</span>
+                    <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+                        {OUTPUT_LANGUAGES.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => onLanguageChange(option.value)}
+                                className={`h-7 px-3 rounded-md text-xs font-bold transition-all ${language === option.value ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* 生成スタイル（手順の細かさ・文体・説明の詳しさ） */}
+            {videoFiles.length > 0 && (
+                <PromptProfileSelector value={promptProfile} onChange={onPromptProfileChange} />
+            )}
         </div>
     );
 }
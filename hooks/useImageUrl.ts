@@ -0,0 +1,31 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getImageObjectUrl, peekImageObjectUrl } from '@/utils/imageStore';
+
+/**
+ * images テーブルの画像IDを受け取り、表示用の Object URL を返すフック。
+ *
+ * - 画像は不変なので Object URL は imageStore 側で ID ごとにキャッシュされ、
+ *   再レンダリングや再マウントのたびに base64 をデコードすることはない。
+ * - ID が無い旧データ（data URL を直接持つステップ）の場合は fallback をそのまま返す。
+ * - どちらも無い場合は undefined を返す。
+ */
+export function useImageUrl(imageId: string | undefined, fallback?: string): string | undefined {
+    // 解決済みの URL を ID とセットで保持し、ID が変わった直後に古い画像を返さないようにする
+    const [resolved, setResolved] = useState<{ id: string; url?: string } | null>(null);
+
+    useEffect(() => {
+        if (!imageId || peekImageObjectUrl(imageId)) return;
+
+        let cancelled = false;
+        getImageObjectUrl(imageId)
+            .then(url => { if (!cancelled) setResolved({ id: imageId, url }); })
+            .catch(e => console.error('[useImageUrl] Failed to resolve image:', e));
+
+        return () => { cancelled = true; };
+    }, [imageId]);
+
+    if (!imageId) return fallback;
+    return peekImageObjectUrl(imageId) ?? (resolved?.id === imageId ? resolved.url : undefined);
+}
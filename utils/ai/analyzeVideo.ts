@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OutputLanguage } from '@/app/page';
+import { AIProvider, isRateLimitError, parseAIJson, UploadedVideo } from '@/utils/ai/provider';
+import { buildStepExtractionPrompt, buildStepRepairPrompt } from '@/utils/ai/prompts';
+import { AnalyzedStep, recoverTruncatedStepOutput, StepOutputValidation, validateStepOutput } from '@/utils/ai/stepSchema';
+import { parseTimestamp } from '@/utils/videoProcessor';
+import { AnalysisFailure, AnalysisProgressEvent, AnalysisResult, SegmentPosition } from '@/utils/analysisStream';
+import { mergeSegmentSteps, offsetTimestamp, SegmentSteps } from '@/utils/videoSegments';
+import { PromptProfileSettings, StepDensity } from '@/utils/promptProfiles';
+
+/**
+ * 動画1本を AI プロバイダーで解析し、手順と注意事項を返す（サーバー側専用）。
+ * アップロード → 変換待ち → 生成 → 応答の解析 の各段階を onProgress で通知する。
+ * 長い動画は区間ごとに同じ流れで解析し、タイムスタンプを元動画の時刻に直してからまとめる。
+ * 解析ジョブ（utils/analysisJobStore.ts）から呼ばれ、キャンセルは signal で受け取る。
+ */
+
+/** 解析する動画の1区間（区間に分けない場合は動画全体で1件） */
+export interface VideoSegmentInput {
+    buffer: Buffer;
+    mimeType: string;
+    startSeconds: number; // 元動画での位置
+    endSeconds: number;
+}
+
+export interface VideoInput {
+    segments: VideoSegmentInput[]; // 開始時刻順。長い動画は少しずつ重なる区間（utils/videoSegments.ts）
+    fileName: string;
+    language: OutputLanguage;
+    profile: PromptProfileSettings; // 生成スタイル（utils/promptProfiles.ts）
+}
+
+export interface AnalyzeVideoOptions {
+    signal?: AbortSignal;
+    onProgress?: (event: AnalysisProgressEvent) => void;
+}
+
+// 生成の応答待ちの間に経過時間を送る間隔（進捗表示と、途中のプロキシによる切断防止を兼ねる）
+const GENERATION_HEARTBEAT_MS = 5000;
+// 応答が使えなかったときに、理由を添えて生成し直させる回数
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Helper for debug logging
+export async function log(message: string) {
+    const logPath = path.join(process.cwd(), 'debug_server.log');
+    const timestamp = new Date().toISOString();
+    const logMessage = `[${timestamp}] ${message}\n`;
+    try {
+        await fs.appendFile(logPath, logMessage);
+    } catch (e) {
+        console.error('Failed to write log:', e);
+    }
+    console.log(message);
+}
+
+/** 解析中のエラーを、画面にそのまま出せるメッセージとステータスにする */
+export function describeAnalysisError(error: unknown): AnalysisFailure {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isRateLimitError(error)) {
+        return { message: 'APIの利用制限に達しました。しばらく待ってからお試しください。', status: 429 };
+    }
+    if (message.includes('Video processing failed')) {
+        return { message: 'AI 側で動画の変換に失敗しました。別の形式の動画をお試しください。', status: 422 };
+    }
+    if (message.includes('INVALID_ARGUMENT')) {
+        return { message: '動画ファイルの処理に失敗しました。別の形式の動画をお試しください。', status: 400 };
+    }
+    if (error instanceof SyntaxError || message.includes('JSONを読み取れません') || message.includes('使える手順がありません')) {
+        return { message: 'AI の応答を読み取れませんでした。もう一度お試しください。', status: 502 };
+    }
+    return { message: `動画の解析中にエラーが発生しました: ${message}`, status: 500 };
+}
+
+// 重複とみなすタイムスタンプの近さ（生成スタイルの手順の細かさごと。細かく取るほど近い手順も残す）
+const MIN_GAP_SECONDS: Record<StepDensity, number> = {
+    coarse: 4.0,
+    standard: 2.0,
+    fine: 1.0,
+};
+
+// Deduplicate by timestamp: remove steps whose timestamp is within the minimum gap of a prior step
+// This guards against the model assigning the same/near-same timestamp to multiple steps,
+// which would cause identical screenshots to appear in the manual.
+function dedupeByTimestamp(steps: AnalyzedStep[], density: StepDensity): AnalyzedStep[] {
+    const minGapSeconds = MIN_GAP_SECONDS[density];
+    const seen: number[] = [];
+    return steps.filter(step => {
+        const sec = parseTimestamp(step.timestamp);
+        const tooClose = seen.some(s => Math.abs(s - sec) < minGapSeconds);
+        if (tooClose) {
+            log(`[dedup] Dropping duplicate timestamp step: ${step.timestamp} — "${step.action.slice(0, 40)}"`);
+            return false;
+        }
+        seen.push(sec);
+        return true;
+    });
+}
+
+/**
+ * 応答を JSON として読み、手順を検証する。
+ * JSON として壊れている場合は、途中で切れた応答とみなして閉じている手順だけを拾う（拾えなければ null）。
+ */
+async function parseStepOutput(responseText: string): Promise<StepOutputValidation | null> {
+    let parsed: unknown;
+    try {
+        parsed = parseAIJson(responseText);
+    } catch {
+        const recovered = recoverTruncatedStepOutput(responseText);
+        if (!recovered) return null;
+        await log(`[schema] Response was not valid JSON; recovered ${recovered.steps.length} complete steps from truncated output`);
+        parsed = recovered;
+    }
+    return validateStepOutput(parsed);
+}
+
+/** 使えない応答（JSON として読めない、または手順がすべて不正）の理由。使えるなら null */
+function unusableReason(validation: StepOutputValidation | null): string | null {
+    if (!validation) return 'JSON として読み取れませんでした。';
+    if (validation.steps.length > 0 || validation.issues.length === 0) return null; // 手順が無いだけなら正常な応答
+    const samples = validation.issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('\n');
+    return `使える手順が1件もありませんでした。\n${samples}`;
+}
+
+export async function analyzeVideoWithProvider(provider: AIProvider, video: VideoInput, options: AnalyzeVideoOptions = {}): Promise<AnalysisResult> {
+    const { onProgress } = options;
+    const count = video.segments.length;
+    onProgress?.({ type: 'received', bytes: video.segments.reduce((sum, segment) => sum + segment.buffer.length, 0) });
+
+    if (count === 1) {
+        const result = await analyzeSegment(provider, video, video.segments[0], undefined, options);
+        const deduped = dedupeByTimestamp(result.steps, video.profile.density);
+        await log(`Successfully parsed ${result.steps.length} steps; after dedup: ${deduped.length}; notes: ${result.notes.length}`);
+        return { steps: deduped, notes: result.notes };
+    }
+
+    // 区間は順番に解析する（同時に送るとプロバイダーの利用制限にかかりやすいため）
+    const segmentResults: SegmentSteps<AnalyzedStep>[] = [];
+    const notes: string[] = [];
+    for (let index = 0; index < count; index++) {
+        const segment = video.segments[index];
+        const position: SegmentPosition = { index, count, startSeconds: segment.startSeconds, endSeconds: segment.endSeconds };
+        await log(`Segment ${index + 1}/${count}: ${segment.startSeconds.toFixed(1)}s - ${segment.endSeconds.toFixed(1)}s`);
+
+        const result = await analyzeSegment(provider, video, segment, position, {
+            ...options,
+            onProgress: event => onProgress?.({ ...event, segment: position }),
+        });
+        segmentResults.push({
+            window: segment,
+            steps: result.steps.map(step => ({ ...step, timestamp: offsetTimestamp(step.timestamp, segment.startSeconds) })),
+        });
+        // 区間をまたいで同じ注意事項が返ることがあるため重複を除いて集約
+        for (const note of result.notes) {
+            if (!notes.includes(note)) notes.push(note);
+        }
+    }
+
+    const merged = mergeSegmentSteps(segmentResults);
+    const deduped = dedupeByTimestamp(merged.steps, video.profile.density);
+    await log(`Merged ${count} segments: ${merged.steps.length} steps (${merged.dropped} dropped at boundaries); after dedup: ${deduped.length}; notes: ${notes.length}`);
+    return { steps: deduped, notes };
+}
+
+/** 1区間（または動画全体）をアップロードして手順を生成させる。タイムスタンプは渡した動画の先頭からの時刻のまま返す */
+async function analyzeSegment(
+    provider: AIProvider,
+    video: VideoInput,
+    segment: VideoSegmentInput,
+    position: SegmentPosition | undefined,
+    options: AnalyzeVideoOptions
+): Promise<AnalysisResult> {
+    const { signal, onProgress } = options;
+    const displayName = position ? `${video.fileName} (${position.index + 1}/${position.count})` : video.fileName;
+    let uploaded: UploadedVideo | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    try {
+        uploaded = await provider.uploadVideo(segment.buffer, segment.mimeType, displayName, {
+            signal,
+            onProgress: progress => {
+                if (progress.stage === 'upload') {
+                    onProgress?.({ type: 'upload', sentBytes: progress.sentBytes, totalBytes: progress.totalBytes });
+                } else {
+                    onProgress?.({ type: 'processing', polls: progress.polls, state: progress.state });
+                }
+            },
+        });
+        await log(`Video Ready (${uploaded.mimeType}). Generating content...`);
+
+        let prompt = buildStepExtractionPrompt(video.language, { segment: position, profile: video.profile });
+        for (let attempt = 0; ; attempt++) {
+            const startedAt = Date.now();
+            onProgress?.({ type: 'generating', elapsedMs: 0, attempt });
+            heartbeat = setInterval(() => onProgress?.({ type: 'generating', elapsedMs: Date.now() - startedAt, attempt }), GENERATION_HEARTBEAT_MS);
+
+            const responseText = await provider.analyzeVideo(uploaded, prompt, {
+                json: true,
+                temperature: 0.1, // Lower temperature for more factual results
+                signal,
+            }) || '[]';
+
+            clearInterval(heartbeat);
+            heartbeat = null;
+            onProgress?.({ type: 'parsing' });
+            await log(`Response received: ${responseText.substring(0, 100)}...`);
+
+            const validation = await parseStepOutput(responseText);
+            const reason = unusableReason(validation);
+            if (validation && !reason) {
+                if (validation.issues.length > 0) {
+                    await log(`[schema] ${validation.issues.length} issues (${validation.droppedSteps} steps dropped):\n${validation.issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+                }
+                return { steps: validation.steps, notes: validation.notes };
+            }
+
+            await log(`[schema] Unusable response (attempt ${attempt + 1}): ${reason}`);
+            if (attempt >= MAX_REPAIR_ATTEMPTS) {
+                throw new Error(validation ? 'AIの応答に使える手順がありませんでした。' : 'AIの応答からJSONを読み取れませんでした。');
+            }
+            prompt = buildStepRepairPrompt(video.language, reason!, { segment: position, profile: video.profile });
+        }
+    } finally {
+        if (heartbeat) clearInterval(heartbeat);
+        if (uploaded) await provider.deleteVideo(uploaded);
+    }
+}
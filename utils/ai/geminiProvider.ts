@@ -0,0 +1,221 @@
+import * as http from 'http';
+import * as https from 'https';
+import path from 'path';
+import { URL } from 'url';
+import { AIProvider, GenerationOptions, UploadedVideo, UploadOptions } from '@/utils/ai/provider';
+
+/**
+ * Gemini（Generative Language REST API）の実装。
+ * 大きな動画でも途中で切れないよう、アップロードは Resumable Upload で行う。
+ */
+
+export interface GeminiProviderConfig {
+    apiKey: string;
+    model: string;
+    baseUrl?: string; // 既定: https://generativelanguage.googleapis.com
+}
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// Gemini supported MIME types
+// video/mp4, video/mpeg, video/mov, video/avi, video/x-flv, video/mpg, video/webm, video/wmv, video/3gpp
+function normalizeVideoMimeType(mimeType: string, displayName: string): string {
+    if (mimeType === 'video/quicktime') return 'video/mov';
+    if (mimeType && mimeType !== 'application/octet-stream') return mimeType;
+    // Fallback based on extension
+    const ext = path.extname(displayName).toLowerCase();
+    if (ext === '.mov') return 'video/mov';
+    if (ext === '.webm') return 'video/webm';
+    if (ext === '.avi') return 'video/avi';
+    if (ext === '.wmv') return 'video/wmv';
+    if (ext === '.flv') return 'video/x-flv';
+    return 'video/mp4'; // Default to mp4
+}
+
+// 送信済みバイト数を通知する単位
+const UPLOAD_CHUNK_BYTES = 1024 * 1024;
+
+// No timeout to prevent 5-minute undici fetch failures on large uploads
+function uploadBytes(uploadUrl: string, data: Buffer, onSent?: (sentBytes: number) => void, signal?: AbortSignal): Promise<any> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Upload cancelled'));
+            return;
+        }
+        const urlObj = new URL(uploadUrl);
+        // GEMINI_BASE_URL でプロキシ・エミュレーター（http やポート指定）に向けている場合もそのまま送る
+        const transport = urlObj.protocol === 'http:' ? http : https;
+        const req = transport.request({
+            method: 'POST',
+            protocol: urlObj.protocol,
+            hostname: urlObj.hostname,
+            port: urlObj.port || undefined,
+            path: urlObj.pathname + urlObj.search,
+            headers: {
+                'Content-Length': data.length.toString(),
+                'X-Goog-Upload-Offset': '0',
+                'X-Goog-Upload-Command': 'upload, finalize',
+            },
+            timeout: 0,
+        }, (res) => {
+            let body = '';
+            res.on('data', (chunk) => { body += chunk; });
+            res.on('end', () => {
+                if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+                    try {
+                        resolve(JSON.parse(body));
+                    } catch (e) {
+                        reject(new Error('Failed to parse upload response'));
+                    }
+                } else {
+                    reject(new Error(`File content upload failed: ${res.statusCode} ${body}`));
+                }
+            });
+        });
+
+        req.on('error', (e) => reject(e));
+        signal?.addEventListener('abort', () => req.destroy(new Error('Upload cancelled')), { once: true });
+        req.on('timeout', () => {
+            req.destroy();
+            reject(new Error('Upload request timed out'));
+        });
+
+        // チャンクごとに書き込み、ソケットへ渡し終えた分を進捗として通知する
+        let offset = 0;
+        const writeNext = () => {
+            if (offset >= data.length) {
+                req.end();
+                return;
+            }
+            const chunk = data.subarray(offset, offset + UPLOAD_CHUNK_BYTES);
+            offset += chunk.length;
+            req.write(chunk, (err) => {
+                if (err) return; // 'error' イベント側で reject される
+                onSent?.(offset);
+                writeNext();
+            });
+        };
+        writeNext();
+    });
+}
+
+export function createGeminiProvider(config: GeminiProviderConfig): AIProvider {
+    const origin = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiUrl = `${origin}/v1beta`;
+    const uploadUrl = `${origin}/upload/v1beta/files`;
+    const key = `key=${config.apiKey}`;
+
+    const generate = async (parts: any[], options: GenerationOptions = {}): Promise<string> => {
+        const response = await fetch(`${apiUrl}/models/${config.model}:generateContent?${key}`, {
+            method: 'POST',
+            cache: 'no-store', // explicitly disable caching for generation
+            signal: options.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                contents: [{ role: 'user', parts }],
+                generationConfig: {
+                    ...(options.json ? { responseMimeType: 'application/json' } : {}),
+                    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            const errText = await response.text();
+            throw new Error(`Generation failed: ${response.status} ${errText}`);
+        }
+
+        const data = await response.json();
+        return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    };
+
+    return {
+        name: 'gemini',
+        model: config.model,
+
+        async uploadVideo(data, mimeType, displayName, options: UploadOptions = {}) {
+            const { onProgress, signal } = options;
+            const normalizedType = normalizeVideoMimeType(mimeType, displayName);
+            const safeFileName = `upload_${Date.now()}${path.extname(displayName).toLowerCase()}`;
+
+            // Step 1: Initiate upload session
+            const initResponse = await fetch(`${uploadUrl}?${key}`, {
+                method: 'POST',
+                headers: {
+                    'X-Goog-Upload-Protocol': 'resumable',
+                    'X-Goog-Upload-Command': 'start',
+                    'X-Goog-Upload-Header-Content-Length': data.length.toString(),
+                    'X-Goog-Upload-Header-Content-Type': normalizedType,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ file: { display_name: safeFileName } }),
+                signal,
+            });
+
+            if (!initResponse.ok) {
+                const errText = await initResponse.text();
+                throw new Error(`Resumable upload init failed: ${initResponse.status} ${errText}`);
+            }
+
+            const sessionUrl = initResponse.headers.get('x-goog-upload-url');
+            if (!sessionUrl) throw new Error('No upload URL received from Gemini');
+
+            // Step 2: Upload the actual bytes
+            const uploadData = await uploadBytes(sessionUrl, data, sentBytes => {
+                onProgress?.({ stage: 'upload', sentBytes, totalBytes: data.length });
+            }, signal);
+            const remoteName: string = uploadData.file.name; // "files/..."
+            console.log(`[ai:gemini] Uploaded: ${uploadData.file.uri} (${remoteName})`);
+
+            // Step 3: Poll for Active State
+            let fileState = uploadData.file.state;
+            let polls = 0;
+            while (fileState === 'PROCESSING') {
+                onProgress?.({ stage: 'processing', polls, state: fileState });
+                await new Promise(r => setTimeout(r, 2000)); // 2s interval to avoid rate limits
+                polls++;
+                if (signal?.aborted) {
+                    // 呼び出し側には参照を返さないので、ここで後片付けする
+                    await fetch(`${apiUrl}/${remoteName}?${key}`, { method: 'DELETE' }).catch(() => { });
+                    throw new Error('Upload cancelled');
+                }
+
+                // Disable default Next.js route caching to firmly prevent infinite loops
+                const statusResponse = await fetch(`${apiUrl}/${remoteName}?${key}`, { cache: 'no-store' });
+                if (!statusResponse.ok) throw new Error('Failed to check status');
+                fileState = (await statusResponse.json()).state;
+            }
+
+            if (fileState === 'FAILED') throw new Error('Video processing failed on Gemini side.');
+
+            return { mimeType: normalizedType, displayName, uri: uploadData.file.uri, remoteName };
+        },
+
+        async deleteVideo(video: UploadedVideo) {
+            if (!video.remoteName) return;
+            try {
+                await fetch(`${apiUrl}/${video.remoteName}?${key}`, { method: 'DELETE' });
+            } catch (e) {
+                console.warn('[ai:gemini] Failed to delete uploaded file:', e);
+            }
+        },
+
+        analyzeVideo(video, prompt, options) {
+            return generate([
+                { file_data: { file_uri: video.uri, mime_type: video.mimeType } }, // Snake_case for REST
+                { text: prompt },
+            ], options);
+        },
+
+        analyzeImage(imageBase64, mimeType, prompt, options) {
+            return generate([
+                { inline_data: { mime_type: mimeType, data: imageBase64 } },
+                { text: prompt },
+            ], options);
+        },
+
+        completeText(prompt, options) {
+            return generate([{ text: prompt }], options);
+        },
+    };
+}
@@ -0,0 +1,80 @@
+import { AIProvider, GenerationOptions } from '@/utils/ai/provider';
+
+/**
+ * OpenAI 互換の Chat Completions API（vLLM・LM Studio・Ollama 等のオンプレ／ローカルサーバー）の実装。
+ *
+ * ファイルアップロード API は前提にせず、動画・画像は data URL としてメッセージに埋め込む。
+ * 動画は video_url パートで送るため、動画入力に対応したモデルが必要。
+ */
+
+export interface OpenAICompatibleProviderConfig {
+    baseUrl: string; // 例: http://localhost:8000/v1
+    model: string;
+    apiKey?: string; // ローカルサーバーでは不要なことが多い
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig): AIProvider {
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const complete = async (content: any[], options: GenerationOptions = {}): Promise<string> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            cache: 'no-store',
+            signal: options.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: config.model,
+                messages: [{ role: 'user', content }],
+                ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+                ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+            }),
+        });
+
+        if (!response.ok) {
+            const errText = await response.text();
+            throw new Error(`Generation failed: ${response.status} ${errText}`);
+        }
+
+        const data = await response.json();
+        const message = data.choices?.[0]?.message?.content;
+        // content をパート配列で返すサーバーもある
+        if (Array.isArray(message)) return message.map((part: any) => part?.text || '').join('');
+        return message || '';
+    };
+
+    return {
+        name: 'openai-compatible',
+        model: config.model,
+
+        async uploadVideo(data, mimeType, displayName) {
+            return { mimeType: mimeType || 'video/mp4', displayName, data };
+        },
+
+        async deleteVideo() {
+            // 埋め込み送信なのでサーバー側に残るものはない
+        },
+
+        analyzeVideo(video, prompt, options) {
+            if (!video.data) throw new Error('動画データがありません。');
+            const url = `data:${video.mimeType};base64,${video.data.toString('base64')}`;
+            return complete([
+                { type: 'video_url', video_url: { url } },
+                { type: 'text', text: prompt },
+            ], options);
+        },
+
+        analyzeImage(imageBase64, mimeType, prompt, options) {
+            return complete([
+                { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+                { type: 'text', text: prompt },
+            ], options);
+        },
+
+        completeText(prompt, options) {
+            return complete([{ type: 'text', text: prompt }], options);
+        },
+    };
+}
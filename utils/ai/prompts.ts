@@ -0,0 +1,366 @@
+import { OutputLanguage } from '@/app/page';
+import { normalizeOutputLanguage } from '@/utils/outputLanguage';
+import { SegmentPosition } from '@/utils/analysisStream';
+import { DetailLevel, normalizePromptProfileSettings, PromptProfileSettings, StepDensity, WordingStyle } from '@/utils/promptProfiles';
+
+/**
+ * AI に渡すプロンプトの組み立て（サーバー側の API ルートから使う）。
+ *
+ * 指示文は日本語のまま、出力言語の指定だけを差し替える。
+ * 画面上の UI 表記は翻訳させず、表示どおりに引用させる（手順と画面を突き合わせられるように）。
+ */
+
+interface LanguageRule {
+    name: string; // プロンプト内での言語の呼び名
+    sentenceStyle: string; // action の文体
+    actionLength: Record<WordingStyle, string>; // action の長さの目安（生成スタイルの文体ごと）
+}
+
+const LANGUAGE_RULES: Record<OutputLanguage, LanguageRule> = {
+    ja: {
+        name: '日本語',
+        sentenceStyle: '「〜します」「〜されます」形式で統一',
+        actionLength: { concise: '12文字', standard: '20文字', polite: '30文字' },
+    },
+    en: {
+        name: '英語（English）',
+        sentenceStyle: '「Click the \"Save\" button.」「The confirmation dialog appears.」のような簡潔な命令文・現在形で統一',
+        actionLength: { concise: '6語', standard: '10語', polite: '15語' },
+    },
+    vi: {
+        name: 'ベトナム語（Tiếng Việt）',
+        sentenceStyle: '「Nhấp vào nút \"Lưu\".」「Hộp thoại xác nhận hiển thị.」のような簡潔な命令文で統一',
+        actionLength: { concise: '8語', standard: '12語', polite: '18語' },
+    },
+};
+
+function outputLanguageSection(language: OutputLanguage): string {
+    const rule = LANGUAGE_RULES[language];
+    const exampleNote = language === 'ja' ? '' : `以下の例は日本語ですが、出力は必ず${rule.name}にしてください。`;
+    return `### 【出力言語】${rule.name}
+- JSON のキー以外のテキスト（action・reason・detail・label・notes など）はすべて**${rule.name}**で記述してください。${exampleNote}
+- 画面上のボタン・メニュー・項目名などの UI 表記は翻訳せず、画面に表示されているとおりに引用してください。`;
+}
+
+// 生成スタイルの「手順の細かさ」ごとの抽出間隔（minGapSeconds はプロンプトで指示する最小間隔）
+const DENSITY_RULES: Record<StepDensity, { interval: string; minGapSeconds: number }> = {
+    coarse: { interval: '主要な操作だけに絞り、動画の15〜30秒に1ステップ程度', minGapSeconds: 5 },
+    standard: { interval: '動画の5〜10秒に1ステップ程度', minGapSeconds: 2.5 },
+    fine: { interval: '細かな操作（入力・選択・スクロール等）も省略せず、動画の3〜5秒に1ステップ程度', minGapSeconds: 1.5 },
+};
+
+const WORDING_RULES: Record<WordingStyle, string> = {
+    concise: '修飾を省き、要点だけを短く書いてください。',
+    standard: '',
+    polite: '初めて操作する人にも伝わるよう、操作する場所や対象を省略せず丁寧に書いてください。',
+};
+
+const DETAIL_RULES: Record<DetailLevel, { reason: string; detail: string }> = {
+    brief: { reason: '操作の結果・目的を1文で簡潔に。', detail: '特に補足がなければ省略して構いません。' },
+    standard: { reason: '操作の結果・目的。具体的コンテキスト（画面名など）を補完。', detail: '補足、OCRで読み取った画面要素の解説。' },
+    detailed: {
+        reason: '操作の目的・結果・次に何が起きるかを2〜4文で具体的に。入力値の例やつまずきやすい点があれば含めてください。',
+        detail: '補足、OCRで読み取った画面要素の解説。選択肢の意味や既定値など、読み手が迷いそうな点も詳しく。',
+    },
+};
+
+/** 手順の種類の説明（結果確認ステップを含めない生成スタイルでは操作ステップだけにする） */
+function stepKindSection(includeConfirmations: boolean): string {
+    if (!includeConfirmations) {
+        return `### 手順の種類
+**操作ステップ（操作する直前の画面）だけ**を抽出してください。操作後の画面を確認するだけのステップは作らないでください。
+- 読者が「次に何をすべきか」を理解するためのステップ。
+- 画像は**操作対象（ボタン、メニュー、入力欄など）が画面に表示されている状態**を選ぶ。
+- 操作の結果として画面がどう変わるかは、そのステップの reason に書いてください。
+- action例：「『送信』ボタンをクリックします」
+`;
+    }
+    return `### 手順の種類
+以下の2種類のステップを適切に抽出してください：
+
+**① 操作ステップ（操作する直前の画面）**
+- 読者が「次に何をすべきか」を理解するためのステップ。
+- 画像は**操作対象（ボタン、メニュー、入力欄など）が画面に表示されている状態**を選ぶ。
+- action例：「『送信』ボタンをクリックします」
+
+**② 結果確認ステップ（変化後の画面）**
+- 読者が「操作の結果、画面がこう変わった」と確認するためのステップ。
+- 画像は**画面遷移・ダイアログ表示・設定変更などの結果が安定して表示された状態**を選ぶ。
+- 画面が大きく変わる操作（遷移・保存完了・ダイアログ表示など）には必ず結果確認ステップを含めてください。
+- action例：「設定完了のメッセージが表示されます」
+`;
+}
+
+export interface StepPromptOptions {
+    segment?: SegmentPosition; // 長い動画を区間に分けて渡す場合
+    profile?: PromptProfileSettings; // 生成スタイル（未指定は標準）
+}
+
+/** 長い動画の一部分だけを渡すときの注意（タイムスタンプは渡した動画の先頭を 00:00 とさせ、元動画の時刻にはサーバー側で直す） */
+function segmentSection(segment?: SegmentPosition): string {
+    if (!segment || segment.count <= 1) return '';
+    return `
+### 【長い動画の一部分です】
+この動画は、長い操作記録を${segment.count}区間に分けたうちの${segment.index + 1}番目です。
+- timestamp は、この動画の先頭を 00:00 とした時刻で記述してください。
+- 前後の区間と少し重なっています。動画の最初や最後で操作が途中から始まる・途中で切れる場合も、見えている範囲で手順にしてください。
+- notes はこの区間で読み取れる内容だけにしてください。
+`;
+}
+
+/** 動画から手順（steps）と注意事項（notes）を抽出させるプロンプト（/api/analysis-jobs の解析ジョブ） */
+export function buildStepExtractionPrompt(rawLanguage?: unknown, options: StepPromptOptions = {}): string {
+    const language = normalizeOutputLanguage(rawLanguage);
+    const rule = LANGUAGE_RULES[language];
+    const { segment } = options;
+    const profile = normalizePromptProfileSettings(options.profile);
+    const density = DENSITY_RULES[profile.density];
+    const detail = DETAIL_RULES[profile.detail];
+    return `
+あなたはプロフェッショナルなマニュアル作成エンジニアです。
+提供された動画を分析し、以下の厳格なルールで手順書を生成してください。
+
+${outputLanguageSection(language)}
+${segmentSection(segment)}
+### 【CORE: OCR最優先・具体的要素名】
+画面上のボタン、メニュー、ラベル、入力フィールド、ウィンドウタイトル等に記載されている「テキスト」を正確に読み取り、actionに最優先で反映させてください。
+- ❌ 「ボタンをクリックします」などの抽象的な表現は禁止。
+- ✅ 「『保存して次へ』ボタンをクリックします」「『検索』フィールドに値を入力します」のように、UI上の具体的な名称を必ず含めてください。
+- 画面のタイトルバーやタブの名称から、現在のコンテキスト（例：「顧客情報編集画面」「基本設定メニュー」など）を特定し、reasonやlabelに含めて補完してください。
+
+${stepKindSection(profile.includeConfirmations)}
+### 抽出・出力仕様
+- **kind**: ${profile.includeConfirmations ? '①操作ステップは "operation"、②結果確認ステップは "confirmation"' : 'すべて "operation"'}。
+- **action**: 操作内容（具体的名称を含め、${rule.actionLength[profile.wording]}程度）。${rule.sentenceStyle}。${WORDING_RULES[profile.wording]}
+- **reason**: ${detail.reason}
+- **detail**: ${detail.detail}
+- **密度目安**: ${density.interval}。情報の重複を避け、1つの操作に対して1つの代表的なフレームを厳選してください。
+
+### 注意事項（notes）
+動画全体を通して、作業者が気をつけるべき点を notes に2〜5件程度まとめてください。
+- 例：「保存前に入力内容を必ず確認してください」「この操作は取り消せません」
+- 動画から読み取れない一般論や推測は書かないでください。該当がなければ空配列にしてください。
+
+以下の形式のJSONオブジェクトで返してください：
+{
+  "steps": [
+    { "timestamp": "MM:SS", "kind": "operation または confirmation", "action": "操作・作業の説明", "box_2d": [ymin, xmin, ymax, xmax], "label": "対象要素の名前", "reason": "挙動・結果・理由" }
+  ],
+  "notes": ["注意事項1", "注意事項2"]
+}
+
+## タイムスタンプ選定ルール（最重要）
+1. **操作ステップ** → 操作直前の、対象が見えている瞬間。
+2. **結果確認ステップ** → 変化が完全に完了し安定した瞬間。アニメ途中は禁止。
+3. **絶対に禁止：** アニメーション途中、スピナー、ボケたフレーム。
+4. **【必須】各ステップのtimestampは必ず異なる値にし、動画全体に分散させること。**
+5. ステップ間のtimestampは最低${density.minGapSeconds}秒以上の間隔を空けてください。
+6. 同じ画面状態や微妙なアニメーション違いで複数のステップを作らないでください。
+
+box_2d は 0-1000 の範囲に正規化してください。
+`;
+}
+
+/** 使えなかった応答の理由を添えて、手順を出し直させるプロンプト（解析ジョブの自動再試行） */
+export function buildStepRepairPrompt(rawLanguage: unknown, problem: string, options: StepPromptOptions = {}): string {
+    return `${buildStepExtractionPrompt(rawLanguage, options)}
+### 【再出力のお願い】
+前回の応答は次の理由で使えませんでした。
+${problem}
+
+- 説明文やコードブロック（\`\`\`）を付けず、上記の形式の JSON オブジェクトだけを返してください。
+- すべての手順に "timestamp"（"MM:SS"）と、空でない文字列の "action" を必ず含めてください。
+- box_2d は 0-1000 の整数4つ [ymin, xmin, ymax, xmax] にしてください。
+- 手順が多い場合も途中で出力を切らず、最後の "]" と "}" まで必ず閉じてください。
+`;
+}
+
+/** 動画からタイトル・概要・手順をまとめて抽出させるプロンプト（/api/generate-manual） */
+export function buildManualOutlinePrompt(rawLanguage?: unknown): string {
+    const language = normalizeOutputLanguage(rawLanguage);
+    const { name } = LANGUAGE_RULES[language];
+    return `
+あなたは動画分析の専門家です。この動画（PC操作、料理、機器の組み立て、作業手順など）を分析し、各主要なステップのタイムスタンプと内容を抽出してください。
+
+**重要**:
+1. 座標は不要です。
+2. **出力する全てのテキスト（タイトル、概要、アクション、詳細）は必ず「${name}」で記述してください。**
+
+${outputLanguageSection(language)}
+
+出力形式（JSON）:
+{
+  "title": "マニュアルのタイトル（${name}）",
+  "overview": "作業の概要（${name}。詳細な内容のみとし、「AIが自動生成した」等の定型文は含めないでください）",
+  "steps": [
+    {
+      "stepNumber": 1,
+      "action": "アクションの要約（${name}。例: 「野菜を切る」「ボタンをクリック」）",
+      "detail": "詳細な説明（${name}）",
+      "timestamp": "0:15"
+    }
+  ],
+  "notes": ["安全上の注意やコツ（${name}）"]
+}
+`;
+}
+
+/** 静止画から操作対象の座標を検出させるプロンプト（/api/detect-coordinates）。label は出力言語で返させる */
+export function buildCoordinatePrompt(rawLanguage: unknown, action?: string, keyword?: string): string {
+    const { name } = LANGUAGE_RULES[normalizeOutputLanguage(rawLanguage)];
+    if (!action) {
+        return `
+この画像内で、ユーザーが操作した箇所（クリックした場所、入力フィールドなど）を検出してください。
+
+**The box_2d should be [ymin, xmin, ymax, xmax] normalized to 0-1000.**
+
+出力形式（JSON）:
+{
+  "box_2d": [ymin, xmin, ymax, xmax],
+  "label": "UI要素名（${name}で。画面上の表記はそのまま引用。例: ボタン、リンク、入力フィールド）"
+}
+`;
+    }
+
+    return `Find the UI element in this image that contains or displays: "${keyword || action}"
+
+This element is the target for the action: "${action}"
+
+Return the bounding box in box_2d format: [ymin, xmin, ymax, xmax]
+Coordinates MUST be normalized to 0-1000 scale.
+
+CRITICAL INSTRUCTIONS:
+1. Find the clickable element that contains "${keyword || action}" text
+2. Include a small padding around the element (about 5-10 units on each side)
+3. The box should be slightly LARGER than the text itself to include the full clickable area
+4. If it's a button or link, include the entire button/link area, not just the text
+5. ymin = top edge, ymax = bottom edge, xmin = left edge, xmax = right edge
+
+Output as JSON:
+{
+  "box_2d": [ymin, xmin, ymax, xmax],
+  "label": "detected element text"
+}
+`;
+}
+
+/** タイトル・概要づけの入力（動画1本＝1セクション） */
+export interface ManualSummarySection {
+    id: string;
+    name: string; // 元動画のファイル名
+    steps: Array<{ action: string; detail: string }>;
+}
+
+/**
+ * 抽出済みの全手順からタイトル・概要・注意事項を作らせるプロンプト（/api/summarize-manual）。
+ * 複数セクションのときは各セクションの見出しも付けさせる。notes は動画ごとの解析で出た注意事項（統合の材料）。
+ */
+export function buildManualSummaryPrompt(rawLanguage: unknown, sections: ManualSummarySection[], notes: string[]): string {
+    const language = normalizeOutputLanguage(rawLanguage);
+    const { name } = LANGUAGE_RULES[language];
+    const multiple = sections.length > 1;
+    const stepList = sections.map((section, i) => {
+        const heading = multiple ? `#### セクション ${i + 1}（id: ${section.id}、元動画: ${section.name}）\n` : '';
+        const steps = section.steps
+            .map((step, n) => `${n + 1}. ${step.action}${step.detail ? ` — ${step.detail}` : ''}`)
+            .join('\n');
+        return heading + steps;
+    }).join('\n\n');
+
+    return `
+あなたは業務マニュアルの編集者です。
+以下は操作動画から抽出した作業マニュアルの手順です。手順全体を読み、マニュアルの表紙と冒頭に載せるタイトル・概要・注意事項を作成してください。
+
+${outputLanguageSection(language)}
+
+### 手順
+${stepList}
+
+### 動画の解析で挙がった注意事項（重複や言い換えを含む）
+${notes.length > 0 ? notes.map(note => `- ${note}`).join('\n') : '（なし）'}
+
+### ルール
+- title は、何をするためのマニュアルかが一目で分かる名詞句にしてください（例:「経費精算の申請手順」）。ファイル名や「マニュアル」「動画」だけのタイトルにしないでください。
+- overview は、作業の目的・対象・完了時の状態を2〜3文で書いてください。「AIが自動生成した」等の定型文は含めないでください。
+- notes は、作業全体を通しての注意点・前提条件・コツを最大5件にまとめてください。上の注意事項は重複を除いて統合し、手順から読み取れないことは書かないでください。無ければ空配列にしてください。${multiple ? `
+- sections には、各セクションの内容を表す短い見出し（15文字程度、英語などは5語程度）を、入力の id をキーにして付けてください。` : ''}
+
+### 出力形式（JSON）
+{
+  "title": "マニュアルのタイトル",
+  "overview": "作業の概要",
+  "notes": ["注意事項"]${multiple ? `,
+  "sections": { "<セクションの id>": "セクションの見出し" }` : ''}
+}
+`;
+}
+
+/** 1ステップの書き直しで AI に渡す前後の文脈 */
+export interface StepRewriteContext {
+    title: string; // マニュアルのタイトル
+    action: string;
+    detail: string;
+    label?: string;
+    previous?: { action: string; detail: string };
+    next?: { action: string; detail: string };
+}
+
+/** 1ステップの本文を画面の静止画から書き直させるプロンプト（/api/rewrite-step） */
+export function buildStepRewritePrompt(rawLanguage: unknown, context: StepRewriteContext): string {
+    const language = normalizeOutputLanguage(rawLanguage);
+    const rule = LANGUAGE_RULES[language];
+    const neighbor = (step?: { action: string; detail: string }) =>
+        step ? `${step.action}${step.detail ? `（${step.detail}）` : ''}` : '（なし）';
+    return `
+あなたは業務マニュアルの編集者です。
+「${context.title}」というマニュアルの1ステップについて、添付した画面の静止画をもとに本文を書き直してください。
+今の本文はあいまい、または誤っている可能性があります。画面に写っている内容を正として、操作対象と操作内容がはっきり分かる文にしてください。
+
+${outputLanguageSection(language)}
+
+### 前後のステップ（流れを合わせるための参考。書き直すのは「対象のステップ」だけ）
+- 直前: ${neighbor(context.previous)}
+- 直後: ${neighbor(context.next)}
+
+### 対象のステップ（現在の本文）
+- action: ${context.action || '（空）'}
+- detail: ${context.detail || '（空）'}
+- label: ${context.label || '（なし）'}
+
+### ルール
+- action は${rule.sentenceStyle}し、${rule.actionLength.standard}程度にしてください。
+- detail は action の補足（どの場所にあるか・何のための操作か）を1〜2文で書いてください。不要なら空文字にしてください。
+- label は操作対象の UI 要素名です。画面上の表記をそのまま引用してください。
+- 前後のステップと同じ操作を書かないでください。画面から判断できないことは推測で書かないでください。
+
+### 出力形式（JSON）
+{
+  "action": "書き直した操作",
+  "detail": "書き直した補足説明",
+  "label": "操作対象の UI 要素名"
+}
+`;
+}
+
+/** 承認済みマニュアルの本文を別の言語へ翻訳させるプロンプト（/api/translate-manual） */
+export function buildTranslationPrompt(rawLanguage: unknown, texts: Record<string, string>): string {
+    const { name } = LANGUAGE_RULES[normalizeOutputLanguage(rawLanguage)];
+    return `
+あなたは業務マニュアル専門の翻訳者です。
+以下の JSON は作業マニュアルの本文です。各値を**${name}**へ翻訳してください。
+
+### ルール
+- キーは変更・追加・削除せず、入力と同じキーの JSON オブジェクトだけを返してください。
+- 「title」はマニュアルのタイトル、「overview」は概要、「note:」は注意事項、「section:」はセクション名、
+  「step:…:action」は手順の操作（短い命令文）、「step:…:detail」は補足説明、「annotation:」は画像に書き込まれた注釈です。
+- 画面上のボタン・メニュー・項目名などの UI 表記（「」『』"" で囲まれた語）は翻訳せず、そのまま残してください。
+- 数値・記号・改行・URL はそのまま残してください。すでに${name}の値はそのまま返してください。
+- 注釈（annotation:）は画像内に収まるよう、原文と同程度の短さにしてください。
+
+### 入力
+${JSON.stringify(texts, null, 2)}
+
+### 出力形式（JSON）
+{ "<入力と同じキー>": "<翻訳結果>" }
+`;
+}
@@ -0,0 +1,104 @@
+import { createGeminiProvider } from '@/utils/ai/geminiProvider';
+import { createOpenAICompatibleProvider } from '@/utils/ai/openaiCompatibleProvider';
+
+/**
+ * AI プロバイダーの共通インターフェース（サーバー側専用）。
+ *
+ * API ルートは Gemini / OpenAI 互換サーバーの違いを意識せず、ここの getAIProvider() 経由で
+ * 動画のアップロード・動画解析・画像解析・テキスト生成を行う。
+ * どのプロバイダーを使うかは環境変数 AI_PROVIDER で切り替える（既定は gemini）。
+ */
+
+export type AIProviderName = 'gemini' | 'openai-compatible';
+
+/** プロバイダーに渡した動画の参照（Gemini はアップロード済みファイル、OpenAI 互換はリクエストに埋め込むデータ） */
+export interface UploadedVideo {
+    mimeType: string;
+    displayName: string;
+    uri?: string;
+    remoteName?: string;
+    data?: Buffer;
+}
+
+export interface GenerationOptions {
+    json?: boolean; // JSON で応答させる（対応していないサーバーではプロンプトの指示だけに頼る）
+    temperature?: number;
+    signal?: AbortSignal; // 解析ジョブのキャンセル
+}
+
+/** 動画アップロード中の進捗（Gemini のみ。リクエストに埋め込んで送るプロバイダーは通知しない） */
+export type UploadProgress =
+    | { stage: 'upload'; sentBytes: number; totalBytes: number }
+    | { stage: 'processing'; polls: number; state: string }; // サーバー側の動画変換待ち（ポーリング回数）
+
+export interface UploadOptions {
+    onProgress?: (progress: UploadProgress) => void;
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    readonly name: AIProviderName;
+    readonly model: string;
+    uploadVideo(data: Buffer, mimeType: string, displayName: string, options?: UploadOptions): Promise<UploadedVideo>;
+    /** アップロードした動画を後片付けする（失敗しても解析結果には影響させない） */
+    deleteVideo(video: UploadedVideo): Promise<void>;
+    analyzeVideo(video: UploadedVideo, prompt: string, options?: GenerationOptions): Promise<string>;
+    analyzeImage(imageBase64: string, mimeType: string, prompt: string, options?: GenerationOptions): Promise<string>;
+    completeText(prompt: string, options?: GenerationOptions): Promise<string>;
+}
+
+declare global {
+    var _aiProvider: AIProvider | undefined;
+}
+
+/** 環境変数から設定したプロバイダーを返す（設定不足は日本語のエラーメッセージで throw する） */
+export function getAIProvider(): AIProvider {
+    if (globalThis._aiProvider) return globalThis._aiProvider;
+
+    const name = (process.env.AI_PROVIDER || 'gemini').trim().toLowerCase();
+    let provider: AIProvider;
+    if (name === 'gemini') {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) throw new Error('GEMINI_API_KEY が設定されていません。.env.local ファイルを確認してください。');
+        provider = createGeminiProvider({
+            apiKey,
+            model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+            baseUrl: process.env.GEMINI_BASE_URL,
+        });
+    } else if (name === 'openai-compatible' || name === 'openai') {
+        const baseUrl = process.env.OPENAI_COMPAT_BASE_URL;
+        const model = process.env.OPENAI_COMPAT_MODEL;
+        if (!baseUrl || !model) {
+            throw new Error('OPENAI_COMPAT_BASE_URL と OPENAI_COMPAT_MODEL を設定してください。.env.local ファイルを確認してください。');
+        }
+        provider = createOpenAICompatibleProvider({ baseUrl, model, apiKey: process.env.OPENAI_COMPAT_API_KEY });
+    } else {
+        throw new Error(`AI_PROVIDER「${name}」には対応していません（gemini または openai-compatible を指定してください）。`);
+    }
+
+    console.log(`[ai] Using provider: ${provider.name} (${provider.model})`);
+    globalThis._aiProvider = provider;
+    return provider;
+}
+
+/** レート制限（429）によるエラーか（プロバイダーはステータスコードをメッセージに含めて throw する） */
+export function isRateLimitError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.includes('429') || message.includes('RESOURCE_EXHAUSTED');
+}
+
+/** 応答テキストを JSON として読む（```json で囲まれた応答や前後の説明文も許容する） */
+export function parseAIJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        try {
+            return JSON.parse(cleaned);
+        } catch {
+            const match = cleaned.match(/[\[{][\s\S]*[\]}]/);
+            if (!match) throw new Error('AIの応答からJSONを読み取れませんでした。');
+            return JSON.parse(match[0]);
+        }
+    }
+}
@@ -0,0 +1,208 @@
+import { StepKind } from '@/app/page';
+import { normalizeStepKind } from '@/utils/stepKind';
+import { formatTimestamp, parseTimestamp } from '@/utils/videoProcessor';
+
+/**
+ * 動画解析の AI 応答（steps / notes）のスキーマと検証。
+ *
+ * AI の応答は途中で切れたり、範囲外の座標・欠けたタイムスタンプ・文字列でない action を含むことがあるため、
+ * そのまま画面へ渡さずにここで1件ずつ検証し、直せる値は丸め・既定値で補い、使えない手順だけを落とす。
+ * ブラウザからも型を参照するので、Node 専用の API は使わない。
+ */
+
+export type Box2D = [number, number, number, number]; // [ymin, xmin, ymax, xmax]（0〜1000）
+
+/** 検証済みの1手順（ManualStep に変換する前の形） */
+export interface AnalyzedStep {
+    timestamp: string; // "m:ss.s"（utils/videoProcessor.ts の formatTimestamp）
+    kind: StepKind;
+    action: string;
+    reason?: string;
+    detail?: string;
+    box_2d?: Box2D;
+    label?: string;
+}
+
+export interface StepOutputIssue {
+    path: string; // 例: "steps[3].box_2d"
+    message: string;
+}
+
+export interface StepOutputValidation {
+    steps: AnalyzedStep[];
+    notes: string[];
+    issues: StepOutputIssue[];
+    droppedSteps: number; // 使えずに落とした手順の数
+}
+
+const BOX_SCALE = 1000;
+const RE_TIMESTAMP = /^\d{1,3}(:\d{1,2}(\.\d+)?){1,2}$/;
+const RE_SECONDS = /^(\d+(\.\d+)?)\s*(s|sec|秒)?$/i;
+
+const optionalText = (value: unknown): string | undefined => {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+};
+
+/** "1:23" / "01:02:03" / 83 / "83s" を受け付けて "m:ss.s" に揃える（読めなければ null） */
+function normalizeTimestamp(value: unknown): string | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? formatTimestamp(value) : null;
+    }
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    if (RE_TIMESTAMP.test(trimmed)) return formatTimestamp(parseTimestamp(trimmed));
+    const seconds = trimmed.match(RE_SECONDS);
+    return seconds ? formatTimestamp(Number(seconds[1])) : null;
+}
+
+/** 座標を 0〜1000 に収める。0〜1 の比率で返ってきた場合は 1000 倍し、上下・左右が逆なら入れ替える */
+function normalizeBox(value: unknown, path: string, issues: StepOutputIssue[]): Box2D | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.length !== 4 || !value.every(v => Number.isFinite(Number(v)))) {
+        issues.push({ path, message: '4つの数値ではないため座標を破棄しました' });
+        return undefined;
+    }
+    let nums = value.map(Number);
+    if (nums.every(v => v >= 0 && v <= 1) && nums.some(v => v > 0)) {
+        nums = nums.map(v => v * BOX_SCALE);
+        issues.push({ path, message: '0〜1 の比率を 0〜1000 に換算しました' });
+    }
+    if (nums.some(v => v < 0 || v > BOX_SCALE)) {
+        nums = nums.map(v => Math.min(BOX_SCALE, Math.max(0, v)));
+        issues.push({ path, message: '範囲外の座標を 0〜1000 に丸めました' });
+    }
+    let [ymin, xmin, ymax, xmax] = nums.map(Math.round);
+    if (ymin > ymax) [ymin, ymax] = [ymax, ymin];
+    if (xmin > xmax) [xmin, xmax] = [xmax, xmin];
+    if (ymin === ymax || xmin === xmax) {
+        issues.push({ path, message: '面積が 0 のため座標を破棄しました' });
+        return undefined;
+    }
+    return [ymin, xmin, ymax, xmax];
+}
+
+function validateStep(raw: unknown, path: string, issues: StepOutputIssue[]): AnalyzedStep | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        issues.push({ path, message: 'オブジェクトではないため破棄しました' });
+        return null;
+    }
+    const step = raw as Record<string, unknown>;
+
+    const timestamp = normalizeTimestamp(step.timestamp);
+    if (!timestamp) {
+        // 画像を切り出せないので手順として使えない
+        issues.push({ path: `${path}.timestamp`, message: `タイムスタンプを読み取れないため破棄しました: ${JSON.stringify(step.timestamp)}` });
+        return null;
+    }
+
+    const reason = optionalText(step.reason);
+    const detail = optionalText(step.detail);
+    const label = optionalText(step.label);
+    let action = optionalText(step.action);
+    if (!action) {
+        action = reason ?? detail ?? label;
+        if (!action) {
+            issues.push({ path: `${path}.action`, message: '操作内容が空のため破棄しました' });
+            return null;
+        }
+        issues.push({ path: `${path}.action`, message: '操作内容が空のため、説明文で補いました' });
+    }
+
+    if (step.kind !== undefined && step.kind !== 'operation' && step.kind !== 'confirmation') {
+        issues.push({ path: `${path}.kind`, message: `不明な種類のため操作ステップとして扱います: ${JSON.stringify(step.kind)}` });
+    }
+
+    const result: AnalyzedStep = { timestamp, kind: normalizeStepKind(step.kind), action };
+    if (reason) result.reason = reason;
+    if (detail) result.detail = detail;
+    if (label) result.label = label;
+    const box = normalizeBox(step.box_2d, `${path}.box_2d`, issues);
+    if (box) result.box_2d = box;
+    return result;
+}
+
+/**
+ * 解析済みの JSON（{ steps, notes } または旧形式の手順配列）を検証する。
+ * 手順は動画内の時刻順に並べ直す。
+ */
+export function validateStepOutput(parsed: unknown): StepOutputValidation {
+    const issues: StepOutputIssue[] = [];
+    const container = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+    // 旧形式（ステップ配列のみ）の応答も受け付ける
+    const rawSteps: unknown[] = Array.isArray(parsed) ? parsed : (Array.isArray(container.steps) ? container.steps : []);
+    if (!Array.isArray(parsed) && !Array.isArray(container.steps)) {
+        issues.push({ path: 'steps', message: '手順の配列がありません' });
+    }
+
+    const steps = rawSteps
+        .map((raw, index) => validateStep(raw, `steps[${index}]`, issues))
+        .filter((step): step is AnalyzedStep => step !== null)
+        .sort((a, b) => parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp));
+
+    const notes = Array.isArray(container.notes)
+        ? container.notes.map(optionalText).filter((note): note is string => note !== undefined)
+        : [];
+
+    return { steps, notes, issues, droppedSteps: rawSteps.length - steps.length };
+}
+
+/**
+ * 途中で切れた JSON から、最後まで閉じている要素だけを取り出す。
+ * { "steps": [ {...}, {...}, {"timesta…  のような応答でも、閉じている手順と notes を拾う。
+ * 何も拾えなければ null。
+ */
+export function recoverTruncatedStepOutput(text: string): { steps: unknown[]; notes: unknown[] } | null {
+    const stepsKey = text.search(/"steps"\s*:\s*\[/);
+    const stepsStart = stepsKey >= 0 ? text.indexOf('[', stepsKey) : text.indexOf('[');
+    if (stepsStart < 0) return null;
+
+    const steps = recoverArrayElements(text, stepsStart);
+    const notesKey = text.search(/"notes"\s*:\s*\[/);
+    const notes = notesKey >= 0 ? recoverArrayElements(text, text.indexOf('[', notesKey)) : [];
+    return steps.length > 0 ? { steps, notes } : null;
+}
+
+/** start の '[' から読み、閉じている要素だけを返す（文字列内の括弧・エスケープは数えない） */
+function recoverArrayElements(text: string, start: number): unknown[] {
+    const elements: unknown[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let elementStart = -1;
+
+    for (let i = start + 1; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') {
+                inString = false;
+                if (depth === 0) pushElement(text.slice(elementStart, i + 1)); // 文字列の要素（notes）
+            }
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+            if (depth === 0) elementStart = i;
+        } else if (ch === '{' || ch === '[') {
+            if (depth === 0) elementStart = i;
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            if (depth === 0) break; // 配列の終わり
+            depth--;
+            if (depth === 0) pushElement(text.slice(elementStart, i + 1));
+        }
+    }
+    return elements;
+
+    function pushElement(json: string) {
+        try {
+            elements.push(JSON.parse(json));
+        } catch {
+            // 閉じていても壊れている要素は飛ばす
+        }
+    }
+}
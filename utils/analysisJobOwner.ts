@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * 解析ジョブの持ち主（ブラウザ単位）の識別（サーバー側専用）。
+ *
+ * アプリは LAN にも公開されるため（スマホからのアップロード）、ジョブを登録したブラウザにだけ
+ * 一覧・進捗・結果・取り消しを許す。識別子は初回の登録時に発行して HttpOnly の Cookie に入れる。
+ */
+
+const OWNER_COOKIE = 'am_analysis_client';
+const OWNER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+// crypto.randomUUID() の形式だけを受け付ける（Cookie の値をそのままファイルに書くため）
+const RE_OWNER_ID = /^[0-9a-f-]{36}$/;
+
+/** リクエストの持ち主ID（Cookie が無い・不正なら undefined） */
+export function readJobOwner(request: NextRequest): string | undefined {
+    const value = request.cookies.get(OWNER_COOKIE)?.value;
+    return value && RE_OWNER_ID.test(value) ? value : undefined;
+}
+
+/** 持ち主IDを返す。まだ無ければ新しく発行する（isNew のときはレスポンスで Cookie を設定すること） */
+export function ensureJobOwner(request: NextRequest): { ownerId: string; isNew: boolean } {
+    const ownerId = readJobOwner(request);
+    return ownerId ? { ownerId, isNew: false } : { ownerId: crypto.randomUUID(), isNew: true };
+}
+
+export function setJobOwnerCookie(response: NextResponse, ownerId: string): NextResponse {
+    response.cookies.set(OWNER_COOKIE, ownerId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        path: '/',
+        maxAge: OWNER_COOKIE_MAX_AGE,
+    });
+    return response;
+}
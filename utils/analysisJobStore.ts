@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getAIProvider } from '@/utils/ai/provider';
+import { analyzeVideoWithProvider, describeAnalysisError, log, VideoInput } from '@/utils/ai/analyzeVideo';
+import { AnalysisJob, AnalysisJobSummary, AnalysisStreamEvent, isFinishedJobStatus } from '@/utils/analysisStream';
+
+/**
+ * 動画解析ジョブのストア（サーバー側専用）。
+ *
+ * 解析はリクエストから切り離して実行し、状態と結果を JSON ファイルに保存する。
+ * ブラウザを閉じても解析は続き、再読み込み後にジョブIDで進捗の購読・結果の取得ができる。
+ * 動画本体は実行が終わるまでメモリ上にだけ持つため、サーバーが再起動すると実行中のジョブは失敗扱いになる。
+ * ジョブは登録したブラウザ（utils/analysisJobOwner.ts）のものとして扱い、ほかのブラウザからは見えない。
+ */
+
+type JobListener = (event: AnalysisStreamEvent) => void;
+
+interface JobEntry {
+    job: AnalysisJob;
+    ownerId?: string; // 登録したブラウザ（持ち主の分からない古いジョブは誰からも見えない）
+    listeners: Set<JobListener>;
+    input?: VideoInput; // 実行が終わるまでの動画
+    abort?: AbortController;
+}
+
+interface JobStore {
+    entries: Map<string, JobEntry>;
+    loaded?: Promise<void>;
+}
+
+declare global {
+    var _analysisJobStore: JobStore | undefined;
+}
+
+// globalThis を使って HMR をまたいでストアを保持する
+const store: JobStore =
+    globalThis._analysisJobStore ??
+    (globalThis._analysisJobStore = { entries: new Map<string, JobEntry>() });
+
+const JOBS_DIR = process.env.ANALYSIS_JOBS_DIR || path.join(process.cwd(), '.analysis-jobs');
+const MAX_CONCURRENT_JOBS = Math.max(1, Number(process.env.ANALYSIS_MAX_CONCURRENT_JOBS) || 2);
+const FINISHED_JOB_TTL = 24 * 60 * 60 * 1000; // 終わったジョブは1日で片付ける
+
+const jobPath = (id: string) => path.join(JOBS_DIR, `${id}.json`);
+
+// 保存ファイルの形式（持ち主はクライアントへ返すジョブには含めない）
+type PersistedJob = AnalysisJob & { ownerId?: string };
+
+async function persist(job: AnalysisJob): Promise<void> {
+    const entry = store.entries.get(job.id);
+    if (!entry) return; // 削除済み（キャンセル直後など）
+    try {
+        await fs.mkdir(JOBS_DIR, { recursive: true });
+        const persisted: PersistedJob = { ...job, ownerId: entry.ownerId };
+        await fs.writeFile(jobPath(job.id), JSON.stringify(persisted));
+    } catch (e) {
+        console.warn(`[analysisJobs] Failed to persist job ${job.id}:`, e);
+    }
+}
+
+async function removeFile(id: string): Promise<void> {
+    await fs.unlink(jobPath(id)).catch(() => { });
+}
+
+/** 保存済みのジョブを読み込む。前回のプロセスで実行中だったものは続きができないので失敗にする */
+async function loadPersistedJobs(): Promise<void> {
+    let files: string[];
+    try {
+        files = await fs.readdir(JOBS_DIR);
+    } catch {
+        return; // まだ1件も保存していない
+    }
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+        try {
+            const { ownerId, ...job }: PersistedJob = JSON.parse(await fs.readFile(path.join(JOBS_DIR, file), 'utf8'));
+            if (store.entries.has(job.id)) continue;
+            store.entries.set(job.id, { job, ownerId, listeners: new Set() });
+            if (!isFinishedJobStatus(job.status)) {
+                job.status = 'failed';
+                job.error = { message: 'サーバーが再起動したため解析が中断されました。もう一度お試しください。', status: 503 };
+                job.progress = undefined;
+                job.updatedAt = Date.now();
+                await persist(job);
+            }
+        } catch (e) {
+            console.warn(`[analysisJobs] Skipping unreadable job file ${file}:`, e);
+        }
+    }
+}
+
+function ensureLoaded(): Promise<void> {
+    return store.loaded ?? (store.loaded = loadPersistedJobs());
+}
+
+function emit(entry: JobEntry, event: AnalysisStreamEvent) {
+    entry.listeners.forEach(listener => {
+        try {
+            listener(event);
+        } catch (e) {
+            console.warn('[analysisJobs] Listener failed:', e);
+        }
+    });
+}
+
+function cleanupExpiredJobs() {
+    const now = Date.now();
+    for (const [id, entry] of Array.from(store.entries.entries())) {
+        if (isFinishedJobStatus(entry.job.status) && now - entry.job.updatedAt > FINISHED_JOB_TTL) {
+            store.entries.delete(id);
+            removeFile(id);
+        }
+    }
+}
+
+function toSummary(job: AnalysisJob): AnalysisJobSummary {
+    const { result, ...rest } = job;
+    return { ...rest, stepCount: result?.steps.length };
+}
+
+async function runJob(entry: JobEntry): Promise<void> {
+    const { job } = entry;
+    const abort = new AbortController();
+    entry.abort = abort;
+    job.status = 'running';
+    job.progress = undefined;
+    job.updatedAt = Date.now();
+    await persist(job);
+
+    try {
+        const provider = getAIProvider();
+        await log(`Analysis job ${job.id} started: ${job.fileName} (${provider.name}: ${provider.model}, language: ${job.language})`);
+        const result = await analyzeVideoWithProvider(provider, entry.input!, {
+            signal: abort.signal,
+            onProgress: event => {
+                if (job.status !== 'running') return;
+                job.progress = event;
+                job.updatedAt = Date.now();
+                emit(entry, event);
+            },
+        });
+        if (job.status !== 'running') return; // 実行中にキャンセルされた
+
+        job.status = 'completed';
+        job.result = result;
+        job.progress = undefined;
+        job.updatedAt = Date.now();
+        await persist(job);
+        await log(`Analysis job ${job.id} completed: ${result.steps.length} steps`);
+        emit(entry, { type: 'result', ...result });
+    } catch (error) {
+        if (job.status !== 'running') return;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorStack = error instanceof Error ? error.stack : '';
+        await log(`Analysis job ${job.id} failed: ${errorMessage}\nStack: ${errorStack}`);
+
+        job.status = 'failed';
+        job.error = describeAnalysisError(error);
+        job.progress = undefined;
+        job.updatedAt = Date.now();
+        await persist(job);
+        emit(entry, { type: 'error', ...job.error });
+    } finally {
+        entry.input = undefined;
+        entry.abort = undefined;
+        pump();
+    }
+}
+
+/** 同時実行数の上限まで、待機中のジョブを古い順に開始する */
+function pump() {
+    const entries = Array.from(store.entries.values());
+    let running = entries.filter(e => e.job.status === 'running').length;
+    const queued = entries
+        .filter(e => e.job.status === 'queued')
+        .sort((a, b) => a.job.createdAt - b.job.createdAt);
+
+    let position = 0;
+    for (const entry of queued) {
+        if (running < MAX_CONCURRENT_JOBS) {
+            running++;
+            runJob(entry);
+            continue;
+        }
+        position++;
+        entry.job.progress = { type: 'queued', position };
+        emit(entry, entry.job.progress);
+    }
+}
+
+/** 一覧の表示や結果の取り込みに使う、解析そのものには関係しない情報 */
+export interface AnalysisJobMeta {
+    profileName?: string;
+    sourceVideoId?: string;
+}
+
+/** 解析ジョブを登録する（すぐに、または前のジョブが終わり次第、バックグラウンドで実行される） */
+export async function createAnalysisJob(input: VideoInput, ownerId: string, meta: AnalysisJobMeta = {}): Promise<AnalysisJob> {
+    await ensureLoaded();
+    cleanupExpiredJobs();
+
+    const now = Date.now();
+    const job: AnalysisJob = {
+        id: crypto.randomUUID(),
+        status: 'queued',
+        fileName: input.fileName,
+        fileSize: input.segments.reduce((sum, segment) => sum + segment.buffer.length, 0),
+        language: input.language,
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (input.segments.length > 1) job.segmentCount = input.segments.length;
+    if (meta.profileName) job.profileName = meta.profileName;
+    if (meta.sourceVideoId) job.sourceVideoId = meta.sourceVideoId;
+    store.entries.set(job.id, { job, ownerId, listeners: new Set(), input });
+    await persist(job);
+    pump();
+    return job;
+}
+
+/** 持ち主のジョブを他人から見えないようにする（ownerId が無いリクエストには何も見せない） */
+function ownedEntry(id: string, ownerId: string | undefined): JobEntry | undefined {
+    const entry = store.entries.get(id);
+    return entry && ownerId && entry.ownerId === ownerId ? entry : undefined;
+}
+
+/** 持ち主のジョブの新しい順の一覧（結果は含めない） */
+export async function listAnalysisJobs(ownerId: string | undefined): Promise<AnalysisJobSummary[]> {
+    await ensureLoaded();
+    cleanupExpiredJobs();
+    if (!ownerId) return [];
+    return Array.from(store.entries.values())
+        .filter(entry => entry.ownerId === ownerId)
+        .map(entry => toSummary(entry.job))
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getAnalysisJob(id: string, ownerId: string | undefined): Promise<AnalysisJob | null> {
+    await ensureLoaded();
+    return ownedEntry(id, ownerId)?.job ?? null;
+}
+
+/**
+ * ジョブのイベントを購読する（購読解除の関数を返す。ジョブが無ければ null）。
+ * 終わったジョブでも購読はできるが、以降のイベントは来ないので呼び出し側で job.status を見て閉じること。
+ */
+export async function subscribeAnalysisJob(id: string, ownerId: string | undefined, listener: JobListener): Promise<(() => void) | null> {
+    await ensureLoaded();
+    const entry = ownedEntry(id, ownerId);
+    if (!entry) return null;
+    entry.listeners.add(listener);
+    return () => { entry.listeners.delete(listener); };
+}
+
+/** 待機中・実行中のジョブを止め、一覧から削除する（終わったジョブは削除だけ） */
+export async function deleteAnalysisJob(id: string, ownerId: string | undefined): Promise<boolean> {
+    await ensureLoaded();
+    const entry = ownedEntry(id, ownerId);
+    if (!entry) return false;
+
+    if (!isFinishedJobStatus(entry.job.status)) {
+        entry.job.status = 'cancelled';
+        entry.job.progress = undefined;
+        entry.job.updatedAt = Date.now();
+        entry.abort?.abort();
+        entry.input = undefined;
+        await log(`Analysis job ${id} cancelled`);
+        emit(entry, { type: 'cancelled' });
+    }
+
+    store.entries.delete(id);
+    entry.listeners.clear();
+    await removeFile(id);
+    pump();
+    return true;
+}
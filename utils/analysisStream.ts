@@ -0,0 +1,115 @@
+import { OutputLanguage } from '@/app/page';
+import { AnalyzedStep } from '@/utils/ai/stepSchema';
+
+/**
+ * 動画解析ジョブ（/api/analysis-jobs）の型と、進捗ストリーム（Server-Sent Events）の読み書き。
+ * サーバー（ジョブストア・ルート）とブラウザ（utils/videoAnalysis.ts）の両方から使うため、Node 専用の API は使わない。
+ *
+ * 1イベント = `event: <type>` と `data: <JSON>` の2行。最後は必ず result / error / cancelled のどれかで終わる。
+ */
+
+/** 長い動画を区間に分けて解析しているときの、いま解析している区間（時刻は元動画での位置） */
+export interface SegmentPosition {
+    index: number; // 0 始まり
+    count: number;
+    startSeconds: number;
+    endSeconds: number;
+}
+
+/** 解析の途中経過（ジョブの progress にも直近の1件を残す） */
+export type AnalysisProgressEvent = (
+    | { type: 'queued'; position: number } // 同時実行数の上限待ち（先頭が 1）
+    | { type: 'received'; bytes: number } // サーバーが動画を受け取った
+    | { type: 'upload'; sentBytes: number; totalBytes: number } // AI プロバイダーへの送信
+    | { type: 'processing'; polls: number; state: string } // プロバイダー側の動画変換待ち
+    | { type: 'generating'; elapsedMs: number; attempt?: number } // 生成中（応答待ちの間も一定間隔で送る。attempt は応答が使えず出し直させた回数）
+    | { type: 'parsing' }
+) & { segment?: SegmentPosition };
+
+export interface AnalysisResult {
+    steps: AnalyzedStep[]; // utils/ai/stepSchema.ts で検証済み
+    notes: string[];
+}
+
+export interface AnalysisFailure {
+    message: string; // 画面にそのまま出せる文言
+    status: number;
+}
+
+export type AnalysisStreamEvent =
+    | AnalysisProgressEvent
+    | ({ type: 'result' } & AnalysisResult)
+    | ({ type: 'error' } & AnalysisFailure)
+    | { type: 'cancelled' };
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+    id: string;
+    status: AnalysisJobStatus;
+    fileName: string;
+    fileSize: number; // bytes（サーバーに送ったプロキシ動画のサイズ。区間に分けた場合は合計）
+    segmentCount?: number; // 区間に分けて解析する場合の区間数
+    profileName?: string; // 生成スタイルの名前（一覧の表示用）
+    sourceVideoId?: string; // ブラウザに保存した元動画（utils/videoStore.ts）。一覧から結果を取り込むときに使う
+    language: OutputLanguage;
+    createdAt: number; // epoch ms
+    updatedAt: number; // epoch ms
+    progress?: AnalysisProgressEvent; // 実行中の直近の進捗
+    result?: AnalysisResult; // completed のとき
+    error?: AnalysisFailure; // failed のとき
+}
+
+/** 一覧用（result は大きいので手順数だけにする） */
+export type AnalysisJobSummary = Omit<AnalysisJob, 'result'> & { stepCount?: number };
+
+export const isFinishedJobStatus = (status: AnalysisJobStatus): boolean =>
+    status === 'completed' || status === 'failed' || status === 'cancelled';
+
+export const ANALYSIS_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export function formatStreamEvent(event: AnalysisStreamEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * レスポンス本文をイベントごとに読み、onEvent に渡す（ストリームの終わりまで待つ）。
+ * 切断時の再接続（回数・間隔）を呼び出し側で決めたいので、EventSource ではなく fetch の ReadableStream を自前で区切る。
+ */
+export async function readAnalysisStream(response: Response, onEvent: (event: AnalysisStreamEvent) => void): Promise<void> {
+    if (!response.body) throw new Error('進捗ストリームを読み取れません。');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (block: string) => {
+        const data = block
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+        if (!data) return;
+        let event: AnalysisStreamEvent;
+        try {
+            event = JSON.parse(data);
+        } catch (e) {
+            console.warn('[analysisStream] Malformed event skipped:', data.substring(0, 100), e);
+            return;
+        }
+        onEvent(event);
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let separator = buffer.indexOf('\n\n');
+        while (separator !== -1) {
+            flush(buffer.slice(0, separator));
+            buffer = buffer.slice(separator + 2);
+            separator = buffer.indexOf('\n\n');
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) flush(buffer);
+}
@@ -0,0 +1,81 @@
+import { ManualData, ManualStep, OutputLanguage, StepBranch } from '@/app/page';
+import { manualStrings } from '@/utils/outputLanguage';
+import { isConfirmationStep, stepHeadingPrefix } from '@/utils/stepKind';
+
+/**
+ * ステップ間の条件分岐。
+ *
+ * 分岐先は uid で持ち、表示・出力のたびに現在のステップ番号へ解決する。
+ * ステップ番号はセクションごとに振り直されるため、別セクションへの分岐はセクション名も添える。
+ */
+
+export interface ResolvedBranch {
+    label: string;
+    targetUid: string;
+    target: string | null; // 「ステップ 7」等。分岐先が見つからなければ null
+}
+
+/** 分岐先ステップの呼び名（同じセクション内なら番号のみ。マニュアルの出力言語で書く） */
+function describeTarget(manual: ManualData, target: ManualStep, from: ManualStep): string {
+    const strings = manualStrings(manual.language);
+    const numberText = isConfirmationStep(target) ? strings.confirmationRef(target.stepNumber) : strings.stepRef(target.stepNumber);
+    if (target.sectionId === from.sectionId) return numberText;
+    const section = manual.sections.find(s => s.id === target.sectionId);
+    return section ? strings.sectionStepRef(section.title, numberText) : numberText;
+}
+
+/** マニュアル全体の uid 索引を一度だけ作り、ステップごとの分岐を解決する関数を返す */
+export function createBranchResolver(manual: ManualData): (step: ManualStep) => ResolvedBranch[] {
+    const byUid = new Map<string, ManualStep>();
+    manual.steps.forEach(step => { if (step.uid) byUid.set(step.uid, step); });
+    return (step) => (step.branches || [])
+        .filter(branch => branch.targetUid)
+        .map(branch => {
+            const target = byUid.get(branch.targetUid);
+            return {
+                label: branch.label,
+                targetUid: branch.targetUid,
+                target: target ? describeTarget(manual, target, step) : null,
+            };
+        });
+}
+
+/** エクスポート用の1行表記（例: 「確認ダイアログが出た場合 → ステップ 7 へ」） */
+export function formatBranch(branch: ResolvedBranch, language?: OutputLanguage): string {
+    const strings = manualStrings(language);
+    const destination = branch.target ? strings.branchTo(branch.target) : strings.branchMissing;
+    return branch.label.trim() ? `${branch.label} ${destination}` : destination;
+}
+
+/** 削除されたステップを指す分岐を取り除く（ステップ削除後に呼ぶ） */
+export function pruneDanglingBranches(data: ManualData): ManualData {
+    const uids = new Set(data.steps.map(s => s.uid).filter(Boolean));
+    let changed = false;
+    const steps = data.steps.map(step => {
+        if (!step.branches?.length) return step;
+        // 分岐先が未選択（編集途中）の行は残す
+        const branches: StepBranch[] = step.branches.filter(b => !b.targetUid || uids.has(b.targetUid));
+        if (branches.length === step.branches.length) return step;
+        changed = true;
+        return { ...step, branches };
+    });
+    return changed ? { ...data, steps } : data;
+}
+
+export interface BranchTargetOption {
+    uid: string;
+    label: string; // 「3. 『保存』ボタンをクリックします」
+    sectionTitle: string;
+}
+
+/** 分岐先の選択肢（セクション順） */
+export function listBranchTargets(manual: ManualData): BranchTargetOption[] {
+    const titles = new Map(manual.sections.map(s => [s.id, s.title]));
+    return manual.steps
+        .filter(step => step.uid)
+        .map(step => ({
+            uid: step.uid!,
+            label: `${stepHeadingPrefix(step)} ${step.action}`,
+            sectionTitle: titles.get(step.sectionId ?? '') ?? '',
+        }));
+}
@@ -0,0 +1,25 @@
+import { CalloutType, ManualStep, StepCallout } from '@/app/page';
+
+/**
+ * ステップ単位のコールアウト（注意・警告・ヒント）の定義。
+ * ラベルと配色はビューアー・各エクスポーターで共通にする。
+ */
+
+export const CALLOUT_TYPES: ReadonlyArray<CalloutType> = ['caution', 'warning', 'tip'];
+
+export interface CalloutStyle {
+    label: string;
+    color: string; // 枠線・ラベル色（#RRGGBB）
+    background: string; // 塗り（#RRGGBB）
+}
+
+export const CALLOUT_STYLES: Record<CalloutType, CalloutStyle> = {
+    caution: { label: '注意', color: '#D97706', background: '#FFFBEB' },
+    warning: { label: '警告', color: '#DC2626', background: '#FEF2F2' },
+    tip: { label: 'ヒント', color: '#0284C7', background: '#F0F9FF' },
+};
+
+/** 表示・出力対象のコールアウト（本文が空のものは除く） */
+export function visibleCallouts(step: Pick<ManualStep, 'callouts'>): StepCallout[] {
+    return (step.callouts || []).filter(c => c.text.trim() !== '');
+}
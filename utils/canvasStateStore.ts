@@ -0,0 +1,79 @@
+import { db, CanvasStateRecord } from '@/utils/db';
+
+/**
+ * 注釈キャンバス（InlineCanvas）の編集状態と Undo 履歴の保存先（Dexie の canvasStates テーブル）。
+ * マニュアルID + ステップ uid をキーにし、ステップやマニュアルの削除時にここから片付ける。
+ * 以前は localStorage の `am_canvas_state_step-<uid>` に保存していたため、読み込み時に一度だけ移行する。
+ */
+
+const LEGACY_KEY_PREFIX = 'am_canvas_state_step-';
+
+// 1キャンバスあたりの Undo 履歴の保持件数（InlineCanvas のメモリ上の上限と同じ）
+export const MAX_CANVAS_HISTORY = 30;
+
+export async function loadCanvasState(manualId: string, stepUid: string): Promise<CanvasStateRecord | null> {
+    const record = await db.canvasStates.get([manualId, stepUid]);
+    if (record) return record;
+
+    // 旧形式（localStorage）からの移行: 読めたら Dexie へ移してキーを消す
+    const legacyKey = `${LEGACY_KEY_PREFIX}${stepUid}`;
+    const legacy = localStorage.getItem(legacyKey);
+    if (!legacy || legacy === 'undefined') return null;
+    const migrated: CanvasStateRecord = { manualId, stepUid, state: legacy, history: [legacy], updatedAt: Date.now() };
+    await db.canvasStates.put(migrated);
+    localStorage.removeItem(legacyKey);
+    return migrated;
+}
+
+export async function saveCanvasState(manualId: string, stepUid: string, state: string, history: string[]): Promise<void> {
+    await db.canvasStates.put({
+        manualId,
+        stepUid,
+        state,
+        history: history.slice(-MAX_CANVAS_HISTORY),
+        updatedAt: Date.now(),
+    });
+}
+
+export async function deleteCanvasStates(manualId: string, stepUids: string[]): Promise<void> {
+    await db.canvasStates.bulkDelete(stepUids.map(uid => [manualId, uid] as [string, string]));
+}
+
+/** マニュアルの複製時に、注釈の編集状態・Undo 履歴を複製先のIDへ写す */
+export async function copyCanvasStates(fromManualId: string, toManualId: string): Promise<void> {
+    const records = await db.canvasStates.where('manualId').equals(fromManualId).toArray();
+    await db.canvasStates.bulkPut(records.map(record => ({ ...record, manualId: toManualId })));
+}
+
+export async function deleteCanvasStatesOf(manualId: string): Promise<void> {
+    await db.canvasStates.where('manualId').equals(manualId).delete();
+}
+
+/**
+ * 存在しないマニュアル・ステップの状態を削除する。
+ * サブステップ化などでステップが消えた場合もここで回収される。
+ * localStorage に残った旧形式のキーも、どのステップにも対応しないものは消す。
+ */
+export async function pruneOrphanCanvasStates(): Promise<number> {
+    const { removed, allUids } = await db.transaction('rw', db.manuals, db.canvasStates, async () => {
+        const liveSteps = new Map<string, Set<string>>();
+        const allUids = new Set<string>();
+        await db.manuals.each(record => {
+            const uids = record.data.steps.map(s => s.uid).filter((uid): uid is string => !!uid);
+            liveSteps.set(record.id, new Set(uids));
+            uids.forEach(uid => allUids.add(uid));
+        });
+        const keys = await db.canvasStates.toCollection().primaryKeys();
+        const orphans = keys.filter(([manualId, stepUid]) => !liveSteps.get(manualId)?.has(stepUid));
+        await db.canvasStates.bulkDelete(orphans);
+        return { removed: orphans.length, allUids };
+    });
+
+    const legacyKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(LEGACY_KEY_PREFIX) && !allUids.has(key.slice(LEGACY_KEY_PREFIX.length))) legacyKeys.push(key);
+    }
+    legacyKeys.forEach(key => localStorage.removeItem(key));
+    return removed + legacyKeys.length;
+}
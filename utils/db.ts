@@ -1,15 +1,185 @@
 import Dexie, { Table } from 'dexie';
-import { ManualData } from '@/app/page';
+import { ManualData, ManualStep } from '@/app/page';
+import { dataUrlToBlob } from '@/utils/imageUtils';
+
+export interface ManualRecord {
+    id: string;
+    data: ManualData;
+    createdAt: number; // epoch ms
+    updatedAt: number; // epoch ms
+    thumbnail?: string; // 一覧表示用の縮小画像 (1枚目のステップから生成)
+    variantSourceId?: string; // 翻訳版なら翻訳元のID（data.variantOf.sourceId の索引用の写し）
+}
+
+export interface RevisionRecord {
+    id?: number; // auto-increment
+    manualId: string;
+    data: ManualData; // 保存時点のスナップショット
+    note: string; // 変更メモ（未入力時は保存操作の種類）
+    createdAt: number; // epoch ms
+}
+
+export interface ImageRecord {
+    id: string;
+    blob: Blob;
+    createdAt: number; // epoch ms
+}
+
+export interface SearchIndexRecord {
+    manualId: string;
+    key: string; // マニュアル内で一意な項目キー（'title' / 'overview' / 'step:<uid>' / 'note:<n>'）
+    field: string; // 検索結果に出す項目名（「概要」「ステップ 3」など）
+    stepUid?: string; // ステップ由来の項目なら、ジャンプ先のステップ
+    text: string; // 元の本文（スニペット表示と最終的な一致判定に使う）
+    tokens: string[]; // 正規化した本文の 2-gram（multiEntry インデックス）
+}
+
+export interface VideoRecord {
+    id: string;
+    name: string; // 元のファイル名
+    type: string; // MIME type
+    size: number; // bytes
+    blob: Blob;
+    createdAt: number; // epoch ms
+}
+
+export interface CanvasStateRecord {
+    manualId: string;
+    stepUid: string;
+    state: string; // 最新の注釈オブジェクト（JSON 文字列、背景画像は含まない）
+    history: string[]; // Undo 用の履歴（古い順、末尾が state と同じ）
+    updatedAt: number; // epoch ms
+}
 
 export class ManualDatabase extends Dexie {
-    manuals!: Table<{ id: string; data: ManualData }>;
+    manuals!: Table<ManualRecord>;
+    revisions!: Table<RevisionRecord, number>;
+    images!: Table<ImageRecord>;
+    searchIndex!: Table<SearchIndexRecord, [string, string]>;
+    canvasStates!: Table<CanvasStateRecord, [string, string]>;
+    videos!: Table<VideoRecord>;
 
     constructor() {
         super('AutoManualDB');
         this.version(1).stores({
             manuals: 'id' // 'id' を主キーにする
         });
+        // v2: 複数マニュアルのライブラリ化（更新日時でソート）
+        this.version(2).stores({
+            manuals: 'id, updatedAt'
+        }).upgrade(async tx => {
+            // v1 は 'current' の1件だけを上書き保存していたため、通常のライブラリ項目として引き継ぐ
+            const table = tx.table('manuals');
+            const legacy = await table.get('current');
+            if (!legacy) return;
+            const now = Date.now();
+            await table.delete('current');
+            await table.add({
+                id: createManualId(),
+                data: legacy.data,
+                createdAt: now,
+                updatedAt: now,
+            });
+        });
+        // v3: マニュアルごとのリビジョン履歴
+        this.version(3).stores({
+            manuals: 'id, updatedAt',
+            revisions: '++id, manualId, [manualId+createdAt]'
+        });
+        // v4: スクリーンショットを base64 から Blob の別テーブルへ移し、ステップからはIDで参照する
+        this.version(4).stores({
+            manuals: 'id, updatedAt',
+            revisions: '++id, manualId, [manualId+createdAt]',
+            images: 'id'
+        }).upgrade(async tx => {
+            const images = tx.table('images');
+            // 同じ data URL（元画像と表示画像が同一、リビジョン間の共有など）は1つのBlobにまとめる
+            const idByDataUrl = new Map<string, string>();
+
+            const toImageId = async (dataUrl: string | undefined): Promise<string | undefined> => {
+                if (!dataUrl || !dataUrl.startsWith('data:')) return undefined;
+                const known = idByDataUrl.get(dataUrl);
+                if (known) return known;
+                const id = createImageId();
+                await images.add({ id, blob: dataUrlToBlob(dataUrl), createdAt: Date.now() });
+                idByDataUrl.set(dataUrl, id);
+                return id;
+            };
+
+            const migrateSteps = async (steps: ManualStep[]): Promise<ManualStep[]> => {
+                const migrated: ManualStep[] = [];
+                for (const step of steps) {
+                    const { screenshot, originalUrl, ...rest } = step;
+                    const screenshotId = await toImageId(screenshot);
+                    const originalId = await toImageId(originalUrl) ?? screenshotId;
+                    migrated.push({ ...rest, screenshotId, originalId });
+                }
+                return migrated;
+            };
+
+            for (const tableName of ['manuals', 'revisions']) {
+                const table = tx.table(tableName);
+                const records = await table.toArray();
+                for (const record of records) {
+                    record.data = { ...record.data, steps: await migrateSteps(record.data.steps || []) };
+                    await table.put(record);
+                }
+            }
+        });
+        // v5: ライブラリ横断の全文検索インデックス（既存マニュアルは utils/searchIndex.ts が初回検索時に索引付けする）
+        this.version(5).stores({
+            manuals: 'id, updatedAt',
+            revisions: '++id, manualId, [manualId+createdAt]',
+            images: 'id',
+            searchIndex: '[manualId+key], manualId, *tokens'
+        });
+        // v6: 注釈キャンバスの編集状態・Undo 履歴を localStorage から移す（マニュアルID + ステップ uid 単位）
+        this.version(6).stores({
+            manuals: 'id, updatedAt',
+            revisions: '++id, manualId, [manualId+createdAt]',
+            images: 'id',
+            searchIndex: '[manualId+key], manualId, *tokens',
+            canvasStates: '[manualId+stepUid], manualId'
+        });
+        // v7: 元動画を保存し、セクションの sourceVideo.videoId から参照する（リロード後もフレームを切り出し直せる）
+        this.version(7).stores({
+            manuals: 'id, updatedAt',
+            revisions: '++id, manualId, [manualId+createdAt]',
+            images: 'id',
+            searchIndex: '[manualId+key], manualId, *tokens',
+            canvasStates: '[manualId+stepUid], manualId',
+            videos: 'id'
+        });
+        // v8: 翻訳元IDの索引（保存のたびに走る翻訳版の同期で、全件を読まずに翻訳版を探す）
+        this.version(8).stores({
+            manuals: 'id, updatedAt, variantSourceId',
+            revisions: '++id, manualId, [manualId+createdAt]',
+            images: 'id',
+            searchIndex: '[manualId+key], manualId, *tokens',
+            canvasStates: '[manualId+stepUid], manualId',
+            videos: 'id'
+        }).upgrade(async tx => {
+            await tx.table('manuals').toCollection().modify(record => {
+                const sourceId = record.data?.variantOf?.sourceId;
+                if (typeof sourceId === 'string') record.variantSourceId = sourceId;
+            });
+        });
     }
 }
 
+/** images テーブルのID */
+export function createImageId(): string {
+    return `img_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/** videos テーブルのID */
+export function createVideoId(): string {
+    return `vid_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/** ライブラリ内でマニュアルを識別するID */
+export function createManualId(): string {
+    return `m_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
 export const db = new ManualDatabase();
@@ -0,0 +1,77 @@
+import { DocumentMetadata, ManualData, OutputLanguage } from '@/app/page';
+import { manualStrings } from '@/utils/outputLanguage';
+
+/**
+ * 文書管理情報（文書番号・改訂番号・作成者・承認者・施行日・所管部署）の定義。
+ * 項目の並びはエディタ・表紙・改訂表・フロントマターで共通にする。
+ * ラベルはエディタでは日本語、表紙・改訂表ではマニュアルの出力言語で出す。
+ */
+
+export type DocumentMetadataKey = keyof DocumentMetadata;
+
+export interface DocumentMetadataField {
+    key: DocumentMetadataKey;
+    label: string;
+    frontMatterKey: string; // Markdown / HTML のフロントマターで使うキー
+}
+
+export const DOCUMENT_METADATA_FIELDS: ReadonlyArray<DocumentMetadataField> = [
+    { key: 'documentId', label: '文書番号', frontMatterKey: 'document_id' },
+    { key: 'revision', label: '改訂番号', frontMatterKey: 'revision' },
+    { key: 'author', label: '作成者', frontMatterKey: 'author' },
+    { key: 'approver', label: '承認者', frontMatterKey: 'approver' },
+    { key: 'effectiveDate', label: '施行日', frontMatterKey: 'effective_date' },
+    { key: 'department', label: '所管部署', frontMatterKey: 'department' },
+];
+
+/** 改訂表の列（1行＝現在の版） */
+export const REVISION_TABLE_FIELDS: ReadonlyArray<DocumentMetadataField> =
+    DOCUMENT_METADATA_FIELDS.filter(f => f.key === 'revision' || f.key === 'effectiveDate' || f.key === 'author' || f.key === 'approver');
+
+export interface DocumentMetadataEntry extends DocumentMetadataField {
+    value: string;
+}
+
+/** 入力済みの項目だけを定義順で返す（language 未設定なら日本語ラベル） */
+export function metadataEntries(manual: Pick<ManualData, 'metadata' | 'language'>): DocumentMetadataEntry[] {
+    const metadata = manual.metadata || {};
+    const labels = manualStrings(manual.language).metadataLabels;
+    return DOCUMENT_METADATA_FIELDS
+        .map(field => ({ ...field, label: labels[field.key], value: (metadata[field.key] || '').trim() }))
+        .filter(entry => entry.value !== '');
+}
+
+/** 改訂表の見出し行 */
+export function revisionTableHeaders(language?: OutputLanguage): string[] {
+    const labels = manualStrings(language).metadataLabels;
+    return REVISION_TABLE_FIELDS.map(field => labels[field.key]);
+}
+
+/** 改訂表の1行分（未入力は「-」） */
+export function revisionTableRow(manual: Pick<ManualData, 'metadata'>): string[] {
+    const metadata = manual.metadata || {};
+    return REVISION_TABLE_FIELDS.map(field => (metadata[field.key] || '').trim() || '-');
+}
+
+/** 空欄を取り除いた metadata（すべて空なら undefined） */
+export function compactMetadata(metadata: DocumentMetadata): DocumentMetadata | undefined {
+    const result: DocumentMetadata = {};
+    DOCUMENT_METADATA_FIELDS.forEach(({ key }) => {
+        const value = (metadata[key] || '').trim();
+        if (value) result[key] = value;
+    });
+    return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** YAML のフロントマター値として安全な形にする（常にダブルクォートで囲む） */
+function yamlString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/** Markdown 先頭に置く YAML フロントマター（title と入力済みの管理項目。未入力なら空文字） */
+export function markdownFrontMatter(manual: Pick<ManualData, 'title' | 'metadata'>): string {
+    const entries = metadataEntries(manual);
+    if (entries.length === 0) return '';
+    const lines = [`title: ${yamlString(manual.title)}`, ...entries.map(e => `${e.frontMatterKey}: ${yamlString(e.value)}`)];
+    return `---\n${lines.join('\n')}\n---\n\n`;
+}
@@ -1,4 +1,11 @@
 import { ManualData, ManualStep } from '@/app/page';
+import { groupStepsBySection } from '@/utils/sections';
+import { CALLOUT_STYLES, visibleCallouts } from '@/utils/callouts';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { metadataEntries, REVISION_TABLE_FIELDS, revisionTableHeaders, revisionTableRow } from '@/utils/documentMetadata';
+import { manualStrings } from '@/utils/outputLanguage';
+import { CONFIRMATION_COLOR, OPERATION_COLOR, isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
 
 /**
  * 画像サイズ取得（アスペクト比計算用）
@@ -14,20 +21,20 @@ function getImageDimensions(base64: string): Promise<{ width: number; height: nu
 }
 
 /**
- * ナンバリング画像生成（サークル・ネイビー）
+ * ナンバリング画像生成（サークル・操作はネイビー / 結果確認はエメラルド）
  */
-function createStepNumberImage(number: number): string {
+function createStepNumberImage(label: string, color: string = OPERATION_COLOR): string {
     const size = 128;
     const canvas = document.createElement('canvas');
     canvas.width = size; canvas.height = size;
     const ctx = canvas.getContext('2d');
     if (!ctx) return '';
-    ctx.fillStyle = '#1E1B4B';
+    ctx.fillStyle = color;
     ctx.beginPath(); ctx.arc(size / 2, size / 2, 58, 0, Math.PI * 2); ctx.fill();
     ctx.fillStyle = '#FFFFFF';
     ctx.font = 'bold 72px Arial, sans-serif';
     ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-    ctx.fillText(number.toString(), size / 2, size / 2 + 4);
+    ctx.fillText(label, size / 2, size / 2 + 4);
     return canvas.toDataURL('image/png');
 }
 
@@ -47,6 +54,8 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
     const RF = { ascii: FONT, hAnsi: FONT, eastAsia: FONT, cs: FONT };
     const BLACK = '000000';
     const NAVY = '1E1B4B'; // 表紙サンプルのラインカラー
+    const INDIGO = '4F46E5'; // 条件分岐の文字色
+    const AMBER = 'F59E0B'; // 注意事項の枠線（ビューアーのアンバー系に合わせる）
 
     const PAGE_WIDTH_DXA = 11906;
     const MARGIN_DXA = 1134;
@@ -56,13 +65,18 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
     const numCellWidth = 600;
     const spacingDXA = 200; // 80から200（+約半角分）に増加
 
+    const resolveBranches = createBranchResolver(manual);
+    const strings = manualStrings(manual.language);
+
     /**
      * ステップの各パーツ（表題、詳細、画像）を個別に生成するヘルパー
      */
-    const getStepParts = async (step: any | null, isTwoCol: boolean) => {
+    const getStepParts = async (step: any | null, isTwoCol: boolean, isTwoRowV: boolean = false) => {
         if (!step) return { title: [], detail: [], image: [] };
 
-        const numDataUrl = createStepNumberImage(step.stepNumber);
+        // 結果確認ステップは番号の代わりにチェックマーク（エメラルド）を描き、表題に「確認」を添える
+        const isConfirmation = isConfirmationStep(step);
+        const numDataUrl = createStepNumberImage(stepNumberLabel(step), isConfirmation ? CONFIRMATION_COLOR : OPERATION_COLOR);
         const { data: numData, type: numType } = dataUrlToUint8Array(numDataUrl);
         const actionSize = isTwoCol ? 24 : 26; // 12pt / 13pt
         const detailSize = isTwoCol ? 20 : 22; // 10pt / 11pt
@@ -87,7 +101,10 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
                         margins: { left: spacingDXA }, // 間隔を200に設定
                         children: [new Paragraph({
                             keepNext: true, // 泣き別れ防止
-                            children: [new TextRun({ text: step.action, bold: true, size: actionSize, font: RF, color: BLACK })]
+                            children: [
+                                ...(isConfirmation ? [new TextRun({ text: `【${strings.confirmationBadge}】`, bold: true, size: actionSize, font: RF, color: CONFIRMATION_COLOR.slice(1) })] : []),
+                                new TextRun({ text: step.action, bold: true, size: actionSize, font: RF, color: BLACK })
+                            ]
                         })]
                     })
                 ]
@@ -101,6 +118,22 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
             children: [new TextRun({ text: step.detail || "", size: detailSize, font: RF, color: BLACK })]
         });
 
+        // コールアウト（注意・警告・ヒント）は詳細の下に、左罫線＋塗りの段落として並べる
+        const calloutParas = visibleCallouts(step).map(callout => {
+            const style = CALLOUT_STYLES[callout.type];
+            return new Paragraph({
+                indent: { left: numCellWidth + spacingDXA },
+                spacing: { before: 60, after: 120 },
+                keepNext: true,
+                shading: { fill: style.background.slice(1) },
+                border: { left: { style: BorderStyle.SINGLE, size: 18, color: style.color.slice(1), space: 6 } },
+                children: [
+                    new TextRun({ text: `【${strings.callouts[callout.type]}】`, bold: true, size: detailSize - 2, font: RF, color: style.color.slice(1) }),
+                    new TextRun({ text: callout.text, size: detailSize - 2, font: RF, color: BLACK })
+                ]
+            });
+        });
+
         let imagePara = new Paragraph({ spacing: { before: 0, after: 0 } });
         if (step.screenshot) {
             try {
@@ -124,7 +157,7 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
                         finalH = 4.2 * 96;
                         finalW = finalH * FIXED_RATIO;
                     }
-                } else if (step.layout === 'two-row-vertical') {
+                } else if (isTwoRowV) {
                     if (isLandscape) {
                         // 少しだけ縮小して1ページに確実に収める
                         finalW = Math.min(6.8 * 96, CONTENT_WIDTH_DXA / 15);
@@ -153,7 +186,7 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
 
                 imagePara = new Paragraph({
                     alignment: AlignmentType.CENTER,
-                    spacing: { before: step.layout === 'two-row-vertical' ? 200 : 500, after: step.layout === 'two-row-vertical' ? 100 : 400 },
+                    spacing: { before: isTwoRowV ? 200 : 500, after: isTwoRowV ? 100 : 400 },
                     children: [new ImageRun({
                         data,
                         transformation: { width: Math.round(finalW), height: Math.round(finalH) },
@@ -163,10 +196,90 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
             } catch (e) { console.error(e); }
         }
 
-        return { title: [titleTable], detail: [detailPara], image: [imagePara] };
+        // サブステップ（3-1, 3-2…）は番号付きの段落で、画像があれば小さめに添える
+        const subStepParas: any[] = [];
+        const subSteps = visibleSubSteps(step);
+        for (let subIndex = 0; subIndex < subSteps.length; subIndex++) {
+            const sub = subSteps[subIndex];
+            subStepParas.push(new Paragraph({
+                indent: { left: numCellWidth + spacingDXA + 200 },
+                spacing: { before: 80, after: sub.detail ? 20 : 80 },
+                keepNext: true,
+                children: [
+                    new TextRun({ text: `${subStepLabel(step, subIndex)}  `, bold: true, size: detailSize, font: RF, color: NAVY }),
+                    new TextRun({ text: sub.action, bold: true, size: detailSize, font: RF, color: BLACK })
+                ]
+            }));
+            if (sub.detail) {
+                subStepParas.push(new Paragraph({
+                    indent: { left: numCellWidth + spacingDXA + 200 },
+                    spacing: { after: 80 },
+                    keepNext: true,
+                    children: [new TextRun({ text: sub.detail, size: detailSize - 2, font: RF, color: BLACK })]
+                }));
+            }
+            if (sub.screenshot) {
+                try {
+                    const dims = await getImageDimensions(sub.screenshot);
+                    const { data, type } = dataUrlToUint8Array(sub.screenshot);
+                    const ratio = (dims.width || 4) / (dims.height || 3);
+                    const subW = Math.min((isTwoCol ? 2.2 : 3.2) * 96, 2.4 * 96 * ratio);
+                    subStepParas.push(new Paragraph({
+                        indent: { left: numCellWidth + spacingDXA + 200 },
+                        spacing: { after: 120 },
+                        keepNext: true,
+                        children: [new ImageRun({ data, transformation: { width: Math.round(subW), height: Math.round(subW / ratio) }, type })]
+                    }));
+                } catch (e) { console.error(e); }
+            }
+        }
+
+        // 条件分岐は「条件 → ステップ N へ」の1行ずつ
+        const branchParas = resolveBranches(step).map(branch => new Paragraph({
+            indent: { left: numCellWidth + spacingDXA },
+            spacing: { before: 40, after: 80 },
+            keepNext: true,
+            children: [
+                new TextRun({ text: '◆ ', bold: true, size: detailSize - 2, font: RF, color: INDIGO }),
+                new TextRun({ text: formatBranch(branch, manual.language), bold: true, size: detailSize - 2, font: RF, color: INDIGO })
+            ]
+        }));
+
+        return { title: [titleTable], detail: [detailPara, ...calloutParas, ...subStepParas, ...branchParas], image: [imagePara] };
     };
 
     const contentChildren: any[] = [];
+    const metadata = metadataEntries(manual);
+
+    // 改訂表: 文書管理情報があるときだけ本文の先頭に置く（現在の版を1行）
+    if (metadata.length > 0) {
+        const cellBorder = { style: BorderStyle.SINGLE, size: 4, color: NAVY };
+        const borders = { top: cellBorder, bottom: cellBorder, left: cellBorder, right: cellBorder };
+        const colWidth = Math.floor(CONTENT_WIDTH_DXA / REVISION_TABLE_FIELDS.length);
+        const cell = (text: string, isHeader: boolean) => new TableCell({
+            borders,
+            width: { size: colWidth, type: WidthType.DXA },
+            shading: isHeader ? { fill: 'F1F5F9' } : undefined,
+            margins: { top: 80, bottom: 80, left: 120, right: 120 },
+            children: [new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [new TextRun({ text, bold: isHeader, size: 18, font: RF, color: BLACK })]
+            })]
+        });
+        contentChildren.push(
+            new Paragraph({ children: [new TextRun({ text: `■ ${strings.revisionHistory}`, bold: true, size: 22, font: RF, color: BLACK })], spacing: { after: 100 } }),
+            new Table({
+                width: { size: CONTENT_WIDTH_DXA, type: WidthType.DXA },
+                columnWidths: REVISION_TABLE_FIELDS.map(() => colWidth),
+                rows: [
+                    new TableRow({ tableHeader: true, children: revisionTableHeaders(manual.language).map(label => cell(label, true)) }),
+                    new TableRow({ children: revisionTableRow(manual).map(value => cell(value, false)) })
+                ]
+            }),
+            new Paragraph({ spacing: { after: 400 } })
+        );
+    }
+
     if (manual.overview) {
         contentChildren.push(new Table({
             width: { size: 100, type: WidthType.PERCENTAGE },
@@ -184,123 +297,150 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
         }), new Paragraph({ spacing: { after: 600 } }));
     }
 
-    let currentVideoIndex = 0; // 現在処理中の動画IDを追跡
-
-    for (let i = 0; i < manual.steps.length;) {
-        const stepL = manual.steps[i];
-        const isTwoCol = stepL.layout === 'two-column';
-        const isTwoRowV = stepL.layout === 'two-row-vertical';
-
-        // 動画が切り替わったら改ページを挿入 (左側のステップ基準)
-        if (i > 0 && stepL.videoIndex !== currentVideoIndex) {
-            contentChildren.push(new Paragraph({ children: [], pageBreakBefore: true }));
-            currentVideoIndex = stepL.videoIndex || 0;
+    const sectionGroups = groupStepsBySection(manual).filter(g => g.steps.length > 0);
+
+    for (let g = 0; g < sectionGroups.length; g++) {
+        const { section, steps } = sectionGroups[g];
+        const isTwoCol = section.layout === 'two-column';
+        const isTwoRowV = section.layout === 'two-row-vertical';
+
+        // セクションが切り替わったら改ページを挿入し、見出しを置く
+        contentChildren.push(new Paragraph({
+            pageBreakBefore: g > 0,
+            keepNext: true,
+            border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: NAVY, space: 4 } },
+            spacing: { after: section.description ? 120 : 400 },
+            children: [new TextRun({ text: section.title, bold: true, size: 30, font: RF, color: BLACK })]
+        }));
+        if (section.description) {
+            contentChildren.push(new Paragraph({
+                keepNext: true,
+                spacing: { after: 400 },
+                children: [new TextRun({ text: section.description, size: 21, font: RF, color: BLACK })]
+            }));
         }
 
-        if (isTwoCol) {
-            let stepR: ManualStep | null = manual.steps[i + 1] || null;
-            let increment = 2;
-
-            // もし右側のステップが別の動画だった場合、この行には配置せず次回に回す
-            if (stepR && stepR.videoIndex !== stepL.videoIndex) {
-                stepR = null;
-                increment = 1;
-            }
-
-            const stepLParts = await getStepParts(stepL, true);
-            const stepRParts = stepR ? await getStepParts(stepR, true) : null;
-
-            // 左右で高さを揃えるため、表題、詳細、画像を別々の行にする
-            contentChildren.push(new Table({
-                width: { size: 100, type: WidthType.PERCENTAGE },
-                borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
-                rows: [
-                    // 行1: 表題
-                    new TableRow({
-                        cantSplit: true,
-                        children: [
-                            new TableCell({ children: stepLParts.title, width: { size: 50, type: WidthType.PERCENTAGE } }),
-                            new TableCell({ children: stepRParts ? stepRParts.title : [], width: { size: 50, type: WidthType.PERCENTAGE } })
-                        ]
-                    }),
-                    // 行2: 詳細説明
-                    new TableRow({
-                        cantSplit: true,
-                        children: [
-                            new TableCell({ children: stepLParts.detail, width: { size: 50, type: WidthType.PERCENTAGE } }),
-                            new TableCell({ children: stepRParts ? stepRParts.detail : [], width: { size: 50, type: WidthType.PERCENTAGE } })
-                        ]
-                    }),
-                    // 行3: 画像
-                    new TableRow({
-                        cantSplit: true,
-                        children: [
-                            new TableCell({ children: stepLParts.image, width: { size: 50, type: WidthType.PERCENTAGE } }),
-                            new TableCell({ children: stepRParts ? stepRParts.image : [], width: { size: 50, type: WidthType.PERCENTAGE } })
-                        ]
-                    })
-                ]
-            }), new Paragraph({ spacing: { after: 400 } }));
-
-            i += increment;
-        } else if (isTwoRowV) {
-            // 縦2行レイウアウト: 2ステップのペアを上下に並べ、固定高さのテーブル行でA4縦収め
-            let stepB: ManualStep | null = manual.steps[i + 1] || null;
-            let increment = 2;
+        for (let i = 0; i < steps.length;) {
+            const stepL = steps[i];
 
-            if (stepB && (stepB.videoIndex !== stepL.videoIndex || stepB.layout !== 'two-row-vertical')) {
-                stepB = null;
-                increment = 1;
-            }
+            if (isTwoCol) {
+                const stepR: ManualStep | null = steps[i + 1] || null;
+                const increment = stepR ? 2 : 1;
 
-            const stepAParts = await getStepParts(stepL, false);
-            const stepBParts = stepB ? await getStepParts(stepB, false) : null;
+                const stepLParts = await getStepParts(stepL, true);
+                const stepRParts = stepR ? await getStepParts(stepR, true) : null;
 
-            // 各ステップを固定高さのセルに封じ込め、2セットでA4縦一ページに収める
-            contentChildren.push(new Table({
-                width: { size: 100, type: WidthType.PERCENTAGE },
-                borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
-                rows: [
-                    new TableRow({
-                        cantSplit: true,
-                        height: { value: 4800, rule: HeightRule.ATLEAST },
-                        children: [new TableCell({
-                            children: [...stepAParts.title, ...stepAParts.detail, ...stepAParts.image],
-                            width: { size: 100, type: WidthType.PERCENTAGE }
-                        })]
-                    }),
-                    ...(stepBParts ? [
+                // 左右で高さを揃えるため、表題、詳細、画像を別々の行にする
+                contentChildren.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+                    rows: [
+                        // 行1: 表題
                         new TableRow({
-                            height: { value: 400, rule: HeightRule.EXACT },
-                            children: [new TableCell({ children: [], width: { size: 100, type: WidthType.PERCENTAGE } })]
+                            cantSplit: true,
+                            children: [
+                                new TableCell({ children: stepLParts.title, width: { size: 50, type: WidthType.PERCENTAGE } }),
+                                new TableCell({ children: stepRParts ? stepRParts.title : [], width: { size: 50, type: WidthType.PERCENTAGE } })
+                            ]
                         }),
+                        // 行2: 詳細説明
                         new TableRow({
+                            cantSplit: true,
+                            children: [
+                                new TableCell({ children: stepLParts.detail, width: { size: 50, type: WidthType.PERCENTAGE } }),
+                                new TableCell({ children: stepRParts ? stepRParts.detail : [], width: { size: 50, type: WidthType.PERCENTAGE } })
+                            ]
+                        }),
+                        // 行3: 画像
+                        new TableRow({
+                            cantSplit: true,
+                            children: [
+                                new TableCell({ children: stepLParts.image, width: { size: 50, type: WidthType.PERCENTAGE } }),
+                                new TableCell({ children: stepRParts ? stepRParts.image : [], width: { size: 50, type: WidthType.PERCENTAGE } })
+                            ]
+                        })
+                    ]
+                }), new Paragraph({ spacing: { after: 400 } }));
+
+                i += increment;
+            } else if (isTwoRowV) {
+                // 縦2行レイウアウト: 2ステップのペアを上下に並べ、固定高さのテーブル行でA4縦収め
+                const stepB: ManualStep | null = steps[i + 1] || null;
+                const increment = stepB ? 2 : 1;
+
+                const stepAParts = await getStepParts(stepL, false, true);
+                const stepBParts = stepB ? await getStepParts(stepB, false, true) : null;
+
+                // 各ステップを固定高さのセルに封じ込め、2セットでA4縦一ページに収める
+                contentChildren.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+                    rows: [
+                        new TableRow({
+                            cantSplit: true,
+                            height: { value: 4800, rule: HeightRule.ATLEAST },
+                            children: [new TableCell({
+                                children: [...stepAParts.title, ...stepAParts.detail, ...stepAParts.image],
+                                width: { size: 100, type: WidthType.PERCENTAGE }
+                            })]
+                        }),
+                        ...(stepBParts ? [
+                            new TableRow({
+                                height: { value: 400, rule: HeightRule.EXACT },
+                                children: [new TableCell({ children: [], width: { size: 100, type: WidthType.PERCENTAGE } })]
+                            }),
+                            new TableRow({
+                            cantSplit: true,
+                            height: { value: 4800, rule: HeightRule.ATLEAST },
+                            children: [new TableCell({
+                                children: [...stepBParts.title, ...stepBParts.detail, ...stepBParts.image],
+                                width: { size: 100, type: WidthType.PERCENTAGE }
+                            })]
+                        })] : [])
+                    ]
+                }), new Paragraph({ spacing: { after: 400 } }));
+
+                i += increment;
+            } else {
+                const parts = await getStepParts(stepL, false);
+                contentChildren.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+                    rows: [new TableRow({
                         cantSplit: true,
-                        height: { value: 4800, rule: HeightRule.ATLEAST },
-                        children: [new TableCell({
-                            children: [...stepBParts.title, ...stepBParts.detail, ...stepBParts.image],
-                            width: { size: 100, type: WidthType.PERCENTAGE }
-                        })]
-                    })] : [])
-                ]
-            }), new Paragraph({ spacing: { after: 400 } }));
-
-            i += increment;
-        } else {
-            const parts = await getStepParts(stepL, false);
-            contentChildren.push(new Table({
-                width: { size: 100, type: WidthType.PERCENTAGE },
-                borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
-                rows: [new TableRow({
-                    cantSplit: true,
-                    children: [new TableCell({ children: [...parts.title, ...parts.detail, ...parts.image], width: { size: 100, type: WidthType.PERCENTAGE } })]
-                })]
-            }));
+                        children: [new TableCell({ children: [...parts.title, ...parts.detail, ...parts.image], width: { size: 100, type: WidthType.PERCENTAGE } })]
+                    })]
+                }));
 
-            i++;
+                i++;
+            }
         }
     }
 
+    // 注意事項は全ステップの後ろに、概要と同じ囲み枠（アンバー）でまとめて置く
+    const notes = (manual.notes || []).filter(n => n.trim() !== '');
+    if (notes.length > 0) {
+        contentChildren.push(new Paragraph({ spacing: { after: 400 } }), new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: { top: NO_BORDER, bottom: NO_BORDER, right: NO_BORDER, left: { style: BorderStyle.SINGLE, size: 24, color: AMBER } },
+            rows: [new TableRow({
+                cantSplit: true,
+                children: [new TableCell({
+                    shading: { fill: 'FFFBEB' },
+                    margins: { top: 200, bottom: 200, left: 300, right: 200 },
+                    children: [
+                        new Paragraph({ children: [new TextRun({ text: `■ ${strings.notes}`, bold: true, size: 22, font: RF, color: BLACK })], spacing: { after: 100 } }),
+                        ...notes.map(note => new Paragraph({
+                            spacing: { after: 60 },
+                            indent: { left: 240, hanging: 240 },
+                            children: [new TextRun({ text: `・${note}`, size: 21, font: RF, color: BLACK })]
+                        }))
+                    ]
+                })]
+            })]
+        }));
+    }
+
     const doc = new Document({
         styles: { default: { document: { run: { font: FONT }, paragraph: { spacing: { line: 276 } } } } },
         sections: [
@@ -338,7 +478,17 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
                                             indent: { left: 1134 },
                                             spacing: { before: 400 },
                                             children: [new TextRun({ text: manual.title, bold: true, size: 76, font: RF, color: BLACK })]
-                                        })
+                                        }),
+                                        // 文書管理情報（入力済みの項目のみ「ラベル　値」で並べる）
+                                        ...metadata.map((entry, i) => new Paragraph({
+                                            alignment: AlignmentType.LEFT,
+                                            indent: { left: 1134 },
+                                            spacing: { before: i === 0 ? 600 : 60 },
+                                            children: [
+                                                new TextRun({ text: `${entry.label}　`, size: 20, font: RF, color: NAVY, bold: true }),
+                                                new TextRun({ text: entry.value, size: 20, font: RF, color: BLACK })
+                                            ]
+                                        }))
                                     ]
                                 })]
                             }),
@@ -370,7 +520,7 @@ export async function generateAndDownloadDocx(manual: ManualData): Promise<void>
                         children: [new Paragraph({
                             alignment: AlignmentType.LEFT,
                             border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: NAVY } },
-                            children: [new TextRun({ text: manual.title, size: 18, color: BLACK, font: RF })]
+                            children: [new TextRun({ text: manual.metadata?.documentId ? `${manual.metadata.documentId}　${manual.title}` : manual.title, size: 18, color: BLACK, font: RF })]
                         })]
                     })
                 },
@@ -1,21 +1,53 @@
 import { ManualData, ManualStep } from '@/app/page';
+import { groupStepsBySection } from '@/utils/sections';
+import { CALLOUT_STYLES, visibleCallouts } from '@/utils/callouts';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { metadataEntries, revisionTableHeaders, revisionTableRow } from '@/utils/documentMetadata';
+import { ManualStrings, manualStrings } from '@/utils/outputLanguage';
+import { CONFIRMATION_COLOR, OPERATION_COLOR, isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
 
 /**
- * 紺色の円形ナンバリング（中心ズレを完璧に抑え、広大な余白で削れを防止）
+ * 円形ナンバリング（操作は紺・結果確認はエメラルドのチェックマーク。中心ズレを完璧に抑え、広大な余白で削れを防止）
  */
-function createStepNumberSvg(number: number): string {
+function createStepNumberSvg(step: ManualStep): string {
   // サイズを128に拡大し、半径32の円を配置。
   // 周囲の広大な透明エリアが、PDF変換時の座標計算ズレをすべて吸収します。
   const size = 128; // 広域バッファ
   const radius = 32;
   const svg = `
     <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
-        <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="#1e1b4b" />
-        <text x="50%" y="50%" dominant-baseline="central" text-anchor="middle" fill="white" font-family="sans-serif" font-weight="bold" font-size="28px">${number}</text>
+        <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="${isConfirmationStep(step) ? CONFIRMATION_COLOR : OPERATION_COLOR}" />
+        <text x="50%" y="50%" dominant-baseline="central" text-anchor="middle" fill="white" font-family="sans-serif" font-weight="bold" font-size="28px">${stepNumberLabel(step)}</text>
     </svg>`;
   return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
 }
 
+/** 結果確認ステップの表題に付ける「確認」バッジ */
+function kindBadgeHtml(step: ManualStep, strings: ManualStrings): string {
+  return isConfirmationStep(step) ? `<span class="kind-badge">${strings.confirmationBadge}</span>` : '';
+}
+
+/**
+ * コールアウト（注意・警告・ヒント）。detail-text の中に置くので pre-wrap の影響を受けないよう改行を含めない
+ */
+function calloutsHtml(step: ManualStep, strings: ManualStrings): string {
+  return visibleCallouts(step).map(callout => {
+    const style = CALLOUT_STYLES[callout.type];
+    return `<div class="callout" style="border-color: ${style.color}; background: ${style.background};"><span class="callout-label" style="color: ${style.color};">【${strings.callouts[callout.type]}】</span>${callout.text}</div>`;
+  }).join('');
+}
+
+/** サブステップ（3-1, 3-2…）。calloutsHtml と同じく改行を含めない */
+function subStepsHtml(step: ManualStep): string {
+  return visibleSubSteps(step).map((sub, i) =>
+    `<div class="sub-step"><span class="sub-step-num">${subStepLabel(step, i)}</span><span class="sub-step-action">${sub.action}</span>` +
+    (sub.detail ? `<div class="sub-step-detail">${sub.detail}</div>` : '') +
+    (sub.screenshot ? `<div class="sub-step-img"><img src="${sub.screenshot}" /></div>` : '') +
+    `</div>`
+  ).join('');
+}
+
 /**
  * 日本語タイトルの文字化け回避用画像生成
  */
@@ -50,140 +82,165 @@ function getImageDimensions(base64: string): Promise<{ width: number; height: nu
 
 export async function generateHTML(manual: ManualData): Promise<string> {
   let stepsHtml = '';
-  let currentVideoIndex = 0; // 動画IDを追跡
-
-  for (let i = 0; i < manual.steps.length;) {
-    const step = manual.steps[i];
-    const isTwoCol = step.layout === 'two-column';
-    const isTwoRowV = step.layout === 'two-row-vertical';
-
-    // 動画が切り替わったら改ページ用スタイルを適用
-    const needsPageBreak = i > 0 && step.videoIndex !== currentVideoIndex;
-    if (needsPageBreak) {
-      currentVideoIndex = step.videoIndex || 0;
-    }
-
-    const pageBreakStyle = needsPageBreak ? 'style="page-break-before: always; margin-top: 20mm;"' : '';
-
-    // 縦2行レイアウト: 2ステップを上下に並べて1ページに収める
-    if (isTwoRowV) {
-      let nextStep: ManualStep | null = manual.steps[i + 1] || null;
-      let increment = 2;
-
-      if (nextStep && (nextStep.videoIndex !== step.videoIndex || nextStep.layout !== 'two-row-vertical')) {
-        nextStep = null;
-        increment = 1;
+  const resolveBranches = createBranchResolver(manual);
+  const strings = manualStrings(manual.language);
+  // 条件分岐（calloutsHtml と同じく detail-text の中に置く）
+  const branchesHtml = (step: ManualStep) =>
+    resolveBranches(step).map(branch => `<div class="branch">◆ ${formatBranch(branch, manual.language)}</div>`).join('');
+  const sectionGroups = groupStepsBySection(manual).filter(g => g.steps.length > 0);
+
+  for (let g = 0; g < sectionGroups.length; g++) {
+    const { section, steps } = sectionGroups[g];
+    const isTwoCol = section.layout === 'two-column';
+    const isTwoRowV = section.layout === 'two-row-vertical';
+
+    // セクションが切り替わったら改ページし、見出しを置く
+    const pageBreakStyle = g > 0 ? 'style="page-break-before: always; margin-top: 20mm;"' : '';
+    stepsHtml += `<div class="section-heading" ${pageBreakStyle}>
+      <h2 class="section-title">${section.title}</h2>
+      ${section.description ? `<p class="section-description">${section.description}</p>` : ''}
+    </div>`;
+
+    for (let i = 0; i < steps.length;) {
+      const step = steps[i];
+
+      // 縦2行レイアウト: 2ステップを上下に並べて1ページに収める
+      if (isTwoRowV) {
+        const nextStep: ManualStep | null = steps[i + 1] || null;
+        const increment = nextStep ? 2 : 1;
+
+        const renderTwoRowStep = async (s: ManualStep) => {
+          let imgStyle = 'max-width: 100%; max-height: 100%; object-fit: contain;';
+          if (s.screenshot) {
+            const dims = await getImageDimensions(s.screenshot);
+            const isLandscape = dims.width >= dims.height;
+            if (!isLandscape) {
+              imgStyle = 'width: 71.25mm; height: 95mm; object-fit: contain;';
+            }
+          }
+          return `
+            <div class="step-header single-col">
+              <div class="num-icon-wrapper"><img src="${createStepNumberSvg(s)}" class="num-icon" /></div>
+              <div class="action-text single-col">${kindBadgeHtml(s, strings)}${s.action}</div>
+            </div>
+            <div class="text-container single-col">
+              <div class="detail-text single-col two-row-detail">${s.detail}${calloutsHtml(s, strings)}${subStepsHtml(s)}${branchesHtml(s)}</div>
+            </div>
+            ${s.screenshot ? `<div class="img-box two-row-v"><img src="${s.screenshot}" style="${imgStyle}" /></div>` : ''}
+          `;
+        };
+
+        const stepHtml1 = await renderTwoRowStep(step);
+        const stepHtml2 = nextStep ? await renderTwoRowStep(nextStep) : '';
+
+        stepsHtml += `<div class="step-row two-row-v">
+          <div class="step-card two-row-v">${stepHtml1}</div>
+          ${nextStep ? `<div class="step-card two-row-v">${stepHtml2}</div>` : ''}
+        </div>`;
+
+        i += increment;
+        continue;
       }
 
-      const renderTwoRowStep = async (s: ManualStep) => {
-        let imgStyle = 'max-width: 100%; max-height: 100%; object-fit: contain;';
-        if (s.screenshot) {
-          const dims = await getImageDimensions(s.screenshot);
-          const isLandscape = dims.width >= dims.height;
-          if (!isLandscape) {
-            imgStyle = 'width: 71.25mm; height: 95mm; object-fit: contain;';
+      let initialImgStyle = '';
+      if (step.screenshot) {
+        const dims = await getImageDimensions(step.screenshot);
+        const isLandscape = dims.width >= dims.height;
+        if (!isLandscape) {
+          if (isTwoCol) {
+            initialImgStyle = `width: 48.75mm; height: 65mm; object-fit: contain;`;
+          } else {
+            initialImgStyle = `width: 71.25mm; height: 95mm; object-fit: contain;`;
           }
-        }
-        return `
-          <div class="step-header single-col">
-            <div class="num-icon-wrapper"><img src="${createStepNumberSvg(s.stepNumber)}" class="num-icon" /></div>
-            <div class="action-text single-col">${s.action}</div>
-          </div>
-          <div class="text-container single-col">
-            <div class="detail-text single-col two-row-detail">${s.detail}</div>
-          </div>
-          ${s.screenshot ? `<div class="img-box two-row-v"><img src="${s.screenshot}" style="${imgStyle}" /></div>` : ''}
-        `;
-      };
-
-      const stepHtml1 = await renderTwoRowStep(step);
-      const stepHtml2 = nextStep ? await renderTwoRowStep(nextStep) : '';
-
-      stepsHtml += `<div class="step-row two-row-v" ${pageBreakStyle}>
-        <div class="step-card two-row-v">${stepHtml1}</div>
-        ${nextStep ? `<div class="step-card two-row-v">${stepHtml2}</div>` : ''}
-      </div>`;
-
-      i += increment;
-      continue;
-    }
-
-    let initialImgStyle = '';
-    if (step.screenshot) {
-      const dims = await getImageDimensions(step.screenshot);
-      const isLandscape = dims.width >= dims.height;
-      if (!isLandscape) {
-        if (isTwoCol) {
-          initialImgStyle = `width: 48.75mm; height: 65mm; object-fit: contain;`;
         } else {
-          initialImgStyle = `width: 71.25mm; height: 95mm; object-fit: contain;`;
+          initialImgStyle = `max-width: 100%; max-height: 100%; object-fit: contain;`;
         }
-      } else {
-        initialImgStyle = `max-width: 100%; max-height: 100%; object-fit: contain;`;
-      }
-    }
-
-    const colClass = isTwoCol ? 'two-col' : 'single-col';
-    const stepHtml = `
-      <div class="step-header ${colClass}">
-          <div class="num-icon-wrapper"><img src="${createStepNumberSvg(step.stepNumber)}" class="num-icon" /></div>
-          <div class="action-text ${colClass}">${step.action}</div>
-      </div>
-      <div class="text-container ${colClass}">
-          <div class="detail-text ${colClass}">${step.detail}</div>
-      </div>
-      ${step.screenshot ? `<div class="img-box ${colClass}"><img src="${step.screenshot}" style="${initialImgStyle}" /></div>` : ''}
-    `;
-
-    if (isTwoCol) {
-      let nextStep: ManualStep | null = manual.steps[i + 1] || null;
-      let increment = 2;
-
-      // もし右側のステップが別の動画だった場合、この行には配置せず次回に回す
-      if (nextStep && nextStep.videoIndex !== step.videoIndex) {
-        nextStep = null;
-        increment = 1;
       }
 
-      let nextStepHtmlContent = '';
-      if (nextStep) {
-        let nextImgStyle = `max-width: 100%; max-height: 100%; object-fit: contain;`;
-        if (nextStep.screenshot) {
-          const dims = await getImageDimensions(nextStep.screenshot);
-          const isLandscape = dims.width >= dims.height;
-          if (!isLandscape) {
-            nextImgStyle = `width: 48.75mm; height: 65mm; object-fit: contain;`;
+      const colClass = isTwoCol ? 'two-col' : 'single-col';
+      const stepHtml = `
+        <div class="step-header ${colClass}">
+            <div class="num-icon-wrapper"><img src="${createStepNumberSvg(step)}" class="num-icon" /></div>
+            <div class="action-text ${colClass}">${kindBadgeHtml(step, strings)}${step.action}</div>
+        </div>
+        <div class="text-container ${colClass}">
+            <div class="detail-text ${colClass}">${step.detail}${calloutsHtml(step, strings)}${subStepsHtml(step)}${branchesHtml(step)}</div>
+        </div>
+        ${step.screenshot ? `<div class="img-box ${colClass}"><img src="${step.screenshot}" style="${initialImgStyle}" /></div>` : ''}
+      `;
+
+      if (isTwoCol) {
+        const nextStep: ManualStep | null = steps[i + 1] || null;
+        const increment = nextStep ? 2 : 1;
+
+        let nextStepHtmlContent = '';
+        if (nextStep) {
+          let nextImgStyle = `max-width: 100%; max-height: 100%; object-fit: contain;`;
+          if (nextStep.screenshot) {
+            const dims = await getImageDimensions(nextStep.screenshot);
+            const isLandscape = dims.width >= dims.height;
+            if (!isLandscape) {
+              nextImgStyle = `width: 48.75mm; height: 65mm; object-fit: contain;`;
+            }
           }
+          nextStepHtmlContent = `
+                          <div class="step-header ${colClass}">
+                              <div class="num-icon-wrapper"><img src="${createStepNumberSvg(nextStep)}" class="num-icon" /></div>
+                              <div class="action-text ${colClass}">${kindBadgeHtml(nextStep, strings)}${nextStep.action}</div>
+                          </div>
+                          <div class="text-container ${colClass}">
+                              <div class="detail-text ${colClass}">${nextStep.detail}${calloutsHtml(nextStep, strings)}${subStepsHtml(nextStep)}${branchesHtml(nextStep)}</div>
+                          </div>
+                          ${nextStep.screenshot ? `<div class="img-box ${colClass}"><img src="${nextStep.screenshot}" style="${nextImgStyle}" /></div>` : ''}
+          `;
         }
-        nextStepHtmlContent = `
-                        <div class="step-header ${colClass}">
-                            <div class="num-icon-wrapper"><img src="${createStepNumberSvg(nextStep.stepNumber)}" class="num-icon" /></div>
-                            <div class="action-text ${colClass}">${nextStep.action}</div>
-                        </div>
-                        <div class="text-container ${colClass}">
-                            <div class="detail-text ${colClass}">${nextStep.detail}</div>
-                        </div>
-                        ${nextStep.screenshot ? `<div class="img-box ${colClass}"><img src="${nextStep.screenshot}" style="${nextImgStyle}" /></div>` : ''}
-        `;
+        stepsHtml += `<div class="step-row ${colClass}">
+                    <div class="step-card ${colClass}">${stepHtml}</div>
+                    <div class="step-card ${colClass}" style="${nextStep ? '' : 'visibility:hidden'}">
+                        ${nextStepHtmlContent}
+                    </div>
+                </div>`;
+
+        i += increment;
+      } else {
+        stepsHtml += `<div class="step-row ${colClass}" style="page-break-inside: avoid;"><div class="step-card ${colClass}">${stepHtml}</div></div>`;
+        i++;
       }
-      stepsHtml += `<div class="step-row ${colClass}" ${pageBreakStyle}>
-                  <div class="step-card ${colClass}">${stepHtml}</div>
-                  <div class="step-card ${colClass}" style="${nextStep ? '' : 'visibility:hidden'}">
-                      ${nextStepHtmlContent}
-                  </div>
-              </div>`;
-
-      i += increment;
-    } else {
-      stepsHtml += `<div class="step-row ${colClass}" ${pageBreakStyle} style="page-break-inside: avoid;"><div class="step-card ${colClass}">${stepHtml}</div></div>`;
-      i++;
     }
   }
 
+  const notes = (manual.notes || []).filter(n => n.trim() !== '');
+  const notesHtml = notes.length > 0
+    ? `<div class="manual-notes-section">
+        <span class="notes-label">■ ${strings.notes}</span>
+        <ul class="notes-list">${notes.map(note => `<li>${note}</li>`).join('')}</ul>
+    </div>`
+    : '';
+
+  // 文書管理情報: HTML のフロントマター（meta）・表紙・改訂表に出す
+  const metadata = metadataEntries(manual);
+  const metaTags = metadata
+    .map(e => `<meta name="${e.frontMatterKey.replace(/_/g, '-')}" content="${e.value.replace(/"/g, '&quot;')}">`)
+    .join('\n  ');
+  const coverMetaHtml = metadata.length > 0
+    ? `<table class="cover-meta">${metadata.map(e => `<tr><th>${e.label}</th><td>${e.value}</td></tr>`).join('')}</table>`
+    : '';
+  const revisionHtml = metadata.length > 0
+    ? `<div class="revision-section">
+        <span class="overview-label">■ ${strings.revisionHistory}</span>
+        <table class="revision-table">
+          <tr>${revisionTableHeaders(manual.language).map(label => `<th>${label}</th>`).join('')}</tr>
+          <tr>${revisionTableRow(manual).map(v => `<td>${v}</td>`).join('')}</tr>
+        </table>
+    </div>`
+    : '';
+
   return `<!DOCTYPE html>
-<html lang="ja">
+<html lang="${strings.htmlLang}">
 <head>
   <meta charset="UTF-8">
+  <title>${manual.title}</title>
+  ${metaTags}
   <style>
     * { box-sizing: border-box; margin: 0; padding: 0; }
     body { 
@@ -198,6 +255,14 @@ export async function generateHTML(manual: ManualData): Promise<string> {
     }
     .cover-label { font-size: 14pt; color: #1e1b4b; font-weight: bold; margin-bottom: 5mm; }
     .cover-title { font-size: 38pt; font-weight: 800; color: #0f172a; line-height: 1.2; }
+    .cover-meta { margin-top: 15mm; border-collapse: collapse; font-size: 10.5pt; }
+    .cover-meta th { color: #1e1b4b; font-weight: bold; text-align: left; padding: 1mm 6mm 1mm 0; white-space: nowrap; }
+    .cover-meta td { color: #0f172a; padding: 1mm 0; }
+
+    .revision-section { margin-bottom: 10mm; page-break-inside: avoid; }
+    .revision-table { width: 100%; border-collapse: collapse; font-size: 9.5pt; }
+    .revision-table th, .revision-table td { border: 0.3mm solid #1e1b4b; padding: 2mm; text-align: center; }
+    .revision-table th { background: #f1f5f9; font-weight: bold; }
 
     .content-area { padding-top: 10mm; }
     
@@ -208,6 +273,23 @@ export async function generateHTML(manual: ManualData): Promise<string> {
     .overview-label { font-size: 11pt; font-weight: bold; color: #1e1b4b; margin-bottom: 3mm; display: block; }
     .overview-text { font-size: 10.5pt; color: #334155; line-height: 1.8; white-space: pre-wrap; }
 
+    .manual-notes-section {
+        margin-top: 10mm; padding: 6mm; background: #fffbeb;
+        border-radius: 2mm; border-left: 2mm solid #f59e0b;
+        page-break-inside: avoid;
+    }
+    .notes-label { font-size: 11pt; font-weight: bold; color: #b45309; margin-bottom: 3mm; display: block; }
+    .notes-list { padding-left: 5mm; font-size: 10.5pt; color: #334155; line-height: 1.8; }
+    .notes-list li { white-space: pre-wrap; }
+
+    .section-heading {
+        margin-bottom: 8mm; padding-bottom: 2mm;
+        border-bottom: 0.6mm solid #1e1b4b;
+        page-break-after: avoid; break-after: avoid;
+    }
+    .section-title { font-size: 15pt; font-weight: 800; color: #1e1b4b; }
+    .section-description { font-size: 10pt; color: #334155; margin-top: 2mm; white-space: pre-wrap; }
+
     .step-row {
         display: flex; gap: 8mm; margin-bottom: 12mm; /* 15mmから短縮 */
         page-break-inside: avoid; break-inside: avoid;
@@ -240,6 +322,11 @@ export async function generateHTML(manual: ManualData): Promise<string> {
         color: #1e1b4b; 
     }
     .action-text.two-col { line-height: 1.1; }
+    .kind-badge {
+        display: inline-block; margin-right: 2mm; padding: 0.3mm 1.5mm;
+        font-size: 0.7em; color: #059669; border: 0.3mm solid #059669; border-radius: 1mm;
+        vertical-align: middle;
+    }
     .action-text.single-col { line-height: 1.4; padding-top: 1.5mm; }
     
     /* 画像の高さを揃えるためのテキストコンテナ */
@@ -255,6 +342,22 @@ export async function generateHTML(manual: ManualData): Promise<string> {
         white-space: pre-wrap; color: #000; 
     }
     .detail-text.two-col { margin-bottom: 2.5mm !important; }
+    .callout {
+        margin-top: 2mm; padding: 1.5mm 2.5mm;
+        border-left: 1mm solid; border-radius: 1mm;
+        font-size: 9pt;
+    }
+    .callout-label { font-weight: bold; }
+    .sub-step { margin-top: 2mm; padding-left: 3mm; border-left: 0.5mm solid #cbd5e1; }
+    .sub-step-num {
+        display: inline-block; margin-right: 2mm; padding: 0 1.5mm;
+        background: #334155; color: #fff; border-radius: 1mm; font-size: 8pt; font-weight: bold;
+    }
+    .sub-step-action { font-weight: bold; }
+    .sub-step-detail { font-size: 8.5pt; color: #334155; margin-top: 0.5mm; }
+    .sub-step-img { margin-top: 1mm; height: 35mm; display: flex; }
+    .sub-step-img img { max-height: 35mm; width: auto; border: 0.3mm solid #eee; border-radius: 1mm; }
+    .branch { margin-top: 1.5mm; font-size: 9pt; font-weight: bold; color: #4f46e5; }
     .detail-text.single-col { margin-bottom: 15mm !important; }
     
     /* 【絶対見切れない対策】画像ボックスの高さを固定から可変に変更 */
@@ -303,15 +406,20 @@ export async function generateHTML(manual: ManualData): Promise<string> {
   <div class="cover-page">
     <div class="cover-label">OPERATIONAL STANDARD</div>
     <h1 class="cover-title">${manual.title}</h1>
+    ${coverMetaHtml}
   </div>
 
   <div class="content-area">
+    ${revisionHtml}
+
     <div class="manual-overview-section">
         <span class="overview-label">■ DOCUMENT OVERVIEW</span>
         <p class="overview-text">${manual.overview}</p>
     </div>
 
     ${stepsHtml}
+
+    ${notesHtml}
   </div>
 </body>
 </html>`;
@@ -323,7 +431,8 @@ export async function generateAndDownloadPdf(manual: ManualData, safeTitle: stri
   container.innerHTML = await generateHTML(manual);
   document.body.appendChild(container);
 
-  const titleImageData = createTextAsImage(manual.title, 32, '#1e1b4b');
+  const headerTitle = manual.metadata?.documentId ? `${manual.metadata.documentId}　${manual.title}` : manual.title;
+  const titleImageData = createTextAsImage(headerTitle, 32, '#1e1b4b');
 
   const opt = {
     margin: [20, 15, 23, 15] as [number, number, number, number], // Increased bottom margin from 15 to 23 to prevent footer numbering getting cut off
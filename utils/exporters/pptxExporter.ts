@@ -1,4 +1,11 @@
-import { ManualData } from '@/app/page';
+import { ManualData, ManualSection } from '@/app/page';
+import { groupStepsBySection } from '@/utils/sections';
+import { CALLOUT_STYLES, visibleCallouts } from '@/utils/callouts';
+import { createBranchResolver, formatBranch } from '@/utils/branches';
+import { subStepLabel, visibleSubSteps } from '@/utils/subSteps';
+import { DocumentMetadataEntry, metadataEntries, REVISION_TABLE_FIELDS, revisionTableHeaders, revisionTableRow } from '@/utils/documentMetadata';
+import { ManualStrings, manualStrings } from '@/utils/outputLanguage';
+import { CONFIRMATION_COLOR, OPERATION_COLOR, isConfirmationStep, stepNumberLabel } from '@/utils/stepKind';
 
 /**
  * 画像のサイズを取得してアスペクト比を判定する
@@ -15,7 +22,7 @@ function getImageDimensions(base64: string): Promise<{ width: number; height: nu
 /**
  * ナンバリング画像をCanvasで生成（OKをいただいた状態を完全維持）
  */
-function createStepNumberImage(number: number): string {
+function createStepNumberImage(label: string, color: string = OPERATION_COLOR): string {
     const size = 128;
     const canvas = document.createElement('canvas');
     canvas.width = size;
@@ -23,7 +30,7 @@ function createStepNumberImage(number: number): string {
     const ctx = canvas.getContext('2d');
     if (!ctx) return '';
 
-    ctx.fillStyle = '#1E1B4B';
+    ctx.fillStyle = color;
     ctx.beginPath();
     ctx.arc(size / 2, size / 2, 58, 0, Math.PI * 2);
     ctx.fill();
@@ -32,7 +39,7 @@ function createStepNumberImage(number: number): string {
     ctx.font = 'bold 72px Arial, sans-serif';
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.fillText(number.toString(), size / 2, size / 2 + 4);
+    ctx.fillText(label, size / 2, size / 2 + 4);
 
     return canvas.toDataURL('image/png');
 }
@@ -42,7 +49,7 @@ export async function generateAndDownloadPptx(manual: ManualData, safeTitle: str
     const pptx = new pptxgen();
 
     // 縦2行レイアウトが1つでもあれば、ファイル全体をA4縦に設定
-    const isPortraitFile = manual.steps.some(s => s.layout === 'two-row-vertical');
+    const isPortraitFile = manual.sections.some(s => s.layout === 'two-row-vertical');
 
     // スライドサイズをポートレート/ランドスケープで切り替え
     const SLIDE_W = isPortraitFile ? 8.27 : 11.69;
@@ -62,80 +69,100 @@ export async function generateAndDownloadPptx(manual: ManualData, safeTitle: str
     const FONT_FACE = 'Meiryo UI';
 
     // 1. 表紙
+    const metadata = metadataEntries(manual);
+    const strings = manualStrings(manual.language);
+    const headerTitle = manual.metadata?.documentId ? `${manual.metadata.documentId}　${manual.title}` : manual.title;
     const coverSlide = pptx.addSlide();
     if (isPortraitFile) {
         coverSlide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: '100%', h: 0.30, fill: { color: NAVY } });
         // @ts-ignore
         coverSlide.addText('OPERATIONAL STANDARD', { x: 1.0, y: 3.5, w: 6, h: 0.4, fontSize: 16, color: NAVY, bold: false, fontFace: FONT_FACE, tracking: 2 });
         coverSlide.addText(manual.title, { x: 1.0, y: 4.0, w: '85%', h: 2.0, fontSize: 36, color: SLATE_900, bold: false, fontFace: FONT_FACE, valign: 'top', margin: 0 });
+        addCoverMetadata(coverSlide, metadata, 1.0, 6.4, SLIDE_W - 2.0);
         coverSlide.addShape(pptx.ShapeType.rect, { x: 0, y: 11.39, w: '100%', h: 0.30, fill: { color: NAVY } });
     } else {
         coverSlide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: '100%', h: 0.30, fill: { color: NAVY } });
         // @ts-ignore
         coverSlide.addText('OPERATIONAL STANDARD', { x: 1.0, y: 2.8, w: 6, h: 0.4, fontSize: 16, color: NAVY, bold: false, fontFace: FONT_FACE, tracking: 2 });
         coverSlide.addText(manual.title, { x: 1.0, y: 3.3, w: '85%', h: 1.5, fontSize: 42, color: SLATE_900, bold: false, fontFace: FONT_FACE, valign: 'top', margin: 0 });
+        addCoverMetadata(coverSlide, metadata, 1.0, 5.1, SLIDE_W - 2.0);
         coverSlide.addShape(pptx.ShapeType.rect, { x: 0, y: 7.97, w: '100%', h: 0.30, fill: { color: NAVY } });
     }
 
     // 2. 概要スライド
-    const steps = manual.steps;
     const overviewSlide = pptx.addSlide();
-    addHeaderFooter(overviewSlide, pptx, manual.title, 1, isPortraitFile);
+    addHeaderFooter(overviewSlide, pptx, headerTitle, 1, isPortraitFile);
     if (isPortraitFile) {
         // 高さを元の約3分の1（8.0 -> 2.8）に縮小
         overviewSlide.addShape(pptx.ShapeType.rect, { x: 0.8, y: 1.3, w: 6.7, h: 2.8, fill: { color: 'F8FAFC' }, line: { color: '1E1B4B', width: 0.1, pt: 3 } });
         overviewSlide.addText('■ DOCUMENT OVERVIEW', { x: 1.0, y: 1.5, w: 5, h: 0.4, fontSize: 11, color: NAVY, bold: true, fontFace: FONT_FACE });
         overviewSlide.addText(manual.overview, { x: 1.0, y: 2.0, w: 6.3, h: 2.0, fontSize: 11, color: SLATE_600, fontFace: FONT_FACE, valign: 'top', breakLine: true, lineSpacing: 22 });
+        if (metadata.length > 0) addRevisionTable(overviewSlide, manual, 0.8, 4.5, 6.7);
     } else {
         overviewSlide.addShape(pptx.ShapeType.rect, { x: 1.0, y: 1.3, w: 9.7, h: 2.6, fill: { color: 'F8FAFC' }, line: { color: '1E1B4B', width: 0.1, pt: 3 } });
         overviewSlide.addText('■ DOCUMENT OVERVIEW', { x: 1.2, y: 1.5, w: 5, h: 0.4, fontSize: 11, color: NAVY, bold: true, fontFace: FONT_FACE });
         overviewSlide.addText(manual.overview, { x: 1.2, y: 2.0, w: 9.3, h: 1.8, fontSize: 11, color: SLATE_600, fontFace: FONT_FACE, valign: 'top', breakLine: true, lineSpacing: 22 });
+        if (metadata.length > 0) addRevisionTable(overviewSlide, manual, 1.0, 4.3, 9.7);
     }
 
-    let currentVideoIndex = 0;
+    const resolveBranches = createBranchResolver(manual);
     let slide: any = null;
     let itemsOnSlide = 0;
     let pageNum = 1;
 
-    for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
-        const isTwoCol = step.layout === 'two-column';
-        const isTwoRowV = step.layout === 'two-row-vertical';
-
-        const isNewVideo = i > 0 && step.videoIndex !== currentVideoIndex;
-        if (isNewVideo) {
-            currentVideoIndex = step.videoIndex || 0;
-        }
-
-        const maxItems = (isTwoCol || isTwoRowV) ? 2 : 1;
-        if (!slide || itemsOnSlide >= maxItems || isNewVideo) {
-            slide = pptx.addSlide();
-            pageNum++;
-            addHeaderFooter(slide, pptx, manual.title, pageNum, isPortraitFile);
-            itemsOnSlide = 0;
-        }
+    for (const { section, steps } of groupStepsBySection(manual)) {
+        if (steps.length === 0) continue;
+        const isTwoCol = section.layout === 'two-column';
+        const isTwoRowV = section.layout === 'two-row-vertical';
+
+        // セクション扉スライド（見出し）を挟み、ステップは次のスライドから配置する
+        pageNum++;
+        const sectionSlide = pptx.addSlide();
+        addHeaderFooter(sectionSlide, pptx, headerTitle, pageNum, isPortraitFile);
+        addSectionTitle(sectionSlide, pptx, section, SLIDE_W, SLIDE_H);
+        slide = null;
+
+        for (const step of steps) {
+            const maxItems = (isTwoCol || isTwoRowV) ? 2 : 1;
+            if (!slide || itemsOnSlide >= maxItems) {
+                slide = pptx.addSlide();
+                pageNum++;
+                addHeaderFooter(slide, pptx, headerTitle, pageNum, isPortraitFile);
+                itemsOnSlide = 0;
+            }
 
-        let xPos: number;
-        let yOffset: number = 0;
+            let xPos: number;
+            let yOffset: number = 0;
+
+            if (isTwoRowV) {
+                xPos = 1.0;
+                // A4縦のコンテンツエリア: ヘッダー後(0.65) 〜 フッター前(SLIDE_H-0.5)
+                // 中間点から下半分のステップを開始する
+                const contentStart = 0.65;
+                const contentEnd = SLIDE_H - 0.5;
+                const midY = contentStart + (contentEnd - contentStart) / 2;
+                // step2の baseY = midY - 0.3. baseY = 0.85 + yOffset なので:
+                // 1行目と2行目の間隔を狭くするため、基準点を上に引き上げる（+0.3から-0.3へ変更）
+                yOffset = itemsOnSlide === 1 ? midY - 0.3 - 0.85 : 0;
+            } else if (isTwoCol) {
+                xPos = itemsOnSlide === 1 ? 6.1 : 0.7;
+            } else {
+                xPos = 0.7;
+            }
 
-        if (isTwoRowV) {
-            xPos = 1.0;
-            // A4縦のコンテンツエリア: ヘッダー後(0.65) 〜 フッター前(SLIDE_H-0.5)
-            // 中間点から下半分のステップを開始する
-            const contentStart = 0.65;
-            const contentEnd = SLIDE_H - 0.5;
-            const midY = contentStart + (contentEnd - contentStart) / 2;
-            // step2の baseY = midY - 0.3. baseY = 0.85 + yOffset なので:
-            // 1行目と2行目の間隔を狭くするため、基準点を上に引き上げる（+0.3から-0.3へ変更）
-            yOffset = itemsOnSlide === 1 ? midY - 0.3 - 0.85 : 0;
-        } else if (isTwoCol) {
-            xPos = itemsOnSlide === 1 ? 6.1 : 0.7;
-        } else {
-            xPos = 0.7;
+            const branchLines = resolveBranches(step).map(branch => formatBranch(branch, manual.language));
+            await addStepToSlide(slide, pptx, step, xPos, isTwoCol, isTwoRowV, yOffset, SLIDE_W, SLIDE_H, branchLines, strings);
+            itemsOnSlide++;
         }
+    }
 
-        await addStepToSlide(slide, pptx, step, xPos, isTwoCol, isTwoRowV, yOffset, SLIDE_W, SLIDE_H);
-        itemsOnSlide++;
+    // 3. 注意事項スライド（全ステップの後ろ）
+    const notes = (manual.notes || []).filter(n => n.trim() !== '');
+    if (notes.length > 0) {
+        pageNum++;
+        const notesSlide = pptx.addSlide();
+        addHeaderFooter(notesSlide, pptx, headerTitle, pageNum, isPortraitFile);
+        addNotes(notesSlide, pptx, notes, SLIDE_W, SLIDE_H, strings.notes);
     }
 
     await pptx.writeFile({ fileName: `${safeTitle}.pptx` });
@@ -159,10 +186,76 @@ function addHeaderFooter(slide: any, pptx: any, title: string, pageNum: number,
     }
 }
 
+function addSectionTitle(slide: any, pptx: any, section: ManualSection, slideW: number, slideH: number) {
+    const NAVY = '1E1B4B';
+    const SLATE_600 = '475569';
+    const FONT_FACE = 'Meiryo UI';
+    const x = 1.0;
+    const w = slideW - 2.0;
+    const y = slideH / 2 - 1.0;
+
+    slide.addShape(pptx.ShapeType.rect, { x, y, w: 0.08, h: 0.9, fill: { color: NAVY } });
+    slide.addText(section.title, { x: x + 0.3, y, w: w - 0.3, h: 0.9, fontSize: 28, color: NAVY, bold: true, fontFace: FONT_FACE, valign: 'middle', margin: 0 });
+    if (section.description) {
+        slide.addText(section.description, { x: x + 0.3, y: y + 1.1, w: w - 0.3, h: 1.5, fontSize: 13, color: SLATE_600, fontFace: FONT_FACE, valign: 'top', breakLine: true, margin: 0 });
+    }
+}
+
+/** 表紙のタイトル下に文書管理情報を「ラベル　値」で1行ずつ並べる */
+function addCoverMetadata(slide: any, entries: DocumentMetadataEntry[], x: number, y: number, w: number) {
+    if (entries.length === 0) return;
+    const NAVY = '1E1B4B';
+    const SLATE_900 = '0F172A';
+    const FONT_FACE = 'Meiryo UI';
+    slide.addText(
+        entries.flatMap(entry => [
+            { text: `${entry.label}　`, options: { color: NAVY, bold: true } },
+            { text: entry.value, options: { color: SLATE_900, breakLine: true } },
+        ]),
+        { x, y, w, h: entries.length * 0.3 + 0.1, fontSize: 11, fontFace: FONT_FACE, valign: 'top', margin: 0 }
+    );
+}
+
+/** 概要スライドの下に改訂表（現在の版を1行）を置く */
+function addRevisionTable(slide: any, manual: ManualData, x: number, y: number, w: number) {
+    const NAVY = '1E1B4B';
+    const SLATE_900 = '0F172A';
+    const FONT_FACE = 'Meiryo UI';
+    slide.addText(`■ ${manualStrings(manual.language).revisionHistory}`, { x, y, w: 5, h: 0.4, fontSize: 11, color: NAVY, bold: true, fontFace: FONT_FACE });
+    const cellOptions = { fontSize: 10, fontFace: FONT_FACE, color: SLATE_900, align: 'center', valign: 'middle' };
+    slide.addTable(
+        [
+            revisionTableHeaders(manual.language).map(label => ({ text: label, options: { ...cellOptions, bold: true, fill: { color: 'F1F5F9' } } })),
+            revisionTableRow(manual).map(value => ({ text: value, options: cellOptions })),
+        ],
+        { x, y: y + 0.45, w, colW: REVISION_TABLE_FIELDS.map(() => w / REVISION_TABLE_FIELDS.length), rowH: 0.35, border: { type: 'solid', pt: 0.5, color: NAVY } }
+    );
+}
+
+function addNotes(slide: any, pptx: any, notes: string[], slideW: number, slideH: number, heading: string) {
+    const AMBER = 'F59E0B';
+    const SLATE_600 = '475569';
+    const FONT_FACE = 'Meiryo UI';
+    const x = 1.0;
+    const w = slideW - 2.0;
+    const y = 1.3;
+    // 件数に応じて枠を伸ばす（フッター線の手前まで）
+    const h = Math.min(0.9 + notes.length * 0.45, slideH - y - 1.0);
+
+    slide.addShape(pptx.ShapeType.rect, { x, y, w, h, fill: { color: 'FFFBEB' }, line: { color: AMBER, width: 0.1, pt: 3 } });
+    slide.addText(`■ ${heading}`, { x: x + 0.2, y: y + 0.2, w: 5, h: 0.4, fontSize: 11, color: 'B45309', bold: true, fontFace: FONT_FACE });
+    slide.addText(
+        notes.map(note => ({ text: note, options: { bullet: true, breakLine: true } })),
+        { x: x + 0.2, y: y + 0.7, w: w - 0.4, h: h - 0.8, fontSize: 11, color: SLATE_600, fontFace: FONT_FACE, valign: 'top', lineSpacing: 22 }
+    );
+}
+
 async function addStepToSlide(
     slide: any, pptx: any, step: any,
     xPos: number, isTwoCol: boolean, isTwoRowV: boolean,
-    yOffset: number, slideW: number, slideH: number
+    yOffset: number, slideW: number, slideH: number,
+    branchLines: string[] = [],
+    strings: ManualStrings = manualStrings()
 ) {
     const SLATE_900 = '0F172A';
     const SLATE_600 = '475569';
@@ -176,7 +269,9 @@ async function addStepToSlide(
     const numSize = isTwoRowV ? 0.30 : 0.38;
     // 縦2行の場合、数字が少し小さくなるので、テキストとのバランスを取るためにY座標を少し下げる
     const numY = isTwoRowV ? baseY + 0.05 : baseY;
-    slide.addImage({ data: createStepNumberImage(step.stepNumber), x: xPos, y: numY, w: numSize, h: numSize });
+    // 結果確認ステップは番号の代わりにチェックマーク（エメラルド）、表題に「確認」を添える
+    const isConfirmation = isConfirmationStep(step);
+    slide.addImage({ data: createStepNumberImage(stepNumberLabel(step), isConfirmation ? CONFIRMATION_COLOR : OPERATION_COLOR), x: xPos, y: numY, w: numSize, h: numSize });
 
     // 2. テキスト
     const textX = isTwoRowV ? xPos + 0.55 : xPos + 0.65;
@@ -198,9 +293,48 @@ async function addStepToSlide(
         detailFontSize = 14;
     }
 
-    slide.addText(step.action, { x: textX, y: baseY, w: textW, h: 0.45, fontSize: actionFontSize, color: SLATE_900, bold: true, fontFace: FONT_FACE, valign: 'middle' });
+    slide.addText(
+        isConfirmation
+            ? [{ text: `【${strings.confirmationBadge}】`, options: { color: CONFIRMATION_COLOR.slice(1) } }, { text: step.action }]
+            : step.action,
+        { x: textX, y: baseY, w: textW, h: 0.45, fontSize: actionFontSize, color: SLATE_900, bold: true, fontFace: FONT_FACE, valign: 'middle' }
+    );
     slide.addText(step.detail, { x: textX, y: baseY + 0.65, w: textW, h: 0.65, fontSize: detailFontSize, color: SLATE_600, fontFace: FONT_FACE, valign: 'top', breakLine: true });
 
+    // コールアウト（注意・警告・ヒント）と条件分岐は詳細の下に1行ずつ並べ、その分だけ画像を下げて縮める
+    // サブステップも番号付きの1行として同じ帯に並べる（スライドの紙面が限られるため画像は省略）
+    const callouts = visibleCallouts(step);
+    const subStepLines = visibleSubSteps(step).map((sub, i) => ({ label: subStepLabel(step, i), text: sub.detail ? `${sub.action} — ${sub.detail}` : sub.action }));
+    const CALLOUT_ROW_H = 0.34;
+    const rowCount = callouts.length + subStepLines.length + branchLines.length;
+    const calloutBlockH = rowCount > 0 ? rowCount * CALLOUT_ROW_H + 0.05 : 0;
+    const drawCallouts = (top: number) => {
+        subStepLines.forEach((line, i) => {
+            slide.addText(
+                [{ text: `${line.label}  `, options: { color: '1E1B4B', bold: true } }, { text: line.text }],
+                {
+                    x: textX, y: top + (callouts.length + i) * CALLOUT_ROW_H, w: textW, h: CALLOUT_ROW_H - 0.04,
+                    fontSize: Math.max(detailFontSize - 3, 9), color: SLATE_900, fontFace: FONT_FACE, valign: 'middle', fit: 'shrink'
+                }
+            );
+        });
+        branchLines.forEach((line, i) => {
+            slide.addText(`◆ ${line}`, {
+                x: textX, y: top + (callouts.length + subStepLines.length + i) * CALLOUT_ROW_H, w: textW, h: CALLOUT_ROW_H - 0.04,
+                fontSize: Math.max(detailFontSize - 3, 9), color: '4F46E5', bold: true, fontFace: FONT_FACE, valign: 'middle', fit: 'shrink'
+            });
+        });
+        callouts.forEach((callout, i) => {
+            const style = CALLOUT_STYLES[callout.type];
+            const y = top + i * CALLOUT_ROW_H;
+            slide.addShape(pptx.ShapeType.rect, { x: textX, y, w: textW, h: CALLOUT_ROW_H - 0.04, fill: { color: style.background.slice(1) }, line: { color: style.color.slice(1), width: 0.75 } });
+            slide.addText(
+                [{ text: `【${strings.callouts[callout.type]}】`, options: { color: style.color.slice(1), bold: true } }, { text: callout.text }],
+                { x: textX + 0.05, y, w: textW - 0.1, h: CALLOUT_ROW_H - 0.04, fontSize: Math.max(detailFontSize - 3, 9), color: SLATE_900, fontFace: FONT_FACE, valign: 'middle', fit: 'shrink' }
+            );
+        });
+    };
+
     // 3. 画像配置
     if (step.screenshot) {
         const dims = await getImageDimensions(step.screenshot);
@@ -253,6 +387,16 @@ async function addStepToSlide(
             imgY = 2.6;
         }
 
+        if (calloutBlockH > 0) {
+            const calloutTop = Math.max(imgY, baseY + 1.3);
+            drawCallouts(calloutTop);
+            const shift = calloutTop + calloutBlockH - imgY;
+            const scale = Math.max((finalH - shift) / finalH, 0.5);
+            finalW *= scale;
+            finalH *= scale;
+            imgY += shift;
+        }
+
         const baseImgX = isTwoRowV
             ? (slideW - finalW) / 2
             : isTwoCol ? xPos + (cardWidth - finalW) / 2
@@ -266,5 +410,7 @@ async function addStepToSlide(
             w: finalW,
             h: finalH
         });
+    } else if (calloutBlockH > 0) {
+        drawCallouts(baseY + 1.3);
     }
 }
@@ -0,0 +1,116 @@
+import { ManualData, ManualStep } from '@/app/page';
+import { db, createImageId } from '@/utils/db';
+import { dataUrlToBlob, blobToDataUrl } from '@/utils/imageUtils';
+
+/**
+ * スクリーンショット画像ストア（Dexie の images テーブル）。
+ *
+ * ManualData 側は画像IDだけを持ち、Blob 本体はここで管理する。
+ * 画像は書き換えず常に新しいIDで追加するため、IDごとの Object URL を安全にキャッシュでき、
+ * 表示のたびに base64 をデコードする必要がない。
+ */
+
+// imageId → Object URL（画像は不変なので使い回す）
+const objectUrlCache = new Map<string, string>();
+const pendingLoads = new Map<string, Promise<string | undefined>>();
+
+/** 画像（data URL または Blob）を保存して新しいIDを返す */
+export async function putImage(source: string | Blob): Promise<string> {
+    const blob = typeof source === 'string' ? dataUrlToBlob(source) : source;
+    const id = createImageId();
+    await db.images.add({ id, blob, createdAt: Date.now() });
+    return id;
+}
+
+export async function getImageBlob(id: string): Promise<Blob | undefined> {
+    const record = await db.images.get(id);
+    return record?.blob;
+}
+
+export async function getImageDataUrl(id: string): Promise<string | undefined> {
+    const blob = await getImageBlob(id);
+    return blob ? blobToDataUrl(blob) : undefined;
+}
+
+/** 表示用の Object URL を返す（キャッシュ済みなら即座に返す） */
+export function getImageObjectUrl(id: string): Promise<string | undefined> {
+    const cached = objectUrlCache.get(id);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = pendingLoads.get(id);
+    if (!pending) {
+        pending = getImageBlob(id)
+            .then(blob => {
+                if (!blob) return undefined;
+                const url = URL.createObjectURL(blob);
+                objectUrlCache.set(id, url);
+                return url;
+            })
+            .finally(() => pendingLoads.delete(id));
+        pendingLoads.set(id, pending);
+    }
+    return pending;
+}
+
+/** 同期的に取得できるキャッシュ済み Object URL（未ロードなら undefined） */
+export function peekImageObjectUrl(id: string | undefined): string | undefined {
+    return id ? objectUrlCache.get(id) : undefined;
+}
+
+/** ステップが参照する画像IDをすべて集める */
+export function collectStepImageIds(step: ManualStep, into: Set<string>): void {
+    if (step.screenshotId) into.add(step.screenshotId);
+    if (step.originalId) into.add(step.originalId);
+    step.subSteps?.forEach(sub => { if (sub.screenshotId) into.add(sub.screenshotId); });
+}
+
+export function collectManualImageIds(data: ManualData, into: Set<string> = new Set()): Set<string> {
+    data.steps.forEach(step => collectStepImageIds(step, into));
+    return into;
+}
+
+/**
+ * エクスポーター向けに screenshot / originalUrl を data URL で埋めた ManualData を返す。
+ * 既存のエクスポーターは data URL を前提としているため、出力直前にだけ展開する。
+ */
+export async function hydrateManualImages(data: ManualData): Promise<ManualData> {
+    const hydrateStep = async (step: ManualStep): Promise<ManualStep> => {
+        const screenshot = step.screenshotId ? await getImageDataUrl(step.screenshotId) : undefined;
+        const originalUrl = step.originalId
+            ? (step.originalId === step.screenshotId ? screenshot : await getImageDataUrl(step.originalId))
+            : undefined;
+        const subSteps = step.subSteps && await Promise.all(step.subSteps.map(async sub => ({
+            ...sub,
+            screenshot: (sub.screenshotId ? await getImageDataUrl(sub.screenshotId) : undefined) ?? sub.screenshot,
+        })));
+        return {
+            ...step,
+            screenshot: screenshot ?? step.screenshot,
+            originalUrl: originalUrl ?? step.originalUrl,
+            ...(subSteps ? { subSteps } : {}),
+        };
+    };
+    return { ...data, steps: await Promise.all(data.steps.map(hydrateStep)) };
+}
+
+/**
+ * どのマニュアル・リビジョンからも参照されていない画像を削除する。
+ * 注釈の編集ごとに新しい画像が追加されるため、ライブラリ操作の節目で呼び出す。
+ */
+export async function pruneUnreferencedImages(): Promise<number> {
+    return db.transaction('rw', db.manuals, db.revisions, db.images, async () => {
+        const referenced = new Set<string>();
+        await db.manuals.each(record => { collectManualImageIds(record.data, referenced); });
+        await db.revisions.each(record => { collectManualImageIds(record.data, referenced); });
+
+        const allIds = await db.images.toCollection().primaryKeys();
+        const orphans = allIds.filter(id => !referenced.has(id as string));
+        await db.images.bulkDelete(orphans);
+        orphans.forEach(id => {
+            const url = objectUrlCache.get(id as string);
+            if (url) URL.revokeObjectURL(url);
+            objectUrlCache.delete(id as string);
+        });
+        return orphans.length;
+    });
+}
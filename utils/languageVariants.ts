@@ -0,0 +1,375 @@
+import { ManualData, ManualStep, OutputLanguage } from '@/app/page';
+import { db, ManualRecord } from '@/utils/db';
+import { createManual, loadManual, saveManual } from '@/utils/manualLibrary';
+import { getImageObjectUrl, putImage } from '@/utils/imageStore';
+import { normalizeOutputLanguage } from '@/utils/outputLanguage';
+import { migrateManualData } from '@/utils/manualSchema';
+import { branchKey, calloutKey, noteKey } from '@/utils/translationKeys';
+import { stepNumberLabel } from '@/utils/stepKind';
+
+/**
+ * 翻訳版（言語バリアント）の作成と同期。
+ *
+ * 翻訳版はライブラリ上の独立したマニュアルで、variantOf で翻訳元を指す。
+ * ステップ構成・画像・分岐などは翻訳元から毎回組み立て直し、本文（タイトル・概要・手順・注意事項）と
+ * 画像の注釈テキストだけを翻訳版が持つ。そのため翻訳元で画像を差し替えたり注釈を動かしたりすると、
+ * syncLanguageVariants() で翻訳版にもそのまま反映される。
+ *
+ * 本文は項目キー（'title' / 'overview' / 'section:<id>' / 'step:<uid>:action' など。ID の無い注意事項・注意書き・分岐は
+ * 原文のハッシュ。utils/translationKeys.ts）で対応付け、訳文を variantOf.texts に、翻訳した時点の原文を
+ * variantOf.sourceTexts に残しておく。原文がその後変わった項目は「要再翻訳」になる。
+ */
+
+export interface LanguageVariantSummary {
+    id: string;
+    language: OutputLanguage;
+    title: string;
+    pendingCount: number; // 未翻訳・要再翻訳の項目数（注釈を含む）
+}
+
+export interface PendingTranslation {
+    texts: Record<string, string>; // 項目キー → 原文
+    annotations: string[]; // 訳文の無い注釈テキスト（原文）
+}
+
+const ANNOTATION_KEY_PREFIX = 'annotation:';
+
+const isTextbox = (obj: any): boolean => typeof obj?.type === 'string' && obj.type.toLowerCase() === 'textbox';
+
+/** 翻訳対象の本文1項目（label は訳文の編集画面での見出し） */
+export interface TranslatableItem {
+    key: string;
+    label: string;
+    text: string;
+}
+
+/** 翻訳対象の本文を並び順に列挙する（空欄は除く。原文が同じでキーが重なる項目は最初の1件だけ） */
+export function listTranslatableItems(data: ManualData): TranslatableItem[] {
+    const items: TranslatableItem[] = [];
+    const seen = new Set<string>();
+    const add = (key: string, label: string, value?: string) => {
+        if (!value || !value.trim() || seen.has(key)) return;
+        seen.add(key);
+        items.push({ key, label, text: value });
+    };
+
+    add('title', 'タイトル', data.title);
+    add('overview', '概要', data.overview);
+    data.sections.forEach(section => {
+        add(`section:${section.id}`, 'セクション名', section.title);
+        add(`section:${section.id}:description`, `セクション「${section.title}」の説明`, section.description);
+    });
+    data.steps.forEach(step => {
+        if (!step.uid) return;
+        const prefix = `step:${step.uid}`;
+        const name = `手順 ${stepNumberLabel(step)}`;
+        add(`${prefix}:action`, `${name} の操作`, step.action);
+        add(`${prefix}:detail`, `${name} の説明`, step.detail);
+        step.callouts?.forEach(callout => add(calloutKey(prefix, callout.text), `${name} の注意書き`, callout.text));
+        step.branches?.forEach(branch => add(branchKey(prefix, branch.label), `${name} の分岐`, branch.label));
+        step.subSteps?.forEach((sub, i) => {
+            add(`${prefix}:sub:${sub.uid}:action`, `${name} のサブステップ ${i + 1} の操作`, sub.action);
+            add(`${prefix}:sub:${sub.uid}:detail`, `${name} のサブステップ ${i + 1} の説明`, sub.detail);
+        });
+    });
+    (data.notes || []).forEach(note => add(noteKey(note), '注意事項', note));
+    return items;
+}
+
+/** 翻訳対象の本文を項目キーごとに集める（空欄は除く） */
+export function collectTranslatableTexts(data: ManualData): Record<string, string> {
+    return Object.fromEntries(listTranslatableItems(data).map(item => [item.key, item.text]));
+}
+
+/** collectTranslatableTexts() と同じキーで本文を差し替える（キーの無い項目は元のまま） */
+function applyTexts(data: ManualData, texts: Record<string, string>): ManualData {
+    const pick = <T extends string | undefined>(key: string, value: T): T =>
+        (value && texts[key] !== undefined ? texts[key] : value) as T;
+
+    return {
+        ...data,
+        title: pick('title', data.title),
+        overview: pick('overview', data.overview),
+        notes: data.notes?.map(note => pick(noteKey(note), note)),
+        sections: data.sections.map(section => ({
+            ...section,
+            title: pick(`section:${section.id}`, section.title),
+            description: pick(`section:${section.id}:description`, section.description),
+        })),
+        steps: data.steps.map(step => {
+            if (!step.uid) return step;
+            const prefix = `step:${step.uid}`;
+            return {
+                ...step,
+                action: pick(`${prefix}:action`, step.action),
+                detail: pick(`${prefix}:detail`, step.detail),
+                callouts: step.callouts?.map(callout => ({ ...callout, text: pick(calloutKey(prefix, callout.text), callout.text) })),
+                branches: step.branches?.map(branch => ({ ...branch, label: pick(branchKey(prefix, branch.label), branch.label) })),
+                subSteps: step.subSteps?.map(sub => ({
+                    ...sub,
+                    action: pick(`${prefix}:sub:${sub.uid}:action`, sub.action),
+                    detail: pick(`${prefix}:sub:${sub.uid}:detail`, sub.detail),
+                })),
+            };
+        }),
+    };
+}
+
+function textboxTexts(canvasData: any): string[] {
+    const objects: any[] = Array.isArray(canvasData?.objects) ? canvasData.objects : [];
+    return objects.filter(isTextbox).map(obj => String(obj.text ?? ''));
+}
+
+/** 画像の注釈（Fabric の Textbox）に書かれたテキストを重複なく集める */
+export function collectAnnotationTexts(data: ManualData): string[] {
+    const texts = new Set<string>();
+    data.steps.forEach(step => textboxTexts(step.canvasData).forEach(text => {
+        if (text.trim()) texts.add(text);
+    }));
+    return Array.from(texts);
+}
+
+/** 注釈テキストを訳文に置き換えた canvasData（変わらなければ同じ参照を返す） */
+function translateCanvasData(canvasData: any, annotationTexts: Record<string, string>): any {
+    if (!Array.isArray(canvasData?.objects)) return canvasData;
+    let changed = false;
+    const objects = canvasData.objects.map((obj: any) => {
+        const translated = isTextbox(obj) ? annotationTexts[obj.text] : undefined;
+        if (translated === undefined || translated === obj.text) return obj;
+        changed = true;
+        return { ...obj, text: translated };
+    });
+    return changed ? { ...canvasData, objects } : canvasData;
+}
+
+/**
+ * 注釈を描き直した画像（data URL）を作る。InlineCanvas の書き出しと同じく、元画像の解像度で
+ * 背景に元画像、その上に canvasData のオブジェクトを重ねる。
+ */
+async function renderAnnotatedImage(originalId: string, canvasData: any): Promise<string> {
+    const url = await getImageObjectUrl(originalId);
+    if (!url) throw new Error(`画像 ${originalId} が見つかりません`);
+
+    const { StaticCanvas, FabricImage } = await import('fabric');
+    const img = await FabricImage.fromURL(url);
+    const canvas = new StaticCanvas(document.createElement('canvas'), {
+        width: img.width,
+        height: img.height,
+        backgroundColor: '#ffffff',
+    });
+    try {
+        await canvas.loadFromJSON({ version: '6.0.0', objects: canvasData?.objects || [] });
+        img.set({ originX: 'left', originY: 'top', left: 0, top: 0, scaleX: 1, scaleY: 1 });
+        // loadFromJSON が背景を消すため、読み込み後に設定する
+        canvas.backgroundImage = img;
+        canvas.renderAll();
+        return canvas.toDataURL({ format: 'png', quality: 1, multiplier: 1 });
+    } finally {
+        canvas.dispose();
+    }
+}
+
+/** 翻訳版で、まだ訳されていない（または原文が変わった）本文と注釈 */
+export function pendingTranslation(source: ManualData, variant: ManualData | null): PendingTranslation {
+    const link = variant?.variantOf;
+    const texts = Object.fromEntries(
+        Object.entries(collectTranslatableTexts(source)).filter(([key, text]) => link?.sourceTexts[key] !== text)
+    );
+    const annotations = collectAnnotationTexts(source).filter(text => link?.annotationTexts[text] === undefined);
+    return { texts, annotations };
+}
+
+export function countPending(pending: PendingTranslation): number {
+    return Object.keys(pending.texts).length + pending.annotations.length;
+}
+
+/** 本文と注釈を AI に翻訳させる（/api/translate-manual）。訳せなかった項目は結果に含まれない */
+async function requestTranslation(pending: PendingTranslation, language: OutputLanguage): Promise<{ texts: Record<string, string>; annotations: Record<string, string> }> {
+    const payload: Record<string, string> = { ...pending.texts };
+    pending.annotations.forEach((text, i) => { payload[`${ANNOTATION_KEY_PREFIX}${i}`] = text; });
+    if (Object.keys(payload).length === 0) return { texts: {}, annotations: {} };
+
+    const response = await fetch('/api/translate-manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language, texts: payload }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || `翻訳に失敗しました (${response.status})`);
+    }
+
+    const translated: Record<string, string> = result.texts || {};
+    const texts: Record<string, string> = {};
+    const annotations: Record<string, string> = {};
+    Object.entries(translated).forEach(([key, value]) => {
+        if (key.startsWith(ANNOTATION_KEY_PREFIX)) {
+            const original = pending.annotations[Number(key.slice(ANNOTATION_KEY_PREFIX.length))];
+            if (original !== undefined) annotations[original] = value;
+        } else if (key in pending.texts) {
+            texts[key] = value;
+        }
+    });
+    return { texts, annotations };
+}
+
+/**
+ * 翻訳元の現在の内容から翻訳版を組み立て直す。
+ * 本文は今回の訳文 → 翻訳版の既存の本文（手直しを含む）→ 原文 の順に採用し、
+ * 注釈を訳した画像は、元画像か注釈が変わったステップだけ描き直す。
+ */
+async function buildLanguageVariant(
+    sourceId: string,
+    source: ManualData,
+    language: OutputLanguage,
+    previous: ManualData | null,
+    translated: { texts: Record<string, string>; annotations: Record<string, string> }
+): Promise<ManualData> {
+    const previousLink = previous?.variantOf;
+    // 翻訳版の本文からはハッシュのキーを作り直せない（訳文のハッシュになる）ので、保存しておいた訳文を使う
+    const previousTexts = previousLink?.texts ?? {};
+
+    const texts: Record<string, string> = {};
+    const sourceTexts: Record<string, string> = {};
+    Object.entries(collectTranslatableTexts(source)).forEach(([key, text]) => {
+        if (translated.texts[key] !== undefined) {
+            texts[key] = translated.texts[key];
+            sourceTexts[key] = text;
+        } else if (previousTexts[key] !== undefined) {
+            texts[key] = previousTexts[key];
+            if (previousLink?.sourceTexts[key] !== undefined) sourceTexts[key] = previousLink.sourceTexts[key];
+        }
+    });
+
+    const annotationTexts: Record<string, string> = {};
+    collectAnnotationTexts(source).forEach(text => {
+        const value = translated.annotations[text] ?? previousLink?.annotationTexts[text];
+        if (value !== undefined) annotationTexts[text] = value;
+    });
+
+    const base = applyTexts(source, texts);
+    const previousSteps = new Map((previous?.steps || []).filter(s => s.uid).map(s => [s.uid!, s]));
+    const renderedFrom: Record<string, string> = {};
+    const steps: ManualStep[] = [];
+
+    for (let i = 0; i < base.steps.length; i++) {
+        const sourceStep = source.steps[i];
+        const step = base.steps[i];
+        const canvasData = translateCanvasData(step.canvasData, annotationTexts);
+        // 注釈に訳すテキストが無いステップは、翻訳元と同じ画像をそのまま使う
+        if (canvasData === step.canvasData || !step.uid || !sourceStep.originalId) {
+            steps.push(step);
+            continue;
+        }
+
+        const signature = `${sourceStep.screenshotId ?? ''}|${JSON.stringify(textboxTexts(canvasData))}`;
+        const previousStep = previousSteps.get(step.uid);
+        if (previousLink?.renderedFrom?.[step.uid] === signature && previousStep?.screenshotId) {
+            steps.push({ ...step, canvasData, screenshotId: previousStep.screenshotId, screenshot: undefined });
+            renderedFrom[step.uid] = signature;
+            continue;
+        }
+
+        try {
+            const screenshotId = await putImage(await renderAnnotatedImage(sourceStep.originalId, canvasData));
+            steps.push({ ...step, canvasData, screenshotId, screenshot: undefined });
+            renderedFrom[step.uid] = signature;
+        } catch (e) {
+            // 描き直せなかった画像は翻訳元のものを使い、次回の同期で再試行する
+            console.warn(`[languageVariants] Failed to render annotations for step ${step.uid}:`, e);
+            steps.push({ ...step, canvasData });
+        }
+    }
+
+    return {
+        ...base,
+        language,
+        steps,
+        variantOf: { sourceId, texts, sourceTexts, annotationTexts, renderedFrom },
+    };
+}
+
+async function findVariantRecords(sourceId: string): Promise<ManualRecord[]> {
+    const records = await db.manuals.where('variantSourceId').equals(sourceId).toArray();
+    // Dexie から直接読むので、訳文（variantOf.texts）が無い古い形式もここで揃える
+    return records.map(record => ({ ...record, data: migrateManualData(record.data).data }));
+}
+
+/** 翻訳元マニュアルの翻訳版一覧 */
+export async function listLanguageVariants(sourceId: string, source: ManualData): Promise<LanguageVariantSummary[]> {
+    const records = await findVariantRecords(sourceId);
+    return records.map(record => ({
+        id: record.id,
+        language: normalizeOutputLanguage(record.data.language),
+        title: record.data.title,
+        pendingCount: countPending(pendingTranslation(source, record.data)),
+    }));
+}
+
+/**
+ * 翻訳元を指定の言語へ翻訳し、翻訳版としてライブラリに保存する（既にあれば未翻訳の項目だけ訳して更新）。
+ * 翻訳版のIDを返す。
+ */
+export async function translateToLanguageVariant(sourceId: string, source: ManualData, language: OutputLanguage): Promise<string> {
+    if (source.variantOf) throw new Error('翻訳版をさらに翻訳することはできません。翻訳元のマニュアルから翻訳してください。');
+    if (normalizeOutputLanguage(source.language) === language) throw new Error('翻訳元と同じ言語には翻訳できません。');
+
+    const existing = (await findVariantRecords(sourceId)).find(record => normalizeOutputLanguage(record.data.language) === language);
+    const previous = existing?.data ?? null;
+    const translated = await requestTranslation(pendingTranslation(source, previous), language);
+    const data = await buildLanguageVariant(sourceId, source, language, previous, translated);
+
+    if (existing) {
+        await saveManual(existing.id, data);
+        return existing.id;
+    }
+    return createManual(data);
+}
+
+/** 開いている翻訳版の、未翻訳・要再翻訳の項目を訳し直した内容を返す（保存は呼び出し側） */
+export async function retranslateLanguageVariant(variant: ManualData): Promise<ManualData> {
+    const link = variant.variantOf;
+    if (!link) return variant;
+    const source = await loadManual(link.sourceId);
+    if (!source) throw new Error('翻訳元のマニュアルが見つかりません。');
+
+    const language = normalizeOutputLanguage(variant.language);
+    const translated = await requestTranslation(pendingTranslation(source, variant), language);
+    return buildLanguageVariant(link.sourceId, source, language, variant, translated);
+}
+
+/**
+ * 開いている翻訳版の訳文を手直しした内容を返す（保存は呼び出し側）。edits は項目キー → 訳文。
+ * 翻訳版の画像・構成は翻訳元から組み立て直すため、翻訳版で編集できるのは訳文だけにしている。
+ */
+export async function editLanguageVariantTexts(variant: ManualData, edits: Record<string, string>): Promise<ManualData> {
+    const link = variant.variantOf;
+    if (!link) return variant;
+    const source = await loadManual(link.sourceId);
+    if (!source) throw new Error('翻訳元のマニュアルが見つかりません。');
+
+    const language = normalizeOutputLanguage(variant.language);
+    return buildLanguageVariant(link.sourceId, source, language, variant, { texts: edits, annotations: {} });
+}
+
+// 同期は翻訳元の保存のたびに呼ばれるため、前の同期が終わってから順に実行する
+let syncQueue: Promise<void> = Promise.resolve();
+
+/** 翻訳元の画像・構成の変更を各翻訳版へ反映する（AI は呼ばず、訳文はそのまま残す） */
+export function syncLanguageVariants(sourceId: string, source: ManualData): Promise<void> {
+    const run = async () => {
+        if (source.variantOf) return;
+        // 翻訳版の無いマニュアル（大半）は索引を1回引くだけで終わる
+        const records = await findVariantRecords(sourceId);
+        if (records.length === 0) return;
+        for (const record of records) {
+            const language = normalizeOutputLanguage(record.data.language);
+            const data = await buildLanguageVariant(sourceId, source, language, record.data, { texts: {}, annotations: {} });
+            if (JSON.stringify(data) !== JSON.stringify(record.data)) {
+                await saveManual(record.id, data);
+            }
+        }
+    };
+    syncQueue = syncQueue.then(run, run);
+    return syncQueue;
+}
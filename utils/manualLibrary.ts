@@ -0,0 +1,183 @@
+import { ManualData, OutputLanguage } from '@/app/page';
+import { db, createManualId, ManualRecord } from '@/utils/db';
+import { createThumbnail } from '@/utils/imageUtils';
+import { deleteRevisionsOf } from '@/utils/revisions';
+import { getImageObjectUrl, pruneUnreferencedImages } from '@/utils/imageStore';
+import { migrateManualData } from '@/utils/manualSchema';
+import { removeFromSearchIndex, updateSearchIndex } from '@/utils/searchIndex';
+import { copyCanvasStates, deleteCanvasStatesOf } from '@/utils/canvasStateStore';
+import { pruneUnreferencedVideos } from '@/utils/videoStore';
+
+/**
+ * マニュアルライブラリ（Dexie の manuals テーブル）の操作をまとめたモジュール。
+ * 画面側は ManualRecord を直接触らず、ここの関数経由で作成・保存・複製・削除を行う。
+ */
+
+export interface ManualSummary {
+    id: string;
+    title: string;
+    stepCount: number;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail?: string;
+    variantLanguage?: OutputLanguage; // 翻訳版なら、その言語
+}
+
+// サムネイル生成元（1枚目のスクリーンショットの画像ID）を記憶し、変化した時だけ再生成する
+const thumbnailSources = new Map<string, string>();
+
+const thumbnailSourceOf = (data: ManualData): string | undefined =>
+    data.steps[0]?.screenshotId ?? data.steps[0]?.screenshot;
+
+const variantSourceIdOf = (data: ManualData): string | undefined => data.variantOf?.sourceId;
+
+async function buildThumbnail(id: string, data: ManualData): Promise<string | undefined> {
+    const key = thumbnailSourceOf(data);
+    const first = data.steps[0];
+    const source = first?.screenshotId ? await getImageObjectUrl(first.screenshotId) : first?.screenshot;
+    if (!key || !source) return undefined;
+    try {
+        const thumbnail = await createThumbnail(source);
+        thumbnailSources.set(id, key);
+        return thumbnail;
+    } catch (e) {
+        console.warn('[manualLibrary] Thumbnail generation failed:', e);
+        return undefined;
+    }
+}
+
+// 検索インデックスの更新失敗で保存自体を失敗させない（次回の保存か ensureSearchIndex で回復する）
+async function reindex(id: string, data: ManualData): Promise<void> {
+    try {
+        await updateSearchIndex(id, data);
+    } catch (e) {
+        console.warn('[manualLibrary] Search index update failed:', e);
+    }
+}
+
+function toSummary(record: ManualRecord): ManualSummary {
+    return {
+        id: record.id,
+        title: record.data.title,
+        stepCount: record.data.steps.length,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        thumbnail: record.thumbnail,
+        variantLanguage: record.data.variantOf ? record.data.language : undefined,
+    };
+}
+
+/** 更新日時の新しい順に一覧を返す */
+export async function listManuals(): Promise<ManualSummary[]> {
+    const records = await db.manuals.orderBy('updatedAt').reverse().toArray();
+    return records.map(toSummary);
+}
+
+/**
+ * スキーマを現在の版へ移行した上で返す（移行・修復した場合は保存し直す）。
+ * 修復しきれない不整合が残る場合は開かずに例外を投げる。
+ */
+export async function loadManual(id: string): Promise<ManualData | null> {
+    const record = await db.manuals.get(id);
+    if (!record) return null;
+
+    const { data, migrated, repairs, issues } = migrateManualData(record.data);
+    if (repairs.length > 0) {
+        console.warn(`[manualLibrary] Repaired ${repairs.length} schema issue(s) in manual ${id}:`, repairs);
+    }
+    if (issues.length > 0) {
+        console.warn(`[manualLibrary] Manual ${id} has ${issues.length} schema issue(s):`, issues);
+    }
+    const broken = issues.filter(issue => issue.structural).length;
+    if (broken > 0) {
+        throw new Error(`マニュアルのデータが壊れているため開けません（${broken} 件の問題）。`);
+    }
+    if (migrated) {
+        await db.manuals.update(id, { data, variantSourceId: variantSourceIdOf(data) });
+    }
+    return data;
+}
+
+/** 新しいマニュアルをライブラリに追加し、そのIDを返す */
+export async function createManual(data: ManualData): Promise<string> {
+    const id = createManualId();
+    const now = Date.now();
+    await db.manuals.add({
+        id,
+        data,
+        createdAt: now,
+        updatedAt: now,
+        thumbnail: await buildThumbnail(id, data),
+        variantSourceId: variantSourceIdOf(data),
+    });
+    await reindex(id, data);
+    return id;
+}
+
+/** 既存マニュアルの内容を上書き保存する（作成日時は維持） */
+export async function saveManual(id: string, data: ManualData): Promise<void> {
+    const existing = await db.manuals.get(id);
+    const thumbnail = existing?.thumbnail && thumbnailSources.get(id) === thumbnailSourceOf(data)
+        ? existing.thumbnail
+        : await buildThumbnail(id, data);
+
+    await db.manuals.put({
+        id,
+        data,
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        thumbnail,
+        variantSourceId: variantSourceIdOf(data),
+    });
+    await reindex(id, data);
+}
+
+export async function renameManual(id: string, title: string): Promise<void> {
+    const data = await db.transaction('rw', db.manuals, async () => {
+        const record = await db.manuals.get(id);
+        if (!record) return null;
+        const renamed = { ...record.data, title };
+        await db.manuals.put({ ...record, data: renamed, updatedAt: Date.now() });
+        return renamed;
+    });
+    if (data) await reindex(id, data);
+}
+
+/** 複製したマニュアルのIDを返す */
+export async function duplicateManual(id: string): Promise<string | null> {
+    const record = await db.manuals.get(id);
+    if (!record) return null;
+
+    const newId = createManualId();
+    const now = Date.now();
+    // 複製は翻訳元とのリンクを持たない独立したマニュアルにする
+    const { variantOf, ...rest } = record.data;
+    const { variantSourceId, ...copied } = record;
+    const data = { ...rest, title: `${record.data.title} のコピー` };
+    await db.transaction('rw', db.manuals, db.canvasStates, async () => {
+        await db.manuals.add({
+            ...copied,
+            id: newId,
+            data,
+            createdAt: now,
+            updatedAt: now,
+        });
+        // 注釈の Undo 履歴はマニュアルID + ステップ uid で持つため、複製にも引き継ぐ
+        await copyCanvasStates(id, newId);
+    });
+    await reindex(newId, data);
+    return newId;
+}
+
+export async function deleteManual(id: string): Promise<void> {
+    thumbnailSources.delete(id);
+    await db.transaction('rw', [db.manuals, db.revisions, db.searchIndex, db.canvasStates], async () => {
+        await db.manuals.delete(id);
+        await deleteRevisionsOf(id);
+        await removeFromSearchIndex(id);
+        await deleteCanvasStatesOf(id);
+    });
+    // 削除したマニュアルだけが参照していた画像・元動画を片付ける
+    await pruneUnreferencedImages();
+    await pruneUnreferencedVideos();
+}
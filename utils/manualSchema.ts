@@ -0,0 +1,366 @@
+import { ManualData, SectionLayout, StepKind } from '@/app/page';
+import { createSectionId, DEFAULT_SECTION_LAYOUT, normalizeSections, renumberSteps } from '@/utils/sections';
+import { CALLOUT_TYPES } from '@/utils/callouts';
+import { DOCUMENT_METADATA_FIELDS } from '@/utils/documentMetadata';
+import { isOutputLanguage } from '@/utils/outputLanguage';
+import { branchKey, calloutKey, noteKey } from '@/utils/translationKeys';
+
+/**
+ * ManualData のスキーマバージョン管理。
+ *
+ * 保存済みデータ（Dexie・プロジェクトファイル・リビジョン）は古い形のまま残り続けるため、
+ * 読み込み時に必ず migrateManualData() を通して現在の形に揃えてから画面へ渡す。
+ * 形を変えるときは MIGRATIONS の末尾に1件追加し、CURRENT_SCHEMA_VERSION を上げる。
+ */
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+const VALID_LAYOUTS: ReadonlyArray<SectionLayout> = ['single', 'two-column', 'two-row-vertical'];
+const VALID_STEP_KINDS: ReadonlyArray<StepKind> = ['operation', 'confirmation'];
+
+export interface SchemaIssue {
+    path: string; // 例: "steps[3].action"
+    message: string;
+    structural?: boolean; // 画面・出力が前提にしている形が崩れている（残っていれば読み込みを拒否する）
+}
+
+export interface MigrationResult {
+    data: ManualData;
+    migrated: boolean; // 保存し直す必要があるか
+    repairs: SchemaIssue[]; // 読み込み時に修復した箇所
+    issues: SchemaIssue[]; // 修復後も残っている問題
+}
+
+interface Migration {
+    version: number; // この移行を適用した後のバージョン
+    description: string;
+    migrate: (data: any) => any;
+}
+
+const createUid = () => Math.random().toString(36).substring(2, 11);
+
+const MIGRATIONS: Migration[] = [
+    {
+        // 以前は enterEditMode で都度補っていたもの
+        version: 1,
+        description: 'ステップの uid と編集用の元画像を補完',
+        migrate: (data) => ({
+            ...data,
+            title: typeof data.title === 'string' ? data.title : '',
+            overview: typeof data.overview === 'string' ? data.overview : '',
+            notes: Array.isArray(data.notes) ? data.notes : (typeof data.notes === 'string' ? [data.notes] : undefined),
+            steps: data.steps.map((step: any, index: number) => {
+                const next = {
+                    ...step,
+                    stepNumber: Number.isFinite(Number(step.stepNumber)) ? Number(step.stepNumber) : index + 1,
+                    action: typeof step.action === 'string' ? step.action : '',
+                    detail: typeof step.detail === 'string' ? step.detail : '',
+                    uid: step.uid || createUid(),
+                };
+                // 元画像が無いと注釈が背景に焼き込まれて「ゴースト」になるため、表示画像で代用する
+                if (!next.originalId && next.screenshotId) next.originalId = next.screenshotId;
+                if (!next.screenshotId && !next.originalUrl && next.screenshot) next.originalUrl = next.screenshot;
+                return next;
+            }),
+        }),
+    },
+    {
+        version: 2,
+        description: 'layout と canvasData の形を正規化',
+        migrate: (data) => ({
+            ...data,
+            steps: data.steps.map((step: any) => {
+                const next = { ...step };
+                if (next.layout !== undefined && !VALID_LAYOUTS.includes(next.layout)) next.layout = 'single';
+
+                // 古い保存形式では canvasData が JSON 文字列のまま入っていることがある
+                let canvasData = next.canvasData;
+                if (typeof canvasData === 'string') {
+                    try { canvasData = JSON.parse(canvasData); } catch { canvasData = undefined; }
+                }
+                if (canvasData && typeof canvasData === 'object' && Array.isArray(canvasData.objects)) {
+                    // 背景は毎回元画像から作り直すため、保存済みの背景URL（失効した blob: URL を含む）は持ち越さない
+                    const { backgroundImage, ...rest } = canvasData;
+                    next.canvasData = rest;
+                } else {
+                    delete next.canvasData;
+                }
+                return next;
+            }),
+        }),
+    },
+    {
+        // それまでは videoIndex でグループ化し、layout を全ステップに複製していた
+        version: 3,
+        description: 'videoIndex / ステップ毎の layout から sections へ移行',
+        migrate: (data) => {
+            if (Array.isArray(data.sections) && data.sections.length > 0) return data;
+
+            const videoIndexes: number[] = Array.from(new Set<number>(data.steps.map((s: any) => s.videoIndex ?? 0)));
+            // 旧ビューアーは動画番号の昇順でグループを表示していた
+            videoIndexes.sort((a, b) => a - b);
+
+            const sections = videoIndexes.map(videoIndex => {
+                const firstStep = data.steps.find((s: any) => (s.videoIndex ?? 0) === videoIndex);
+                return {
+                    id: createSectionId(),
+                    title: `動画セクション ${videoIndex + 1}`,
+                    layout: VALID_LAYOUTS.includes(firstStep?.layout) ? firstStep.layout : DEFAULT_SECTION_LAYOUT,
+                    sourceVideo: { index: videoIndex },
+                };
+            });
+            const sectionIdByVideo = new Map(videoIndexes.map((v, i) => [v, sections[i].id]));
+
+            const steps = videoIndexes.flatMap(videoIndex =>
+                data.steps
+                    .filter((s: any) => (s.videoIndex ?? 0) === videoIndex)
+                    .map(({ layout, ...step }: any) => ({ ...step, sectionId: sectionIdByVideo.get(videoIndex) }))
+            );
+
+            return { ...data, sections, steps: renumberSteps(steps) };
+        },
+    },
+    {
+        // それまでは注意事項・注意書き・分岐を位置（note:<n> など）で対応付け、訳文は翻訳版の本文から読み直していた
+        version: 4,
+        description: '翻訳版の項目キーを原文のハッシュへ移行し、訳文を variantOf.texts に保存',
+        migrate: (data) => {
+            const link = data.variantOf;
+            if (!link || typeof link.sourceTexts !== 'object' || link.sourceTexts === null) return data;
+
+            // 旧形式のキーで翻訳版の本文を集め、訳した時点の原文（無ければ未翻訳なので本文そのもの）からキーを作り直す
+            const texts: Record<string, string> = {};
+            const sourceTexts: Record<string, string> = {};
+            const add = (oldKey: string, value: unknown, rekey?: (source: string) => string) => {
+                if (typeof value !== 'string' || !value.trim()) return;
+                const source = link.sourceTexts[oldKey];
+                const key = rekey ? rekey(typeof source === 'string' ? source : value) : oldKey;
+                texts[key] = value;
+                if (typeof source === 'string') sourceTexts[key] = source;
+            };
+
+            add('title', data.title);
+            add('overview', data.overview);
+            (Array.isArray(data.notes) ? data.notes : []).forEach((note: unknown, i: number) => add(`note:${i}`, note, noteKey));
+            (data.sections || []).forEach((section: any) => {
+                add(`section:${section.id}`, section.title);
+                add(`section:${section.id}:description`, section.description);
+            });
+            data.steps.forEach((step: any) => {
+                if (!step.uid) return;
+                const prefix = `step:${step.uid}`;
+                add(`${prefix}:action`, step.action);
+                add(`${prefix}:detail`, step.detail);
+                (step.callouts || []).forEach((callout: any, i: number) => add(`${prefix}:callout:${i}`, callout?.text, text => calloutKey(prefix, text)));
+                (step.branches || []).forEach((branch: any, i: number) => add(`${prefix}:branch:${i}`, branch?.label, label => branchKey(prefix, label)));
+                (step.subSteps || []).forEach((sub: any) => {
+                    add(`${prefix}:sub:${sub.uid}:action`, sub.action);
+                    add(`${prefix}:sub:${sub.uid}:detail`, sub.detail);
+                });
+            });
+
+            return { ...data, variantOf: { ...link, texts, sourceTexts } };
+        },
+    },
+];
+
+/** 現在のスキーマに照らして不正な箇所を列挙する（データは変更しない） */
+export function validateManualData(data: ManualData): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    const broken = (path: string, message: string) => issues.push({ path, message, structural: true });
+    if (typeof data.title !== 'string') broken('title', '文字列ではありません');
+    if (typeof data.overview !== 'string') broken('overview', '文字列ではありません');
+    if (data.notes !== undefined && !Array.isArray(data.notes)) issues.push({ path: 'notes', message: '配列ではありません' });
+    if (data.language !== undefined && !isOutputLanguage(data.language)) issues.push({ path: 'language', message: '対応していない言語です' });
+    if (data.variantOf !== undefined) {
+        const link = data.variantOf;
+        if (typeof link !== 'object' || link === null || typeof link.sourceId !== 'string') {
+            issues.push({ path: 'variantOf', message: '翻訳元の指定が正しくありません' });
+        } else {
+            if (typeof link.sourceTexts !== 'object' || link.sourceTexts === null) issues.push({ path: 'variantOf.sourceTexts', message: 'オブジェクトではありません' });
+            if (link.texts !== undefined && (typeof link.texts !== 'object' || link.texts === null)) issues.push({ path: 'variantOf.texts', message: 'オブジェクトではありません' });
+            if (typeof link.annotationTexts !== 'object' || link.annotationTexts === null) issues.push({ path: 'variantOf.annotationTexts', message: 'オブジェクトではありません' });
+        }
+    }
+    if (data.metadata !== undefined) {
+        if (typeof data.metadata !== 'object' || data.metadata === null || Array.isArray(data.metadata)) {
+            issues.push({ path: 'metadata', message: 'オブジェクトではありません' });
+        } else {
+            DOCUMENT_METADATA_FIELDS.forEach(({ key }) => {
+                const value = data.metadata![key];
+                if (value !== undefined && typeof value !== 'string') issues.push({ path: `metadata.${key}`, message: '文字列ではありません' });
+            });
+        }
+    }
+
+    const sectionIds = new Set<string>();
+    if (!Array.isArray(data.sections) || data.sections.length === 0) {
+        broken('sections', 'セクションがありません');
+    } else {
+        data.sections.forEach((section, i) => {
+            if (!section.id || sectionIds.has(section.id)) broken(`sections[${i}].id`, 'id が無いか重複しています');
+            sectionIds.add(section.id);
+            if (typeof section.title !== 'string') broken(`sections[${i}].title`, '文字列ではありません');
+            if (!VALID_LAYOUTS.includes(section.layout)) issues.push({ path: `sections[${i}].layout`, message: `不明なレイアウト "${section.layout}"` });
+        });
+    }
+
+    const allUids = new Set(data.steps.map(s => s?.uid).filter(Boolean));
+    const seenUids = new Set<string>();
+    data.steps.forEach((step, i) => {
+        const at = (field: string) => `steps[${i}].${field}`;
+        if (!step || typeof step !== 'object') {
+            broken(`steps[${i}]`, 'オブジェクトではありません');
+            return;
+        }
+        if (!Number.isFinite(step.stepNumber)) broken(at('stepNumber'), '数値ではありません');
+        if (typeof step.action !== 'string') broken(at('action'), '文字列ではありません');
+        if (typeof step.detail !== 'string') broken(at('detail'), '文字列ではありません');
+        if (!step.uid) {
+            broken(at('uid'), 'uid がありません');
+        } else if (seenUids.has(step.uid)) {
+            broken(at('uid'), `uid "${step.uid}" が重複しています`);
+        } else {
+            seenUids.add(step.uid);
+        }
+        if (step.kind !== undefined && !VALID_STEP_KINDS.includes(step.kind)) {
+            issues.push({ path: at('kind'), message: `不明なステップ種別 "${step.kind}"` });
+        }
+        if (!step.screenshotId && !step.screenshot) issues.push({ path: at('screenshotId'), message: '画像がありません' });
+        if (step.box_2d !== undefined && (!Array.isArray(step.box_2d) || step.box_2d.length !== 4 || step.box_2d.some(v => !Number.isFinite(v)))) {
+            issues.push({ path: at('box_2d'), message: '4つの数値の配列ではありません' });
+        }
+        if (!step.sectionId || !sectionIds.has(step.sectionId)) {
+            broken(at('sectionId'), '存在しないセクションを参照しています');
+        }
+        if (step.callouts !== undefined && (!Array.isArray(step.callouts) || step.callouts.some(c => !CALLOUT_TYPES.includes(c?.type) || typeof c?.text !== 'string'))) {
+            issues.push({ path: at('callouts'), message: '不正なコールアウトが含まれています' });
+        }
+        if (step.branches !== undefined) {
+            if (!Array.isArray(step.branches) || step.branches.some(b => typeof b?.label !== 'string' || typeof b?.targetUid !== 'string')) {
+                issues.push({ path: at('branches'), message: '不正な分岐が含まれています' });
+            } else {
+                step.branches.forEach((b, j) => {
+                    if (b.targetUid && !allUids.has(b.targetUid)) {
+                        issues.push({ path: at(`branches[${j}].targetUid`), message: `存在しないステップ "${b.targetUid}" を参照しています` });
+                    }
+                });
+            }
+        }
+        if (step.subSteps !== undefined && (!Array.isArray(step.subSteps) || step.subSteps.some(sub => !sub?.uid || typeof sub.action !== 'string'))) {
+            broken(at('subSteps'), '不正なサブステップが含まれています');
+        }
+        if (step.canvasData !== undefined && (typeof step.canvasData !== 'object' || !Array.isArray(step.canvasData?.objects))) {
+            issues.push({ path: at('canvasData'), message: 'Fabric の JSON 形式ではありません' });
+        }
+    });
+    return issues;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 移行後のデータのうち、直せる不整合を直す（スキーマの版に関係なく毎回通す）。
+ * 手で編集されたファイルや壊れた保存データでも、画面・出力が前提にしている形（action / detail が文字列、
+ * uid・所属セクションがある）までは揃える。直した箇所は repairs に積む。
+ */
+function repairManualData(data: any, repairs: SchemaIssue[]): ManualData {
+    const repaired = (path: string, message: string) => repairs.push({ path, message });
+    const text = (value: unknown, path: string): string => {
+        if (typeof value === 'string') return value;
+        repaired(path, '文字列ではないため空にしました');
+        return '';
+    };
+
+    const sectionIds = new Set<string>();
+    const sections = (Array.isArray(data.sections) ? data.sections : [])
+        .filter((section: unknown, i: number) => {
+            if (!isObject(section) || typeof section.id !== 'string' || !section.id || sectionIds.has(section.id)) {
+                repaired(`sections[${i}]`, 'id が無いか重複しているため取り除きました');
+                return false;
+            }
+            sectionIds.add(section.id);
+            return true;
+        })
+        .map((section: any) => ({
+            ...section,
+            title: typeof section.title === 'string' ? section.title : '',
+            layout: VALID_LAYOUTS.includes(section.layout) ? section.layout : DEFAULT_SECTION_LAYOUT,
+        }));
+
+    const seenUids = new Set<string>();
+    const steps = data.steps.map((step: any, i: number) => {
+        const at = (field: string) => `steps[${i}].${field}`;
+        const next: any = { ...step, action: text(step.action, at('action')), detail: text(step.detail, at('detail')) };
+        if (typeof next.uid !== 'string' || !next.uid || seenUids.has(next.uid)) {
+            next.uid = createUid();
+            repaired(at('uid'), 'uid が無いか重複しているため振り直しました');
+        }
+        seenUids.add(next.uid);
+        if (!next.sectionId || !sectionIds.has(next.sectionId)) {
+            // normalizeSections が直前のセクションへ寄せる
+            repaired(at('sectionId'), '存在しないセクションを参照しているため直前のセクションに含めました');
+        }
+        if (next.subSteps !== undefined) {
+            const list: unknown[] = Array.isArray(next.subSteps) ? next.subSteps : [];
+            const subSteps = list.filter(isObject);
+            if (!Array.isArray(next.subSteps) || subSteps.length < list.length) {
+                repaired(at('subSteps'), '不正なサブステップを取り除きました');
+            }
+            next.subSteps = subSteps.map((sub: any, j: number) => ({
+                ...sub,
+                uid: typeof sub.uid === 'string' && sub.uid ? sub.uid : createUid(),
+                action: text(sub.action, at(`subSteps[${j}].action`)),
+            }));
+        }
+        return next;
+    });
+
+    return normalizeSections({
+        ...data,
+        title: text(data.title, 'title'),
+        overview: text(data.overview, 'overview'),
+        sections,
+        steps,
+    });
+}
+
+/**
+ * 任意のバージョンの ManualData を現在のスキーマへ移行し、検証結果と合わせて返す。
+ * マニュアルとして扱えない（steps が無い等）場合は例外を投げる。
+ */
+export function migrateManualData(raw: unknown): MigrationResult {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).steps)) {
+        throw new Error('マニュアルデータの形式が不正です。');
+    }
+
+    const repairs: SchemaIssue[] = [];
+    // 移行処理はステップがオブジェクトである前提なので、先に取り除いておく
+    const steps = (raw as any).steps.filter((step: unknown, i: number) => {
+        if (isObject(step)) return true;
+        repairs.push({ path: `steps[${i}]`, message: 'オブジェクトではないため取り除きました' });
+        return false;
+    });
+    let data: any = { ...raw, steps };
+    const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        // 新しいアプリで保存されたデータ。移行はできないので、そのまま読めるだけ読む
+        console.warn(`[manualSchema] Data schema v${fromVersion} is newer than supported v${CURRENT_SCHEMA_VERSION}`);
+    }
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= fromVersion) continue;
+        console.log(`[manualSchema] Migrating to v${migration.version}: ${migration.description}`);
+        data = { ...migration.migrate(data), schemaVersion: migration.version };
+    }
+
+    data = repairManualData(data, repairs);
+
+    return {
+        data,
+        migrated: fromVersion < CURRENT_SCHEMA_VERSION || repairs.length > 0,
+        repairs,
+        issues: validateManualData(data),
+    };
+}
@@ -0,0 +1,50 @@
+import { ManualSection, ManualStep, OutputLanguage } from '@/app/page';
+
+/**
+ * 新規生成の仕上げに、抽出済みの全手順から AI にタイトル・概要・注意事項を付けさせる（/api/summarize-manual）。
+ * 動画が複数のときは各セクション（動画1本）の見出しも付けさせる。
+ * 失敗しても生成自体は止めず null を返す（呼び出し側はファイル名から作ったタイトルのまま保存する）。
+ */
+
+export interface ManualSummary {
+    title: string;
+    overview: string;
+    notes: string[];
+    sectionTitles: Record<string, string>; // セクションID → 見出し（付かなかったセクションは含まない）
+}
+
+export async function summarizeManual(
+    language: OutputLanguage,
+    sections: ManualSection[],
+    steps: ManualStep[],
+    notes: string[]
+): Promise<ManualSummary | null> {
+    const payload = sections.map(section => ({
+        id: section.id,
+        name: section.sourceVideo?.name ?? section.title,
+        steps: steps
+            .filter(step => step.sectionId === section.id)
+            .map(step => ({ action: step.action, detail: step.detail ?? '' })),
+    }));
+
+    try {
+        const response = await fetch('/api/summarize-manual', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ language, sections: payload, notes }),
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(result.error || `タイトル・概要の作成に失敗しました (${response.status})`);
+        }
+        return {
+            title: result.title || '',
+            overview: result.overview || '',
+            notes: Array.isArray(result.notes) ? result.notes : [],
+            sectionTitles: result.sectionTitles || {},
+        };
+    } catch (e) {
+        console.warn('[manualSummary] Falling back to file-name title:', e);
+        return null;
+    }
+}
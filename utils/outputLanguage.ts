@@ -0,0 +1,143 @@
+import { CalloutType, DocumentMetadata, OutputLanguage } from '@/app/page';
+
+/**
+ * マニュアル本文の出力言語（日本語・英語・ベトナム語）と、出力時に差し込む固定文言。
+ *
+ * AI が書く本文はプロンプト（utils/ai/prompts.ts）で言語を指定し、
+ * 見出し・バッジ・分岐先の呼び名など、こちらで差し込む文言は manualStrings() から引く。
+ * アプリの画面（ボタン・編集UI）は言語に関わらず日本語のまま。
+ */
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'ja';
+
+export const OUTPUT_LANGUAGES: ReadonlyArray<{ value: OutputLanguage; label: string }> = [
+    { value: 'ja', label: '日本語' },
+    { value: 'en', label: 'English' },
+    { value: 'vi', label: 'Tiếng Việt' },
+];
+
+export function isOutputLanguage(raw: unknown): raw is OutputLanguage {
+    return OUTPUT_LANGUAGES.some(l => l.value === raw);
+}
+
+/** リクエストや保存データの値を OutputLanguage に寄せる（不明な値は日本語） */
+export function normalizeOutputLanguage(raw: unknown): OutputLanguage {
+    return isOutputLanguage(raw) ? raw : DEFAULT_OUTPUT_LANGUAGE;
+}
+
+export interface ManualStrings {
+    htmlLang: string;
+    steps: string; // 手順の見出し
+    notes: string;
+    revisionHistory: string;
+    confirmationBadge: string;
+    callouts: Record<CalloutType, string>;
+    metadataLabels: Record<keyof DocumentMetadata, string>;
+    stepHeading: (stepNumber: number) => string; // Markdown の見出し（例: 手順3）
+    stepRef: (stepNumber: number) => string; // 分岐先の呼び名（例: ステップ 7）
+    confirmationRef: (stepNumber: number) => string;
+    sectionStepRef: (sectionTitle: string, ref: string) => string;
+    branchTo: (target: string) => string;
+    branchMissing: string;
+    imageAvailable: (stepNumber: number) => string;
+    defaultTitle: (videoName: string) => string;
+    combinedTitle: (videoCount: number) => string;
+    defaultSectionTitle: (sectionNumber: number) => string;
+    continuedSectionTitle: (sectionTitle: string) => string; // セクションを分割したときの後半の見出し
+    defaultOverview: string;
+    checklist: { sheet: string; done: string; action: string; detail: string };
+}
+
+const STRINGS: Record<OutputLanguage, ManualStrings> = {
+    ja: {
+        htmlLang: 'ja',
+        steps: '手順',
+        notes: '注意事項',
+        revisionHistory: '改訂履歴',
+        confirmationBadge: '確認',
+        callouts: { caution: '注意', warning: '警告', tip: 'ヒント' },
+        metadataLabels: {
+            documentId: '文書番号',
+            revision: '改訂番号',
+            author: '作成者',
+            approver: '承認者',
+            effectiveDate: '施行日',
+            department: '所管部署',
+        },
+        stepHeading: n => `手順${n}`,
+        stepRef: n => `ステップ ${n}`,
+        confirmationRef: n => `ステップ ${n} の確認`,
+        sectionStepRef: (title, ref) => `「${title}」${ref}`,
+        branchTo: target => `→ ${target} へ`,
+        branchMissing: '→（分岐先のステップがありません）',
+        imageAvailable: n => `画像あり: 手順 ${n}`,
+        defaultTitle: name => `${name} マニュアル`,
+        combinedTitle: count => `統合マニュアル (${count}本)`,
+        defaultSectionTitle: n => `セクション ${n}`,
+        continuedSectionTitle: title => `${title} (続き)`,
+        defaultOverview: '自動生成されたマニュアルです。編集ボタンから内容を修正できます。',
+        checklist: { sheet: 'チェックリスト', done: '完了', action: '操作内容 (キャプション)', detail: '詳細説明 / 作業メモ' },
+    },
+    en: {
+        htmlLang: 'en',
+        steps: 'Procedure',
+        notes: 'Notes',
+        revisionHistory: 'Revision History',
+        confirmationBadge: 'Check',
+        callouts: { caution: 'Caution', warning: 'Warning', tip: 'Tip' },
+        metadataLabels: {
+            documentId: 'Document No.',
+            revision: 'Revision',
+            author: 'Author',
+            approver: 'Approver',
+            effectiveDate: 'Effective Date',
+            department: 'Department',
+        },
+        stepHeading: n => `Step ${n}`,
+        stepRef: n => `Step ${n}`,
+        confirmationRef: n => `the check after Step ${n}`,
+        sectionStepRef: (title, ref) => `${ref} in "${title}"`,
+        branchTo: target => `→ go to ${target}`,
+        branchMissing: '→ (target step no longer exists)',
+        imageAvailable: n => `Image: Step ${n}`,
+        defaultTitle: name => `${name} Manual`,
+        combinedTitle: count => `Combined Manual (${count} videos)`,
+        defaultSectionTitle: n => `Section ${n}`,
+        continuedSectionTitle: title => `${title} (continued)`,
+        defaultOverview: 'This manual was generated automatically. Use the Edit button to revise its contents.',
+        checklist: { sheet: 'Checklist', done: 'Done', action: 'Action (Caption)', detail: 'Details / Notes' },
+    },
+    vi: {
+        htmlLang: 'vi',
+        steps: 'Các bước thực hiện',
+        notes: 'Lưu ý',
+        revisionHistory: 'Lịch sử sửa đổi',
+        confirmationBadge: 'Kiểm tra',
+        callouts: { caution: 'Chú ý', warning: 'Cảnh báo', tip: 'Mẹo' },
+        metadataLabels: {
+            documentId: 'Số tài liệu',
+            revision: 'Lần sửa đổi',
+            author: 'Người soạn',
+            approver: 'Người phê duyệt',
+            effectiveDate: 'Ngày hiệu lực',
+            department: 'Bộ phận phụ trách',
+        },
+        stepHeading: n => `Bước ${n}`,
+        stepRef: n => `Bước ${n}`,
+        confirmationRef: n => `phần kiểm tra sau Bước ${n}`,
+        sectionStepRef: (title, ref) => `${ref} trong "${title}"`,
+        branchTo: target => `→ chuyển đến ${target}`,
+        branchMissing: '→ (bước đích không còn tồn tại)',
+        imageAvailable: n => `Hình ảnh: Bước ${n}`,
+        defaultTitle: name => `Hướng dẫn ${name}`,
+        combinedTitle: count => `Hướng dẫn tổng hợp (${count} video)`,
+        defaultSectionTitle: n => `Phần ${n}`,
+        continuedSectionTitle: title => `${title} (tiếp theo)`,
+        defaultOverview: 'Tài liệu hướng dẫn này được tạo tự động. Nhấn nút Chỉnh sửa để sửa nội dung.',
+        checklist: { sheet: 'Danh sách kiểm tra', done: 'Xong', action: 'Thao tác (Chú thích)', detail: 'Mô tả chi tiết / Ghi chú' },
+    },
+};
+
+export function manualStrings(language?: OutputLanguage): ManualStrings {
+    return STRINGS[normalizeOutputLanguage(language)];
+}
@@ -0,0 +1,42 @@
+import { OutputLanguage } from '@/app/page';
+
+/**
+ * 生成途中のバッチ（サーバーに登録した解析ジョブと、保存した元動画の対応）。
+ * localStorage に残しておき、解析中に再読み込み・タブを閉じても続きから取り込めるようにする。
+ */
+
+const PENDING_GENERATION_KEY = 'am_pending_generation';
+
+export interface PendingGenerationVideo {
+    name: string;
+    jobId: string;
+    videoId?: string; // utils/videoStore.ts（保存できなかった場合は再開できない）
+}
+
+export interface PendingGeneration {
+    language: OutputLanguage;
+    createdAt: number; // epoch ms
+    videos: PendingGenerationVideo[]; // 選んだ動画の順（セクションの並び順になる）
+}
+
+export function loadPendingGeneration(): PendingGeneration | null {
+    const raw = localStorage.getItem(PENDING_GENERATION_KEY);
+    if (!raw) return null;
+    try {
+        const batch = JSON.parse(raw);
+        if (!Array.isArray(batch?.videos) || batch.videos.length === 0) return null;
+        return batch;
+    } catch (e) {
+        console.warn('[pendingGeneration] Discarding unreadable pending batch:', e);
+        localStorage.removeItem(PENDING_GENERATION_KEY);
+        return null;
+    }
+}
+
+export function savePendingGeneration(batch: PendingGeneration) {
+    localStorage.setItem(PENDING_GENERATION_KEY, JSON.stringify(batch));
+}
+
+export function clearPendingGeneration() {
+    localStorage.removeItem(PENDING_GENERATION_KEY);
+}
@@ -0,0 +1,186 @@
+import { ManualData, ManualStep, ManualSubStep } from '@/app/page';
+import { collectManualImageIds, getImageBlob, putImage } from '@/utils/imageStore';
+import { createManual } from '@/utils/manualLibrary';
+import { createRevision } from '@/utils/revisions';
+import { migrateManualData, MigrationResult } from '@/utils/manualSchema';
+
+/**
+ * プロジェクトファイル（.automanual）の書き出し・読み込み。
+ *
+ * Word / PDF のような完成品ではなく、別の環境で編集を続けられる形でマニュアルを受け渡すための形式。
+ * 中身は jszip の ZIP で、次の構成になっている:
+ *   manifest.json  形式名・形式バージョン・画像IDとファイルの対応
+ *   manual.json    ManualData 全体（各ステップの Fabric canvasData を含む）
+ *   images/        元画像と注釈済み画像（ステップからは画像IDで参照）
+ */
+
+export const PROJECT_FILE_EXTENSION = '.automanual';
+export const PROJECT_FORMAT = 'automanual';
+// 構成を変えたら上げる。読み込み側はこれより新しい版を拒否する
+export const PROJECT_FORMAT_VERSION = 1;
+
+export interface ProjectImportResult {
+    id: string;
+    repairedCount: number; // 読み込み時に修復した不整合の件数
+    issueCount: number; // 修復できずに残った（読み込みには支障の無い）不整合の件数
+    missingImageCount: number; // ステップから参照されているのにファイル内に無かった画像の数
+}
+
+interface ProjectManifest {
+    format: typeof PROJECT_FORMAT;
+    formatVersion: number;
+    exportedAt: string; // ISO 8601
+    images: Record<string, string>; // imageId → ZIP内のパス
+}
+
+const NOT_A_PROJECT_MESSAGE = 'AutoManual のプロジェクトファイルではありません。';
+
+const extensionForType = (type: string): string =>
+    type === 'image/jpeg' ? 'jpg' : type === 'image/webp' ? 'webp' : 'png';
+
+const typeForPath = (path: string): string =>
+    path.endsWith('.jpg') ? 'image/jpeg' : path.endsWith('.webp') ? 'image/webp' : 'image/png';
+
+// canvasData の背景は読み込み時に元画像から作り直すため、環境依存の URL を持ち出さない
+function stripCanvasBackground(canvasData: any): any {
+    if (!canvasData || typeof canvasData !== 'object') return canvasData;
+    const { backgroundImage, ...rest } = canvasData;
+    return rest;
+}
+
+/** マニュアルを .automanual の ZIP Blob にまとめる */
+export async function buildProjectArchive(manual: ManualData): Promise<Blob> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const images: Record<string, string> = {};
+
+    const imageIds = collectManualImageIds(manual);
+
+    await Promise.all(Array.from(imageIds).map(async id => {
+        const blob = await getImageBlob(id);
+        if (!blob) {
+            console.warn(`[projectArchive] Image not found: ${id}`);
+            return;
+        }
+        const path = `images/${id}.${extensionForType(blob.type)}`;
+        zip.file(path, blob);
+        images[id] = path;
+    }));
+
+    const steps: ManualStep[] = manual.steps.map(step => ({
+        ...step,
+        canvasData: stripCanvasBackground(step.canvasData),
+    }));
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        formatVersion: PROJECT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        images,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    zip.file('manual.json', JSON.stringify({ ...manual, steps }, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+export async function generateAndDownloadProject(manual: ManualData, safeTitle: string): Promise<void> {
+    const blob = await buildProjectArchive(manual);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${safeTitle}${PROJECT_FILE_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * .automanual を読み込み、ライブラリに新しいマニュアルとして追加してそのIDと不整合の件数を返す。
+ * 画像は新しいIDで images テーブルへ登録し直す（同じファイルを複数回読み込んでも衝突しない）。
+ */
+export async function importProjectArchive(file: Blob): Promise<ProjectImportResult> {
+    const JSZip = (await import('jszip')).default;
+    let zip: InstanceType<typeof JSZip>;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('プロジェクトファイルを読み込めませんでした。ファイルが壊れている可能性があります。');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    const manualFile = zip.file('manual.json');
+    if (!manifestFile || !manualFile) {
+        throw new Error(NOT_A_PROJECT_MESSAGE);
+    }
+
+    let manifest: Partial<ProjectManifest> | null;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch {
+        throw new Error(NOT_A_PROJECT_MESSAGE);
+    }
+    if (!manifest || typeof manifest !== 'object' || manifest.format !== PROJECT_FORMAT) {
+        throw new Error(NOT_A_PROJECT_MESSAGE);
+    }
+    if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > PROJECT_FORMAT_VERSION) {
+        throw new Error('このプロジェクトファイルは新しいバージョンで作成されています。アプリを更新してから読み込んでください。');
+    }
+    const images: Record<string, unknown> = manifest.images && typeof manifest.images === 'object' ? manifest.images : {};
+
+    let result: MigrationResult;
+    try {
+        result = migrateManualData(JSON.parse(await manualFile.async('string')));
+    } catch {
+        throw new Error('プロジェクトファイルの内容が不正です。');
+    }
+    const { data: manual, repairs, issues } = result;
+    if (repairs.length > 0) console.warn('[projectArchive] Repaired schema issues in imported manual:', repairs);
+    if (issues.length > 0) console.warn('[projectArchive] Imported manual has schema issues:', issues);
+    const broken = issues.filter(issue => issue.structural).length;
+    if (broken > 0) {
+        throw new Error(`プロジェクトファイルの内容が不正です（修復できない問題が ${broken} 件あります）。`);
+    }
+
+    // 旧ID → 新ID（元画像と注釈済み画像が同一のステップは1枚のまま引き継ぐ）
+    const idMap = new Map<string, string>();
+    const missingImages = new Set<string>();
+    const restoreImage = async (id: string | undefined): Promise<string | undefined> => {
+        if (!id) return undefined;
+        const known = idMap.get(id);
+        if (known) return known;
+        const path = images[id];
+        const entry = typeof path === 'string' ? zip.file(path) : null;
+        if (typeof path !== 'string' || !entry) {
+            console.warn(`[projectArchive] Missing image in archive: ${id}`);
+            missingImages.add(id);
+            return undefined;
+        }
+        const raw = await entry.async('blob');
+        const newId = await putImage(new Blob([raw], { type: typeForPath(path) }));
+        idMap.set(id, newId);
+        return newId;
+    };
+
+    const steps: ManualStep[] = [];
+    for (const step of manual.steps) {
+        const screenshotId = await restoreImage(step.screenshotId);
+        // 編集モードは元画像を背景に使うため、無い場合は注釈済み画像で代用する
+        const originalId = (await restoreImage(step.originalId)) ?? screenshotId;
+        // idMap で重複登録を防いでいるため、サブステップも1件ずつ順に復元する
+        let subSteps: ManualSubStep[] | undefined;
+        if (step.subSteps) {
+            subSteps = [];
+            for (const sub of step.subSteps) {
+                subSteps.push({ ...sub, screenshotId: await restoreImage(sub.screenshotId) });
+            }
+        }
+        steps.push({ ...step, screenshotId, originalId, ...(subSteps ? { subSteps } : {}) });
+    }
+
+    // 翻訳元のIDは別のライブラリのものなので、読み込んだマニュアルは独立させる
+    const { variantOf, ...rest } = manual;
+    const restored: ManualData = { ...rest, steps };
+    const id = await createManual(restored);
+    await createRevision(id, restored, 'プロジェクトファイルから読み込み');
+    return { id, repairedCount: repairs.length, issueCount: issues.length, missingImageCount: missingImages.size };
+}
@@ -0,0 +1,141 @@
+/**
+ * 生成スタイル（プロンプトプロファイル）。
+ *
+ * 手順の細かさ・文体・結果確認ステップの有無・説明の詳しさをまとめて名前を付けたもの。
+ * 早見表のような簡潔なマニュアルと、研修用の詳しいマニュアルとで AI への指示を切り替える。
+ * 選んだプロファイルの設定は解析ジョブと一緒にサーバーへ送り、プロンプト（utils/ai/prompts.ts）と
+ * 重複除去の間隔（utils/ai/analyzeVideo.ts）に反映する。独自のプロファイルはブラウザ（localStorage）に保存する。
+ */
+
+export type StepDensity = 'coarse' | 'standard' | 'fine';
+export type WordingStyle = 'concise' | 'standard' | 'polite';
+export type DetailLevel = 'brief' | 'standard' | 'detailed';
+
+/** サーバーへ送る設定部分 */
+export interface PromptProfileSettings {
+    density: StepDensity;
+    wording: WordingStyle;
+    includeConfirmations: boolean; // 結果確認ステップ（操作後の画面）も抽出するか
+    detail: DetailLevel;
+}
+
+export interface PromptProfile extends PromptProfileSettings {
+    id: string;
+    name: string;
+    description?: string;
+    builtIn?: boolean; // 組み込み（編集・削除できない）
+}
+
+export const STEP_DENSITIES: ReadonlyArray<{ value: StepDensity; label: string }> = [
+    { value: 'coarse', label: '粗め' },
+    { value: 'standard', label: '標準' },
+    { value: 'fine', label: '細かめ' },
+];
+
+export const WORDING_STYLES: ReadonlyArray<{ value: WordingStyle; label: string }> = [
+    { value: 'concise', label: '簡潔' },
+    { value: 'standard', label: '標準' },
+    { value: 'polite', label: '丁寧' },
+];
+
+export const DETAIL_LEVELS: ReadonlyArray<{ value: DetailLevel; label: string }> = [
+    { value: 'brief', label: '短く' },
+    { value: 'standard', label: '標準' },
+    { value: 'detailed', label: '詳しく' },
+];
+
+export const DEFAULT_PROMPT_PROFILE_ID = 'standard';
+
+export const BUILT_IN_PROMPT_PROFILES: ReadonlyArray<PromptProfile> = [
+    {
+        id: 'quick-reference',
+        name: 'クイックリファレンス',
+        description: '主要な操作だけを短い文で。慣れた人向けの早見表に',
+        density: 'coarse',
+        wording: 'concise',
+        includeConfirmations: false,
+        detail: 'brief',
+        builtIn: true,
+    },
+    {
+        id: DEFAULT_PROMPT_PROFILE_ID,
+        name: '標準',
+        description: '操作と結果確認をバランスよく',
+        density: 'standard',
+        wording: 'standard',
+        includeConfirmations: true,
+        detail: 'standard',
+        builtIn: true,
+    },
+    {
+        id: 'training',
+        name: '研修用（詳細）',
+        description: '細かな操作も省かず、目的や注意点まで丁寧に。初めての人向けに',
+        density: 'fine',
+        wording: 'polite',
+        includeConfirmations: true,
+        detail: 'detailed',
+        builtIn: true,
+    },
+];
+
+const DEFAULT_SETTINGS: PromptProfileSettings = BUILT_IN_PROMPT_PROFILES.find(p => p.id === DEFAULT_PROMPT_PROFILE_ID)!;
+
+const pick = <T extends string>(options: ReadonlyArray<{ value: T }>, raw: unknown, fallback: T): T =>
+    options.some(o => o.value === raw) ? raw as T : fallback;
+
+/** リクエストや保存データの値を PromptProfileSettings に寄せる（不明な値は標準） */
+export function normalizePromptProfileSettings(raw: unknown): PromptProfileSettings {
+    const value = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    return {
+        density: pick(STEP_DENSITIES, value.density, DEFAULT_SETTINGS.density),
+        wording: pick(WORDING_STYLES, value.wording, DEFAULT_SETTINGS.wording),
+        includeConfirmations: typeof value.includeConfirmations === 'boolean' ? value.includeConfirmations : DEFAULT_SETTINGS.includeConfirmations,
+        detail: pick(DETAIL_LEVELS, value.detail, DEFAULT_SETTINGS.detail),
+    };
+}
+
+export function promptProfileSettings(profile: PromptProfile): PromptProfileSettings {
+    return normalizePromptProfileSettings(profile);
+}
+
+// --- ブラウザ側の保存（localStorage） ---
+
+// 独自に作ったプロファイルの一覧
+const CUSTOM_PROFILES_KEY = 'am_prompt_profiles';
+// 最後に選んだプロファイルのID（次の生成でも同じスタイルを初期値にする）
+const SELECTED_PROFILE_KEY = 'am_prompt_profile_id';
+
+export function loadCustomPromptProfiles(): PromptProfile[] {
+    try {
+        const raw = JSON.parse(localStorage.getItem(CUSTOM_PROFILES_KEY) || '[]');
+        if (!Array.isArray(raw)) return [];
+        return raw
+            .filter(p => p && typeof p.id === 'string' && typeof p.name === 'string')
+            .map(p => ({ id: p.id, name: p.name, ...normalizePromptProfileSettings(p) }));
+    } catch (e) {
+        console.warn('[promptProfiles] Discarding unreadable custom profiles:', e);
+        return [];
+    }
+}
+
+export function saveCustomPromptProfiles(profiles: PromptProfile[]) {
+    localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+}
+
+export function listPromptProfiles(): PromptProfile[] {
+    return [...BUILT_IN_PROMPT_PROFILES, ...loadCustomPromptProfiles()];
+}
+
+/** 前回選んだプロファイル（削除済みなら標準） */
+export function loadSelectedPromptProfile(): PromptProfile {
+    const id = localStorage.getItem(SELECTED_PROFILE_KEY);
+    const profiles = listPromptProfiles();
+    return profiles.find(p => p.id === id) ?? profiles.find(p => p.id === DEFAULT_PROMPT_PROFILE_ID)!;
+}
+
+export function saveSelectedPromptProfileId(id: string) {
+    localStorage.setItem(SELECTED_PROFILE_KEY, id);
+}
+
+export const createPromptProfileId = () => `custom-${Math.random().toString(36).substring(2, 11)}`;
@@ -0,0 +1,45 @@
+import { ManualData } from '@/app/page';
+import { db, RevisionRecord } from '@/utils/db';
+import { migrateManualData } from '@/utils/manualSchema';
+
+/**
+ * マニュアルのリビジョン履歴。
+ * 明示的な保存（変更を保存 / 保存して終了）と AI 生成のたびにスナップショットを残し、
+ * 履歴パネルから任意の版をプレビュー・復元できるようにする。
+ */
+
+// 1マニュアルあたりの保持件数（古いものから削除）
+const MAX_REVISIONS_PER_MANUAL = 50;
+
+export async function createRevision(manualId: string, data: ManualData, note: string): Promise<number> {
+    const id = await db.revisions.add({
+        manualId,
+        // 以降の編集で同じオブジェクトが書き換わらないよう切り離して保存
+        data: JSON.parse(JSON.stringify(data)),
+        note,
+        createdAt: Date.now(),
+    });
+
+    const keys = await db.revisions
+        .where('[manualId+createdAt]')
+        .between([manualId, -Infinity], [manualId, Infinity])
+        .primaryKeys();
+    if (keys.length > MAX_REVISIONS_PER_MANUAL) {
+        await db.revisions.bulkDelete(keys.slice(0, keys.length - MAX_REVISIONS_PER_MANUAL));
+    }
+    return id;
+}
+
+/** 新しい順にリビジョンを返す（スナップショットは現在のスキーマへ移行済み） */
+export async function listRevisions(manualId: string): Promise<RevisionRecord[]> {
+    const records = await db.revisions
+        .where('[manualId+createdAt]')
+        .between([manualId, -Infinity], [manualId, Infinity])
+        .reverse()
+        .toArray();
+    return records.map(record => ({ ...record, data: migrateManualData(record.data).data }));
+}
+
+export async function deleteRevisionsOf(manualId: string): Promise<void> {
+    await db.revisions.where('manualId').equals(manualId).delete();
+}
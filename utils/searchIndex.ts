@@ -0,0 +1,199 @@
+import { ManualData, ManualStep } from '@/app/page';
+import { db, SearchIndexRecord } from '@/utils/db';
+import { groupStepsBySection } from '@/utils/sections';
+import { isConfirmationStep } from '@/utils/stepKind';
+
+/**
+ * ライブラリ横断の全文検索（Dexie の searchIndex テーブル）。
+ *
+ * 日本語は単語で区切れないため、正規化した本文を 2 文字ずつの n-gram に分けて
+ * multiEntry インデックスに載せ、候補を絞ってから本文の部分一致で確定する。
+ * インデックスはマニュアル内の項目（タイトル・概要・ステップ・注意事項）単位で持ち、
+ * 保存のたびに変わった項目だけを書き換える。
+ */
+
+export interface SearchHit {
+    manualId: string;
+    manualTitle: string;
+    key: string;
+    field: string;
+    stepUid?: string;
+    snippet: { before: string; match: string; after: string };
+}
+
+const MAX_HITS = 50;
+const SNIPPET_CONTEXT = 30;
+
+/** 全角英数の半角化・大文字小文字の統一・空白の畳み込み */
+function normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function toTokens(text: string): string[] {
+    const normalized = normalize(text);
+    const tokens = new Set<string>();
+    for (let i = 0; i < normalized.length - 1; i++) {
+        const gram = normalized.slice(i, i + 2);
+        if (!gram.includes(' ')) tokens.add(gram);
+    }
+    return Array.from(tokens);
+}
+
+function stepText(step: ManualStep): string {
+    return [
+        step.action,
+        step.detail,
+        step.label,
+        ...(step.subSteps || []).flatMap(sub => [sub.action, sub.detail]),
+        ...(step.callouts || []).map(c => c.text),
+    ].filter(Boolean).join('\n');
+}
+
+/** マニュアル1件分のインデックス項目を作る（タイトルは空でも必ず1件持つ） */
+function buildEntries(manualId: string, data: ManualData): SearchIndexRecord[] {
+    const entry = (key: string, field: string, text: string, stepUid?: string): SearchIndexRecord =>
+        ({ manualId, key, field, stepUid, text, tokens: toTokens(text) });
+
+    const entries = [entry('title', 'タイトル', data.title || '')];
+    if (data.overview) entries.push(entry('overview', '概要', data.overview));
+
+    const groups = groupStepsBySection(data);
+    groups.forEach(({ section, steps }) => {
+        steps.forEach((step, index) => {
+            const text = stepText(step);
+            if (!text) return;
+            const number = isConfirmationStep(step) ? `ステップ ${step.stepNumber} の確認` : `ステップ ${step.stepNumber}`;
+            const field = groups.length > 1 ? `${section.title} / ${number}` : number;
+            entries.push(entry(`step:${step.uid || `${section.id}:${index}`}`, field, text, step.uid));
+        });
+    });
+
+    (data.notes || []).forEach((note, index) => {
+        if (note.trim()) entries.push(entry(`note:${index}`, '注意事項', note));
+    });
+    return entries;
+}
+
+/** 保存内容に合わせてインデックスを差分更新する（本文・項目名が変わった項目だけ書き換える） */
+export async function updateSearchIndex(manualId: string, data: ManualData): Promise<void> {
+    const next = buildEntries(manualId, data);
+    await db.transaction('rw', db.searchIndex, async () => {
+        const existing = await db.searchIndex.where('manualId').equals(manualId).toArray();
+        const byKey = new Map(existing.map(e => [e.key, e]));
+        const nextKeys = new Set(next.map(e => e.key));
+
+        const stale = existing.filter(e => !nextKeys.has(e.key)).map(e => [manualId, e.key] as [string, string]);
+        const changed = next.filter(e => {
+            const prev = byKey.get(e.key);
+            return !prev || prev.text !== e.text || prev.field !== e.field || prev.stepUid !== e.stepUid;
+        });
+        if (stale.length > 0) await db.searchIndex.bulkDelete(stale);
+        if (changed.length > 0) await db.searchIndex.bulkPut(changed);
+    });
+}
+
+export async function removeFromSearchIndex(manualId: string): Promise<void> {
+    await db.searchIndex.where('manualId').equals(manualId).delete();
+}
+
+/** インデックスの無いマニュアル（v5 以前に保存されたもの等）を索引付けする */
+export async function ensureSearchIndex(): Promise<void> {
+    const indexed = new Set((await db.searchIndex.orderBy('manualId').uniqueKeys()).map(String));
+    const missing = (await db.manuals.toCollection().primaryKeys()).map(String).filter(id => !indexed.has(id));
+    for (const id of missing) {
+        const record = await db.manuals.get(id);
+        if (record) await updateSearchIndex(id, record.data);
+    }
+}
+
+// 直前の文字と合わせて正規化しないと結果が変わる文字（半角カナの濁点・半濁点と結合文字）
+const RE_COMBINING = /[\u0300-\u036F\u3099\u309A\uFF9E\uFF9F]/;
+const RE_SPACE = /\s/;
+
+/**
+ * normalize() と同じ変換をしながら、変換後の各文字が元の本文の何文字目から来たかを記録する。
+ * offsets の末尾には本文の長さを番兵として入れる。
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+    let normalized = '';
+    const offsets: number[] = [];
+    let i = 0;
+    while (i < text.length) {
+        let j = i + ((text.codePointAt(i) ?? 0) > 0xffff ? 2 : 1);
+        if (RE_SPACE.test(text[i])) {
+            while (j < text.length && RE_SPACE.test(text[j])) j++;
+            normalized += ' ';
+            offsets.push(i);
+            i = j;
+            continue;
+        }
+        while (j < text.length && RE_COMBINING.test(text[j])) j++;
+        const part = text.slice(i, j).normalize('NFKC').toLowerCase();
+        normalized += part;
+        for (let k = 0; k < part.length; k++) offsets.push(i);
+        i = j;
+    }
+    offsets.push(text.length);
+    return { normalized, offsets };
+}
+
+function buildSnippet(text: string, term: string): SearchHit['snippet'] {
+    const flatten = (s: string) => s.replace(/\s+/g, ' ');
+    // 検索語は正規化済みなので、本文も正規化した上で探し、見つかった位置を元の本文へ戻す
+    const { normalized, offsets } = normalizeWithOffsets(text);
+    const found = normalized.indexOf(term);
+    if (found < 0) {
+        const flat = flatten(text);
+        return { before: '', match: '', after: flat.slice(0, SNIPPET_CONTEXT * 2) + (flat.length > SNIPPET_CONTEXT * 2 ? '…' : '') };
+    }
+    const at = offsets[found];
+    // 一致の末尾が1文字から展開された途中で終わる場合は、その元の文字の終わりまで含める
+    const last = offsets[found + term.length - 1];
+    const matchEnd = offsets.slice(found + term.length).find(offset => offset > last) ?? text.length;
+
+    const start = Math.max(0, at - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, matchEnd + SNIPPET_CONTEXT);
+    return {
+        before: (start > 0 ? '…' : '') + flatten(text.slice(start, at)),
+        match: flatten(text.slice(at, matchEnd)),
+        after: flatten(text.slice(matchEnd, end)) + (end < text.length ? '…' : ''),
+    };
+}
+
+/**
+ * 空白区切りの語をすべて含む項目を返す（AND 検索）。
+ * 最も長い語の先頭 2-gram で候補を引き、正規化した本文の部分一致で絞り込む。
+ */
+export async function searchManuals(query: string): Promise<SearchHit[]> {
+    const terms = normalize(query).split(' ').filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const longest = terms.reduce((a, b) => (b.length > a.length ? b : a));
+    const candidates = longest.length >= 2
+        ? await db.searchIndex.where('tokens').equals(longest.slice(0, 2)).toArray()
+        : await db.searchIndex.where('tokens').startsWith(longest).distinct().toArray();
+
+    const matched = candidates
+        .filter(e => {
+            const text = normalize(e.text);
+            return terms.every(term => text.includes(term));
+        })
+        .slice(0, MAX_HITS);
+
+    const manualIds = Array.from(new Set(matched.map(e => e.manualId)));
+    const records = await db.manuals.bulkGet(manualIds);
+    // 削除済みマニュアルの取り残し項目は結果から外す
+    const titles = new Map<string, string>();
+    records.forEach((record, i) => { if (record) titles.set(manualIds[i], record.data.title); });
+
+    return matched
+        .filter(e => titles.has(e.manualId))
+        .map(e => ({
+            manualId: e.manualId,
+            manualTitle: titles.get(e.manualId) || '無題のマニュアル',
+            key: e.key,
+            field: e.field,
+            stepUid: e.stepUid,
+            snippet: buildSnippet(e.text, terms[0]),
+        }));
+}
@@ -0,0 +1,143 @@
+import { ManualData, ManualSection, ManualStep, SectionLayout } from '@/app/page';
+import { manualStrings } from '@/utils/outputLanguage';
+
+/**
+ * セクション（章）操作のヘルパー。
+ *
+ * ManualData.sections が表示・出力の順序を持ち、各ステップは sectionId で所属を示す。
+ * steps 配列は常に「セクション順・セクション内は手順順」に並べておき、
+ * ステップ番号はセクションごとに 1 から振り直す。
+ * ビューアー・各エクスポーター・Excel API はこのモジュール経由でセクションを扱う。
+ */
+
+export const DEFAULT_SECTION_LAYOUT: SectionLayout = 'single';
+
+export interface SectionGroup {
+    section: ManualSection;
+    steps: ManualStep[];
+    startIndex: number; // manual.steps 内での先頭ステップの位置（編集ハンドラ用）
+}
+
+export function createSectionId(): string {
+    return `sec_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function createSection(title: string, patch: Partial<Omit<ManualSection, 'id' | 'title'>> = {}): ManualSection {
+    return { id: createSectionId(), title, layout: DEFAULT_SECTION_LAYOUT, ...patch };
+}
+
+/** セクション順にステップをまとめる（ステップの無いセクションも空配列で返す） */
+export function groupStepsBySection(data: ManualData): SectionGroup[] {
+    const bySection = new Map<string, { steps: ManualStep[]; startIndex: number }>();
+    data.steps.forEach((step, index) => {
+        const key = step.sectionId ?? '';
+        const entry = bySection.get(key);
+        if (entry) entry.steps.push(step);
+        else bySection.set(key, { steps: [step], startIndex: index });
+    });
+    return data.sections.map(section => ({
+        section,
+        steps: bySection.get(section.id)?.steps ?? [],
+        startIndex: bySection.get(section.id)?.startIndex ?? -1,
+    }));
+}
+
+/**
+ * セクションが切り替わるたびに 1 から番号を振り直す。
+ * 結果確認ステップは番号を消費せず、直前の操作ステップと同じ番号を持つ（先頭なら 0）。
+ */
+export function renumberSteps(steps: ManualStep[]): ManualStep[] {
+    let currentSection: string | undefined;
+    let currentNum = 0;
+    return steps.map((s, i) => {
+        if (i === 0 || s.sectionId !== currentSection) {
+            currentSection = s.sectionId;
+            currentNum = 0;
+        }
+        if (s.kind !== 'confirmation') currentNum++;
+        return s.stepNumber === currentNum ? s : { ...s, stepNumber: currentNum };
+    });
+}
+
+/**
+ * 不変条件を回復する: 所属不明のステップは直前のセクションへ寄せ、
+ * steps をセクション順に並べ直し、空になったセクションを取り除いて番号を振り直す。
+ */
+export function normalizeSections(data: ManualData): ManualData {
+    let sections = data.sections;
+    if (sections.length === 0) sections = [createSection(manualStrings(data.language).defaultSectionTitle(1))];
+
+    const known = new Set(sections.map(s => s.id));
+    let lastSectionId = sections[0].id;
+    const steps = data.steps.map(step => {
+        if (step.sectionId && known.has(step.sectionId)) {
+            lastSectionId = step.sectionId;
+            return step;
+        }
+        return { ...step, sectionId: lastSectionId };
+    });
+
+    const order = new Map(sections.map((s, i) => [s.id, i]));
+    // Array.prototype.sort は安定ソートなので、セクション内の順序は保たれる
+    const sorted = [...steps].sort((a, b) => order.get(a.sectionId!)! - order.get(b.sectionId!)!);
+
+    const used = new Set(sorted.map(s => s.sectionId));
+    const remaining = sections.filter(s => used.has(s.id));
+
+    return {
+        ...data,
+        sections: remaining.length > 0 ? remaining : sections.slice(0, 1),
+        steps: renumberSteps(sorted),
+    };
+}
+
+export function updateSection(data: ManualData, id: string, patch: Partial<Omit<ManualSection, 'id'>>): ManualData {
+    return { ...data, sections: data.sections.map(s => (s.id === id ? { ...s, ...patch } : s)) };
+}
+
+/** セクションを前後に移動する（offset: -1 で上へ、+1 で下へ） */
+export function moveSection(data: ManualData, id: string, offset: number): ManualData {
+    const from = data.sections.findIndex(s => s.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= data.sections.length) return data;
+    const sections = [...data.sections];
+    const [moved] = sections.splice(from, 1);
+    sections.splice(to, 0, moved);
+    return normalizeSections({ ...data, sections });
+}
+
+/** 次のセクションのステップをこのセクションの末尾に取り込み、次のセクションを削除する */
+export function mergeSectionWithNext(data: ManualData, id: string): ManualData {
+    const index = data.sections.findIndex(s => s.id === id);
+    const next = data.sections[index + 1];
+    if (index < 0 || !next) return data;
+    return normalizeSections({
+        ...data,
+        sections: data.sections.filter(s => s.id !== next.id),
+        steps: data.steps.map(step => (step.sectionId === next.id ? { ...step, sectionId: id } : step)),
+    });
+}
+
+/** 指定ステップ以降を新しいセクションとして切り出す（レイアウトと元動画は引き継ぐ） */
+export function splitSectionAt(data: ManualData, stepUid: string): ManualData {
+    const stepIndex = data.steps.findIndex(s => s.uid === stepUid);
+    if (stepIndex <= 0) return data;
+    const sectionId = data.steps[stepIndex].sectionId;
+    if (data.steps[stepIndex - 1].sectionId !== sectionId) return data; // 既にセクションの先頭
+
+    const sectionIndex = data.sections.findIndex(s => s.id === sectionId);
+    const original = data.sections[sectionIndex];
+    if (!original) return data;
+    const created = createSection(manualStrings(data.language).continuedSectionTitle(original.title), {
+        description: original.description,
+        layout: original.layout,
+        sourceVideo: original.sourceVideo,
+    });
+
+    const sections = [...data.sections];
+    sections.splice(sectionIndex + 1, 0, created);
+    const steps = data.steps.map((step, i) =>
+        i >= stepIndex && step.sectionId === sectionId ? { ...step, sectionId: created.id } : step
+    );
+    return normalizeSections({ ...data, sections, steps });
+}
@@ -0,0 +1,14 @@
+/**
+ * ビューアー上のステップ（data-step-id を持つ要素）までスクロールし、一定時間ハイライトする。
+ * 条件分岐のリンクとライブラリ検索からのジャンプで共通に使う。
+ */
+const HIGHLIGHT_CLASSES = ['ring-4', 'ring-indigo-300', 'rounded-2xl'];
+
+export function focusStep(uid: string, durationMs: number = 1500): boolean {
+    const el = document.querySelector<HTMLElement>(`[data-step-id="${uid}"]`);
+    if (!el) return false;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add(...HIGHLIGHT_CLASSES);
+    setTimeout(() => el.classList.remove(...HIGHLIGHT_CLASSES), durationMs);
+    return true;
+}
@@ -0,0 +1,36 @@
+import { ManualStep, OutputLanguage, StepKind } from '@/app/page';
+import { manualStrings } from '@/utils/outputLanguage';
+
+/**
+ * 操作ステップ / 結果確認ステップの判定と表示ラベル。
+ *
+ * 結果確認ステップは番号を消費しない（renumberSteps 参照）ので、
+ * 番号アイコンには数字の代わりにチェックマークを描き、見出しに「確認」バッジを付ける。
+ * ビューアー・各エクスポーターはこのモジュール経由で表示を揃える。
+ */
+
+export const CONFIRMATION_BADGE = '確認';
+export const CONFIRMATION_MARK = '✓';
+
+// 番号アイコンの色（操作: 紺 / 確認: エメラルド）
+export const OPERATION_COLOR = '#1E1B4B';
+export const CONFIRMATION_COLOR = '#059669';
+
+export function isConfirmationStep(step: Pick<ManualStep, 'kind'>): boolean {
+    return step.kind === 'confirmation';
+}
+
+/** AI 応答や読み込みデータの値を StepKind に寄せる（不明な値は操作ステップ扱い） */
+export function normalizeStepKind(raw: unknown): StepKind {
+    return raw === 'confirmation' ? 'confirmation' : 'operation';
+}
+
+/** 番号アイコンに描く文字（操作: 番号 / 確認: ✓） */
+export function stepNumberLabel(step: Pick<ManualStep, 'kind' | 'stepNumber'>): string {
+    return isConfirmationStep(step) ? CONFIRMATION_MARK : String(step.stepNumber);
+}
+
+/** テキスト出力用の見出しプレフィックス（例: 「3.」「✓ 確認」。バッジは出力言語に合わせる） */
+export function stepHeadingPrefix(step: Pick<ManualStep, 'kind' | 'stepNumber'>, language?: OutputLanguage): string {
+    return isConfirmationStep(step) ? `${CONFIRMATION_MARK} ${manualStrings(language).confirmationBadge}` : `${step.stepNumber}.`;
+}
@@ -0,0 +1,55 @@
+import { ManualData, ManualStep } from '@/app/page';
+import { getImageDataUrl } from '@/utils/imageStore';
+
+/**
+ * 1ステップの本文を AI に書き直させる（/api/rewrite-step）。
+ *
+ * 注釈を書き込む前の元画像と、前後のステップの本文・マニュアルのタイトルを送り、
+ * action / detail / label の提案を受け取る。提案を採用するかどうかは呼び出し側（EditStepRow）で決める。
+ */
+
+export interface StepText {
+    action: string;
+    detail: string;
+    label?: string;
+}
+
+/** 注釈の無い元画像を data URL で取り出す（取れなければ注釈入りのスクリーンショット） */
+async function loadOriginalFrame(step: ManualStep): Promise<string | undefined> {
+    const imageId = step.originalId || step.screenshotId;
+    const stored = imageId ? await getImageDataUrl(imageId) : undefined;
+    if (stored) return stored;
+    if (step.originalUrl?.startsWith('data:')) return step.originalUrl;
+    return step.screenshot?.startsWith('data:') ? step.screenshot : undefined;
+}
+
+const neighborText = (step?: ManualStep) => step && { action: step.action, detail: step.detail ?? '' };
+
+export async function requestStepRewrite(manual: ManualData, index: number): Promise<StepText> {
+    const step = manual.steps[index];
+    if (!step) throw new Error('書き直すステップが見つかりません');
+
+    const dataUrl = await loadOriginalFrame(step);
+    if (!dataUrl) throw new Error('このステップの画像を読み込めませんでした');
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+)/)?.[1];
+
+    const response = await fetch('/api/rewrite-step', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            imageData: base64,
+            mimeType,
+            language: manual.language,
+            title: manual.title,
+            step: { action: step.action, detail: step.detail ?? '', label: step.label },
+            previous: neighborText(manual.steps[index - 1]),
+            next: neighborText(manual.steps[index + 1]),
+        }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || `書き直しに失敗しました (${response.status})`);
+    }
+    return { action: result.action, detail: result.detail ?? '', label: result.label };
+}
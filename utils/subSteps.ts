@@ -0,0 +1,77 @@
+import { ManualData, ManualStep, ManualSubStep } from '@/app/page';
+import { normalizeSections, renumberSteps } from '@/utils/sections';
+
+/**
+ * サブステップ（3-1, 3-2…）の操作。
+ *
+ * サブステップは親ステップの subSteps に入れ子で持ち、番号は保存しない。
+ * 並び替えモードのドラッグで「ステップ → サブステップ」「サブステップ → ステップ」を相互に変換する。
+ */
+
+export function createSubStepUid(): string {
+    return Math.random().toString(36).substring(2, 11);
+}
+
+/** 表示用の番号（例: 3-1） */
+export function subStepLabel(parent: Pick<ManualStep, 'stepNumber'>, index: number): string {
+    return `${parent.stepNumber}-${index + 1}`;
+}
+
+/** 本文が空のサブステップを除いたもの（表示・出力用） */
+export function visibleSubSteps(step: Pick<ManualStep, 'subSteps'>): ManualSubStep[] {
+    return (step.subSteps || []).filter(s => s.action.trim() !== '' || !!s.screenshotId || !!s.screenshot);
+}
+
+/**
+ * ステップを別ステップのサブステップにする（ドラッグイン）。
+ * 注釈は screenshotId に焼き込み済みなので画像はそのまま引き継ぎ、持っていたサブステップは後ろに平たく並べる。
+ * このステップへの分岐は親ステップへ付け替える。
+ */
+export function nestStepInto(data: ManualData, stepUid: string, parentUid: string): ManualData {
+    if (stepUid === parentUid) return data;
+    const moved = data.steps.find(s => s.uid === stepUid);
+    if (!moved || !data.steps.some(s => s.uid === parentUid)) return data;
+
+    const asSubSteps: ManualSubStep[] = [
+        { uid: stepUid, action: moved.action, detail: moved.detail || undefined, screenshotId: moved.screenshotId },
+        ...(moved.subSteps || []),
+    ];
+    const steps = data.steps
+        .filter(s => s.uid !== stepUid)
+        .map(s => {
+            const next = s.uid === parentUid ? { ...s, subSteps: [...(s.subSteps || []), ...asSubSteps] } : s;
+            if (!next.branches?.some(b => b.targetUid === stepUid)) return next;
+            return { ...next, branches: next.branches.map(b => (b.targetUid === stepUid ? { ...b, targetUid: parentUid } : b)) };
+        });
+    return normalizeSections({ ...data, steps });
+}
+
+/**
+ * サブステップを通常のステップとして取り出し、afterUid のステップの直後に置く（ドラッグアウト）。
+ * 画像の無いサブステップは親の画像を引き継ぐ（ステップには画像が必須のため）。
+ */
+export function extractSubStep(data: ManualData, parentUid: string, subUid: string, afterUid: string): ManualData {
+    const parent = data.steps.find(s => s.uid === parentUid);
+    const sub = parent?.subSteps?.find(s => s.uid === subUid);
+    const after = data.steps.find(s => s.uid === afterUid);
+    if (!parent || !sub || !after) return data;
+
+    const extracted: ManualStep = {
+        stepNumber: 0,
+        kind: 'operation',
+        action: sub.action,
+        detail: sub.detail || '',
+        screenshotId: sub.screenshotId ?? parent.screenshotId,
+        originalId: sub.screenshotId ?? parent.originalId ?? parent.screenshotId,
+        uid: sub.uid,
+        sectionId: after.sectionId,
+        videoIndex: parent.videoIndex,
+    };
+
+    const steps: ManualStep[] = [];
+    data.steps.forEach(s => {
+        steps.push(s.uid === parentUid ? { ...s, subSteps: s.subSteps!.filter(x => x.uid !== subUid) } : s);
+        if (s.uid === afterUid) steps.push(extracted);
+    });
+    return { ...data, steps: renumberSteps(steps) };
+}
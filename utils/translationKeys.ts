@@ -0,0 +1,20 @@
+/**
+ * 翻訳版（utils/languageVariants.ts）の項目キーのうち、ID を持たない項目のキー。
+ *
+ * 注意事項・注意書き・分岐は uid を持たないため、位置（何番目か）で対応付けると並べ替え・削除の後に
+ * 別の項目へ訳文が付いてしまう。原文のハッシュをキーにして、原文が同じ項目に同じ訳文を付ける。
+ */
+
+/** 原文の短いハッシュ（FNV-1a 32bit を36進数で） */
+export function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+export const noteKey = (text: string) => `note:${hashText(text)}`;
+export const calloutKey = (stepPrefix: string, text: string) => `${stepPrefix}:callout:${hashText(text)}`;
+export const branchKey = (stepPrefix: string, label: string) => `${stepPrefix}:branch:${hashText(label)}`;
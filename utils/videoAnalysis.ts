@@ -0,0 +1,286 @@
+import { ManualStep, OutputLanguage } from '@/app/page';
+import { putImage } from '@/utils/imageStore';
+import { extractFrameAtTimestamp, formatTimestamp } from '@/utils/videoProcessor';
+import { createProxySegments } from '@/utils/videoDownsampler';
+import { PromptProfile, promptProfileSettings } from '@/utils/promptProfiles';
+import { AnalysisJob, AnalysisResult, AnalysisStreamEvent, ANALYSIS_STREAM_CONTENT_TYPE, readAnalysisStream } from '@/utils/analysisStream';
+
+/**
+ * 動画1本分の解析パイプライン（軽量プロキシ作成 → AI解析 → 元動画から高画質フレーム切り出し）。
+ * 新規生成（app/page.tsx）と、保存済みの元動画からのセクション再解析（ManualViewer）で共用する。
+ * AI解析はサーバー側のジョブ（/api/analysis-jobs）で実行するため、新規生成は段階ごとの関数を使って再読み込み後に再開できる。
+ * 進捗の見せ方は呼び出し側に任せ、ここではフェーズと割合だけを通知する。
+ */
+
+export type AnalysisPhase = 'proxy' | 'analyzing' | 'frames';
+
+export interface AnalyzeVideoOptions {
+    sectionId: string;
+    videoIndex: number;
+    language?: OutputLanguage; // 未指定は日本語
+    profile?: PromptProfile; // 生成スタイル（未指定は標準）
+    onPhase?: (phase: AnalysisPhase, message: string) => void;
+    onProgress?: (phase: AnalysisPhase, ratio: number, message?: string) => void; // ratio: 0〜1（'analyzing' はサーバーの進捗イベントから）
+}
+
+export interface VideoAnalysisResult {
+    steps: ManualStep[]; // stepNumber は動画内の連番（セクション内の番号は呼び出し側で renumberSteps する）
+    notes: string[];
+}
+
+const FRAME_CONCURRENCY = 4; // Process in batches of 4
+
+const formatMegabytes = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(1);
+
+/**
+ * 解析ストリームの進捗イベントを、'analyzing' フェーズ内の割合（0〜1）と表示文言にする。
+ * 送信量が分かるアップロードは実測で、終わりの見えない変換待ち・生成は経過に応じて上限へ漸近させる。
+ */
+export function describeStreamProgress(event: AnalysisStreamEvent, videoName: string): { ratio: number; message: string } {
+    const { ratio, message } = describeEventProgress(event, videoName);
+    if (!('segment' in event) || !event.segment) return { ratio, message };
+    // 区間に分けた解析は、区間の数で割って全体の割合にする
+    const { index, count, startSeconds, endSeconds } = event.segment;
+    return {
+        ratio: (index + ratio) / count,
+        message: `[区間 ${index + 1}/${count}: ${formatTimestamp(startSeconds)}〜${formatTimestamp(endSeconds)}] ${message}`,
+    };
+}
+
+/** 1回分の解析（区間に分けた場合は1区間）の中での割合と文言 */
+function describeEventProgress(event: AnalysisStreamEvent, videoName: string): { ratio: number; message: string } {
+    switch (event.type) {
+        case 'queued':
+            return { ratio: 0, message: `動画「${videoName}」は解析の順番待ちです (${event.position}番目)` };
+        case 'received':
+            return { ratio: 0.02, message: `動画「${videoName}」をサーバーが受信しました` };
+        case 'upload':
+            return {
+                ratio: 0.02 + 0.38 * (event.totalBytes > 0 ? event.sentBytes / event.totalBytes : 1),
+                message: `動画「${videoName}」をAIに送信中... (${formatMegabytes(event.sentBytes)} / ${formatMegabytes(event.totalBytes)} MB)`,
+            };
+        case 'processing':
+            return {
+                ratio: 0.4 + 0.15 * (1 - Math.pow(0.8, event.polls + 1)),
+                message: `AI側で動画を変換中... (状態確認 ${event.polls + 1} 回目)`,
+            };
+        case 'generating':
+            return {
+                ratio: 0.55 + 0.37 * (1 - Math.exp(-event.elapsedMs / 60000)),
+                message: event.attempt
+                    ? `AIの応答を読み取れなかったため、手順を生成し直しています... (${Math.round(event.elapsedMs / 1000)}秒経過)`
+                    : `動画「${videoName}」からAIが手順を生成中... (${Math.round(event.elapsedMs / 1000)}秒経過)`,
+            };
+        case 'parsing':
+            return { ratio: 0.95, message: 'AIの応答を解析中...' };
+        default:
+            return { ratio: 0, message: '' };
+    }
+}
+
+export interface SubmitAnalysisJobOptions {
+    language?: OutputLanguage; // 未指定は日本語
+    profile?: PromptProfile; // 生成スタイル（未指定は標準）
+    sourceVideoId?: string; // 保存した元動画（ジョブ一覧から結果を取り込むときに読み直す）
+    onProgress?: (phase: AnalysisPhase, ratio: number, message?: string) => void;
+}
+
+/**
+ * 軽量プロキシを作ってサーバーに送り、解析ジョブを登録する（ジョブIDを返す）。
+ * 解析はサーバー側で続くので、結果は waitForAnalysisJob で（再読み込み後でも）受け取る。
+ */
+export async function submitAnalysisJob(videoFile: File, options: SubmitAnalysisJobOptions = {}): Promise<string> {
+    const { language, profile, sourceVideoId, onProgress } = options;
+
+    // STAGE 1: Dual-Video Strategy (Proxy Generation)
+    // 長い動画は区間ごとのプロキシになり、サーバー側で区間ごとに解析してまとめ直す
+    const segments = await createProxySegments(videoFile, (p) => onProgress?.('proxy', p));
+
+    const formData = new FormData();
+    for (const segment of segments) {
+        formData.append('video', segment.file); // Send lightweight proxy!
+        formData.append('segmentStart', String(segment.startSeconds));
+        formData.append('segmentEnd', String(segment.endSeconds));
+    }
+    formData.append('fileName', videoFile.name);
+    if (language) formData.append('language', language);
+    if (profile) formData.append('profile', JSON.stringify({ name: profile.name, ...promptProfileSettings(profile) }));
+    if (sourceVideoId) formData.append('sourceVideoId', sourceVideoId);
+
+    const response = await fetch('/api/analysis-jobs', {
+        method: 'POST',
+        body: formData,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.job?.id) {
+        throw new Error(data.error || `動画「${videoFile.name}」の解析を開始できませんでした。`);
+    }
+    return data.job.id;
+}
+
+/** 進捗ストリームが切れたときの再接続の回数と間隔 */
+const STREAM_RECONNECT_ATTEMPTS = 5;
+const STREAM_RECONNECT_DELAY_MS = 2000;
+
+/**
+ * 解析ジョブの終了を待ち、結果（AI の生の手順と注意事項）を返す。
+ * 進捗は SSE で受け、接続が切れたら再接続する（サーバー側の解析は切断の影響を受けない）。
+ * 失敗・キャンセルされたジョブは Error にする。
+ */
+export async function waitForAnalysisJob(
+    jobId: string,
+    videoName: string,
+    onProgress?: (ratio: number, message: string) => void
+): Promise<AnalysisResult> {
+    // コールバック内で代入するため、結果はオブジェクトに受ける
+    const outcome: { data?: AnalysisResult; error?: string } = {};
+    const handle = (event: AnalysisStreamEvent) => {
+        if (event.type === 'result') {
+            outcome.data = { steps: event.steps, notes: event.notes };
+        } else if (event.type === 'error') {
+            outcome.error = event.message;
+        } else if (event.type === 'cancelled') {
+            outcome.error = `動画「${videoName}」の解析はキャンセルされました。`;
+        } else {
+            const { ratio, message } = describeStreamProgress(event, videoName);
+            onProgress?.(ratio, message);
+        }
+    };
+
+    for (let attempt = 0; attempt <= STREAM_RECONNECT_ATTEMPTS; attempt++) {
+        if (attempt > 0) await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_DELAY_MS));
+        try {
+            const response = await fetch(`/api/analysis-jobs/${encodeURIComponent(jobId)}/events`);
+            if (response.status === 404) {
+                throw new Error(`動画「${videoName}」の解析ジョブが見つかりません。期限切れで削除された可能性があります。`);
+            }
+            if (!response.ok || !response.headers.get('content-type')?.includes(ANALYSIS_STREAM_CONTENT_TYPE)) {
+                continue;
+            }
+            await readAnalysisStream(response, handle);
+        } catch (e) {
+            if (e instanceof Error && e.message.includes('解析ジョブが見つかりません')) throw e;
+            console.warn(`[videoAnalysis] Progress stream for job ${jobId} interrupted:`, e);
+        }
+        if (outcome.error) throw new Error(outcome.error);
+        if (outcome.data) return outcome.data;
+    }
+
+    // ストリームで受け取れなかった場合は、ジョブの状態を直接見る
+    const response = await fetch(`/api/analysis-jobs/${encodeURIComponent(jobId)}`);
+    const data = await response.json().catch(() => ({}));
+    const job: AnalysisJob | undefined = data.job;
+    if (job?.status === 'completed' && job.result) return job.result;
+    if (job?.status === 'failed') throw new Error(job.error?.message || `動画「${videoName}」の解析に失敗しました。`);
+    if (job?.status === 'cancelled') throw new Error(`動画「${videoName}」の解析はキャンセルされました。`);
+    throw new Error(data.error || `動画「${videoName}」の解析結果を受け取れませんでした（通信が途中で切れた可能性があります）。`);
+}
+
+/** ジョブの現在の状態（削除・期限切れで見つからなければ null） */
+export async function fetchAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+    const response = await fetch(`/api/analysis-jobs/${encodeURIComponent(jobId)}`, { cache: 'no-store' });
+    if (response.status === 404) return null;
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.job) {
+        throw new Error(data.error || '解析ジョブの状態を取得できませんでした。');
+    }
+    return data.job;
+}
+
+/** 解析ジョブを取り消す（終わったジョブは一覧から削除するだけ） */
+export async function deleteAnalysisJob(jobId: string): Promise<void> {
+    const response = await fetch(`/api/analysis-jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '解析ジョブを削除できませんでした。');
+    }
+}
+
+export interface ExtractStepsOptions {
+    sectionId: string;
+    videoIndex: number;
+    onProgress?: (ratio: number, message: string) => void;
+}
+
+/** AI の解析結果のタイムスタンプから、元動画の高画質フレームを切り出して手順にする */
+export async function extractStepsFromVideo(videoFile: File, analysis: AnalysisResult, options: ExtractStepsOptions): Promise<VideoAnalysisResult> {
+    const { sectionId, videoIndex, onProgress } = options;
+    // 手順・注意事項はサーバー側で検証済み（utils/ai/stepSchema.ts）
+    const validSteps = analysis.steps;
+    const notes = analysis.notes;
+    console.log(`✅ [Video ${videoIndex + 1}] Analysis complete:`, validSteps.length, 'steps');
+
+    // STAGE 2: Parallel Extract Frames using high-res Original videoFile
+    const processedSteps: (ManualStep | undefined)[] = [];
+    let completedScreenshots = 0;
+
+    for (let i = 0; i < validSteps.length; i += FRAME_CONCURRENCY) {
+        const batch = validSteps.slice(i, i + FRAME_CONCURRENCY);
+
+        await Promise.all(batch.map(async (step, batchIndex) => {
+            try {
+                // Extract high-res frame from original file! (Zero quality loss)
+                const frameData = await extractFrameAtTimestamp(videoFile, step.timestamp);
+
+                // Smart Automatic Zoom is disabled to ensure consistency with Edit Mode
+                // The user requested that the full uncropped image (seen in Edit) is used everywhere
+                // 元画像と表示画像は同一なので、Blobとして1回だけ保存して両方から参照する
+                const imageId = await putImage(frameData);
+
+                // Calculate step number based on the current video's original sorted array index
+                const originalIndex = i + batchIndex;
+
+                const processed: ManualStep = {
+                    stepNumber: originalIndex + 1,
+                    kind: step.kind,
+                    action: step.action,
+                    detail: step.reason || step.detail || step.action,
+                    timestamp: step.timestamp,
+                    box_2d: step.box_2d,
+                    label: step.label,
+                    screenshotId: imageId,
+                    originalId: imageId,
+                    uid: Math.random().toString(36).substring(2, 11),
+                    sectionId,
+                    videoIndex,
+                };
+                processedSteps[originalIndex] = processed;
+            } catch (err) {
+                console.error(`Frame extraction failed for timestamp ${step.timestamp}:`, err);
+            } finally {
+                completedScreenshots++;
+                onProgress?.(completedScreenshots / validSteps.length, `高画質画像切り出し中... (${completedScreenshots}/${validSteps.length})`);
+            }
+        }));
+    }
+
+    // Push all successfully processed steps in correct sequence
+    const steps = processedSteps.filter((step): step is ManualStep => step !== undefined);
+    return { steps, notes };
+}
+
+/** 1本分をまとめて実行する（プロキシ作成 → ジョブ登録 → 完了待ち → フレーム切り出し） */
+export async function analyzeVideoToSteps(videoFile: File, options: AnalyzeVideoOptions): Promise<VideoAnalysisResult> {
+    const { sectionId, videoIndex, language, profile, onPhase, onProgress } = options;
+
+    onPhase?.('proxy', `動画「${videoFile.name}」の軽量AI送信用データを作成中... (画質維持の高速化)`);
+    const jobId = await submitAnalysisJob(videoFile, {
+        language,
+        profile,
+        onProgress: (phase, ratio, message) => {
+            if (phase === 'proxy') onProgress?.('proxy', ratio, message);
+        },
+    });
+
+    onPhase?.('analyzing', `動画「${videoFile.name}」をAI解析中... (API通信)`);
+    const analysis = await waitForAnalysisJob(jobId, videoFile.name, (ratio, message) => onProgress?.('analyzing', ratio, message));
+    // 結果は受け取ったので、サーバー側のジョブは片付ける
+    deleteAnalysisJob(jobId).catch(e => console.warn('[videoAnalysis] Failed to delete finished job:', e));
+
+    onPhase?.('frames', 'オリジナル高画質動画から画像を切り出し中... (並列処理)');
+    return extractStepsFromVideo(videoFile, analysis, {
+        sectionId,
+        videoIndex,
+        onProgress: (ratio, message) => onProgress?.('frames', ratio, message),
+    });
+}
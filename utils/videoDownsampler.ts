@@ -1,19 +1,41 @@
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { planSegments, TimeWindow } from '@/utils/videoSegments';
 
-export async function createProxyVideo(
+/** 区間1つ分の AI 送信用プロキシ（時刻は元動画での位置） */
+export interface ProxySegment extends TimeWindow {
+    file: File;
+}
+
+// 区間ごとのエンコーダー（区間の最初のフレームで作り、区間を過ぎたら閉じる）
+interface SegmentEncoder {
+    window: TimeWindow;
+    firstFrame: number;
+    muxer: Muxer<ArrayBufferTarget>;
+    encoder: VideoEncoder;
+}
+
+/**
+ * AI 送信用の軽量プロキシを作る。
+ * 長い動画は少しずつ重なる区間ごとに分ける（utils/videoSegments.ts の planSegments）。元動画は1回だけ頭から読み、
+ * 各区間のエンコーダーへフレームを振り分ける（重なり部分は両方に入れる）。
+ * 短い動画は1区間、WebCodecs 非対応・エンコード失敗時は元動画そのものを1区間として返す。
+ */
+export async function createProxySegments(
     file: File,
     onProgress?: (progress: number) => void
-): Promise<File> {
+): Promise<ProxySegment[]> {
+    const original = (durationSeconds = 0): ProxySegment[] => [{ file, startSeconds: 0, endSeconds: durationSeconds }];
+
     // 1. Basic WebCodecs Support Check
     if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
         console.warn('WebCodecs API not supported. Falling back to original video upload.');
-        return file;
+        return original();
     }
 
     return new Promise((resolve) => {
         let errorOccurred = false;
 
-        const cleanupAndResolve = (result: File) => {
+        const cleanupAndResolve = (result: ProxySegment[]) => {
             if (errorOccurred) return; // Already resolved
             errorOccurred = true;
             resolve(result);
@@ -28,8 +50,10 @@ export async function createProxyVideo(
             if (errorOccurred) return;
             const duration = video.duration;
             if (!duration || !isFinite(duration) || duration === 0) {
-                return cleanupAndResolve(file);
+                return cleanupAndResolve(original());
             }
+            const fallback = () => cleanupAndResolve(original(duration));
+            const windows = planSegments(duration);
 
             // Target max 720p resolution for AI proxy
             let { videoWidth: w, videoHeight: h } = video;
@@ -56,42 +80,55 @@ export async function createProxyVideo(
             canvas.width = w;
             canvas.height = h;
             const ctx = canvas.getContext('2d', { willReadFrequently: true });
-            if (!ctx) return cleanupAndResolve(file);
+            if (!ctx) return fallback();
 
-            let muxer: Muxer<ArrayBufferTarget>;
-            let videoEncoder: VideoEncoder;
+            const originalNameNoExt = file.name.substring(0, file.name.lastIndexOf('.')) || 'proxy';
+            const segments: ProxySegment[] = [];
+            const active: SegmentEncoder[] = [];
+            let nextWindow = 0;
 
-            try {
-                muxer = new Muxer({
+            const openSegment = (window: TimeWindow, firstFrame: number): SegmentEncoder => {
+                const muxer = new Muxer({
                     target: new ArrayBufferTarget(),
                     video: { codec: 'avc', width: w, height: h },
                     fastStart: 'in-memory',
                     firstTimestampBehavior: 'offset' // Strict 0-start timestamps
                 });
 
-                videoEncoder = new VideoEncoder({
+                const encoder = new VideoEncoder({
                     output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
                     error: (e) => {
                         console.error('VideoEncoder error:', e);
-                        cleanupAndResolve(file);
+                        fallback();
                     }
                 });
 
-                videoEncoder.configure({
+                encoder.configure({
                     codec: 'avc1.42E01F', // H.264 Baseline Profile Level 3.1 (supports up to 1280x720)
                     width: w,
                     height: h,
                     bitrate: 1_000_000,   // ~1 Mbps target bitrate (very high compression)
                     framerate: fps,
                 });
-            } catch (e) {
-                console.warn('WebCodecs configuration failed, falling back:', e);
-                return cleanupAndResolve(file);
-            }
+                return { window, firstFrame, muxer, encoder };
+            };
+
+            const closeSegment = async (segment: SegmentEncoder) => {
+                await segment.encoder.flush();
+                segment.encoder.close();
+                segment.muxer.finalize();
+                const buffer = segment.muxer.target.buffer;
+                // Provide original extension if possible or default to mp4
+                const suffix = windows.length > 1 ? `_part${segments.length + 1}` : '';
+                segments.push({
+                    ...segment.window,
+                    file: new File([buffer], `proxy_${originalNameNoExt}${suffix}.mp4`, { type: 'video/mp4' }),
+                });
+            };
 
             let currentFrame = 0;
 
-            const processNextFrame = () => {
+            const processNextFrame = async () => {
                 if (errorOccurred) return;
 
                 if (currentFrame > totalFrames) {
@@ -101,6 +138,20 @@ export async function createProxyVideo(
 
                 const targetTime = currentFrame / fps;
 
+                // 区間の出入り（区間は開始時刻順なので、閉じる順も開始順になる。最後の区間は末尾まで開けておく）
+                try {
+                    while (active.length > 0 && targetTime >= active[0].window.endSeconds && active[0].window !== windows[windows.length - 1]) {
+                        await closeSegment(active.shift()!);
+                    }
+                    while (nextWindow < windows.length && targetTime >= windows[nextWindow].startSeconds) {
+                        active.push(openSegment(windows[nextWindow], currentFrame));
+                        nextWindow++;
+                    }
+                } catch (e) {
+                    console.warn('WebCodecs configuration failed, falling back:', e);
+                    return fallback();
+                }
+
                 const onSeeked = () => {
                     video.removeEventListener('seeked', onSeeked);
                     clearTimeout(timeoutId);
@@ -109,14 +160,18 @@ export async function createProxyVideo(
 
                     try {
                         ctx.drawImage(video, 0, 0, w, h);
-                        const timestampUs = Math.round((currentFrame * 1_000_000) / fps);
 
-                        const frame = new VideoFrame(canvas, { timestamp: timestampUs });
+                        for (const segment of active) {
+                            const localFrame = currentFrame - segment.firstFrame;
+                            const timestampUs = Math.round((localFrame * 1_000_000) / fps);
 
-                        // Force a keyframe every 2 seconds
-                        const keyFrame = currentFrame % (fps * 2) === 0;
-                        videoEncoder.encode(frame, { keyFrame });
-                        frame.close();
+                            const frame = new VideoFrame(canvas, { timestamp: timestampUs });
+
+                            // Force a keyframe every 2 seconds
+                            const keyFrame = localFrame % (fps * 2) === 0;
+                            segment.encoder.encode(frame, { keyFrame });
+                            frame.close();
+                        }
 
                         if (onProgress) onProgress(currentFrame / totalFrames);
 
@@ -125,7 +180,7 @@ export async function createProxyVideo(
                         setTimeout(processNextFrame, 0);
                     } catch (e) {
                         console.error('Frame processing error:', e);
-                        cleanupAndResolve(file);
+                        fallback();
                     }
                 };
 
@@ -144,24 +199,20 @@ export async function createProxyVideo(
 
             const finishEncoding = async () => {
                 try {
-                    await videoEncoder.flush();
-                    videoEncoder.close();
-                    muxer.finalize();
-                    const buffer = muxer.target.buffer;
-                    // Provide original extension if possible or default to mp4
-                    const originalNameNoExt = file.name.substring(0, file.name.lastIndexOf('.')) || 'proxy';
-                    const proxyFile = new File([buffer], `proxy_${originalNameNoExt}.mp4`, { type: 'video/mp4' });
+                    while (active.length > 0) {
+                        await closeSegment(active.shift()!);
+                    }
                     URL.revokeObjectURL(video.src);
-                    cleanupAndResolve(proxyFile);
+                    cleanupAndResolve(segments);
                 } catch (e) {
                     console.error('Finalization error:', e);
-                    cleanupAndResolve(file);
+                    fallback();
                 }
             };
 
             processNextFrame();
         };
 
-        video.onerror = () => cleanupAndResolve(file);
+        video.onerror = () => cleanupAndResolve(original());
     });
 }
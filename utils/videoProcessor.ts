@@ -4,11 +4,49 @@
  * This allows text to remain editable when copied to Word
  */
 
+import { OutputLanguage } from '@/app/page';
+
 export interface VideoFrame {
     timestamp: string;
     imageData: string; // base64
 }
 
+/**
+ * Parse timestamp (format: "0:05" or "1:23" or "00:01:23", fractional seconds allowed)
+ */
+export function parseTimestamp(ts: string): number {
+    const parts = ts.split(':').map(Number);
+    if (parts.length === 2) {
+        return parts[0] * 60 + parts[1];
+    } else if (parts.length === 3) {
+        return parts[0] * 3600 + parts[1] * 60 + parts[2];
+    }
+    return 0;
+}
+
+/**
+ * 秒数を "m:ss.s" 形式のタイムスタンプにする（parseTimestamp の逆）
+ */
+export function formatTimestamp(seconds: number): string {
+    const safe = Math.max(0, seconds);
+    const minutes = Math.floor(safe / 60);
+    const rest = (safe - minutes * 60).toFixed(1).padStart(4, '0');
+    return `${minutes}:${rest}`;
+}
+
+/**
+ * 再生中・一時停止中の <video> に表示されているフレームを元解像度の PNG で取り出す
+ */
+export function captureVideoFrame(video: HTMLVideoElement): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+}
+
 /**
  * Extract frame from video at specific timestamp
  * 抽出時の画質を最高設定(1.0)に変更
@@ -34,17 +72,6 @@ export async function extractFrameAtTimestamp(
         const url = URL.createObjectURL(videoFile);
         video.src = url;
 
-        // Parse timestamp (format: "0:05" or "1:23" or "00:01:23")
-        const parseTimestamp = (ts: string): number => {
-            const parts = ts.split(':').map(Number);
-            if (parts.length === 2) {
-                return parts[0] * 60 + parts[1];
-            } else if (parts.length === 3) {
-                return parts[0] * 3600 + parts[1] * 60 + parts[2];
-            }
-            return 0;
-        };
-
         // Pre-action capture: minimal offset (0.3s) just for keyframe alignment
         // We want the frame showing the screen BEFORE the action is performed
         const targetTime = parseTimestamp(timestampStr) + 0.3;
@@ -231,10 +258,12 @@ export function drawBoundingBox(
  * Sends the image to Gemini and gets precise box_2d coordinates
  * @param imageDataUrl - Base64 data URL of the image
  * @param action - Optional action description to help Gemini find the correct element
+ * @param language - Output language of the returned label (defaults to Japanese)
  */
 export async function detectCoordinatesFromImage(
     imageDataUrl: string,
-    action?: string
+    action?: string,
+    language?: OutputLanguage
 ): Promise<{ box_2d: number[]; label: string } | null> {
     try {
         // Extract base64 data from data URL
@@ -245,7 +274,7 @@ export async function detectCoordinatesFromImage(
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify({ imageData: base64Data, action }),
+            body: JSON.stringify({ imageData: base64Data, action, language }),
         });
 
         if (!response.ok) {
@@ -0,0 +1,113 @@
+import { formatTimestamp, parseTimestamp } from '@/utils/videoProcessor';
+
+/**
+ * 長い動画の区間分割（セグメント解析）。
+ *
+ * 長い録画を1回のプロンプトで解析すると、時間切れになったり手順が大きく間引かれたりするため、
+ * 一定より長い動画は少しずつ重なる区間に分けて別々に解析し、結果を1本分の手順にまとめ直す。
+ * 区間の計画はプロキシ作成（ブラウザ）、まとめ直しは解析ジョブ（サーバー）で使う。
+ */
+
+export interface TimeWindow {
+    startSeconds: number;
+    endSeconds: number;
+}
+
+// これより長い動画は区間に分けて解析する
+export const SEGMENT_THRESHOLD_SECONDS = 10 * 60;
+// 1区間の長さの目安（実際は全区間が同じ長さになるよう調整する）
+const SEGMENT_TARGET_SECONDS = 5 * 60;
+// 区間の境目にかかる操作を取りこぼさないための重なり
+export const SEGMENT_OVERLAP_SECONDS = 15;
+// 境目の前後で同じ操作とみなす action の類似度（文字 bigram の Dice 係数）
+const DUPLICATE_ACTION_SIMILARITY = 0.6;
+
+/** 動画の長さから解析する区間を決める（短い動画は全体で1区間） */
+export function planSegments(durationSeconds: number): TimeWindow[] {
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= SEGMENT_THRESHOLD_SECONDS) {
+        return [{ startSeconds: 0, endSeconds: durationSeconds }];
+    }
+    const stride = SEGMENT_TARGET_SECONDS - SEGMENT_OVERLAP_SECONDS;
+    const count = Math.ceil((durationSeconds - SEGMENT_OVERLAP_SECONDS) / stride);
+    // 最後の区間だけ極端に短くならないよう、全区間を同じ長さにそろえる
+    const length = (durationSeconds + (count - 1) * SEGMENT_OVERLAP_SECONDS) / count;
+    return Array.from({ length: count }, (_, i) => {
+        const startSeconds = i * (length - SEGMENT_OVERLAP_SECONDS);
+        return { startSeconds, endSeconds: i === count - 1 ? durationSeconds : startSeconds + length };
+    });
+}
+
+/** 区間の動画内のタイムスタンプを、元動画全体のタイムスタンプにする */
+export function offsetTimestamp(timestamp: string, offsetSeconds: number): string {
+    return offsetSeconds === 0 ? timestamp : formatTimestamp(parseTimestamp(timestamp) + offsetSeconds);
+}
+
+const normalizeForComparison = (text: string): string =>
+    text.toLowerCase().replace(/[\s、。，．,.!?！？「」『』"'“”‘’()（）[\]【】]/g, '');
+
+function bigrams(text: string): string[] {
+    if (text.length < 2) return [text];
+    return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+}
+
+/** 2つの action がほぼ同じ操作を表しているか */
+function isSimilarAction(a: string, b: string): boolean {
+    const left = normalizeForComparison(a);
+    const right = normalizeForComparison(b);
+    if (left === right) return true;
+    const leftGrams = bigrams(left);
+    const rightGrams = bigrams(right);
+    const remaining = [...rightGrams];
+    let shared = 0;
+    for (const gram of leftGrams) {
+        const index = remaining.indexOf(gram);
+        if (index !== -1) {
+            shared++;
+            remaining.splice(index, 1);
+        }
+    }
+    return (2 * shared) / (leftGrams.length + rightGrams.length) >= DUPLICATE_ACTION_SIMILARITY;
+}
+
+export interface SegmentSteps<T> {
+    window: TimeWindow;
+    steps: T[]; // タイムスタンプは offsetTimestamp で元動画全体の時刻にしたもの
+}
+
+/**
+ * 区間ごとの手順を1本分にまとめる。
+ * 重なり部分は両方の区間に同じ操作が出るため、重なりの中央で受け持ちを切り替え、
+ * それでも境目の前後に残った同じ操作（タイムスタンプが近く action が似ているもの）は後の方を落とす。
+ */
+export function mergeSegmentSteps<T extends { timestamp: string; action: string }>(segments: SegmentSteps<T>[]): { steps: T[]; dropped: number } {
+    const merged: { step: T; seconds: number; segment: number }[] = [];
+    let dropped = 0;
+
+    segments.forEach((segment, i) => {
+        const prev = segments[i - 1];
+        const next = segments[i + 1];
+        const from = prev ? (segment.window.startSeconds + prev.window.endSeconds) / 2 : -Infinity;
+        const to = next ? (next.window.startSeconds + segment.window.endSeconds) / 2 : Infinity;
+
+        for (const step of segment.steps) {
+            const seconds = parseTimestamp(step.timestamp);
+            if (seconds < from || seconds >= to) {
+                dropped++; // 隣の区間の受け持ち
+                continue;
+            }
+            // 重複とみなすのは前の区間から採った手順とだけ（同じ区間内で続けて同じ操作をするのは正当な繰り返し）
+            const nearBoundary = seconds - from < SEGMENT_OVERLAP_SECONDS;
+            const duplicate = nearBoundary && merged.some(m =>
+                m.segment === i - 1 && Math.abs(m.seconds - seconds) <= SEGMENT_OVERLAP_SECONDS && isSimilarAction(m.step.action, step.action)
+            );
+            if (duplicate) {
+                dropped++;
+                continue;
+            }
+            merged.push({ step, seconds, segment: i });
+        }
+    });
+
+    merged.sort((a, b) => a.seconds - b.seconds);
+    return { steps: merged.map(m => m.step), dropped };
+}
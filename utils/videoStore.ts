@@ -0,0 +1,126 @@
+import { ManualData } from '@/app/page';
+import { db, createVideoId } from '@/utils/db';
+import { loadPendingGeneration } from '@/utils/pendingGeneration';
+
+/**
+ * 元動画ストア（Dexie の videos テーブル）。
+ *
+ * 画像と同じく ManualData 側はID（ManualSection.sourceVideo.videoId）だけを持ち、
+ * 動画本体はここで管理する。リロード後もフレームの選び直し・ステップの挿入・再解析ができる。
+ * 複製したマニュアルとは同じ動画を共有し、どのマニュアルからも参照されなくなった時点で削除する。
+ */
+
+export interface StorageUsage {
+    usage?: number; // ブラウザが報告するオリジン全体の使用量（bytes、取得できない環境では undefined）
+    quota?: number;
+    videoBytes: number;
+    imageBytes: number;
+    manuals: { id: string; title: string; videoBytes: number; videoCount: number }[];
+}
+
+/** 動画を保存して新しいIDを返す */
+export async function putSourceVideo(file: File): Promise<string> {
+    const id = createVideoId();
+    await db.videos.add({ id, name: file.name, type: file.type, size: file.size, blob: file, createdAt: Date.now() });
+    return id;
+}
+
+/** 保存済みの動画を File として返す（削除済みなら null） */
+export async function getSourceVideoFile(id: string): Promise<File | null> {
+    const record = await db.videos.get(id);
+    if (!record) return null;
+    return new File([record.blob], record.name, { type: record.type });
+}
+
+/** 指定したIDのうち、実際に保存されている動画のIDを返す */
+export async function findStoredVideoIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const keys = await db.videos.where('id').anyOf(ids).primaryKeys();
+    return new Set(keys.map(String));
+}
+
+export function collectManualVideoIds(data: ManualData, into: Set<string> = new Set()): Set<string> {
+    (data.sections || []).forEach(section => {
+        if (section.sourceVideo?.videoId) into.add(section.sourceVideo.videoId);
+    });
+    return into;
+}
+
+/**
+ * どのマニュアルからも参照されていない動画を削除する（リビジョンの参照は保持の理由にしない）。
+ * 生成途中（解析ジョブの完了待ち）でまだマニュアルになっていない動画は残す。
+ */
+export async function pruneUnreferencedVideos(): Promise<number> {
+    const pending = loadPendingGeneration();
+    return db.transaction('rw', db.manuals, db.videos, async () => {
+        const referenced = new Set<string>();
+        pending?.videos.forEach(video => { if (video.videoId) referenced.add(video.videoId); });
+        await db.manuals.each(record => { collectManualVideoIds(record.data, referenced); });
+        const allIds = await db.videos.toCollection().primaryKeys();
+        const orphans = allIds.filter(id => !referenced.has(id as string));
+        await db.videos.bulkDelete(orphans);
+        return orphans.length;
+    });
+}
+
+/** マニュアルから元動画への参照を外し、他から参照されていなければ動画本体も削除する */
+export async function dropSourceVideos(manualId: string): Promise<void> {
+    await db.transaction('rw', db.manuals, async () => {
+        const record = await db.manuals.get(manualId);
+        if (!record) return;
+        const sections = record.data.sections.map(section => {
+            if (!section.sourceVideo?.videoId) return section;
+            const { videoId, ...sourceVideo } = section.sourceVideo;
+            return { ...section, sourceVideo };
+        });
+        await db.manuals.put({ ...record, data: { ...record.data, sections } });
+    });
+    await pruneUnreferencedVideos();
+}
+
+/** ストレージ使用量の内訳（元動画はマニュアルごと。共有している動画は各マニュアルに計上する） */
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const videoSizes = new Map<string, number>();
+    await db.videos.each(record => { videoSizes.set(record.id, record.size); });
+
+    let imageBytes = 0;
+    await db.images.each(record => { imageBytes += record.blob.size; });
+
+    const manuals: StorageUsage['manuals'] = [];
+    await db.manuals.each(record => {
+        const ids = Array.from(collectManualVideoIds(record.data)).filter(id => videoSizes.has(id));
+        if (ids.length === 0) return;
+        manuals.push({
+            id: record.id,
+            title: record.data.title,
+            videoCount: ids.length,
+            videoBytes: ids.reduce((sum, id) => sum + (videoSizes.get(id) || 0), 0),
+        });
+    });
+    manuals.sort((a, b) => b.videoBytes - a.videoBytes);
+
+    let usage: number | undefined;
+    let quota: number | undefined;
+    try {
+        const estimate = await navigator.storage?.estimate();
+        usage = estimate?.usage;
+        quota = estimate?.quota;
+    } catch (e) {
+        console.warn('[videoStore] Storage estimate unavailable:', e);
+    }
+
+    return {
+        usage,
+        quota,
+        videoBytes: Array.from(videoSizes.values()).reduce((a, b) => a + b, 0),
+        imageBytes,
+        manuals,
+    };
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}